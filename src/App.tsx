@@ -5,6 +5,7 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AppProvider, useApp } from "@/contexts/AppContext";
 import { DeveloperModeProvider } from "@/contexts/DeveloperModeContext";
+import { SageSyncProvider } from "@/contexts/SageSyncContext";
 import Login from "./pages/Login";
 import Dashboard from "./pages/Dashboard";
 import Admin from "./pages/Admin";
@@ -12,6 +13,8 @@ import Tenants from "./pages/Tenants";
 import BankAccounts from "./pages/BankAccounts";
 import FinancialYears from "./pages/FinancialYears";
 import Transactions from "./pages/Transactions";
+import Approvals from "./pages/Approvals";
+import Reconciliation from "./pages/Reconciliation";
 import Reports from "./pages/Reports";
 import NetworkConsole from "./pages/NetworkConsole";
 import NotFound from "./pages/NotFound";
@@ -85,6 +88,22 @@ function AppRoutes() {
           </ProtectedRoute>
         } 
       />
+      <Route 
+        path="/approvals" 
+        element={
+          <ProtectedRoute>
+            <Approvals />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/reconciliation" 
+        element={
+          <ProtectedRoute>
+            <Reconciliation />
+          </ProtectedRoute>
+        } 
+      />
       <Route 
         path="/reports" 
         element={
@@ -113,9 +132,11 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <AppProvider>
-          <DeveloperModeProvider>
-            <AppRoutes />
-          </DeveloperModeProvider>
+          <SageSyncProvider>
+            <DeveloperModeProvider>
+              <AppRoutes />
+            </DeveloperModeProvider>
+          </SageSyncProvider>
         </AppProvider>
       </BrowserRouter>
     </TooltipProvider>
@@ -0,0 +1,344 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ArrowDown,
+  ArrowUp,
+  Download,
+  FlaskConical,
+  Loader2,
+  Pencil,
+  Plus,
+  RefreshCw,
+  Trash2,
+  Upload,
+  Wand2,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { useApp } from '@/contexts/AppContext';
+import { useToast } from '@/hooks/use-toast';
+import { ledgerService } from '@/services/ledgerService';
+import { dimensionService } from '@/services/dimensionService';
+import { cn } from '@/lib/utils';
+import { formatCurrency } from '@/lib/currency';
+import { createRule, exportRules, importRules, testRules } from '@/lib/categorisationRules';
+import { CategorisationRule, SageDimensionTag } from '@/types/sage';
+import { LedgerAccountOption, RuleEditorDialog } from './RuleEditorDialog';
+
+// Recorded transactions the rules are tried against
+const SAMPLE_SIZE = 20;
+
+function describeConditions(rule: CategorisationRule): string {
+  const c = rule.conditions;
+  const parts: string[] = [];
+  if (c.descriptionContains) parts.push(`description contains "${c.descriptionContains}"`);
+  if (c.descriptionRegex) parts.push(`description matches /${c.descriptionRegex}/`);
+  if (c.referencePrefix) parts.push(`reference starts "${c.referencePrefix}"`);
+  if (c.type) parts.push(`${c.type}s only`);
+  if (c.minAmount !== undefined && c.maxAmount !== undefined) parts.push(`${c.minAmount}–${c.maxAmount}`);
+  else if (c.minAmount !== undefined) parts.push(`${c.minAmount} or more`);
+  else if (c.maxAmount !== undefined) parts.push(`up to ${c.maxAmount}`);
+  return parts.join(', ');
+}
+
+function describeActions(rule: CategorisationRule): string {
+  const a = rule.actions;
+  const parts: string[] = [];
+  if (a.category) parts.push(a.category);
+  if (a.ledgerAccount) parts.push(`${a.ledgerAccount.code} ${a.ledgerAccount.name}`);
+  Object.entries(a.dimensionSelections || {}).forEach(([code, tag]) => parts.push(`${code}: ${tag}`));
+  return parts.join(' · ');
+}
+
+export function CategorisationRulesSection() {
+  const {
+    credentials,
+    activeTenantId,
+    transactions,
+    requiredDimensions,
+    categoryMappings,
+    categorisationRules,
+    setTenantCategorisationRules,
+  } = useApp();
+  const { toast } = useToast();
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [ledgerAccounts, setLedgerAccounts] = useState<LedgerAccountOption[]>([]);
+  const [dimensionTags, setDimensionTags] = useState<Record<string, SageDimensionTag[]>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [editingRule, setEditingRule] = useState<CategorisationRule | null>(null);
+  const [showTest, setShowTest] = useState(false);
+
+  const tenantRules = categorisationRules.filter(r => r.tenantId === activeTenantId);
+  const sample = useMemo(
+    () => transactions
+      .filter(t => t.tenantId === activeTenantId)
+      .slice(-SAMPLE_SIZE)
+      .reverse(),
+    [transactions, activeTenantId]
+  );
+
+  // Ledger accounts and tags belong to a tenant
+  useEffect(() => {
+    setLedgerAccounts([]);
+    setDimensionTags({});
+    setShowTest(false);
+  }, [activeTenantId]);
+
+  // Until accounts are loaded, the ones already in use still show
+  const accountOptions: LedgerAccountOption[] = ledgerAccounts.length > 0
+    ? ledgerAccounts
+    : [
+        ...tenantRules.map(r => r.actions.ledgerAccount).filter(Boolean).map(a => ({ Id: a!.id, Code: a!.code, Name: a!.name })),
+        ...categoryMappings
+          .filter(m => m.tenantId === activeTenantId)
+          .map(m => ({ Id: m.ledgerAccountId, Code: m.ledgerAccountCode, Name: m.ledgerAccountName })),
+      ].filter((a, i, all) => all.findIndex(o => o.Id === a.Id) === i);
+
+  const handleLoad = async () => {
+    if (!activeTenantId || !credentials) return;
+
+    setIsLoading(true);
+    try {
+      const [accounts, tagLists] = await Promise.all([
+        ledgerService.getLedgerAccounts(activeTenantId, credentials),
+        Promise.all(requiredDimensions.map(dim => dimensionService.getDimensionTags(activeTenantId, dim.id, credentials))),
+      ]);
+      setLedgerAccounts(accounts.filter(a => a.IsActive));
+      setDimensionTags(Object.fromEntries(
+        requiredDimensions.map((dim, i) => [dim.code, (tagLists[i] || []).filter(t => t.IsActive)])
+      ));
+      toast({
+        title: "Ledger accounts and tags loaded",
+        description: `Found ${accounts.filter(a => a.IsActive).length} active ledger accounts.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Failed to load ledger accounts",
+        description: error instanceof Error ? error.message : "Could not fetch ledger accounts or dimension tags.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const saveRules = (rules: CategorisationRule[]) => {
+    if (activeTenantId) setTenantCategorisationRules(activeTenantId, rules);
+  };
+
+  const handleSaveRule = (rule: CategorisationRule) => {
+    const exists = tenantRules.some(r => r.id === rule.id);
+    saveRules(exists ? tenantRules.map(r => (r.id === rule.id ? rule : r)) : [...tenantRules, rule]);
+    toast({ title: exists ? "Rule updated" : "Rule added", description: rule.name });
+  };
+
+  const handleMove = (index: number, offset: -1 | 1) => {
+    const rules = [...tenantRules];
+    [rules[index], rules[index + offset]] = [rules[index + offset], rules[index]];
+    saveRules(rules);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportRules(tenantRules)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `categorisation-rules-${activeTenantId}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !activeTenantId || !credentials) return;
+
+    const reader = new FileReader();
+    reader.onload = async (e) => {
+      try {
+        // Ledger accounts in the file are matched to this tenant's by code or name
+        const accounts = ledgerAccounts.length > 0
+          ? ledgerAccounts
+          : await ledgerService.getLedgerAccounts(activeTenantId, credentials);
+        const { rules: imported, unmatchedLedgerAccounts } = importRules(
+          e.target?.result as string,
+          activeTenantId,
+          accounts
+        );
+        saveRules([...tenantRules, ...imported]);
+        toast({
+          title: "Rules imported",
+          description: unmatchedLedgerAccounts.length > 0
+            ? `${imported.length} rule(s) added. This tenant has no ledger account ${unmatchedLedgerAccounts.join(', ')}, so rules using it were added disabled and without it.`
+            : `${imported.length} rule(s) added after the existing ${tenantRules.length}.`,
+        });
+      } catch (error) {
+        toast({
+          title: "Rules not imported",
+          description: error instanceof Error ? error.message : "Could not read the file.",
+          variant: "destructive",
+        });
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const testResults = showTest ? testRules(tenantRules, sample) : [];
+
+  return (
+    <div className="form-section mt-8">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+            <Wand2 className="w-5 h-5 text-primary" />
+          </div>
+          <div>
+            <h2 className="section-title">Categorisation Rules</h2>
+            <p className="section-description">
+              Fill in category, ledger account and dimension tags on imported rows. The first matching rule wins.
+            </p>
+          </div>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={handleLoad}
+          disabled={isLoading || !activeTenantId || !credentials}
+        >
+          {isLoading ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <RefreshCw className="w-4 h-4 mr-2" />
+          )}
+          Load Accounts &amp; Tags
+        </Button>
+      </div>
+
+      {!activeTenantId ? (
+        <p className="text-sm text-muted-foreground">Select a tenant first to set up rules.</p>
+      ) : (
+        <div className="space-y-3">
+          {tenantRules.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No rules yet. Imported rows keep the category from the file.
+            </p>
+          )}
+
+          {tenantRules.map((rule, index) => (
+            <div
+              key={rule.id}
+              className={cn("flex items-center gap-3 p-3 bg-muted rounded-lg", !rule.enabled && "opacity-60")}
+            >
+              <span className="w-6 text-sm text-muted-foreground">{index + 1}.</span>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-foreground truncate">{rule.name}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  If {describeConditions(rule)} → {describeActions(rule)}
+                </p>
+              </div>
+              <Switch
+                checked={rule.enabled}
+                onCheckedChange={(enabled) => saveRules(tenantRules.map(r => (r.id === rule.id ? { ...r, enabled } : r)))}
+              />
+              <Button type="button" variant="ghost" size="sm" onClick={() => handleMove(index, -1)} disabled={index === 0}>
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => handleMove(index, 1)}
+                disabled={index === tenantRules.length - 1}
+              >
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+              <Button type="button" variant="ghost" size="sm" onClick={() => setEditingRule(rule)}>
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => saveRules(tenantRules.filter(r => r.id !== rule.id))}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={() => setEditingRule(createRule(activeTenantId))}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Rule
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setShowTest(prev => !prev)}
+              disabled={tenantRules.length === 0}
+            >
+              <FlaskConical className="w-4 h-4 mr-2" />
+              {showTest ? 'Hide Test' : 'Test Rules'}
+            </Button>
+            <div className="flex items-center gap-2 ml-auto">
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".json,application/json"
+                onChange={handleImport}
+                className="hidden"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => importInputRef.current?.click()}
+                disabled={!credentials}
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                Import
+              </Button>
+              <Button type="button" variant="outline" size="sm" onClick={handleExport} disabled={tenantRules.length === 0}>
+                <Download className="w-4 h-4 mr-2" />
+                Export
+              </Button>
+            </div>
+          </div>
+
+          {showTest && (
+            <div className="border border-border rounded-lg p-3 space-y-2">
+              <p className="text-sm text-muted-foreground">
+                {sample.length === 0
+                  ? 'No recorded transactions to test against yet.'
+                  : `${testResults.filter(r => r.rule).length} of the last ${sample.length} recorded transaction(s) match a rule`}
+              </p>
+              {testResults.map(({ transaction, rule }) => (
+                <div key={transaction.id} className="flex items-center gap-3 text-xs">
+                  <span className="w-20 text-muted-foreground">{transaction.date}</span>
+                  <span className="flex-1 truncate">{transaction.description || transaction.reference}</span>
+                  <span className="font-mono">
+                    {transaction.type === 'receipt' ? '+' : '-'}{formatCurrency(transaction.amount, transaction.currency)}
+                  </span>
+                  <span className={cn("w-40 truncate text-right", rule ? "text-foreground" : "text-muted-foreground")}>
+                    {rule ? rule.name : 'No rule'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <RuleEditorDialog
+        rule={editingRule}
+        ledgerAccounts={accountOptions}
+        requiredDimensions={requiredDimensions}
+        dimensionTags={dimensionTags}
+        sample={sample}
+        onSave={handleSaveRule}
+        onClose={() => setEditingRule(null)}
+      />
+    </div>
+  );
+}
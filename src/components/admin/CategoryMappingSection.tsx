@@ -0,0 +1,290 @@
+import { useEffect, useState } from 'react';
+import { BookOpen, Loader2, Plus, RefreshCw, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useApp } from '@/contexts/AppContext';
+import { useToast } from '@/hooks/use-toast';
+import { ledgerService } from '@/services/ledgerService';
+import { taxService } from '@/services/taxService';
+import { configManager } from '@/lib/configManager';
+import { FALLBACK_CATEGORY, getKnownCategories, normaliseCategory } from '@/lib/ledgerMapping';
+import { VAT_ROUNDING_OPTIONS, VatRounding } from '@/lib/vat';
+import { CategoryLedgerMapping, SageLedgerAccount, SageTaxRate } from '@/types/sage';
+
+interface DraftMapping {
+  category: string;
+  ledgerAccountId: string;
+  taxCode: string;
+}
+
+// Select items can't have an empty value
+const NO_TAX_CODE = 'none';
+
+export function CategoryMappingSection() {
+  const { credentials, activeTenantId, transactions, categoryMappings, setTenantCategoryMappings } = useApp();
+  const { toast } = useToast();
+  const [ledgerAccounts, setLedgerAccounts] = useState<SageLedgerAccount[]>([]);
+  const [taxRates, setTaxRates] = useState<SageTaxRate[]>([]);
+  const [vatRounding, setVatRounding] = useState<VatRounding>(configManager.getVatRounding());
+  const [isLoading, setIsLoading] = useState(false);
+  const [draft, setDraft] = useState<DraftMapping[]>([]);
+
+  const tenantMappings = categoryMappings.filter(m => m.tenantId === activeTenantId);
+
+  // Start from the saved table whenever the tenant or its mappings change
+  useEffect(() => {
+    setDraft(
+      categoryMappings
+        .filter(m => m.tenantId === activeTenantId)
+        .map(m => ({ category: m.category, ledgerAccountId: m.ledgerAccountId, taxCode: m.taxCode || '' }))
+    );
+  }, [activeTenantId, categoryMappings]);
+
+  // Ledger accounts and tax rates belong to a tenant
+  useEffect(() => {
+    setLedgerAccounts([]);
+    setTaxRates([]);
+  }, [activeTenantId]);
+
+  // Until accounts are loaded, saved mappings still show their account
+  const accountOptions: Pick<SageLedgerAccount, 'Id' | 'Code' | 'Name'>[] = ledgerAccounts.length > 0
+    ? ledgerAccounts.filter(a => a.IsActive)
+    : tenantMappings
+        .filter((m, i, all) => all.findIndex(o => o.ledgerAccountId === m.ledgerAccountId) === i)
+        .map(m => ({ Id: m.ledgerAccountId, Code: m.ledgerAccountCode, Name: m.ledgerAccountName }));
+
+  const taxCodeOptions: string[] = taxRates.length > 0
+    ? taxRates.filter(r => r.IsActive).map(r => r.Code)
+    : Array.from(new Set(tenantMappings.map(m => m.taxCode).filter((c): c is string => !!c)));
+
+  const mappedCategories = new Set(draft.map(d => normaliseCategory(d.category)));
+  const unmappedCategories = getKnownCategories(transactions.filter(t => t.tenantId === activeTenantId))
+    .filter(c => !mappedCategories.has(normaliseCategory(c)));
+  const hasFallback = draft.some(d => d.category === FALLBACK_CATEGORY);
+
+  const handleLoadLedgerAccounts = async () => {
+    if (!activeTenantId || !credentials) return;
+
+    setIsLoading(true);
+    try {
+      const [accounts, rates] = await Promise.all([
+        ledgerService.getLedgerAccounts(activeTenantId, credentials),
+        taxService.getTaxRates(activeTenantId, credentials),
+      ]);
+      setLedgerAccounts(accounts);
+      setTaxRates(rates);
+      toast({
+        title: "Ledger accounts and tax rates loaded",
+        description: `Found ${accounts.filter(a => a.IsActive).length} active ledger accounts and ${rates.filter(r => r.IsActive).length} tax rates.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Failed to load ledger accounts",
+        description: error instanceof Error ? error.message : "Could not fetch ledger accounts or tax rates.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateDraft = (index: number, changes: Partial<DraftMapping>) => {
+    setDraft(prev => prev.map((d, i) => (i === index ? { ...d, ...changes } : d)));
+  };
+
+  const handleSave = () => {
+    if (!activeTenantId) return;
+
+    const rows = draft.filter(d => d.category.trim() || d.ledgerAccountId);
+    const keys = rows.map(d => normaliseCategory(d.category));
+
+    const problem =
+      rows.some(d => !d.category.trim()) ? 'Every mapping needs a category.'
+      : rows.some(d => !d.ledgerAccountId) ? 'Every mapping needs a ledger account.'
+      : keys.some((k, i) => keys.indexOf(k) !== i) ? 'Each category can only be mapped once.'
+      : null;
+
+    if (problem) {
+      toast({ title: "Mappings not saved", description: problem, variant: "destructive" });
+      return;
+    }
+
+    const mappings: CategoryLedgerMapping[] = rows.map(d => {
+      const account = accountOptions.find(a => a.Id === d.ledgerAccountId);
+      return {
+        tenantId: activeTenantId,
+        category: d.category === FALLBACK_CATEGORY ? FALLBACK_CATEGORY : d.category.trim(),
+        ledgerAccountId: d.ledgerAccountId,
+        ledgerAccountCode: account?.Code || '',
+        ledgerAccountName: account?.Name || '',
+        ...(d.taxCode ? { taxCode: d.taxCode } : {}),
+      };
+    });
+
+    setTenantCategoryMappings(activeTenantId, mappings);
+    configManager.setVatRounding(vatRounding);
+    toast({
+      title: "Category mappings saved",
+      description: `${mappings.length} categor${mappings.length === 1 ? 'y' : 'ies'} mapped to ledger accounts.`,
+    });
+  };
+
+  return (
+    <div className="form-section mt-8">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+            <BookOpen className="w-5 h-5 text-primary" />
+          </div>
+          <div>
+            <h2 className="section-title">Category Ledger Accounts</h2>
+            <p className="section-description">Post each CSV category to a ledger account, with an optional default tax code</p>
+          </div>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={handleLoadLedgerAccounts}
+          disabled={isLoading || !activeTenantId || !credentials}
+        >
+          {isLoading ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <RefreshCw className="w-4 h-4 mr-2" />
+          )}
+          Load Accounts &amp; Tax Rates
+        </Button>
+      </div>
+
+      {!activeTenantId ? (
+        <p className="text-sm text-muted-foreground">Select a tenant first to map categories.</p>
+      ) : (
+        <div className="space-y-3">
+          {draft.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No mappings yet. Rows post without a ledger account and land on the journal type's default.
+            </p>
+          )}
+
+          {draft.map((row, index) => (
+            <div key={index} className="flex items-center gap-3 p-3 bg-muted rounded-lg">
+              {row.category === FALLBACK_CATEGORY ? (
+                <span className="flex-1 text-sm font-medium text-foreground">Any other category</span>
+              ) : (
+                <Input
+                  value={row.category}
+                  onChange={(e) => updateDraft(index, { category: e.target.value })}
+                  placeholder="Category, e.g. Office Supplies"
+                  className="flex-1"
+                />
+              )}
+              <Select
+                value={row.ledgerAccountId}
+                onValueChange={(value) => updateDraft(index, { ledgerAccountId: value })}
+              >
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder={ledgerAccounts.length > 0 ? 'Select ledger account' : 'Load ledger accounts first'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {accountOptions.map(account => (
+                    <SelectItem key={account.Id} value={account.Id}>
+                      {account.Code} {account.Name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={row.taxCode || NO_TAX_CODE}
+                onValueChange={(value) => updateDraft(index, { taxCode: value === NO_TAX_CODE ? '' : value })}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue placeholder="Tax code" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TAX_CODE}>No tax code</SelectItem>
+                  {taxCodeOptions.map(code => (
+                    <SelectItem key={code} value={code}>
+                      {taxRates.find(r => r.Code === code)?.Name || code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setDraft(prev => prev.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setDraft(prev => [...prev, { category: '', ledgerAccountId: '', taxCode: '' }])}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Mapping
+            </Button>
+            {unmappedCategories.length > 0 && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setDraft(prev => [
+                  ...prev,
+                  ...unmappedCategories.map(category => ({ category, ledgerAccountId: '', taxCode: '' })),
+                ])}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add {unmappedCategories.length} Uploaded Categor{unmappedCategories.length === 1 ? 'y' : 'ies'}
+              </Button>
+            )}
+            {!hasFallback && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setDraft(prev => [...prev, { category: FALLBACK_CATEGORY, ledgerAccountId: '', taxCode: '' }])}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Fallback
+              </Button>
+            )}
+            <div className="flex items-center gap-2 ml-auto">
+              <span className="text-sm text-muted-foreground">VAT rounding</span>
+              <Select value={vatRounding} onValueChange={(value) => setVatRounding(value as VatRounding)}>
+                <SelectTrigger className="w-52">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {VAT_ROUNDING_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="button" size="sm" onClick={handleSave}>
+              <Save className="w-4 h-4 mr-2" />
+              Save Mappings
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { useEffect, useState } from 'react';
+import { Coins, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useApp } from '@/contexts/AppContext';
+import { useToast } from '@/hooks/use-toast';
+import {
+  BASE_CURRENCY,
+  ExchangeRate,
+  getExchangeRates,
+  isBaseCurrency,
+  removeExchangeRate,
+  setExchangeRate,
+} from '@/lib/currency';
+
+export function ExchangeRatesSection() {
+  const { bankAccounts } = useApp();
+  const { toast } = useToast();
+  const [savedRates, setSavedRates] = useState<ExchangeRate[]>(getExchangeRates);
+  const [draft, setDraft] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setDraft(Object.fromEntries(savedRates.map(r => [r.currency, String(r.rate)])));
+  }, [savedRates]);
+
+  // Every foreign currency in use, plus any with a saved rate
+  const currencies = Array.from(new Set([
+    ...bankAccounts.map(a => a.currencyISO).filter(c => !isBaseCurrency(c)),
+    ...savedRates.map(r => r.currency),
+  ])).sort();
+
+  const handleSave = () => {
+    const invalid = currencies.filter(c => draft[c] && !(Number(draft[c]) > 0));
+    if (invalid.length > 0) {
+      toast({
+        title: "Rates not saved",
+        description: `Enter a rate greater than zero for ${invalid.join(', ')}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    let rates = savedRates;
+    for (const currency of currencies) {
+      const rate = Number(draft[currency]);
+      const saved = savedRates.find(r => r.currency === currency);
+      if (rate > 0 && rate !== saved?.rate) rates = setExchangeRate(currency, rate);
+    }
+    setSavedRates(rates);
+    toast({ title: "Exchange rates saved" });
+  };
+
+  const handleRemove = (currency: string) => {
+    setSavedRates(removeExchangeRate(currency));
+  };
+
+  return (
+    <div className="form-section mt-8">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+          <Coins className="w-5 h-5 text-primary" />
+        </div>
+        <div>
+          <h2 className="section-title">Exchange Rates</h2>
+          <p className="section-description">
+            Rates used to post transactions from bank accounts not held in {BASE_CURRENCY}
+          </p>
+        </div>
+      </div>
+
+      {currencies.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          All bank accounts are in {BASE_CURRENCY}. Add an account in another currency to set its rate.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {currencies.map(currency => {
+            const saved = savedRates.find(r => r.currency === currency);
+            return (
+              <div key={currency} className="flex items-center gap-3 p-3 bg-muted rounded-lg text-sm">
+                <span className="text-muted-foreground whitespace-nowrap">1 {BASE_CURRENCY} =</span>
+                <Input
+                  type="number"
+                  step="0.0001"
+                  min="0"
+                  value={draft[currency] ?? ''}
+                  onChange={(e) => setDraft(prev => ({ ...prev, [currency]: e.target.value }))}
+                  placeholder="Not set"
+                  className="w-32"
+                />
+                <span className="font-medium text-foreground w-12">{currency}</span>
+                <span className="flex-1 text-xs text-muted-foreground">
+                  {saved ? `Updated ${new Date(saved.updatedAt).toLocaleString('en-GB')}` : 'No rate saved'}
+                </span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRemove(currency)}
+                  disabled={!saved}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            );
+          })}
+
+          <div className="flex justify-end">
+            <Button type="button" size="sm" onClick={handleSave}>
+              <Save className="w-4 h-4 mr-2" />
+              Save Rates
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,305 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { formatCurrency } from '@/lib/currency';
+import { matchesRule, validateRule } from '@/lib/categorisationRules';
+import {
+  BankTransaction,
+  CategorisationRule,
+  RequiredDimension,
+  SageDimensionTag,
+  SageLedgerAccount,
+} from '@/types/sage';
+
+export type LedgerAccountOption = Pick<SageLedgerAccount, 'Id' | 'Code' | 'Name'>;
+
+interface RuleEditorDialogProps {
+  /** Rule being edited; the dialog is open while this is set */
+  rule: CategorisationRule | null;
+  ledgerAccounts: LedgerAccountOption[];
+  requiredDimensions: RequiredDimension[];
+  dimensionTags: Record<string, SageDimensionTag[]>;
+  /** Recorded transactions to preview the conditions against */
+  sample: BankTransaction[];
+  onSave: (rule: CategorisationRule) => void;
+  onClose: () => void;
+}
+
+// Select items can't have an empty value
+const ANY = 'any';
+
+// Amounts are edited as text so a cleared field means "no limit"
+interface Draft {
+  rule: CategorisationRule;
+  minAmountText: string;
+  maxAmountText: string;
+}
+
+const toAmount = (text: string): number | undefined => (text.trim() === '' ? undefined : Number(text));
+
+export function RuleEditorDialog({
+  rule,
+  ledgerAccounts,
+  requiredDimensions,
+  dimensionTags,
+  sample,
+  onSave,
+  onClose,
+}: RuleEditorDialogProps) {
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  useEffect(() => {
+    setDraft(rule ? {
+      rule,
+      minAmountText: rule.conditions.minAmount?.toString() ?? '',
+      maxAmountText: rule.conditions.maxAmount?.toString() ?? '',
+    } : null);
+  }, [rule]);
+
+  if (!rule || !draft) return null;
+
+  const edited: CategorisationRule = {
+    ...draft.rule,
+    conditions: {
+      ...draft.rule.conditions,
+      minAmount: toAmount(draft.minAmountText),
+      maxAmount: toAmount(draft.maxAmountText),
+    },
+  };
+  const errors = validateRule(edited);
+  const matches = errors.length === 0 ? sample.filter(tx => matchesRule(edited, tx)) : [];
+  const { conditions, actions } = draft.rule;
+
+  const updateConditions = (changes: Partial<CategorisationRule['conditions']>) => {
+    setDraft(prev => prev && { ...prev, rule: { ...prev.rule, conditions: { ...prev.rule.conditions, ...changes } } });
+  };
+
+  const updateActions = (changes: Partial<CategorisationRule['actions']>) => {
+    setDraft(prev => prev && { ...prev, rule: { ...prev.rule, actions: { ...prev.rule.actions, ...changes } } });
+  };
+
+  const handleDimensionChange = (code: string, value: string) => {
+    const selections = { ...actions.dimensionSelections };
+    if (value === ANY) {
+      delete selections[code];
+    } else {
+      selections[code] = value;
+    }
+    updateActions({ dimensionSelections: selections });
+  };
+
+  const handleSave = () => {
+    onSave({
+      ...edited,
+      name: edited.name.trim(),
+      conditions: Object.fromEntries(
+        Object.entries(edited.conditions).filter(([, value]) => value !== undefined && value !== '')
+      ),
+      actions: {
+        ...edited.actions,
+        category: edited.actions.category?.trim() || undefined,
+      },
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{rule.name ? `Edit Rule: ${rule.name}` : 'New Rule'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 max-h-[65vh] overflow-y-auto">
+          <div className="space-y-1">
+            <Label className="text-xs">Name</Label>
+            <Input
+              value={draft.rule.name}
+              onChange={(e) => setDraft(prev => prev && { ...prev, rule: { ...prev.rule, name: e.target.value } })}
+              placeholder="e.g. Office rent"
+            />
+          </div>
+
+          <div className="p-3 bg-muted rounded-lg space-y-3">
+            <p className="text-sm font-medium text-foreground">When a row matches all of</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs">Description contains</Label>
+                <Input
+                  value={conditions.descriptionContains || ''}
+                  onChange={(e) => updateConditions({ descriptionContains: e.target.value })}
+                  placeholder="e.g. AMAZON"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Description matches pattern</Label>
+                <Input
+                  value={conditions.descriptionRegex || ''}
+                  onChange={(e) => updateConditions({ descriptionRegex: e.target.value })}
+                  placeholder="e.g. ^DD .*INSURANCE"
+                  className="font-mono"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Reference starts with</Label>
+                <Input
+                  value={conditions.referencePrefix || ''}
+                  onChange={(e) => updateConditions({ referencePrefix: e.target.value })}
+                  placeholder="e.g. INV-"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Type</Label>
+                <Select
+                  value={conditions.type || ANY}
+                  onValueChange={(value) => updateConditions({
+                    type: value === ANY ? undefined : value as 'payment' | 'receipt',
+                  })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Payments and receipts</SelectItem>
+                    <SelectItem value="payment">Payments only</SelectItem>
+                    <SelectItem value="receipt">Receipts only</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Amount from</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={draft.minAmountText}
+                  onChange={(e) => setDraft(prev => prev && { ...prev, minAmountText: e.target.value })}
+                  placeholder="No minimum"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Amount to</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={draft.maxAmountText}
+                  onChange={(e) => setDraft(prev => prev && { ...prev, maxAmountText: e.target.value })}
+                  placeholder="No maximum"
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="p-3 bg-muted rounded-lg space-y-3">
+            <p className="text-sm font-medium text-foreground">Fill in</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs">Category</Label>
+                <Input
+                  value={actions.category || ''}
+                  onChange={(e) => updateActions({ category: e.target.value })}
+                  placeholder="e.g. Office Supplies"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Ledger account</Label>
+                <Select
+                  value={actions.ledgerAccount?.id || ANY}
+                  onValueChange={(value) => {
+                    const account = ledgerAccounts.find(a => a.Id === value);
+                    updateActions({
+                      ledgerAccount: account ? { id: account.Id, code: account.Code, name: account.Name } : undefined,
+                    });
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>From the category mapping</SelectItem>
+                    {ledgerAccounts.map(account => (
+                      <SelectItem key={account.Id} value={account.Id}>
+                        {account.Code} {account.Name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {requiredDimensions.map(dim => (
+                <div key={dim.id} className="space-y-1">
+                  <Label className="text-xs">{dim.name}</Label>
+                  <Select
+                    value={actions.dimensionSelections?.[dim.code] || ANY}
+                    onValueChange={(value) => handleDimensionChange(dim.code, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Leave for review</SelectItem>
+                      {/* A saved tag still shows before the tenant's tags are loaded */}
+                      {actions.dimensionSelections?.[dim.code] &&
+                        !(dimensionTags[dim.code] || []).some(t => t.Code === actions.dimensionSelections?.[dim.code]) && (
+                          <SelectItem value={actions.dimensionSelections[dim.code]}>
+                            {actions.dimensionSelections[dim.code]}
+                          </SelectItem>
+                        )}
+                      {(dimensionTags[dim.code] || []).map(tag => (
+                        <SelectItem key={tag.Id} value={tag.Code}>
+                          {tag.Name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {errors.length > 0 ? (
+            <ul className="text-sm text-destructive space-y-1">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          ) : (
+            <div className="text-sm">
+              <p className="text-muted-foreground">
+                Matches {matches.length} of the last {sample.length} recorded transaction(s)
+              </p>
+              {matches.slice(0, 5).map(tx => (
+                <div key={tx.id} className="flex justify-between gap-3 text-xs mt-1">
+                  <span className="truncate">{tx.date} · {tx.description || tx.reference}</span>
+                  <span className="font-mono">{formatCurrency(tx.amount, tx.currency)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={errors.length > 0}>
+            Save Rule
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
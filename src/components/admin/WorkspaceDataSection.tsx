@@ -0,0 +1,172 @@
+import { useRef, useState } from 'react';
+import { AlertTriangle, Database, Download, Loader2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useApp } from '@/contexts/AppContext';
+import { useToast } from '@/hooks/use-toast';
+import { saveConfig } from '@/lib/configManager';
+import { Workspace, exportWorkspaceToFile, parseWorkspaceExport } from '@/lib/workspaceStore';
+
+export function WorkspaceDataSection() {
+  const { tenants, bankAccounts, transactions, journalAudit, exportWorkspace, importWorkspace } = useApp();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [includeCredentials, setIncludeCredentials] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; workspace: Workspace } | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleExport = () => {
+    exportWorkspaceToFile(exportWorkspace(includeCredentials));
+    toast({
+      title: "Workspace exported",
+      description: includeCredentials
+        ? "The file includes your API credentials. Keep it somewhere safe."
+        : "API credentials were left out of the file.",
+    });
+  };
+
+  const handleFileChosen = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        setPendingImport({ fileName: file.name, workspace: parseWorkspaceExport(e.target?.result as string) });
+      } catch (error) {
+        toast({
+          title: "Can't import this file",
+          description: error instanceof Error ? error.message : 'Unknown error',
+          variant: "destructive",
+        });
+      }
+    };
+    reader.readAsText(file);
+
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleImport = async () => {
+    if (!pendingImport) return;
+    const { workspace } = pendingImport;
+
+    setIsImporting(true);
+    try {
+      await importWorkspace(workspace);
+      // API calls read credentials from the saved config
+      if (workspace.credentials) saveConfig(workspace.credentials);
+      toast({
+        title: "Workspace imported",
+        description: `${workspace.tenants.length} tenant(s), ${workspace.bankAccounts.length} bank account(s) and ${workspace.transactions.length} transaction(s) loaded.`,
+      });
+      setPendingImport(null);
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "The workspace couldn't be saved.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="form-section mt-8">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+          <Database className="w-5 h-5 text-primary" />
+        </div>
+        <div>
+          <h2 className="section-title">Workspace Data</h2>
+          <p className="section-description">
+            Everything the app keeps in this browser, saved in IndexedDB
+          </p>
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground mb-4">
+        {tenants.length} tenant(s), {bankAccounts.length} bank account(s), {transactions.length} transaction(s)
+        and {journalAudit.length} audit entr{journalAudit.length === 1 ? 'y' : 'ies'}, plus credentials,
+        dimensions, category mappings and categorisation rules.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <Button type="button" variant="outline" size="sm" onClick={handleExport}>
+          <Download className="w-4 h-4 mr-2" />
+          Export Workspace
+        </Button>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="export-credentials"
+            checked={includeCredentials}
+            onCheckedChange={(checked) => setIncludeCredentials(checked === true)}
+          />
+          <Label htmlFor="export-credentials" className="text-sm font-normal">
+            Include API credentials
+          </Label>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleFileChosen}
+          className="hidden"
+        />
+        <Button type="button" variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="w-4 h-4 mr-2" />
+          Import Workspace
+        </Button>
+      </div>
+
+      <AlertDialog open={!!pendingImport} onOpenChange={(open) => !open && !isImporting && setPendingImport(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="w-5 h-5 text-warning" />
+              Replace this workspace?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingImport && (
+                <>
+                  {pendingImport.fileName} holds {pendingImport.workspace.tenants.length} tenant(s),{' '}
+                  {pendingImport.workspace.bankAccounts.length} bank account(s) and{' '}
+                  {pendingImport.workspace.transactions.length} transaction(s). Everything in this browser is replaced.{' '}
+                  {pendingImport.workspace.credentials
+                    ? 'Its API credentials replace yours.'
+                    : 'It has no API credentials, so yours are kept.'}
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isImporting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleImport();
+              }}
+              disabled={isImporting}
+            >
+              {isImporting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Replace Workspace
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
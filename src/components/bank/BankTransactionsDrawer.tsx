@@ -2,7 +2,8 @@ import { useState, useEffect } from 'react';
 import { useApp } from '@/contexts/AppContext';
 import { bankService, SageJournalEntry } from '@/services/bankService';
 import { BankAccount } from '@/types/sage';
-import { Loader2, AlertCircle, ArrowDownLeft, ArrowUpRight } from 'lucide-react';
+import { BASE_CURRENCY, formatCurrency, isBaseCurrency } from '@/lib/currency';
+import { Loader2, AlertCircle, ArrowDownLeft, ArrowUpRight, Pencil, Ban, Trash2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   Sheet,
@@ -11,6 +12,9 @@ import {
   SheetTitle,
 } from '@/components/ui/sheet';
 import { Badge } from '@/components/ui/badge';
+import { JournalActionDialog, JournalAction, JournalActionRequest } from '@/components/transactions/JournalActionDialog';
+import { isJournalVoid } from '@/lib/journalCorrections';
+import { cn } from '@/lib/utils';
 
 interface BankTransactionsDrawerProps {
   account: BankAccount | null;
@@ -19,10 +23,12 @@ interface BankTransactionsDrawerProps {
 }
 
 export function BankTransactionsDrawer({ account, open, onOpenChange }: BankTransactionsDrawerProps) {
-  const { activeTenantId, financialYears, credentials } = useApp();
+  const { activeTenantId, financialYears, credentials, transactions: localTransactions } = useApp();
   const [transactions, setTransactions] = useState<SageJournalEntry[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [journalAction, setJournalAction] = useState<JournalActionRequest | null>(null);
+  const [refreshCount, setRefreshCount] = useState(0);
 
   const activeFinancialYear = financialYears.find(fy => fy.tenantId === activeTenantId && fy.status === 'open');
 
@@ -51,7 +57,25 @@ export function BankTransactionsDrawer({ account, open, onOpenChange }: BankTran
     };
 
     fetchTransactions();
-  }, [open, account?.id, activeTenantId]);
+  }, [open, account?.id, activeTenantId, refreshCount]);
+
+  // The app's own record of a journal, when it was posted from here
+  const openJournalAction = (action: JournalAction, entry: SageJournalEntry) => {
+    const local = localTransactions.find(t => t.tenantId === activeTenantId && t.journalId === entry.Id);
+    setJournalAction({
+      action,
+      journalId: entry.Id,
+      values: {
+        date: entry.Date.slice(0, 10),
+        reference: entry.Reference || '',
+        amount: entry.TotalAmount.Currency,
+        ...(local ? { description: local.description, category: local.category } : {}),
+      },
+      status: entry.Status,
+      currency: isBaseCurrency(entry.Currency?.Code) ? undefined : entry.Currency.Code,
+      transaction: local,
+    });
+  };
 
   const formatDate = (dateStr: string) => {
     return new Date(dateStr).toLocaleDateString('en-GB', {
@@ -61,12 +85,17 @@ export function BankTransactionsDrawer({ account, open, onOpenChange }: BankTran
     });
   };
 
+  // Foreign-currency journals show the currency amount with its GBP value beneath
   const formatAmount = (entry: SageJournalEntry) => {
-    const amount = entry.TotalAmount.Base;
     const isCredit = entry.TreatAs === 'Credit';
-    const displayAmount = isCredit ? -amount : amount;
-    const currency = entry.Currency?.Code === 'EUR' ? '€' : entry.Currency?.Code === 'USD' ? '$' : '£';
-    return { displayAmount, formatted: `${currency}${Math.abs(displayAmount).toLocaleString('en-GB', { minimumFractionDigits: 2 })}`, isCredit };
+    const currency = entry.Currency?.Code || BASE_CURRENCY;
+    const foreign = !isBaseCurrency(currency);
+    return {
+      formatted: formatCurrency(foreign ? entry.TotalAmount.Currency : entry.TotalAmount.Base, currency),
+      base: foreign ? formatCurrency(entry.TotalAmount.Base) : null,
+      rate: foreign ? entry.Currency.ExchangeRate : null,
+      isCredit,
+    };
   };
 
   return (
@@ -117,28 +146,71 @@ export function BankTransactionsDrawer({ account, open, onOpenChange }: BankTran
                     <th className="px-3 py-2 font-medium">Reference</th>
                     <th className="px-3 py-2 font-medium">Status</th>
                     <th className="px-3 py-2 font-medium text-right">Amount</th>
+                    <th className="px-3 py-2" />
                   </tr>
                 </thead>
                 <tbody>
                   {transactions.map((tx) => {
-                    const { displayAmount, formatted, isCredit } = formatAmount(tx);
+                    const { formatted, base, rate, isCredit } = formatAmount(tx);
+                    const isVoid = isJournalVoid(tx.Status);
                     return (
-                      <tr key={tx.Id} className="border-t border-border hover:bg-muted/30">
+                      <tr key={tx.Id} className={cn('border-t border-border hover:bg-muted/30', isVoid && 'opacity-60')}>
                         <td className="px-3 py-2.5">{formatDate(tx.Date)}</td>
                         <td className="px-3 py-2.5">
                           <span className="font-mono text-xs">{tx.JournalType.Code}</span>
                         </td>
                         <td className="px-3 py-2.5">{tx.Reference || '—'}</td>
                         <td className="px-3 py-2.5">
-                          <Badge variant={tx.Status === 'Draft' ? 'outline' : 'secondary'} className="text-xs">
+                          <Badge
+                            variant={isVoid ? 'destructive' : tx.Status === 'Draft' ? 'outline' : 'secondary'}
+                            className="text-xs"
+                          >
                             {tx.Status}
                           </Badge>
                         </td>
-                        <td className="px-3 py-2.5 text-right font-semibold">
+                        <td className={cn('px-3 py-2.5 text-right font-semibold', isVoid && 'line-through')}>
                           <span className={`inline-flex items-center gap-1 ${isCredit ? 'text-destructive' : 'text-green-600'}`}>
                             {isCredit ? <ArrowDownLeft className="w-3 h-3" /> : <ArrowUpRight className="w-3 h-3" />}
                             {isCredit ? '-' : ''}{formatted}
                           </span>
+                          {base && (
+                            <div className="text-xs font-normal text-muted-foreground" title={`1 ${BASE_CURRENCY} = ${rate} ${tx.Currency.Code}`}>
+                              {isCredit ? '-' : ''}{base}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-1 py-2.5">
+                          <div className="flex items-center justify-end">
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-7 w-7 p-0"
+                              title="Edit"
+                              disabled={isVoid}
+                              onClick={() => openJournalAction('edit', tx)}
+                            >
+                              <Pencil className="w-3.5 h-3.5" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-7 w-7 p-0 text-destructive hover:text-destructive"
+                              title="Void"
+                              disabled={isVoid || tx.Status === 'Draft'}
+                              onClick={() => openJournalAction('void', tx)}
+                            >
+                              <Ban className="w-3.5 h-3.5" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-7 w-7 p-0 text-destructive hover:text-destructive"
+                              title="Delete"
+                              onClick={() => openJournalAction('delete', tx)}
+                            >
+                              <Trash2 className="w-3.5 h-3.5" />
+                            </Button>
+                          </div>
                         </td>
                       </tr>
                     );
@@ -148,6 +220,12 @@ export function BankTransactionsDrawer({ account, open, onOpenChange }: BankTran
             </div>
           </div>
         )}
+
+        <JournalActionDialog
+          request={journalAction}
+          onClose={() => setJournalAction(null)}
+          onComplete={() => setRefreshCount(count => count + 1)}
+        />
       </SheetContent>
     </Sheet>
   );
@@ -106,6 +106,12 @@ export function LogDetailDrawer({ log, isOpen, onClose }: LogDetailDrawerProps)
               <label className="text-xs text-muted-foreground">Feature</label>
               <p className="text-sm font-medium capitalize">{log.featureArea}</p>
             </div>
+            {log.asyncAttempt && (
+              <div>
+                <label className="text-xs text-muted-foreground">Async Attempt</label>
+                <p className="text-sm font-medium">{log.asyncAttempt}</p>
+              </div>
+            )}
             {log.tenantId && (
               <div className="col-span-2">
                 <label className="text-xs text-muted-foreground">Tenant ID</label>
@@ -39,6 +39,8 @@ const FEATURE_AREAS = [
   { value: 'financial-years', label: 'Financial Years' },
   { value: 'transactions', label: 'Transactions' },
   { value: 'reports', label: 'Reports' },
+  { value: 'ledger-accounts', label: 'Ledger Accounts' },
+  { value: 'tax-rates', label: 'Tax Rates' },
   { value: 'auth', label: 'Auth' },
 ];
 
@@ -230,6 +232,11 @@ export function NetworkConsoleTable({ logs, onSelectLog, isLoading }: NetworkCon
                     )}>
                       {log.status === 0 ? 'ERR' : log.status}
                     </span>
+                    {log.asyncAttempt && (
+                      <span className="ml-1 text-xs text-muted-foreground" title="202 async-completion attempt">
+                        #{log.asyncAttempt}
+                      </span>
+                    )}
                   </TableCell>
                   <TableCell className="text-xs text-muted-foreground">
                     {log.durationMs}ms
@@ -1,3 +1,4 @@
+import { useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { 
   LayoutDashboard, 
@@ -5,14 +6,20 @@ import {
   Landmark, 
   Calendar, 
   Upload, 
+  ClipboardCheck,
+  Scale,
   FileText, 
   Settings,
   LogOut,
+  RefreshCw,
   Terminal
 } from 'lucide-react';
 import { useApp } from '@/contexts/AppContext';
 import { useDeveloperMode } from '@/contexts/DeveloperModeContext';
+import { useSageSync } from '@/contexts/SageSyncContext';
+import { useToast } from '@/hooks/use-toast';
 import { DeveloperModeToggle } from '@/components/developer/DeveloperModeToggle';
+import { SyncChangesDialog } from '@/components/sync/SyncChangesDialog';
 import {
   Select,
   SelectContent,
@@ -21,6 +28,8 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { cn } from '@/lib/utils';
+import { isEmulatorEnabled } from '@/lib/configManager';
+import { describeSyncChanges } from '@/lib/sageSync';
 
 const navItems = [
   { path: '/', label: 'Dashboard', icon: LayoutDashboard },
@@ -28,6 +37,8 @@ const navItems = [
   { path: '/bank-accounts', label: 'Bank Accounts', icon: Landmark },
   { path: '/financial-years', label: 'Financial Years', icon: Calendar },
   { path: '/transactions', label: 'Transactions', icon: Upload },
+  { path: '/approvals', label: 'Approval Queue', icon: ClipboardCheck },
+  { path: '/reconciliation', label: 'Reconciliation', icon: Scale },
   { path: '/reports', label: 'P&L Report', icon: FileText },
   { path: '/admin', label: 'Admin Settings', icon: Settings },
 ];
@@ -36,6 +47,22 @@ export function Sidebar() {
   const location = useLocation();
   const { tenants, activeTenantId, setActiveTenant, logout } = useApp();
   const { isDeveloperMode } = useDeveloperMode();
+  const { isSyncing, lastSync, syncFromSage, applyPendingRemovals, dismissPendingRemovals } = useSageSync();
+  const { toast } = useToast();
+  const [isSyncReportOpen, setIsSyncReportOpen] = useState(false);
+
+  const handleSync = async () => {
+    const report = await syncFromSage();
+    if (!report) {
+      toast({
+        title: "Configuration required",
+        description: "Please configure your API credentials in Admin Settings first.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setIsSyncReportOpen(true);
+  };
 
   return (
     <aside className="w-64 bg-sidebar text-sidebar-foreground flex flex-col h-screen fixed left-0 top-0">
@@ -50,6 +77,11 @@ export function Sidebar() {
             <p className="text-xs text-sidebar-foreground/60">Embedded Services</p>
           </div>
         </div>
+        {isEmulatorEnabled() && (
+          <div className="mt-3 px-2 py-1 rounded bg-warning/20 text-warning text-xs font-medium text-center">
+            Local API Emulator
+          </div>
+        )}
       </div>
 
       {/* Tenant Selector */}
@@ -77,6 +109,35 @@ export function Sidebar() {
         </div>
       )}
 
+      {/* Sync from Sage */}
+      <div className="px-4 py-3 border-b border-sidebar-border">
+        <button
+          onClick={handleSync}
+          disabled={isSyncing}
+          className="flex items-center gap-3 px-3 py-2 rounded-lg text-sm font-medium text-sidebar-foreground/80 hover:bg-sidebar-accent hover:text-sidebar-foreground w-full transition-colors disabled:opacity-60"
+        >
+          <RefreshCw className={cn("w-4 h-4", isSyncing && "animate-spin")} />
+          {isSyncing ? 'Syncing…' : 'Sync from Sage'}
+        </button>
+        {lastSync && (
+          <button
+            onClick={() => setIsSyncReportOpen(true)}
+            className="px-3 text-xs text-sidebar-foreground/60 hover:text-sidebar-foreground text-left"
+          >
+            Last sync {new Date(lastSync.syncedAt).toLocaleTimeString('en-GB')}: {describeSyncChanges(lastSync.changes).toLowerCase()}
+            {lastSync.pendingRemovals.length > 0 && `, ${lastSync.pendingRemovals.length} to review`}
+            {lastSync.errors.length > 0 && `, ${lastSync.errors.length} error${lastSync.errors.length !== 1 ? 's' : ''}`}
+          </button>
+        )}
+      </div>
+      <SyncChangesDialog
+        report={lastSync}
+        open={isSyncReportOpen}
+        onOpenChange={setIsSyncReportOpen}
+        onApplyRemovals={applyPendingRemovals}
+        onDismissRemovals={dismissPendingRemovals}
+      />
+
       {/* Navigation */}
       <nav className="flex-1 py-4 overflow-y-auto">
         <ul className="space-y-1 px-3">
@@ -0,0 +1,66 @@
+import { AlertCircle, CheckCircle2, Scale } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatCurrency } from '@/lib/currency';
+import { ReconciliationSummary } from '@/lib/reconciliation';
+
+interface ReconciliationSummaryPanelProps {
+  summary: ReconciliationSummary;
+  currency?: string;
+  lineCount: number;
+}
+
+export function ReconciliationSummaryPanel({ summary, currency, lineCount }: ReconciliationSummaryPanelProps) {
+  const formatAmount = (amount: number, signed = false) => formatCurrency(amount, currency, { signed });
+  const isReconciled = summary.difference === 0;
+
+  return (
+    <div className="bg-card rounded-xl border border-border overflow-hidden mb-6">
+      <div className="p-4 border-b border-border bg-muted/50 flex items-center gap-2">
+        <Scale className="w-5 h-5 text-muted-foreground" />
+        <h2 className="section-title">Reconciliation</h2>
+        <span className="text-sm text-muted-foreground">
+          {summary.statementStart} to {summary.statementEnd}
+        </span>
+      </div>
+
+      <div className="p-4 grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+        <div>
+          <p className="text-muted-foreground">Statement closing</p>
+          <p className="font-semibold">{formatAmount(summary.closingBalance)}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Sage balance at {summary.statementEnd}</p>
+          <p className="font-semibold">{formatAmount(summary.sageBalance)}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Lines not in Sage</p>
+          <p className="font-semibold">{formatAmount(summary.unmatchedLinesTotal, true)}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Journals not on statement</p>
+          <p className="font-semibold">{formatAmount(summary.unmatchedJournalsTotal, true)}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Difference</p>
+          <p className={cn("font-semibold", isReconciled ? "text-success" : "text-destructive")}>
+            {formatAmount(summary.difference, true)}
+          </p>
+        </div>
+      </div>
+
+      <div className="px-4 pb-4 text-sm">
+        {isReconciled ? (
+          <p className="flex items-center gap-2 text-success">
+            <CheckCircle2 className="w-4 h-4" />
+            Reconciled: {summary.matchedCount} of {lineCount} lines matched, and the unmatched items explain the rest.
+          </p>
+        ) : (
+          <p className="flex items-center gap-2 text-warning">
+            <AlertCircle className="w-4 h-4" />
+            {formatAmount(Math.abs(summary.difference))} isn't explained by the unmatched lines and journals. Check the closing balance, or for journals posted to the wrong account.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { AlertCircle, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { SYNC_ENTITY_LABELS, SyncChange, SyncEntity, SyncReport, describeSyncChanges } from '@/lib/sageSync';
+
+interface SyncChangesDialogProps {
+  report: SyncReport | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Removes the records Sage no longer has */
+  onApplyRemovals: () => void;
+  /** Keeps them */
+  onDismissRemovals: () => void;
+}
+
+const KIND_LABELS: Record<SyncChange['kind'], string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+};
+
+const KIND_VARIANTS: Record<SyncChange['kind'], 'secondary' | 'outline' | 'destructive'> = {
+  added: 'secondary',
+  removed: 'destructive',
+  changed: 'outline',
+};
+
+const ENTITY_ORDER: SyncEntity[] = ['tenant', 'bankAccount', 'financialYear', 'transaction'];
+
+export function SyncChangesDialog({ report, open, onOpenChange, onApplyRemovals, onDismissRemovals }: SyncChangesDialogProps) {
+  if (!report) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Sync from Sage</DialogTitle>
+          <DialogDescription>
+            {new Date(report.syncedAt).toLocaleString('en-GB')} · {describeSyncChanges(report.changes)}
+          </DialogDescription>
+        </DialogHeader>
+
+        {report.errors.length > 0 && (
+          <div className="p-3 bg-destructive/10 border border-destructive/30 rounded-lg text-sm space-y-1">
+            <p className="flex items-center gap-2 font-medium text-destructive">
+              <AlertCircle className="w-4 h-4" />
+              Not synced, so left as they were
+            </p>
+            {report.errors.map(message => (
+              <p key={message} className="text-muted-foreground">{message}</p>
+            ))}
+          </div>
+        )}
+
+        {report.pendingRemovals.length > 0 && (
+          <div className="p-3 bg-warning/10 border border-warning/30 rounded-lg text-sm space-y-2">
+            <p className="flex items-center gap-2 font-medium text-foreground">
+              <AlertTriangle className="w-4 h-4 text-warning" />
+              No longer in Sage
+            </p>
+            <p className="text-muted-foreground">
+              These are still in this app. Removing a tenant or bank account also removes its transactions.
+            </p>
+            <ul className="space-y-1">
+              {report.pendingRemovals.map(change => (
+                <li key={`${change.entity}-${change.id}`} className="flex items-start gap-2">
+                  <Badge variant="outline" className="flex-shrink-0">{SYNC_ENTITY_LABELS[change.entity]}</Badge>
+                  <span>{change.label}</span>
+                </li>
+              ))}
+            </ul>
+            <div className="flex justify-end gap-2 pt-1">
+              <Button type="button" variant="outline" size="sm" onClick={onDismissRemovals}>
+                Keep
+              </Button>
+              <Button type="button" variant="destructive" size="sm" onClick={onApplyRemovals}>
+                Remove from App
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {report.changes.length === 0 && report.pendingRemovals.length === 0 && report.errors.length === 0 && (
+          <p className="flex items-center gap-2 text-sm text-success">
+            <CheckCircle2 className="w-4 h-4" />
+            Everything already matched Sage.
+          </p>
+        )}
+
+        {ENTITY_ORDER.map(entity => {
+          const changes = report.changes.filter(c => c.entity === entity);
+          if (changes.length === 0) return null;
+
+          return (
+            <div key={entity} className="space-y-2">
+              <h3 className="font-medium text-foreground">{SYNC_ENTITY_LABELS[entity]}s</h3>
+              <ul className="space-y-2">
+                {changes.map(change => (
+                  <li key={`${change.kind}-${change.id}`} className="text-sm flex items-start gap-2">
+                    <Badge variant={KIND_VARIANTS[change.kind]} className="flex-shrink-0">
+                      {KIND_LABELS[change.kind]}
+                    </Badge>
+                    <div>
+                      <p>{change.label}</p>
+                      {change.fields.map(field => (
+                        <p key={field.field} className="text-muted-foreground">
+                          {field.field}: <span className="line-through">{field.from || '—'}</span> → {field.to || '—'}
+                        </p>
+                      ))}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          );
+        })}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,76 @@
+import { ArrowDownToLine, Keyboard, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { RequiredDimension, SageDimensionTag } from '@/types/sage';
+
+interface BulkTagToolbarProps {
+  selectedCount: number;
+  requiredDimensions: RequiredDimension[];
+  dimensionTags: Record<string, SageDimensionTag[]>;
+  disabled?: boolean;
+  onApplyTag: (dimensionCode: string, tagCode: string) => void;
+  /** Fills the selected rows, or every row when none are selected */
+  onFillDown: () => void;
+  onClearSelection: () => void;
+}
+
+export function BulkTagToolbar({
+  selectedCount,
+  requiredDimensions,
+  dimensionTags,
+  disabled,
+  onApplyTag,
+  onFillDown,
+  onClearSelection,
+}: BulkTagToolbarProps) {
+  return (
+    <div className="p-3 border-b border-border flex flex-wrap items-center gap-3 text-sm">
+      <span className="font-medium text-foreground">
+        {selectedCount > 0 ? `${selectedCount} row(s) selected` : 'No rows selected'}
+      </span>
+
+      {requiredDimensions.map(dim => (
+        // Left empty so the same tag can be applied again to a new selection
+        <Select
+          key={dim.id}
+          value=""
+          onValueChange={(value) => onApplyTag(dim.code, value)}
+          disabled={disabled || selectedCount === 0}
+        >
+          <SelectTrigger className="w-52">
+            <SelectValue placeholder={`Set ${dim.name} on selected`} />
+          </SelectTrigger>
+          <SelectContent>
+            {(dimensionTags[dim.code] || []).map(tag => (
+              <SelectItem key={tag.Id} value={tag.Code}>
+                {tag.Name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ))}
+
+      <Button size="sm" variant="outline" onClick={onFillDown} disabled={disabled}>
+        <ArrowDownToLine className="w-4 h-4 mr-2" />
+        {selectedCount > 0 ? 'Fill Down Selected' : 'Fill Down'}
+      </Button>
+      {selectedCount > 0 && (
+        <Button size="sm" variant="ghost" onClick={onClearSelection}>
+          <X className="w-4 h-4 mr-2" />
+          Clear Selection
+        </Button>
+      )}
+
+      <span className="flex items-center gap-1 text-xs text-muted-foreground ml-auto">
+        <Keyboard className="w-3 h-3" />
+        Arrow keys move between tags · Enter opens · Shift+↑/↓ selects rows · Ctrl+D copies the tag above
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,332 @@
+import { useState, useMemo } from 'react';
+import { AlertCircle, Columns3, Save, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { ParsedCsvTransaction, RequiredDimension } from '@/types/sage';
+import {
+  CsvTable,
+  CsvColumnMapping,
+  CsvAmountMode,
+  CsvDateFormat,
+  CsvMappingPreset,
+  CSV_DATE_FORMATS,
+  suggestMapping,
+  validateMapping,
+  applyColumnMapping,
+  getDimensionColumns,
+  loadMappingPresets,
+  saveMappingPreset,
+  deleteMappingPreset,
+} from '@/lib/import/columnMapping';
+
+// Radix Select items can't have an empty value
+const NONE = '__none__';
+const PREVIEW_ROWS = 5;
+
+const AMOUNT_MODES: { value: CsvAmountMode; label: string }[] = [
+  { value: 'signed', label: 'Single signed amount column' },
+  { value: 'split', label: 'Separate money out / money in columns' },
+  { value: 'type-column', label: 'Amount column + payment/receipt column' },
+];
+
+type ColumnField = 'date' | 'description' | 'reference' | 'category' | 'splitGroup' | 'taxCode' | 'amount' | 'type' | 'debit' | 'credit';
+
+interface ColumnMappingStepProps {
+  table: CsvTable;
+  fileName: string;
+  /** Columns named after these are read as their tags */
+  dimensions?: RequiredDimension[];
+  onApply: (transactions: ParsedCsvTransaction[]) => void;
+  onCancel: () => void;
+}
+
+export function ColumnMappingStep({ table, fileName, dimensions = [], onApply, onCancel }: ColumnMappingStepProps) {
+  const { toast } = useToast();
+  const [mapping, setMapping] = useState<CsvColumnMapping>(() => suggestMapping(table));
+  const [presets, setPresets] = useState<CsvMappingPreset[]>(() => loadMappingPresets());
+  const [presetName, setPresetName] = useState('');
+
+  const mappingErrors = validateMapping(mapping, table.headers);
+  const preview = useMemo(
+    () => (mappingErrors.length === 0 ? applyColumnMapping({ ...table, rows: table.rows.slice(0, PREVIEW_ROWS) }, mapping, dimensions) : []),
+    [table, mapping, mappingErrors.length, dimensions]
+  );
+  const dimensionColumns = getDimensionColumns(table.headers, mapping, dimensions);
+
+  const updateMapping = (changes: Partial<CsvColumnMapping>) => {
+    setMapping(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleApplyPreset = (id: string) => {
+    const preset = presets.find(p => p.id === id);
+    if (!preset) return;
+
+    setMapping(preset.mapping);
+    setPresetName(preset.name);
+
+    const missing = validateMapping(preset.mapping, table.headers);
+    if (missing.length > 0) {
+      toast({
+        title: "Preset doesn't match this file",
+        description: missing.join(' '),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSavePreset = () => {
+    if (!presetName.trim()) return;
+    saveMappingPreset(presetName, mapping);
+    setPresets(loadMappingPresets());
+    toast({
+      title: "Mapping saved",
+      description: `"${presetName.trim()}" will be available for future imports.`,
+    });
+  };
+
+  const handleDeletePreset = (preset: CsvMappingPreset) => {
+    deleteMappingPreset(preset.id);
+    setPresets(loadMappingPresets());
+    if (presetName === preset.name) setPresetName('');
+  };
+
+  const handleApply = () => {
+    if (mappingErrors.length > 0) return;
+    onApply(applyColumnMapping(table, mapping, dimensions));
+  };
+
+  const renderColumnSelect = (field: ColumnField, label: string, optional = false) => (
+    <div>
+      <label className="text-sm font-medium text-foreground mb-2 block">
+        {label}
+        {optional && <span className="text-muted-foreground font-normal"> (optional)</span>}
+      </label>
+      <Select
+        value={mapping[field] || NONE}
+        onValueChange={(value) => updateMapping({ [field]: value === NONE ? undefined : value })}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder="Choose a column" />
+        </SelectTrigger>
+        <SelectContent>
+          {optional && <SelectItem value={NONE}>— Not in file —</SelectItem>}
+          {table.headers.map((header, i) => (
+            <SelectItem key={`${header}-${i}`} value={header || NONE} disabled={!header}>
+              {header || `(column ${i + 1} has no header)`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="bg-card rounded-xl border border-border overflow-hidden mb-8">
+      <div className="p-4 border-b border-border bg-muted/50 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Columns3 className="w-5 h-5 text-muted-foreground" />
+          <h2 className="section-title">Map Columns — {fileName}</h2>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button onClick={onCancel} size="sm" variant="outline">
+            <X className="w-4 h-4 mr-2" />
+            Cancel
+          </Button>
+          <Button onClick={handleApply} size="sm" disabled={mappingErrors.length > 0}>
+            Continue to Review
+          </Button>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <p className="section-description">
+          This file isn't in the standard layout. Tell us which column holds each value, or pick a saved preset for this bank.
+        </p>
+
+        {/* Presets */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label className="text-sm font-medium text-foreground mb-2 block">Saved Presets</label>
+            {presets.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No presets saved yet.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {presets.map(preset => (
+                  <div key={preset.id} className="inline-flex items-center rounded-md border border-border">
+                    <button
+                      type="button"
+                      className="px-3 py-1 text-sm hover:bg-muted rounded-l-md"
+                      onClick={() => handleApplyPreset(preset.id)}
+                    >
+                      {preset.name}
+                    </button>
+                    <button
+                      type="button"
+                      className="px-2 py-1 text-muted-foreground hover:text-destructive border-l border-border"
+                      onClick={() => handleDeletePreset(preset)}
+                      aria-label={`Delete preset ${preset.name}`}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+          <div>
+            <label className="text-sm font-medium text-foreground mb-2 block">Save This Mapping As</label>
+            <div className="flex gap-2">
+              <Input
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                placeholder="e.g. Barclays Business"
+              />
+              <Button variant="outline" onClick={handleSavePreset} disabled={!presetName.trim()}>
+                <Save className="w-4 h-4 mr-2" />
+                Save
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        {/* Columns */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {renderColumnSelect('date', 'Date')}
+          <div>
+            <label className="text-sm font-medium text-foreground mb-2 block">Date Format</label>
+            <Select
+              value={mapping.dateFormat}
+              onValueChange={(value) => updateMapping({ dateFormat: value as CsvDateFormat })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CSV_DATE_FORMATS.map(format => (
+                  <SelectItem key={format} value={format}>{format}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="text-sm font-medium text-foreground mb-2 block">Amount Layout</label>
+            <Select
+              value={mapping.amountMode}
+              onValueChange={(value) => updateMapping({ amountMode: value as CsvAmountMode })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {AMOUNT_MODES.map(mode => (
+                  <SelectItem key={mode.value} value={mode.value}>{mode.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {mapping.amountMode === 'split' ? (
+            <>
+              {renderColumnSelect('debit', 'Money Out (payments)')}
+              {renderColumnSelect('credit', 'Money In (receipts)')}
+            </>
+          ) : (
+            <>
+              {renderColumnSelect('amount', 'Amount')}
+              {mapping.amountMode === 'type-column' && renderColumnSelect('type', 'Type (payment/receipt)')}
+            </>
+          )}
+          {mapping.amountMode === 'signed' && (
+            <div className="flex items-end pb-2">
+              <label className="flex items-center gap-2 text-sm text-foreground">
+                <Checkbox
+                  checked={!!mapping.invertSign}
+                  onCheckedChange={(checked) => updateMapping({ invertSign: checked === true })}
+                />
+                Positive amounts are payments
+              </label>
+            </div>
+          )}
+
+          {renderColumnSelect('description', 'Description', true)}
+          {renderColumnSelect('reference', 'Reference', true)}
+          {renderColumnSelect('category', 'Category', true)}
+          {renderColumnSelect('splitGroup', 'Split group', true)}
+          {renderColumnSelect('taxCode', 'Tax code', true)}
+        </div>
+
+        {dimensionColumns.length > 0 && (
+          <p className="text-sm text-muted-foreground">
+            Dimension tags will be read from{' '}
+            {dimensionColumns
+              .map(({ index, code }) => `"${table.headers[index]}" (${dimensions.find(d => d.code === code)?.name || code})`)
+              .join(', ')}
+            .
+          </p>
+        )}
+
+        {mappingErrors.length > 0 && (
+          <div className="p-3 rounded-lg bg-warning/10 border border-warning/30 text-sm text-warning space-y-1">
+            {mappingErrors.map((message, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                {message}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Preview */}
+        {preview.length > 0 && (
+          <div>
+            <h3 className="font-medium text-foreground mb-2">
+              Preview (first {preview.length} of {table.rows.length} rows)
+            </h3>
+            <div className="overflow-x-auto rounded-lg border border-border">
+              <table className="data-table">
+                <thead>
+                  <tr className="bg-muted/30">
+                    <th>Date</th>
+                    <th>Type</th>
+                    <th>Reference</th>
+                    <th>Description</th>
+                    <th className="text-right">Amount</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.map(tx => (
+                    <tr key={tx.rowIndex} className={cn(tx.validationErrors?.length && "bg-destructive/5")}>
+                      <td>{tx.date}</td>
+                      <td className="capitalize">{tx.type}</td>
+                      <td className="font-mono text-sm">{tx.reference}</td>
+                      <td>
+                        {tx.description}
+                        {tx.validationErrors?.map((message, i) => (
+                          <div key={i} className="flex items-center gap-1 text-xs text-destructive mt-1">
+                            <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                            {message}
+                          </div>
+                        ))}
+                      </td>
+                      <td className="text-right">{tx.amount.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
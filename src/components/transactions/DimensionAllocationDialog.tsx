@@ -0,0 +1,175 @@
+import { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { getAllocationTotal, validateAllocation } from '@/lib/dimensionAllocations';
+import { DimensionAllocation, ParsedCsvTransaction, RequiredDimension, SageDimensionTag } from '@/types/sage';
+
+interface DimensionAllocationDialogProps {
+  /** Row and dimension being allocated; the dialog is open while this is set */
+  target: { transaction: ParsedCsvTransaction; dimension: RequiredDimension } | null;
+  tags: SageDimensionTag[];
+  /** Undefined allocations go back to a single tag */
+  onSave: (rowIndex: number, dimensionCode: string, allocations: DimensionAllocation[] | undefined) => void;
+  onClose: () => void;
+}
+
+type DraftShare = { tagCode: string; percentageText: string };
+
+function initialShares(transaction: ParsedCsvTransaction, dimensionCode: string): DraftShare[] {
+  const existing = transaction.dimensionAllocations?.[dimensionCode];
+  if (existing?.length) {
+    return existing.map(a => ({ tagCode: a.tagCode, percentageText: String(a.percentage) }));
+  }
+
+  const selected = transaction.dimensionSelections[dimensionCode];
+  return [
+    { tagCode: selected || '', percentageText: selected ? '100' : '' },
+    { tagCode: '', percentageText: '' },
+  ];
+}
+
+export function DimensionAllocationDialog({ target, tags, onSave, onClose }: DimensionAllocationDialogProps) {
+  const [shares, setShares] = useState<DraftShare[]>([]);
+
+  useEffect(() => {
+    setShares(target ? initialShares(target.transaction, target.dimension.code) : []);
+  }, [target]);
+
+  if (!target) return null;
+
+  const { transaction, dimension } = target;
+  const allocations: DimensionAllocation[] = shares.map(s => ({
+    tagCode: s.tagCode,
+    percentage: Number(s.percentageText) || 0,
+  }));
+  const total = getAllocationTotal(allocations);
+  const errors = validateAllocation(allocations);
+  const canSave = shares.length >= 2 && errors.length === 0;
+
+  const updateShare = (index: number, changes: Partial<DraftShare>) => {
+    setShares(prev => prev.map((s, i) => (i === index ? { ...s, ...changes } : s)));
+  };
+
+  // Equal shares in hundredths, with any rounding left on the first share
+  const handleSplitEvenly = () => {
+    const each = Math.floor(10000 / shares.length);
+    const first = 10000 - each * (shares.length - 1);
+    setShares(prev => prev.map((s, i) => ({ ...s, percentageText: String((i === 0 ? first : each) / 100) })));
+  };
+
+  const handleSave = () => {
+    onSave(transaction.rowIndex, dimension.code, allocations);
+    onClose();
+  };
+
+  const handleClear = () => {
+    onSave(transaction.rowIndex, dimension.code, undefined);
+    onClose();
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Allocate {dimension.name} for Row {transaction.rowIndex}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {shares.map((share, index) => (
+            <div key={index} className="flex items-center gap-3">
+              <Select value={share.tagCode} onValueChange={(value) => updateShare(index, { tagCode: value })}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Select tag..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {tags.map(tag => (
+                    <SelectItem key={tag.Id} value={tag.Code}>
+                      {tag.Name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex items-center gap-1 w-28">
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="100"
+                  value={share.percentageText}
+                  onChange={(e) => updateShare(index, { percentageText: e.target.value })}
+                />
+                <span className="text-sm text-muted-foreground">%</span>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setShares(prev => prev.filter((_, i) => i !== index))}
+                disabled={shares.length <= 2}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 text-sm">
+          <div className="flex items-center gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setShares(prev => [...prev, { tagCode: '', percentageText: '' }])}
+              disabled={shares.length >= tags.length}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Tag
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={handleSplitEvenly}>
+              Split Evenly
+            </Button>
+          </div>
+          <span className={cn("font-medium", total === 100 ? "text-success" : "text-destructive")}>
+            Total {total}%
+          </span>
+        </div>
+
+        {errors.length > 0 && shares.some(s => s.tagCode || s.percentageText) && (
+          <div className="text-sm text-destructive space-y-1">
+            {errors.map((message, i) => <p key={i}>{message}</p>)}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {transaction.dimensionAllocations?.[dimension.code]?.length ? (
+            <Button type="button" variant="outline" onClick={handleClear} className="sm:mr-auto">
+              Use Single Tag
+            </Button>
+          ) : null}
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={!canSave}>
+            Save Allocation
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,309 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useApp } from '@/contexts/AppContext';
+import { useToast } from '@/hooks/use-toast';
+import { transactionService } from '@/services/transactionService';
+import { formatCurrency } from '@/lib/currency';
+import {
+  JournalEditValues,
+  applyJournalEdit,
+  canEditJournalAmount,
+  diffJournalEdit,
+  parseJournalAmount,
+  toJournalUpdate,
+} from '@/lib/journalCorrections';
+import { BankTransaction } from '@/types/sage';
+
+export type JournalAction = 'edit' | 'void' | 'delete';
+
+export interface JournalActionRequest {
+  action: JournalAction;
+  journalId: string;
+  /** The journal as it stands */
+  values: JournalEditValues;
+  /** Sage status, when known (the app's own list only knows voided or not) */
+  status?: string;
+  currency?: string;
+  /** The app's copy of the transaction, kept in step with Sage */
+  transaction?: BankTransaction;
+}
+
+interface JournalActionDialogProps {
+  /** The dialog is open while this is set */
+  request: JournalActionRequest | null;
+  onClose: () => void;
+  onComplete?: (action: JournalAction) => void;
+}
+
+// Amounts are edited as text so partial input like "12." survives
+type EditForm = Omit<JournalEditValues, 'amount'> & { amountText: string };
+
+export function JournalActionDialog({ request, onClose, onComplete }: JournalActionDialogProps) {
+  const {
+    activeTenantId,
+    credentials,
+    userName,
+    updateTransaction,
+    removeTransaction,
+    recordJournalAudit,
+  } = useApp();
+  const { toast } = useToast();
+  const [form, setForm] = useState<EditForm | null>(null);
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setReason('');
+    setForm(request ? { ...request.values, amountText: request.values.amount.toFixed(2) } : null);
+  }, [request]);
+
+  if (!request || !form) return null;
+
+  const hasLocalFields = request.values.description !== undefined;
+  const amountEditable = canEditJournalAmount(request.transaction);
+  const { amountText, ...fields } = form;
+  const edited: JournalEditValues = {
+    ...fields,
+    amount: amountEditable ? parseJournalAmount(amountText) : request.values.amount,
+  };
+  const amountValid = Number.isFinite(edited.amount) && edited.amount > 0;
+  const changes = amountValid && form.date ? diffJournalEdit(request.values, edited) : [];
+
+  const run = async (work: () => Promise<void>, successTitle: string) => {
+    if (!activeTenantId || !credentials) return;
+    setIsSaving(true);
+    try {
+      await work();
+      toast({ title: successTitle, description: `Recorded in the audit trail as ${userName}.` });
+      onComplete?.(request.action);
+      onClose();
+    } catch (error) {
+      toast({
+        title: 'Journal not changed',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveEdit = () => run(async () => {
+    const update = toJournalUpdate(request.values, edited);
+    if (Object.keys(update).length > 0) {
+      await transactionService.updateJournal(activeTenantId!, request.journalId, update, credentials!);
+    }
+    if (request.transaction) {
+      updateTransaction(request.transaction.id, applyJournalEdit(request.transaction, edited));
+    }
+    recordJournalAudit({
+      tenantId: activeTenantId!,
+      journalId: request.journalId,
+      action: 'edit',
+      reference: edited.reference.trim() || request.values.reference,
+      changes,
+    });
+  }, 'Journal updated');
+
+  const handleVoid = () => run(async () => {
+    await transactionService.voidJournal(activeTenantId!, request.journalId, reason.trim(), credentials!);
+    if (request.transaction) {
+      updateTransaction(request.transaction.id, { voidedAt: new Date().toISOString() });
+    }
+    recordJournalAudit({
+      tenantId: activeTenantId!,
+      journalId: request.journalId,
+      action: 'void',
+      reference: request.values.reference,
+      changes: [{ field: 'Status', from: request.status || 'Completed', to: 'Void' }],
+      reason: reason.trim(),
+      ...(request.transaction?.idempotencyKey ? { idempotencyKey: request.transaction.idempotencyKey } : {}),
+    });
+  }, 'Journal voided');
+
+  const handleDelete = () => run(async () => {
+    await transactionService.deleteJournal(activeTenantId!, request.journalId, credentials!);
+    if (request.transaction) {
+      removeTransaction(request.transaction.id);
+    }
+    // What was deleted, since the journal itself is gone
+    recordJournalAudit({
+      tenantId: activeTenantId!,
+      journalId: request.journalId,
+      action: 'delete',
+      reference: request.values.reference,
+      changes: [
+        { field: 'Date', from: request.values.date, to: '' },
+        { field: 'Amount', from: request.values.amount.toFixed(2), to: '' },
+      ],
+      ...(reason.trim() ? { reason: reason.trim() } : {}),
+      ...(request.transaction?.idempotencyKey ? { idempotencyKey: request.transaction.idempotencyKey } : {}),
+    });
+  }, 'Journal deleted');
+
+  const setField = (field: keyof EditForm, value: string) => setForm(prev => prev && { ...prev, [field]: value });
+
+  if (request.action === 'edit') {
+    return (
+      <Dialog open onOpenChange={(open) => !open && !isSaving && onClose()}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Edit Journal {request.values.reference && `— ${request.values.reference}`}</DialogTitle>
+            <DialogDescription>
+              {amountEditable ? 'Date, reference and amount are' : 'Date and reference are'} corrected in Sage.
+              {hasLocalFields && ' Description and category are only kept in this app.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="journal-date">Date</Label>
+              <Input
+                id="journal-date"
+                type="date"
+                value={form.date}
+                onChange={(e) => setField('date', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="journal-amount">Amount{request.currency ? ` (${request.currency})` : ''}</Label>
+              <Input
+                id="journal-amount"
+                inputMode="decimal"
+                value={form.amountText}
+                onChange={(e) => setField('amountText', e.target.value)}
+                disabled={!amountEditable}
+                className={!amountValid ? 'border-destructive' : undefined}
+              />
+              {!amountEditable && (
+                <p className="text-xs text-muted-foreground">
+                  Only single-line journals without VAT posted from this app. Void and re-post to change the amount.
+                </p>
+              )}
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="journal-reference">Reference</Label>
+              <Input
+                id="journal-reference"
+                value={form.reference}
+                onChange={(e) => setField('reference', e.target.value)}
+              />
+            </div>
+            {hasLocalFields && (
+              <>
+                <div className="space-y-2 col-span-2">
+                  <Label htmlFor="journal-description">Description</Label>
+                  <Input
+                    id="journal-description"
+                    value={form.description || ''}
+                    onChange={(e) => setField('description', e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2 col-span-2">
+                  <Label htmlFor="journal-category">Category</Label>
+                  <Input
+                    id="journal-category"
+                    value={form.category || ''}
+                    onChange={(e) => setField('category', e.target.value)}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+
+          {changes.length > 0 && (
+            <div className="p-3 bg-muted rounded-lg text-sm space-y-1">
+              <p className="font-medium text-foreground">Changes to save</p>
+              {changes.map(change => (
+                <p key={change.field} className="text-muted-foreground">
+                  {change.field}: <span className="line-through">{change.from || '—'}</span> → {change.to || '—'}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <DialogFooter className="gap-2">
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={handleSaveEdit} disabled={isSaving || changes.length === 0}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save {changes.length > 0 ? `${changes.length} Change${changes.length !== 1 ? 's' : ''}` : 'Changes'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
+  const isVoid = request.action === 'void';
+  const summary = `${request.values.reference || 'No reference'}, ${request.values.date}, ${formatCurrency(request.values.amount, request.currency)}`;
+
+  return (
+    <AlertDialog open onOpenChange={(open) => !open && !isSaving && onClose()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-destructive" />
+            {isVoid ? 'Void this journal?' : 'Delete this journal?'}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {summary}.{' '}
+            {isVoid
+              ? 'The journal stays in Sage marked Void and no longer counts towards the bank balance or reports.'
+              : 'The journal is removed from Sage and its effect on the bank balance reversed. This cannot be undone.'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="journal-reason">Reason{isVoid ? '' : ' (optional)'}</Label>
+          <Textarea
+            id="journal-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder={isVoid ? 'e.g. Posted to the wrong account' : 'e.g. Duplicate of an earlier import'}
+            rows={2}
+          />
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isSaving}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={(e) => {
+              // Stay open until Sage answers
+              e.preventDefault();
+              (isVoid ? handleVoid : handleDelete)();
+            }}
+            disabled={isSaving || (isVoid && !reason.trim())}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {isVoid ? 'Void Journal' : 'Delete Journal'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
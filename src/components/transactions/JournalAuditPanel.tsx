@@ -0,0 +1,79 @@
+import { ScrollText } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { JournalAuditEntry } from '@/types/sage';
+
+interface JournalAuditPanelProps {
+  entries: JournalAuditEntry[];
+}
+
+const ACTION_LABELS: Record<JournalAuditEntry['action'], string> = {
+  edit: 'Edited',
+  void: 'Voided',
+  delete: 'Deleted',
+  approve: 'Approved',
+  reject: 'Rejected',
+};
+
+const ACTION_VARIANTS: Record<JournalAuditEntry['action'], 'secondary' | 'outline' | 'destructive'> = {
+  edit: 'secondary',
+  void: 'outline',
+  delete: 'destructive',
+  approve: 'secondary',
+  reject: 'destructive',
+};
+
+export function JournalAuditPanel({ entries }: JournalAuditPanelProps) {
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="bg-card rounded-xl border border-border overflow-hidden mt-8">
+      <div className="p-4 border-b border-border bg-muted/50 flex items-center gap-2">
+        <ScrollText className="w-5 h-5 text-muted-foreground" />
+        <h2 className="section-title">Journal Audit Trail</h2>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="data-table">
+          <thead>
+            <tr className="bg-muted/30">
+              <th>When</th>
+              <th>Who</th>
+              <th>Action</th>
+              <th>Journal</th>
+              <th>Changes</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.slice().reverse().map(entry => (
+              <tr key={entry.id}>
+                <td className="whitespace-nowrap">{new Date(entry.changedAt).toLocaleString('en-GB')}</td>
+                <td>{entry.changedBy}</td>
+                <td>
+                  <Badge variant={ACTION_VARIANTS[entry.action]}>{ACTION_LABELS[entry.action]}</Badge>
+                </td>
+                <td>
+                  {entry.reference || '—'}
+                  <div className="text-xs text-muted-foreground font-mono">{entry.journalId.slice(0, 8)}</div>
+                </td>
+                <td className="text-sm">
+                  {entry.changes.map(change => (
+                    <div key={change.field}>
+                      <span className="text-muted-foreground">{change.field}:</span>{' '}
+                      {entry.action === 'delete' || entry.action === 'reject' ? change.from : (
+                        <>
+                          <span className="line-through text-muted-foreground">{change.from || '—'}</span> → {change.to || '—'}
+                        </>
+                      )}
+                    </div>
+                  ))}
+                  {entry.reason && (
+                    <div className="text-xs text-muted-foreground mt-1">Reason: {entry.reason}</div>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+import { useEffect, useState } from 'react';
+import { Plus, Trash2, Unlink } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { formatCurrency } from '@/lib/currency';
+import { describeDimensionValue, withoutAllocation } from '@/lib/dimensionAllocations';
+import { withoutUnresolved } from '@/lib/dimensionTags';
+import { getSplitRemainder, getSplitTotal, isSplitBalanced, startSplit } from '@/lib/splitTransactions';
+import { ParsedCsvTransaction, RequiredDimension, SageDimensionTag, TransactionSplit } from '@/types/sage';
+
+interface SplitEditorDialogProps {
+  /** Row being split; the dialog is open while this is set */
+  transaction: ParsedCsvTransaction | null;
+  requiredDimensions: RequiredDimension[];
+  dimensionTags: Record<string, SageDimensionTag[]>;
+  /** Bank account currency the amounts are in */
+  currency?: string;
+  /** Undefined splits turn the row back into a single line */
+  onSave: (rowIndex: number, splits: TransactionSplit[] | undefined) => void;
+  onClose: () => void;
+}
+
+// Amounts are edited as text so partial input like "12." survives
+type DraftLine = TransactionSplit & { amountText: string };
+
+const toDraft = (split: TransactionSplit): DraftLine => ({
+  ...split,
+  amountText: split.amount ? split.amount.toFixed(2) : '',
+});
+
+export function SplitEditorDialog({
+  transaction,
+  requiredDimensions,
+  dimensionTags,
+  currency,
+  onSave,
+  onClose,
+}: SplitEditorDialogProps) {
+  const [lines, setLines] = useState<DraftLine[]>([]);
+  const formatMoney = (value: number) => formatCurrency(value, currency);
+
+  useEffect(() => {
+    setLines(transaction ? startSplit(transaction).map(toDraft) : []);
+  }, [transaction]);
+
+  if (!transaction) return null;
+
+  const splits: TransactionSplit[] = lines.map(({ amountText, ...line }) => ({
+    ...line,
+    amount: Number(amountText) || 0,
+  }));
+  const remainder = getSplitRemainder(transaction.amount, splits);
+  const balanced = isSplitBalanced(transaction.amount, splits);
+  const allPositive = splits.every(s => s.amount > 0);
+  const canSave = lines.length >= 2 && balanced && allPositive;
+
+  const updateLine = (index: number, changes: Partial<DraftLine>) => {
+    setLines(prev => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const handleAllocateRemainder = () => {
+    const last = lines.length - 1;
+    const amount = Math.round(((Number(lines[last].amountText) || 0) + remainder) * 100) / 100;
+    updateLine(last, { amountText: amount > 0 ? amount.toFixed(2) : '' });
+  };
+
+  const handleSave = () => {
+    onSave(
+      transaction.rowIndex,
+      splits.map(s => ({ ...s, category: s.category?.trim() || undefined }))
+    );
+    onClose();
+  };
+
+  const handleUnsplit = () => {
+    onSave(transaction.rowIndex, undefined);
+    onClose();
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>
+            Split Row {transaction.rowIndex}: {transaction.description || transaction.reference || 'Transaction'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+          {lines.map((line, index) => (
+            <div key={index} className="flex flex-wrap items-end gap-3 p-3 bg-muted rounded-lg">
+              <div className="space-y-1 w-32">
+                <Label className="text-xs">Amount</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={line.amountText}
+                  onChange={(e) => updateLine(index, { amountText: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1 flex-1 min-w-[160px]">
+                <Label className="text-xs">Category</Label>
+                <Input
+                  value={line.category || ''}
+                  onChange={(e) => updateLine(index, { category: e.target.value })}
+                  placeholder="e.g. Office Supplies"
+                />
+              </div>
+              {requiredDimensions.map(dim => (
+                <div key={dim.id} className="space-y-1 min-w-[160px]">
+                  <Label className="text-xs">{dim.name}</Label>
+                  <Select
+                    value={line.dimensionSelections[dim.code] || ''}
+                    onValueChange={(value) => updateLine(index, {
+                      dimensionSelections: { ...line.dimensionSelections, [dim.code]: value },
+                      dimensionAllocations: withoutAllocation(line.dimensionAllocations, dim.code),
+                      unresolvedDimensions: withoutUnresolved(line.unresolvedDimensions, dim.code),
+                    })}
+                  >
+                    <SelectTrigger className={cn(line.unresolvedDimensions?.[dim.code] && "border-destructive")}>
+                      <SelectValue
+                        placeholder={
+                          line.unresolvedDimensions?.[dim.code]
+                            ? `Not found: ${line.unresolvedDimensions[dim.code]}`
+                            : describeDimensionValue(line, dim) || 'Select...'
+                        }
+                      />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(dimensionTags[dim.code] || []).map(tag => (
+                        <SelectItem key={tag.Id} value={tag.Code}>
+                          {tag.Name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setLines(prev => prev.filter((_, i) => i !== index))}
+                disabled={lines.length <= 2}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3 text-sm">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setLines(prev => [...prev, toDraft({ amount: 0, dimensionSelections: {} })])}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Line
+          </Button>
+          <div className="flex items-center gap-4">
+            <span className="text-muted-foreground">Bank line {formatMoney(transaction.amount)}</span>
+            <span className="text-muted-foreground">Allocated {formatMoney(getSplitTotal(splits))}</span>
+            <span className={cn("font-medium", balanced ? "text-success" : "text-destructive")}>
+              {balanced
+                ? 'Balanced'
+                : remainder > 0
+                  ? `${formatMoney(remainder)} left to allocate`
+                  : `${formatMoney(-remainder)} over`}
+            </span>
+            {!balanced && (
+              <Button type="button" variant="outline" size="sm" onClick={handleAllocateRemainder}>
+                Put Difference on Last Line
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {!allPositive && (
+          <p className="text-sm text-destructive">Every line needs an amount greater than zero.</p>
+        )}
+
+        <DialogFooter className="gap-2">
+          {transaction.splits?.length ? (
+            <Button type="button" variant="outline" onClick={handleUnsplit} className="sm:mr-auto">
+              <Unlink className="w-4 h-4 mr-2" />
+              Remove Split
+            </Button>
+          ) : null}
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={!canSave}>
+            Save Split
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
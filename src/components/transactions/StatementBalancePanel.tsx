@@ -0,0 +1,167 @@
+import { useState } from 'react';
+import { AlertCircle, CheckCircle2, Landmark, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useApp } from '@/contexts/AppContext';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { bankService } from '@/services/bankService';
+import { BankAccount, ParsedCsvTransaction } from '@/types/sage';
+import { StatementBalances, getNetMovement } from '@/lib/import/statement';
+import { formatCurrency } from '@/lib/currency';
+
+interface StatementBalancePanelProps {
+  balances: StatementBalances;
+  transactions: ParsedCsvTransaction[];
+  account: BankAccount | undefined;
+}
+
+// Balances are compared to the penny
+const sameAmount = (a: number, b: number) => Math.abs(a - b) < 0.005;
+
+export function StatementBalancePanel({ balances, transactions, account }: StatementBalancePanelProps) {
+  const { activeTenantId, credentials, addOpeningBalance } = useApp();
+  const { toast } = useToast();
+  const formatAmount = (amount: number) => formatCurrency(amount, account?.currencyISO);
+  const [isSaving, setIsSaving] = useState(false);
+  const [status, setStatus] = useState('');
+
+  const { opening, closing } = balances;
+  if (!opening && !closing) return null;
+
+  const netMovement = getNetMovement(transactions.filter(tx => !tx.validationErrors?.length));
+  const expectedClosing = opening ? Math.round((opening.amount + netMovement) * 100) / 100 : null;
+  const currencyMismatch = !!(balances.currency && account && balances.currency !== account.currencyISO);
+
+  const handleSetOpeningBalance = async () => {
+    if (!opening || !account || !activeTenantId || !credentials) return;
+
+    if (!credentials.bankOpeningBalanceJournalCode) {
+      toast({
+        title: "Configuration required",
+        description: "Please set the Bank Opening Balance Journal Code in Admin Settings.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await bankService.createOpeningBalance(
+        activeTenantId,
+        credentials.bankOpeningBalanceJournalCode,
+        {
+          Date: opening.date,
+          Reference: 'BankOpeningBalance',
+          BankAccount: { Id: account.id },
+          Amount: Math.abs(opening.amount),
+          TreatAs: opening.amount >= 0 ? 'Debit' : 'Credit',
+          Draft: 'false',
+        },
+        credentials,
+        setStatus
+      );
+
+      addOpeningBalance({
+        bankAccountId: account.id,
+        amount: opening.amount,
+        date: opening.date,
+      });
+
+      toast({
+        title: "Opening balance set",
+        description: `${account.name} opening balance set to ${formatAmount(opening.amount)} from the statement.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Failed to set opening balance",
+        description: error instanceof Error ? error.message : "An error occurred while setting the opening balance.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+      setStatus('');
+    }
+  };
+
+  return (
+    <div className="p-4 border-b border-border">
+      <div className="flex items-center gap-2 mb-3">
+        <Landmark className="w-4 h-4 text-muted-foreground" />
+        <h3 className="font-medium text-foreground">Statement Balances</h3>
+        {balances.accountIdentifier && (
+          <span className="text-xs text-muted-foreground font-mono">{balances.accountIdentifier}</span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+        <div>
+          <p className="text-muted-foreground">Opening</p>
+          <p className="font-semibold">{opening ? formatAmount(opening.amount) : '—'}</p>
+          {opening && <p className="text-xs text-muted-foreground">{opening.date}</p>}
+        </div>
+        <div>
+          <p className="text-muted-foreground">Net movement (valid rows)</p>
+          <p className={cn("font-semibold", netMovement >= 0 ? "text-success" : "text-destructive")}>
+            {netMovement >= 0 ? '+' : ''}{formatAmount(netMovement)}
+          </p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Closing</p>
+          <p className="font-semibold">{closing ? formatAmount(closing.amount) : '—'}</p>
+          {closing && <p className="text-xs text-muted-foreground">{closing.date}</p>}
+        </div>
+        <div>
+          <p className="text-muted-foreground">Account balance in app</p>
+          <p className="font-semibold">{account ? formatAmount(account.balance) : '—'}</p>
+        </div>
+      </div>
+
+      <div className="mt-3 space-y-1 text-sm">
+        {expectedClosing !== null && closing && (
+          sameAmount(expectedClosing, closing.amount) ? (
+            <p className="flex items-center gap-2 text-success">
+              <CheckCircle2 className="w-4 h-4" />
+              Opening balance plus statement rows equals the closing balance.
+            </p>
+          ) : (
+            <p className="flex items-center gap-2 text-warning">
+              <AlertCircle className="w-4 h-4" />
+              Opening balance plus statement rows is {formatAmount(expectedClosing)}, but the statement closes at {formatAmount(closing.amount)}.
+            </p>
+          )
+        )}
+
+        {account && opening && (
+          sameAmount(account.balance, opening.amount) ? (
+            <p className="flex items-center gap-2 text-success">
+              <CheckCircle2 className="w-4 h-4" />
+              {account.name} balance matches the statement opening balance.
+            </p>
+          ) : (
+            <p className="flex items-center gap-2 text-warning">
+              <AlertCircle className="w-4 h-4" />
+              {account.name} balance differs from the statement opening balance by {formatAmount(opening.amount - account.balance)}.
+            </p>
+          )
+        )}
+
+        {currencyMismatch && (
+          <p className="flex items-center gap-2 text-destructive">
+            <AlertCircle className="w-4 h-4" />
+            Statement currency {balances.currency} does not match the account currency {account?.currencyISO}.
+          </p>
+        )}
+      </div>
+
+      {account && opening && !sameAmount(account.balance, opening.amount) && (
+        <div className="mt-3 flex items-center gap-3">
+          <Button size="sm" variant="outline" onClick={handleSetOpeningBalance} disabled={isSaving || currencyMismatch}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Set Opening Balance from Statement
+          </Button>
+          {status && <span className="text-xs text-muted-foreground">{status}</span>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { History, Loader2, Play, RotateCcw, Ban, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { BankAccount } from '@/types/sage';
+import {
+  UploadBatch,
+  UploadBatchStatus,
+  summariseUploadBatch,
+} from '@/lib/uploadBatches';
+
+interface UploadBatchesPanelProps {
+  batches: UploadBatch[];
+  bankAccounts: BankAccount[];
+  /** Batch currently being sent from this tab */
+  activeBatchId: string | null;
+  disabled: boolean;
+  onResume: (batch: UploadBatch) => void;
+  onRetryFailed: (batch: UploadBatch) => void;
+  onAbandon: (batch: UploadBatch) => void;
+  onDelete: (batch: UploadBatch) => void;
+}
+
+const STATUS_LABELS: Record<UploadBatchStatus, string> = {
+  'in-progress': 'In progress',
+  completed: 'Completed',
+  failed: 'Has failures',
+  abandoned: 'Abandoned',
+};
+
+const STATUS_VARIANTS: Record<UploadBatchStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  'in-progress': 'default',
+  completed: 'secondary',
+  failed: 'destructive',
+  abandoned: 'outline',
+};
+
+export function UploadBatchesPanel({
+  batches,
+  bankAccounts,
+  activeBatchId,
+  disabled,
+  onResume,
+  onRetryFailed,
+  onAbandon,
+  onDelete,
+}: UploadBatchesPanelProps) {
+  if (batches.length === 0) return null;
+
+  return (
+    <div className="bg-card rounded-xl border border-border overflow-hidden mb-8">
+      <div className="p-4 border-b border-border bg-muted/50 flex items-center gap-2">
+        <History className="w-5 h-5 text-muted-foreground" />
+        <h2 className="section-title">Upload Batches</h2>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="data-table">
+          <thead>
+            <tr className="bg-muted/30">
+              <th>Started</th>
+              <th>File</th>
+              <th>Bank Account</th>
+              <th>Rows</th>
+              <th>Status</th>
+              <th className="text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {batches.map(batch => {
+              const summary = summariseUploadBatch(batch);
+              const isActive = batch.id === activeBatchId;
+              const isOpen = batch.status !== 'abandoned' && batch.status !== 'completed';
+              const interrupted = batch.status === 'in-progress' && !isActive;
+              const lastError = batch.rows.filter(r => r.status === 'failed').slice(-1)[0]?.lastError;
+
+              return (
+                <tr key={batch.id}>
+                  <td className="whitespace-nowrap">{new Date(batch.createdAt).toLocaleString('en-GB')}</td>
+                  <td>
+                    {batch.fileName || '—'}
+                    <div className="text-xs text-muted-foreground font-mono">{batch.id.slice(0, 8)}</div>
+                  </td>
+                  <td>{bankAccounts.find(a => a.id === batch.bankAccountId)?.name || batch.bankAccountId}</td>
+                  <td className="text-sm">
+                    <span className="text-success">{summary.success} sent</span>
+                    {summary.failed > 0 && <span className="text-destructive"> · {summary.failed} failed</span>}
+                    {summary.pending > 0 && <span className="text-muted-foreground"> · {summary.pending} pending</span>}
+                    {summary.skipped > 0 && <span className="text-muted-foreground"> · {summary.skipped} skipped</span>}
+                    {lastError && (
+                      <div className="text-xs text-destructive mt-1 max-w-xs truncate" title={lastError}>
+                        {lastError}
+                      </div>
+                    )}
+                  </td>
+                  <td>
+                    <Badge variant={STATUS_VARIANTS[batch.status]} className="gap-1">
+                      {isActive && <Loader2 className="w-3 h-3 animate-spin" />}
+                      {interrupted ? 'Interrupted' : STATUS_LABELS[batch.status]}
+                    </Badge>
+                  </td>
+                  <td>
+                    <div className="flex items-center justify-end gap-2">
+                      {isOpen && summary.pending > 0 && (
+                        <Button size="sm" variant="outline" onClick={() => onResume(batch)} disabled={disabled}>
+                          <Play className="w-4 h-4 mr-2" />
+                          Resume
+                        </Button>
+                      )}
+                      {isOpen && summary.failed > 0 && (
+                        <Button size="sm" variant="outline" onClick={() => onRetryFailed(batch)} disabled={disabled}>
+                          <RotateCcw className="w-4 h-4 mr-2" />
+                          Retry Failed
+                        </Button>
+                      )}
+                      {isOpen ? (
+                        <Button size="sm" variant="ghost" onClick={() => onAbandon(batch)} disabled={disabled}>
+                          <Ban className="w-4 h-4 mr-2" />
+                          Abandon
+                        </Button>
+                      ) : (
+                        <Button size="sm" variant="ghost" onClick={() => onDelete(batch)} disabled={disabled}>
+                          <Trash2 className="w-4 h-4 mr-2" />
+                          Remove
+                        </Button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
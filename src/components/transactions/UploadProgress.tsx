@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react';
+import { Gauge, Loader2, Pause } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { getRateLimitState } from '@/lib/apiClient';
+
+interface UploadProgressProps {
+  total: number;
+  completed: number;
+  failed: number;
+  startedAt: number;
+  concurrency: number;
+  isPausing: boolean;
+  onPause: () => void;
+}
+
+const formatDuration = (seconds: number) => {
+  if (!Number.isFinite(seconds)) return '—';
+  const s = Math.max(0, Math.round(seconds));
+  const minutes = Math.floor(s / 60);
+  return `${minutes}:${String(s % 60).padStart(2, '0')}`;
+};
+
+export function UploadProgress({
+  total,
+  completed,
+  failed,
+  startedAt,
+  concurrency,
+  isPausing,
+  onPause,
+}: UploadProgressProps) {
+  // Re-render every second so elapsed time, ETA and rate-limit pauses stay current
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const elapsedSeconds = Math.max(0.001, (now - startedAt) / 1000);
+  const throughput = completed / elapsedSeconds;
+  const etaSeconds = throughput > 0 ? (total - completed) / throughput : Infinity;
+  const percent = total > 0 ? (completed / total) * 100 : 0;
+  const rateLimit = getRateLimitState();
+  const pausedFor = rateLimit.pausedUntil ? Math.ceil((rateLimit.pausedUntil - now) / 1000) : 0;
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-4 mb-8 space-y-3">
+      <div className="flex items-center justify-between gap-4 text-sm">
+        <span className="flex items-center gap-2 font-medium text-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          {isPausing ? 'Pausing after requests in flight…' : `Posting ${completed} of ${total}`}
+          {failed > 0 && <span className="text-destructive font-normal">({failed} failed)</span>}
+        </span>
+        <Button size="sm" variant="outline" onClick={onPause} disabled={isPausing}>
+          <Pause className="w-4 h-4 mr-2" />
+          Pause
+        </Button>
+      </div>
+
+      <Progress value={percent} />
+
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-1 text-xs text-muted-foreground">
+        <span>{concurrency} concurrent</span>
+        <span>{throughput.toFixed(1)} rows/s</span>
+        <span>Elapsed {formatDuration(elapsedSeconds)}</span>
+        <span>ETA {completed > 0 ? formatDuration(etaSeconds) : '—'}</span>
+        {pausedFor > 0 ? (
+          <span className="flex items-center gap-1 text-warning">
+            <Gauge className="w-3 h-3" />
+            Rate limited, resuming in {pausedFor}s
+          </span>
+        ) : rateLimit.remaining !== null && (
+          <span className="flex items-center gap-1">
+            <Gauge className="w-3 h-3" />
+            {rateLimit.remaining}{rateLimit.limit !== null ? `/${rateLimit.limit}` : ''} requests left this window
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
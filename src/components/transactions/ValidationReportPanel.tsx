@@ -0,0 +1,65 @@
+import { AlertCircle, CheckCircle2, X, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { TransactionValidationReport } from '@/lib/transactionValidation';
+
+interface ValidationReportPanelProps {
+  report: TransactionValidationReport;
+  onDismiss: () => void;
+}
+
+export function ValidationReportPanel({ report, onDismiss }: ValidationReportPanelProps) {
+  const errors = report.issues.filter(i => i.severity === 'error');
+  const warnings = report.issues.filter(i => i.severity === 'warning');
+  const passed = errors.length === 0;
+
+  return (
+    <div className={cn(
+      "border-b text-sm",
+      passed ? "bg-success/10 border-success/30" : "bg-destructive/10 border-destructive/30"
+    )}>
+      <div className="p-3 flex items-center justify-between gap-2">
+        <span className={cn("flex items-center gap-2", passed ? "text-success" : "text-destructive")}>
+          {passed ? <CheckCircle2 className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+          {passed
+            ? `Validation passed: all ${report.rowCount} row(s) are ready to post.`
+            : `Validation found ${errors.length} problem(s) across ${report.invalidRows.length} row(s). Nothing was posted.`}
+          {warnings.length > 0 && (
+            <span className="text-warning">{warnings.length} warning(s).</span>
+          )}
+        </span>
+        <Button size="sm" variant="ghost" onClick={onDismiss}>
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {report.issues.length > 0 && (
+        <div className="max-h-64 overflow-y-auto border-t border-border bg-card">
+          <table className="data-table">
+            <thead>
+              <tr className="bg-muted/30">
+                <th>Row</th>
+                <th>Field</th>
+                <th>Problem</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.issues.map((issue, i) => (
+                <tr key={i}>
+                  <td className="text-muted-foreground whitespace-nowrap">{issue.rowIndex ?? 'All rows'}</td>
+                  <td className="font-mono text-xs">{issue.field}</td>
+                  <td className={issue.severity === 'error' ? 'text-destructive' : 'text-warning'}>
+                    <span className="flex items-center gap-1">
+                      <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                      {issue.message}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
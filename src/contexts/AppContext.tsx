@@ -1,8 +1,12 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { AppState, Credentials, Tenant, BankAccount, FinancialYear, BankTransaction, OpeningBalance, RequiredDimension } from '@/types/sage';
+import { SyncChange, SyncRecords, mergeSyncChanges } from '@/lib/sageSync';
+import { Workspace, WorkspaceExport, createWorkspaceExport, loadWorkspace, replaceWorkspace, saveWorkspaceSlice } from '@/lib/workspaceStore';
+import { AppState, Credentials, Tenant, BankAccount, FinancialYear, BankTransaction, OpeningBalance, RequiredDimension, CategoryLedgerMapping, CategorisationRule, JournalAuditEntry } from '@/types/sage';
 
 interface AppContextType extends AppState {
-  login: (password: string) => boolean;
+  login: (password: string, userName?: string) => boolean;
+  /** Name given at sign-in, recorded against journal corrections */
+  userName: string;
   logout: () => void;
   setCredentials: (creds: Credentials) => void;
   addTenant: (tenant: Omit<Tenant, 'createdAt' | 'status'>) => Tenant;
@@ -11,19 +15,49 @@ interface AppContextType extends AppState {
   addFinancialYear: (year: Omit<FinancialYear, 'id'>) => FinancialYear;
   addOpeningBalance: (balance: Omit<OpeningBalance, 'id'>) => OpeningBalance;
   addTransactions: (transactions: Omit<BankTransaction, 'id'>[]) => BankTransaction[];
+  updateTransaction: (id: string, changes: Partial<Omit<BankTransaction, 'id'>>) => void;
+  removeTransaction: (id: string) => void;
   getActiveTenant: () => Tenant | null;
   requiredDimensions: RequiredDimension[];
   setRequiredDimensions: (dims: RequiredDimension[]) => void;
+  categoryMappings: CategoryLedgerMapping[];
+  setTenantCategoryMappings: (tenantId: string, mappings: CategoryLedgerMapping[]) => void;
+  categorisationRules: CategorisationRule[];
+  setTenantCategorisationRules: (tenantId: string, rules: CategorisationRule[]) => void;
+  journalAudit: JournalAuditEntry[];
+  recordJournalAudit: (entry: Omit<JournalAuditEntry, 'id' | 'changedBy' | 'changedAt'>) => JournalAuditEntry;
+  /**
+   * Applies changes from a sync with Sage to the latest records; `base` is the
+   * records the changes were worked out from
+   */
+  applySageSync: (changes: SyncChange[], base?: SyncRecords) => void;
+  /** False until the saved workspace has loaded */
+  isWorkspaceLoaded: boolean;
+  exportWorkspace: (includeCredentials: boolean) => WorkspaceExport;
+  /** Replaces the whole workspace, keeping the current credentials when it has none */
+  importWorkspace: (workspace: Workspace) => Promise<void>;
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
 const DEMO_PASSWORD = 'sage2024';
+const DEFAULT_USER_NAME = 'Demo user';
 
 const generateId = () => Math.random().toString(36).substr(2, 9);
 
+/**
+ * Saves one part of the workspace whenever it changes, once the saved
+ * workspace has loaded (so the empty initial state never overwrites it)
+ */
+function usePersistedSlice<K extends keyof Workspace>(key: K, value: Workspace[K], isLoaded: boolean) {
+  useEffect(() => {
+    if (isLoaded) saveWorkspaceSlice(key, value);
+  }, [key, value, isLoaded]);
+}
+
 export function AppProvider({ children }: { children: ReactNode }) {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [userName, setUserName] = useState(DEFAULT_USER_NAME);
   const [credentials, setCredentialsState] = useState<Credentials | null>(null);
   const [tenants, setTenants] = useState<Tenant[]>([]);
   const [activeTenantId, setActiveTenantId] = useState<string | null>(null);
@@ -31,43 +65,56 @@ export function AppProvider({ children }: { children: ReactNode }) {
   const [financialYears, setFinancialYears] = useState<FinancialYear[]>([]);
   const [transactions, setTransactions] = useState<BankTransaction[]>([]);
   const [requiredDimensions, setRequiredDimensionsState] = useState<RequiredDimension[]>([]);
-  // Load from localStorage on mount
+  const [categoryMappings, setCategoryMappings] = useState<CategoryLedgerMapping[]>([]);
+  const [categorisationRules, setCategorisationRules] = useState<CategorisationRule[]>([]);
+  const [journalAudit, setJournalAudit] = useState<JournalAuditEntry[]>([]);
+  const [isWorkspaceLoaded, setIsWorkspaceLoaded] = useState(false);
+
+  const applyWorkspace = (workspace: Workspace) => {
+    setCredentialsState(workspace.credentials);
+    setTenants(workspace.tenants);
+    setActiveTenantId(workspace.activeTenantId);
+    setBankAccounts(workspace.bankAccounts);
+    setFinancialYears(workspace.financialYears);
+    setTransactions(workspace.transactions);
+    setRequiredDimensionsState(workspace.requiredDimensions);
+    setCategoryMappings(workspace.categoryMappings);
+    setCategorisationRules(workspace.categorisationRules);
+    setJournalAudit(workspace.journalAudit);
+  };
+
+  // Load the saved workspace on mount; the sign-in and its name last for the session only
   useEffect(() => {
-    const saved = localStorage.getItem('sage-demo-state');
-    if (saved) {
-      const state = JSON.parse(saved);
-      setCredentialsState(state.credentials);
-      setTenants(state.tenants || []);
-      setActiveTenantId(state.activeTenantId);
-      setBankAccounts(state.bankAccounts || []);
-      setFinancialYears(state.financialYears || []);
-      setTransactions(state.transactions || []);
-      setRequiredDimensionsState(state.requiredDimensions || []);
-    }
+    loadWorkspace().then(workspace => {
+      applyWorkspace(workspace);
+      setIsWorkspaceLoaded(true);
+    });
     const auth = sessionStorage.getItem('sage-demo-auth');
     if (auth === 'true') {
       setIsAuthenticated(true);
+      setUserName(sessionStorage.getItem('sage-demo-user') || DEFAULT_USER_NAME);
     }
   }, []);
 
-  // Save to localStorage on changes
-  useEffect(() => {
-    const state = {
-      credentials,
-      tenants,
-      activeTenantId,
-      bankAccounts,
-      financialYears,
-      transactions,
-      requiredDimensions,
-    };
-    localStorage.setItem('sage-demo-state', JSON.stringify(state));
-  }, [credentials, tenants, activeTenantId, bankAccounts, financialYears, transactions, requiredDimensions]);
+  // Save each part of the workspace on its own as it changes
+  usePersistedSlice('credentials', credentials, isWorkspaceLoaded);
+  usePersistedSlice('tenants', tenants, isWorkspaceLoaded);
+  usePersistedSlice('activeTenantId', activeTenantId, isWorkspaceLoaded);
+  usePersistedSlice('bankAccounts', bankAccounts, isWorkspaceLoaded);
+  usePersistedSlice('financialYears', financialYears, isWorkspaceLoaded);
+  usePersistedSlice('transactions', transactions, isWorkspaceLoaded);
+  usePersistedSlice('requiredDimensions', requiredDimensions, isWorkspaceLoaded);
+  usePersistedSlice('categoryMappings', categoryMappings, isWorkspaceLoaded);
+  usePersistedSlice('categorisationRules', categorisationRules, isWorkspaceLoaded);
+  usePersistedSlice('journalAudit', journalAudit, isWorkspaceLoaded);
 
-  const login = (password: string) => {
+  const login = (password: string, name?: string) => {
     if (password === DEMO_PASSWORD) {
+      const signedInAs = name?.trim() || DEFAULT_USER_NAME;
       setIsAuthenticated(true);
+      setUserName(signedInAs);
       sessionStorage.setItem('sage-demo-auth', 'true');
+      sessionStorage.setItem('sage-demo-user', signedInAs);
       return true;
     }
     return false;
@@ -75,7 +122,9 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
   const logout = () => {
     setIsAuthenticated(false);
+    setUserName(DEFAULT_USER_NAME);
     sessionStorage.removeItem('sage-demo-auth');
+    sessionStorage.removeItem('sage-demo-user');
   };
 
   const setCredentials = (creds: Credentials) => {
@@ -140,10 +189,81 @@ export function AppProvider({ children }: { children: ReactNode }) {
     return withIds;
   };
 
+  const updateTransaction = (id: string, changes: Partial<Omit<BankTransaction, 'id'>>) => {
+    setTransactions(prev => prev.map(t => (t.id === id ? { ...t, ...changes } : t)));
+  };
+
+  const removeTransaction = (id: string) => {
+    setTransactions(prev => prev.filter(t => t.id !== id));
+  };
+
+  // Entries are only ever appended, so the trail can't be rewritten from the app
+  const recordJournalAudit = (entry: Omit<JournalAuditEntry, 'id' | 'changedBy' | 'changedAt'>) => {
+    const newEntry: JournalAuditEntry = {
+      ...entry,
+      id: generateId(),
+      changedBy: userName,
+      changedAt: new Date().toISOString(),
+    };
+    setJournalAudit(prev => [...prev, newEntry]);
+    return newEntry;
+  };
+
+  // Merged into the latest state, so changes made while the sync ran are kept
+  const applySageSync = (changes: SyncChange[], base?: SyncRecords) => {
+    setTenants(prev => mergeSyncChanges('tenants', prev, changes, base?.tenants));
+    setBankAccounts(prev => mergeSyncChanges('bankAccounts', prev, changes, base?.bankAccounts));
+    setFinancialYears(prev => mergeSyncChanges('financialYears', prev, changes, base?.financialYears));
+    setTransactions(prev => mergeSyncChanges('transactions', prev, changes, base?.transactions));
+    // The active tenant may have been removed
+    const removedTenants = new Set(changes.filter(c => c.entity === 'tenant' && c.kind === 'removed').map(c => c.id));
+    setActiveTenantId(prev => (prev && removedTenants.has(prev) ? null : prev));
+  };
+
   const setRequiredDimensions = (dims: RequiredDimension[]) => {
     setRequiredDimensionsState(dims);
   };
 
+  // Replaces one tenant's mapping table, leaving other tenants' untouched
+  const setTenantCategoryMappings = (tenantId: string, mappings: CategoryLedgerMapping[]) => {
+    setCategoryMappings(prev => [
+      ...prev.filter(m => m.tenantId !== tenantId),
+      ...mappings.map(m => ({ ...m, tenantId })),
+    ]);
+  };
+
+  // Replaces one tenant's rules, in order, leaving other tenants' untouched
+  const setTenantCategorisationRules = (tenantId: string, rules: CategorisationRule[]) => {
+    setCategorisationRules(prev => [
+      ...prev.filter(r => r.tenantId !== tenantId),
+      ...rules.map(r => ({ ...r, tenantId })),
+    ]);
+  };
+
+  const exportWorkspace = (includeCredentials: boolean) => createWorkspaceExport({
+    credentials,
+    activeTenantId,
+    tenants,
+    bankAccounts,
+    financialYears,
+    transactions,
+    requiredDimensions,
+    categoryMappings,
+    categorisationRules,
+    journalAudit,
+  }, includeCredentials);
+
+  const importWorkspace = async (workspace: Workspace) => {
+    const imported: Workspace = {
+      ...workspace,
+      credentials: workspace.credentials || credentials,
+      activeTenantId: workspace.tenants.some(t => t.id === workspace.activeTenantId) ? workspace.activeTenantId : null,
+    };
+    // Written in one go first, so a failed import leaves the saved workspace as it was
+    await replaceWorkspace(imported);
+    applyWorkspace(imported);
+  };
+
   const getActiveTenant = () => {
     return tenants.find(t => t.id === activeTenantId) || null;
   };
@@ -159,6 +279,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
         financialYears,
         transactions,
         login,
+        userName,
         logout,
         setCredentials,
         addTenant,
@@ -167,9 +288,21 @@ export function AppProvider({ children }: { children: ReactNode }) {
         addFinancialYear,
         addOpeningBalance,
         addTransactions,
+        updateTransaction,
+        removeTransaction,
         getActiveTenant,
         requiredDimensions,
         setRequiredDimensions,
+        categoryMappings,
+        setTenantCategoryMappings,
+        categorisationRules,
+        setTenantCategorisationRules,
+        journalAudit,
+        recordJournalAudit,
+        applySageSync,
+        isWorkspaceLoaded,
+        exportWorkspace,
+        importWorkspace,
       }}
     >
       {children}
@@ -0,0 +1,184 @@
+/**
+ * Sage Sync Context
+ *
+ * Keeps the app's records in line with Sage rather than trusting what this
+ * browser happened to create.
+ * Features:
+ * - "Sync from Sage" refreshes the tenant list and the active tenant's bank
+ *   accounts, financial years and journals
+ * - Switching tenant syncs that tenant's records (the tenant list is left as is,
+ *   so a tenant created moments ago isn't dropped before Sage lists it); the
+ *   tenant the app opens or signs in on is left for "Sync from Sage"
+ * - Records Sage no longer has wait for the user to confirm removing them
+ * - The last sync's changes are kept for review
+ */
+
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { useApp } from '@/contexts/AppContext';
+import { useToast } from '@/hooks/use-toast';
+import { subscriptionService } from '@/services/subscriptionService';
+import { bankService, SageJournalEntry } from '@/services/bankService';
+import { financialService } from '@/services/financialService';
+import { SageSnapshot, SyncRecords, SyncReport, describeSyncChanges, diffSageSnapshot, getJournalSyncRange } from '@/lib/sageSync';
+
+interface SageSyncContextType {
+  isSyncing: boolean;
+  lastSync: SyncReport | null;
+  /** Fetches from Sage and applies the differences; null when it couldn't start */
+  syncFromSage: (options?: { includeTenants?: boolean }) => Promise<SyncReport | null>;
+  /** Removes the records the last sync found Sage no longer has */
+  applyPendingRemovals: () => void;
+  /** Keeps those records; the next sync will find them again */
+  dismissPendingRemovals: () => void;
+}
+
+const SageSyncContext = createContext<SageSyncContextType | undefined>(undefined);
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : 'Unknown error');
+
+export function SageSyncProvider({ children }: { children: ReactNode }) {
+  const {
+    isAuthenticated,
+    isWorkspaceLoaded,
+    credentials,
+    activeTenantId,
+    tenants,
+    bankAccounts,
+    financialYears,
+    transactions,
+    applySageSync,
+  } = useApp();
+  const { toast } = useToast();
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [lastSync, setLastSync] = useState<SyncReport | null>(null);
+
+  const syncFromSage = async ({ includeTenants = true }: { includeTenants?: boolean } = {}) => {
+    if (!credentials?.clientId || !credentials?.clientSecret || isSyncing) return null;
+
+    setIsSyncing(true);
+    // The changes are worked out against the records as they are now
+    const base: SyncRecords = { tenants, bankAccounts, financialYears, transactions };
+    const snapshot: SageSnapshot = {};
+    const errors: string[] = [];
+
+    if (includeTenants) {
+      try {
+        snapshot.tenants = await subscriptionService.getTenants(credentials);
+      } catch (error) {
+        errors.push(`Tenants: ${errorMessage(error)}`);
+      }
+    }
+
+    const tenantId = activeTenantId;
+    if (tenantId && (!snapshot.tenants || snapshot.tenants.some(t => t.id === tenantId))) {
+      snapshot.tenantId = tenantId;
+      try {
+        snapshot.bankAccounts = await bankService.getBankAccounts(tenantId, credentials);
+      } catch (error) {
+        errors.push(`Bank accounts: ${errorMessage(error)}`);
+      }
+      try {
+        snapshot.financialYears = await financialService.getFinancialYears(tenantId, credentials);
+      } catch (error) {
+        errors.push(`Financial years: ${errorMessage(error)}`);
+      }
+
+      // Journals only exist within a financial year, so the years set the dates
+      const range = snapshot.financialYears ? getJournalSyncRange(snapshot.financialYears) : null;
+      if (snapshot.bankAccounts && range) {
+        const journals: Record<string, SageJournalEntry[]> = {};
+        for (const account of snapshot.bankAccounts) {
+          try {
+            journals[account.id] = await bankService.getAccountTransactions(
+              tenantId,
+              account.id,
+              range.startDate,
+              range.endDate,
+              credentials
+            );
+          } catch (error) {
+            errors.push(`Journals for ${account.name}: ${errorMessage(error)}`);
+          }
+        }
+        snapshot.journals = journals;
+        snapshot.journalRange = range;
+      }
+    }
+
+    const changes = diffSageSnapshot(base, snapshot, credentials.bankOpeningBalanceJournalCode);
+    const applied = changes.filter(c => c.kind !== 'removed');
+    applySageSync(applied, base);
+
+    const report: SyncReport = {
+      syncedAt: new Date().toISOString(),
+      tenantId,
+      changes: applied,
+      pendingRemovals: changes.filter(c => c.kind === 'removed'),
+      errors,
+    };
+    setLastSync(report);
+    setIsSyncing(false);
+    return report;
+  };
+
+  const applyPendingRemovals = () => {
+    if (!lastSync || lastSync.pendingRemovals.length === 0) return;
+    applySageSync(lastSync.pendingRemovals);
+    setLastSync({ ...lastSync, changes: [...lastSync.changes, ...lastSync.pendingRemovals], pendingRemovals: [] });
+  };
+
+  const dismissPendingRemovals = () => {
+    if (lastSync) setLastSync({ ...lastSync, pendingRemovals: [] });
+  };
+
+  // The effect below runs on tenant switches only, but should sync with the latest records
+  const syncFromSageRef = useRef(syncFromSage);
+  syncFromSageRef.current = syncFromSage;
+
+  // The tenant seen last, or undefined until signed in with the workspace loaded
+  const lastTenantIdRef = useRef<string | null | undefined>(undefined);
+
+  // Each tenant switch brings that tenant's records up to date
+  useEffect(() => {
+    if (!isAuthenticated || !isWorkspaceLoaded) {
+      lastTenantIdRef.current = undefined;
+      return;
+    }
+    const previous = lastTenantIdRef.current;
+    lastTenantIdRef.current = activeTenantId;
+    if (previous === undefined || previous === activeTenantId || !activeTenantId) return;
+
+    syncFromSageRef.current({ includeTenants: false }).then(report => {
+      if (!report) return;
+      const { changes, pendingRemovals, errors } = report;
+      if (changes.length === 0 && pendingRemovals.length === 0 && errors.length === 0) return;
+      toast({
+        title: errors.length > 0 ? "Sync from Sage incomplete" : "Synced from Sage",
+        description: errors.length > 0
+          ? errors.slice(0, 2).join('; ')
+          : [
+              changes.length > 0 ? `${describeSyncChanges(changes)}.` : '',
+              pendingRemovals.length > 0
+                ? `${pendingRemovals.length} record${pendingRemovals.length !== 1 ? 's are' : ' is'} no longer in Sage and waiting for you to confirm removing ${pendingRemovals.length !== 1 ? 'them' : 'it'}.`
+                : '',
+              'Review from the sidebar.',
+            ].filter(Boolean).join(' '),
+        variant: errors.length > 0 ? "destructive" : "default",
+      });
+    });
+  }, [activeTenantId, isAuthenticated, isWorkspaceLoaded, toast]);
+
+  return (
+    <SageSyncContext.Provider value={{ isSyncing, lastSync, syncFromSage, applyPendingRemovals, dismissPendingRemovals }}>
+      {children}
+    </SageSyncContext.Provider>
+  );
+}
+
+export function useSageSync() {
+  const context = useContext(SageSyncContext);
+  if (context === undefined) {
+    throw new Error('useSageSync must be used within a SageSyncProvider');
+  }
+  return context;
+}
@@ -7,22 +7,45 @@
  * - Times each request (duration in ms)
  * - Generates unique requestId for each call
  * - Applies centralized redaction before logging
- * - Implements retry with exponential backoff for 429/5xx
+ * - Implements retry with exponential backoff for 429/5xx (429s wait for retry-after)
+ * - Tracks x-ratelimit-* headers so concurrent callers can throttle themselves
+ * - Optionally drives 202 Accepted operations to completion (replay with the
+ *   same idempotency key, honouring retry-after)
+ * - Routes requests to the local Sage emulator when it is enabled
  */
 
 import { getToken, TokenType } from './tokenManager';
 import { logApiCall, ApiLogEntry } from './logger';
 import { getApiBaseUrl, getSubscriptionApiUrl, getOriginalApiBaseUrl, getOriginalSubscriptionApiUrl } from './configManager';
+import { sageFetch } from './emulator';
 import { Credentials } from '@/types/sage';
 
-export type FeatureArea = 'tenants' | 'bank-accounts' | 'financial-years' | 'transactions' | 'reports' | 'auth' | 'dimensions' | 'other';
+export type FeatureArea = 'tenants' | 'bank-accounts' | 'financial-years' | 'transactions' | 'reports' | 'auth' | 'dimensions' | 'ledger-accounts' | 'tax-rates' | 'other';
+
+export type StatusCallback = (status: string) => void;
+
+/**
+ * Opt-in strategy for endpoints that answer 202 Accepted while work completes.
+ * The request is replayed (same method, body and idempotency key) until a
+ * non-202 response arrives, the attempts run out, or the signal aborts.
+ */
+export interface AsyncCompletionOptions {
+  /** Total requests including the first one (default 5) */
+  maxAttempts?: number;
+  /** Delay used when the response has no usable retry-after header (default 2s) */
+  defaultDelaySeconds?: number;
+  /** Multiplier applied to the fallback delay after each attempt (default 1.5) */
+  backoffMultiplier?: number;
+  /** Upper bound for any single wait, including server-provided retry-after (default 30s) */
+  maxDelaySeconds?: number;
+  /** Receives human-readable progress messages for the UI */
+  onStatusChange?: StatusCallback;
+}
 
 export interface ApiRequestOptions {
   method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
   endpoint: string;
   body?: unknown;
-  /** Pre-serialized JSON string – sent as-is, never touched by JSON.stringify */
-  rawBody?: string;
   headers?: Record<string, string>;
   tokenType: TokenType;
   featureArea: FeatureArea;
@@ -31,6 +54,20 @@ export interface ApiRequestOptions {
   retries?: number;
   /** Idempotency key for POST/PUT/PATCH requests (added as X-Idempotency-Key header) */
   idempotencyKey?: string;
+  /** Handle 202 Accepted by polling until the operation completes */
+  asyncCompletion?: AsyncCompletionOptions;
+  /** Cancels the request, including any pending retry or async-completion wait */
+  signal?: AbortSignal;
+}
+
+/**
+ * Latest rate-limit information seen on any response
+ */
+export interface RateLimitState {
+  limit: number | null;
+  remaining: number | null;
+  /** Epoch ms until which requests should not be sent (from a 429's retry-after) */
+  pausedUntil: number | null;
 }
 
 export interface ApiResponse<T = unknown> {
@@ -45,11 +82,34 @@ export interface ApiResponse<T = unknown> {
   logEntry: Omit<ApiLogEntry, 'id'>;
 }
 
+/**
+ * A failed request, keeping the HTTP status (0 when no response arrived) so
+ * callers can tell a rejected request from one worth retrying
+ */
+export class ApiRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.status = status;
+  }
+}
+
 // Retry configuration
 const DEFAULT_MAX_RETRIES = 3;
 const RETRY_BASE_DELAY_MS = 1000;
 const RETRYABLE_STATUS_CODES = [429, 500, 502, 503, 504];
 
+// Longest pause honoured from a 429 retry-after header
+const MAX_RATE_LIMIT_PAUSE_SECONDS = 60;
+
+// Async completion (202) defaults
+const DEFAULT_ASYNC_MAX_ATTEMPTS = 5;
+const DEFAULT_ASYNC_DELAY_SECONDS = 2;
+const DEFAULT_ASYNC_BACKOFF_MULTIPLIER = 1.5;
+const DEFAULT_ASYNC_MAX_DELAY_SECONDS = 30;
+
 // Store for latest API call per feature (for Developer Mode panels)
 const latestCalls: Record<FeatureArea, Omit<ApiLogEntry, 'id'> | null> = {
   tenants: null,
@@ -59,9 +119,17 @@ const latestCalls: Record<FeatureArea, Omit<ApiLogEntry, 'id'> | null> = {
   reports: null,
   auth: null,
   dimensions: null,
+  'ledger-accounts': null,
+  'tax-rates': null,
   other: null,
 };
 
+const rateLimitState: RateLimitState = {
+  limit: null,
+  remaining: null,
+  pausedUntil: null,
+};
+
 /**
  * Generates a unique request ID
  */
@@ -93,6 +161,36 @@ function extractResponseHeaders(headers: Headers): Record<string, string> {
   return result;
 }
 
+/**
+ * Records x-ratelimit-* headers, and the retry-after of a 429, from a response
+ */
+function updateRateLimitState(status: number, headers: Record<string, string>): void {
+  const header = (name: string) => headers[name] ?? headers[name.toLowerCase()];
+  const limit = parseInt(header('x-ratelimit-limit') ?? '', 10);
+  const remaining = parseInt(header('x-ratelimit-remaining') ?? '', 10);
+
+  if (!isNaN(limit)) rateLimitState.limit = limit;
+  if (!isNaN(remaining)) rateLimitState.remaining = remaining;
+
+  if (status === 429) {
+    const retryAfter = parseRetryAfter(header('retry-after'));
+    if (retryAfter !== null) {
+      const until = Date.now() + Math.min(retryAfter, MAX_RATE_LIMIT_PAUSE_SECONDS) * 1000;
+      rateLimitState.pausedUntil = Math.max(rateLimitState.pausedUntil ?? 0, until);
+    }
+  }
+}
+
+/**
+ * Gets the latest rate-limit information (a copy)
+ */
+export function getRateLimitState(): RateLimitState {
+  if (rateLimitState.pausedUntil !== null && rateLimitState.pausedUntil <= Date.now()) {
+    rateLimitState.pausedUntil = null;
+  }
+  return { ...rateLimitState };
+}
+
 /**
  * Gets the base URL for a token type (may be proxied in dev)
  */
@@ -108,18 +206,119 @@ function getOriginalBaseUrl(tokenType: TokenType): string {
 }
 
 /**
- * Sleeps for a specified duration
+ * Sleeps for a specified duration, resolving early if the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+}
+
+/**
+ * Parses a retry-after header value into seconds.
+ * Accepts both delta-seconds ("5") and HTTP-date ("Wed, 21 Oct 2015 07:28:00 GMT") forms.
+ * Returns null when the header is missing or unparseable.
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+export function parseRetryAfter(value: string | undefined | null, now: number = Date.now()): number | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return parseFloat(trimmed);
+  }
+
+  const date = Date.parse(trimmed);
+  if (isNaN(date)) return null;
+  return Math.max(0, (date - now) / 1000);
 }
 
 /**
- * Makes an API request with automatic token handling and logging
+ * Builds the response returned when a request is cancelled via its signal
+ */
+function cancelledResponse<T>(
+  requestId: string,
+  startTime: number,
+  logEntry: Omit<ApiLogEntry, 'id'>
+): ApiResponse<T> {
+  return {
+    success: false,
+    data: null,
+    status: 0,
+    statusText: 'Cancelled',
+    headers: {},
+    error: 'Request cancelled',
+    requestId,
+    durationMs: Date.now() - startTime,
+    logEntry,
+  };
+}
+
+/**
+ * Makes an API request with automatic token handling and logging.
+ * When `asyncCompletion` is set, 202 responses are polled to completion.
  */
 export async function apiRequest<T = unknown>(
   options: ApiRequestOptions,
   credentials: Credentials
+): Promise<ApiResponse<T>> {
+  if (!options.asyncCompletion) {
+    return sendRequest<T>(options, credentials);
+  }
+
+  const {
+    maxAttempts = DEFAULT_ASYNC_MAX_ATTEMPTS,
+    defaultDelaySeconds = DEFAULT_ASYNC_DELAY_SECONDS,
+    backoffMultiplier = DEFAULT_ASYNC_BACKOFF_MULTIPLIER,
+    maxDelaySeconds = DEFAULT_ASYNC_MAX_DELAY_SECONDS,
+    onStatusChange,
+  } = options.asyncCompletion;
+  const startTime = Date.now();
+
+  let fallbackDelay = defaultDelaySeconds;
+  let response = await sendRequest<T>(options, credentials, 1);
+
+  for (let attempt = 2; response.status === 202 && attempt <= maxAttempts; attempt++) {
+    const retryAfter = parseRetryAfter(response.headers['retry-after']);
+    const delaySeconds = Math.min(retryAfter ?? fallbackDelay, maxDelaySeconds);
+    fallbackDelay *= backoffMultiplier;
+
+    onStatusChange?.(`Processing... waiting ${Math.ceil(delaySeconds)} seconds`);
+    await sleep(delaySeconds * 1000, options.signal);
+
+    if (options.signal?.aborted) {
+      return cancelledResponse<T>(response.requestId, startTime, response.logEntry);
+    }
+
+    onStatusChange?.(`Checking status (attempt ${attempt} of ${maxAttempts})...`);
+    response = await sendRequest<T>(options, credentials, attempt);
+  }
+
+  if (response.status === 202) {
+    return {
+      ...response,
+      success: false,
+      data: null,
+      error: `Operation still processing after ${maxAttempts} attempts`,
+      durationMs: Date.now() - startTime,
+    };
+  }
+
+  return { ...response, durationMs: Date.now() - startTime };
+}
+
+/**
+ * Performs a single logical request (with 429/5xx retries) and logs each HTTP call
+ */
+async function sendRequest<T>(
+  options: ApiRequestOptions,
+  credentials: Credentials,
+  asyncAttempt?: number
 ): Promise<ApiResponse<T>> {
   const requestId = generateRequestId();
   const startTime = Date.now();
@@ -148,6 +347,9 @@ export async function apiRequest<T = unknown>(
   if (options.idempotencyKey && ['POST', 'PUT', 'PATCH'].includes(options.method)) {
     requestHeaders['X-Idempotency-Key'] = options.idempotencyKey;
   }
+
+  // Serialised once, so the logged body is exactly the one sent
+  const requestBody = options.body ? JSON.stringify(options.body) : null;
   
   // Get auth token if needed
   if (!options.skipAuth) {
@@ -167,7 +369,7 @@ export async function apiRequest<T = unknown>(
           method: options.method,
           url: logUrl,
           requestHeaders,
-          requestBody: options.rawBody || (options.body ? JSON.stringify(options.body, null, 2) : null),
+          requestBody,
           status: 0,
           statusText: 'Auth Failed',
           responseHeaders: {},
@@ -176,6 +378,7 @@ export async function apiRequest<T = unknown>(
           tenantId: options.tenantId || null,
           featureArea: options.featureArea,
           error: 'Failed to obtain access token',
+          asyncAttempt,
         });
         
         await logApiCall(logEntry);
@@ -201,7 +404,7 @@ export async function apiRequest<T = unknown>(
         method: options.method,
         url: logUrl,
         requestHeaders,
-        requestBody: options.rawBody || (options.body ? JSON.stringify(options.body) : null),
+        requestBody,
         status: 0,
         statusText: 'Auth Error',
         responseHeaders: {},
@@ -210,6 +413,7 @@ export async function apiRequest<T = unknown>(
         tenantId: options.tenantId || null,
         featureArea: options.featureArea,
         error: error instanceof Error ? error.message : 'Authentication error',
+        asyncAttempt,
       });
       
       await logApiCall(logEntry);
@@ -235,19 +439,25 @@ export async function apiRequest<T = unknown>(
   
   while (attempt <= maxRetries) {
     try {
-      // Use rawBody verbatim if provided; otherwise JSON.stringify body
-      const serializedBody = options.rawBody
-        ? options.rawBody
-        : (options.body ? JSON.stringify(options.body) : undefined);
+      // Another request hit the rate limit: wait until the server said to retry
+      const { pausedUntil } = getRateLimitState();
+      if (pausedUntil) {
+        await sleep(pausedUntil - Date.now(), options.signal);
+        if (options.signal?.aborted) {
+          throw new DOMException('Aborted', 'AbortError');
+        }
+      }
 
-      const response = await fetch(url, {
+      const response = await sageFetch(url, {
         method: options.method,
         headers: requestHeaders,
-        body: serializedBody,
+        body: requestBody ?? undefined,
+        signal: options.signal,
       });
       
       const durationMs = Date.now() - startTime;
       const responseHeaders = extractResponseHeaders(response.headers);
+      updateRateLimitState(response.status, responseHeaders);
       
       let responseBody: string | null = null;
       let data: T | null = null;
@@ -266,7 +476,7 @@ export async function apiRequest<T = unknown>(
         method: options.method,
         url: logUrl,
         requestHeaders,
-        requestBody: options.rawBody ? options.rawBody : (options.body ? JSON.stringify(options.body) : null),
+        requestBody,
         status: response.status,
         statusText: response.statusText,
         responseHeaders,
@@ -274,6 +484,7 @@ export async function apiRequest<T = unknown>(
         durationMs,
         tenantId: options.tenantId || null,
         featureArea: options.featureArea,
+        asyncAttempt,
       });
       
       // Log the call
@@ -282,8 +493,14 @@ export async function apiRequest<T = unknown>(
       
       // Check if we should retry
       if (RETRYABLE_STATUS_CODES.includes(response.status) && attempt < maxRetries) {
-        const delay = RETRY_BASE_DELAY_MS * Math.pow(2, attempt);
-        await sleep(delay);
+        // 429s wait via the shared pause at the top of the loop when retry-after is given
+        const delay = response.status === 429 && getRateLimitState().pausedUntil
+          ? 0
+          : RETRY_BASE_DELAY_MS * Math.pow(2, attempt);
+        await sleep(delay, options.signal);
+        if (options.signal?.aborted) {
+          return cancelledResponse<T>(requestId, startTime, logEntry);
+        }
         attempt++;
         continue;
       }
@@ -302,6 +519,31 @@ export async function apiRequest<T = unknown>(
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
       
+      // Aborted via signal - log once and stop retrying
+      if (options.signal?.aborted) {
+        const logEntry = createLogEntry({
+          requestId,
+          method: options.method,
+          url: logUrl,
+          requestHeaders,
+          requestBody,
+          status: 0,
+          statusText: 'Cancelled',
+          responseHeaders: {},
+          responseBody: null,
+          durationMs: Date.now() - startTime,
+          tenantId: options.tenantId || null,
+          featureArea: options.featureArea,
+          error: 'Request cancelled',
+          asyncAttempt,
+        });
+        
+        await logApiCall(logEntry);
+        latestCalls[options.featureArea] = logEntry;
+        
+        return cancelledResponse<T>(requestId, startTime, logEntry);
+      }
+      
       // Check for CORS or network errors
       if (error instanceof TypeError && error.message.includes('Failed to fetch')) {
         const logEntry = createLogEntry({
@@ -309,7 +551,7 @@ export async function apiRequest<T = unknown>(
           method: options.method,
           url: logUrl,
           requestHeaders,
-           requestBody: options.rawBody || (options.body ? JSON.stringify(options.body) : null),
+          requestBody,
           status: 0,
           statusText: 'CORS/Network Error',
           responseHeaders: {},
@@ -318,6 +560,7 @@ export async function apiRequest<T = unknown>(
           tenantId: options.tenantId || null,
           featureArea: options.featureArea,
           error: 'CORS restriction or network error - sandbox endpoint may not support browser requests',
+          asyncAttempt,
         });
         
         await logApiCall(logEntry);
@@ -339,7 +582,7 @@ export async function apiRequest<T = unknown>(
       // Retry on network errors
       if (attempt < maxRetries) {
         const delay = RETRY_BASE_DELAY_MS * Math.pow(2, attempt);
-        await sleep(delay);
+        await sleep(delay, options.signal);
         attempt++;
         continue;
       }
@@ -352,7 +595,7 @@ export async function apiRequest<T = unknown>(
     method: options.method,
     url: logUrl,
     requestHeaders,
-    requestBody: options.rawBody || (options.body ? JSON.stringify(options.body) : null),
+    requestBody,
     status: 0,
     statusText: 'Request Failed',
     responseHeaders: {},
@@ -361,6 +604,7 @@ export async function apiRequest<T = unknown>(
     tenantId: options.tenantId || null,
     featureArea: options.featureArea,
     error: lastError?.message || 'Request failed after retries',
+    asyncAttempt,
   });
   
   await logApiCall(logEntry);
@@ -396,6 +640,7 @@ function createLogEntry(params: {
   tenantId: string | null;
   featureArea: string;
   error?: string;
+  asyncAttempt?: number;
 }): Omit<ApiLogEntry, 'id'> {
   return {
     requestId: params.requestId,
@@ -412,6 +657,7 @@ function createLogEntry(params: {
     tenantId: params.tenantId,
     featureArea: params.featureArea,
     error: params.error,
+    ...(params.asyncAttempt ? { asyncAttempt: params.asyncAttempt } : {}),
   };
 }
 
@@ -434,33 +680,34 @@ export const apiClient = {
   request: apiRequest,
   getLatestCall,
   clearLatestCall,
+  getRateLimitState,
   
   // Convenience methods that throw on error
   async get<T>(url: string, options: Omit<ApiRequestOptions, 'method' | 'endpoint'> & { credentials: import('@/types/sage').Credentials }): Promise<T> {
     const { credentials, ...rest } = options;
     const response = await apiRequest<T>({ ...rest, method: 'GET', endpoint: url }, credentials);
-    if (!response.success) throw new Error(response.error || `Request failed: ${response.status}`);
+    if (!response.success) throw new ApiRequestError(response.error || `Request failed: ${response.status}`, response.status);
     return response.data!;
   },
   
   async post<T>(url: string, body: unknown, options: Omit<ApiRequestOptions, 'method' | 'endpoint' | 'body'> & { credentials: import('@/types/sage').Credentials }): Promise<T> {
     const { credentials, ...rest } = options;
     const response = await apiRequest<T>({ ...rest, method: 'POST', endpoint: url, body }, credentials);
-    if (!response.success) throw new Error(response.error || `Request failed: ${response.status}`);
+    if (!response.success) throw new ApiRequestError(response.error || `Request failed: ${response.status}`, response.status);
     return response.data!;
   },
   
   async put<T>(url: string, body: unknown, options: Omit<ApiRequestOptions, 'method' | 'endpoint' | 'body'> & { credentials: import('@/types/sage').Credentials }): Promise<T> {
     const { credentials, ...rest } = options;
     const response = await apiRequest<T>({ ...rest, method: 'PUT', endpoint: url, body }, credentials);
-    if (!response.success) throw new Error(response.error || `Request failed: ${response.status}`);
+    if (!response.success) throw new ApiRequestError(response.error || `Request failed: ${response.status}`, response.status);
     return response.data!;
   },
   
   async delete<T>(url: string, options: Omit<ApiRequestOptions, 'method' | 'endpoint'> & { credentials: import('@/types/sage').Credentials }): Promise<T> {
     const { credentials, ...rest } = options;
     const response = await apiRequest<T>({ ...rest, method: 'DELETE', endpoint: url }, credentials);
-    if (!response.success) throw new Error(response.error || `Request failed: ${response.status}`);
+    if (!response.success) throw new ApiRequestError(response.error || `Request failed: ${response.status}`, response.status);
     return response.data!;
   },
 };
@@ -0,0 +1,116 @@
+/**
+ * Bulk Dimension Tags
+ *
+ * Tags many review rows at once, so a long statement doesn't need one pick
+ * per dimension per row.
+ * Features:
+ * - Apply a tag to every selected row
+ * - Fill down: blank cells take the nearest value above, like a spreadsheet
+ * - Copy every dimension from the previous row
+ * - Split rows are left alone; their tags are set per split line
+ */
+
+import { ParsedCsvTransaction } from '@/types/sage';
+import { hasDimensionValue, withoutAllocation } from './dimensionAllocations';
+import { withoutUnresolved } from './dimensionTags';
+
+function isTaggable(tx: ParsedCsvTransaction): boolean {
+  return !tx.splits?.length;
+}
+
+/**
+ * Sets a single tag for a dimension, replacing any percentage allocation or
+ * unmatched value from the file
+ */
+export function setDimensionTag(
+  tx: ParsedCsvTransaction,
+  dimensionCode: string,
+  tagCode: string
+): ParsedCsvTransaction {
+  return {
+    ...tx,
+    dimensionSelections: { ...tx.dimensionSelections, [dimensionCode]: tagCode },
+    dimensionAllocations: withoutAllocation(tx.dimensionAllocations, dimensionCode),
+    unresolvedDimensions: withoutUnresolved(tx.unresolvedDimensions, dimensionCode),
+  };
+}
+
+// Copies one dimension's tag or allocation from another row
+function copyDimension(
+  tx: ParsedCsvTransaction,
+  source: ParsedCsvTransaction,
+  dimensionCode: string
+): ParsedCsvTransaction {
+  const allocation = source.dimensionAllocations?.[dimensionCode];
+  if (!allocation?.length) return setDimensionTag(tx, dimensionCode, source.dimensionSelections[dimensionCode]);
+
+  const dimensionSelections = { ...tx.dimensionSelections };
+  delete dimensionSelections[dimensionCode];
+  return {
+    ...tx,
+    dimensionSelections,
+    dimensionAllocations: { ...tx.dimensionAllocations, [dimensionCode]: allocation },
+    unresolvedDimensions: withoutUnresolved(tx.unresolvedDimensions, dimensionCode),
+  };
+}
+
+/**
+ * Sets the tag on every selected row
+ */
+export function applyTagToRows(
+  transactions: ParsedCsvTransaction[],
+  rowIndexes: Set<number>,
+  dimensionCode: string,
+  tagCode: string
+): ParsedCsvTransaction[] {
+  return transactions.map(tx =>
+    rowIndexes.has(tx.rowIndex) && isTaggable(tx) ? setDimensionTag(tx, dimensionCode, tagCode) : tx
+  );
+}
+
+/**
+ * Gives each blank cell the nearest value above it, for each dimension.
+ * Only the selected rows are filled, or every row when none are selected.
+ */
+export function fillDown(
+  transactions: ParsedCsvTransaction[],
+  dimensionCodes: string[],
+  rowIndexes?: Set<number>
+): ParsedCsvTransaction[] {
+  const lastTagged: Record<string, ParsedCsvTransaction> = {};
+
+  return transactions.map(tx => {
+    if (!isTaggable(tx)) return tx;
+
+    let filled = tx;
+    for (const code of dimensionCodes) {
+      if (hasDimensionValue(tx, code)) {
+        lastTagged[code] = tx;
+      } else if (lastTagged[code] && (!rowIndexes?.size || rowIndexes.has(tx.rowIndex))) {
+        filled = copyDimension(filled, lastTagged[code], code);
+      }
+    }
+    return filled;
+  });
+}
+
+/**
+ * Copies every dimension from the nearest row above that can be tagged
+ */
+export function copyFromPreviousRow(
+  transactions: ParsedCsvTransaction[],
+  rowIndex: number,
+  dimensionCodes: string[]
+): ParsedCsvTransaction[] {
+  const position = transactions.findIndex(tx => tx.rowIndex === rowIndex);
+  const previous = transactions.slice(0, Math.max(position, 0)).reverse().find(isTaggable);
+  if (position < 0 || !previous || !isTaggable(transactions[position])) return transactions;
+
+  return transactions.map((tx, i) =>
+    i === position
+      ? dimensionCodes
+          .filter(code => hasDimensionValue(previous, code))
+          .reduce((row, code) => copyDimension(row, previous, code), tx)
+      : tx
+  );
+}
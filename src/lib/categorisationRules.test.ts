@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { CategorisationRule, ParsedCsvTransaction } from '@/types/sage';
+import { applyCategorisationRules, exportRules, importRules } from './categorisationRules';
+import { applyLedgerMappings } from './ledgerMapping';
+
+const rule: CategorisationRule = {
+  id: 'rule_1',
+  tenantId: 'tenant-a',
+  name: 'Rent',
+  enabled: true,
+  conditions: { descriptionContains: 'rent' },
+  actions: { category: 'Rent', ledgerAccount: { id: 'ledger-a-7100', code: '7100', name: 'Rent and rates' } },
+};
+
+describe('exportRules', () => {
+  it('leaves out tenant and ledger account IDs', () => {
+    const [exported] = JSON.parse(exportRules([rule])).rules;
+
+    expect(exported.tenantId).toBeUndefined();
+    expect(exported.actions.ledgerAccount).toEqual({ code: '7100', name: 'Rent and rates' });
+  });
+});
+
+describe('importRules', () => {
+  it("matches ledger accounts to the tenant's own by code", () => {
+    const { rules, unmatchedLedgerAccounts } = importRules(exportRules([rule]), 'tenant-b', [
+      { Id: 'ledger-b-7100', Code: '7100', Name: 'Rent' },
+    ]);
+
+    expect(rules[0].tenantId).toBe('tenant-b');
+    expect(rules[0].id).not.toBe(rule.id);
+    expect(rules[0].enabled).toBe(true);
+    expect(rules[0].actions.ledgerAccount).toEqual({ id: 'ledger-b-7100', code: '7100', name: 'Rent' });
+    expect(unmatchedLedgerAccounts).toEqual([]);
+  });
+
+  it('falls back to the ledger account name', () => {
+    const { rules } = importRules(exportRules([rule]), 'tenant-b', [
+      { Id: 'ledger-b-7200', Code: '7200', Name: 'RENT AND RATES' },
+    ]);
+
+    expect(rules[0].actions.ledgerAccount?.id).toBe('ledger-b-7200');
+  });
+
+  it("disables rules whose ledger account the tenant doesn't have", () => {
+    const { rules, unmatchedLedgerAccounts } = importRules(exportRules([rule]), 'tenant-b', []);
+
+    expect(rules[0].enabled).toBe(false);
+    expect(rules[0].actions).toEqual({ category: 'Rent' });
+    expect(unmatchedLedgerAccounts).toEqual(['7100 Rent and rates']);
+  });
+
+  it('ignores ledger account IDs in older files', () => {
+    const file = JSON.stringify({ version: 1, rules: [{ ...rule, tenantId: undefined }] });
+    const { rules } = importRules(file, 'tenant-b', [{ Id: 'ledger-b-7100', Code: '7100', Name: 'Rent' }]);
+
+    expect(rules[0].actions.ledgerAccount?.id).toBe('ledger-b-7100');
+  });
+});
+
+describe('applyCategorisationRules', () => {
+  const tagged = { ...rule, actions: { ...rule.actions, dimensionSelections: { DEPT: 'ADMIN' } } };
+
+  const splitRow: ParsedCsvTransaction = {
+    rowIndex: 1,
+    type: 'payment',
+    date: '2024-03-01',
+    description: 'Office rent',
+    reference: 'RENT',
+    amount: 100,
+    category: 'Uncategorized',
+    dimensionSelections: {},
+    splits: [
+      { amount: 60, category: 'Uncategorized', dimensionSelections: {} },
+      { amount: 40, category: 'Service charge', dimensionSelections: { DEPT: 'OPS' } },
+    ],
+  };
+
+  it("fills each split line from the row's rule", () => {
+    const [tx] = applyCategorisationRules([splitRow], [tagged]);
+
+    expect(tx.splits).toEqual([
+      { amount: 60, category: 'Rent', ledgerAccountId: 'ledger-a-7100', dimensionSelections: { DEPT: 'ADMIN' } },
+      { amount: 40, category: 'Service charge', ledgerAccountId: 'ledger-a-7100', dimensionSelections: { DEPT: 'OPS' } },
+    ]);
+  });
+
+  it("keeps the rule's ledger account on split lines over the category mapping", () => {
+    const mappings = [{ tenantId: 'tenant-a', category: '*', ledgerAccountId: 'ledger-a-5000', ledgerAccountCode: '5000', ledgerAccountName: 'Purchases' }];
+
+    const [tx] = applyLedgerMappings(applyCategorisationRules([splitRow], [tagged]), mappings);
+
+    expect(tx.splits?.map(line => line.ledgerAccountId)).toEqual(['ledger-a-7100', 'ledger-a-7100']);
+    expect(applyLedgerMappings([splitRow], mappings)[0].splits?.map(line => line.ledgerAccountId))
+      .toEqual(['ledger-a-5000', 'ledger-a-5000']);
+  });
+});
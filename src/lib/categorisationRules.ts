@@ -0,0 +1,277 @@
+/**
+ * Categorisation Rules
+ *
+ * Per-tenant rules that fill in a parsed row's category, ledger account and
+ * dimension tags before review, so recurring bank lines don't need picking by hand.
+ * Features:
+ * - Conditions on description (contains or regex), amount range, type and reference prefix
+ * - Every condition a rule sets must match; rules are tried in order and the first match wins
+ * - Rules only fill what the file left blank, apart from the ledger account
+ * - On split rows the rule fills every line as well as the row
+ * - Export and import as JSON, to copy rules between tenants or keep a backup;
+ *   ledger accounts travel by code and name, since their IDs belong to one tenant
+ */
+
+import { CategorisationRule, ParsedCsvTransaction, SageLedgerAccount, TransactionSplit } from '@/types/sage';
+import { isUncategorized } from './ledgerMapping';
+
+export const RULES_EXPORT_VERSION = 1;
+
+type RuleSubject = Pick<ParsedCsvTransaction, 'description' | 'reference' | 'amount' | 'type'>;
+
+// What a rule fills in, on a row or on one of its split lines
+type RuleTarget = Pick<TransactionSplit, 'category' | 'ledgerAccountId' | 'dimensionSelections' | 'dimensionAllocations'>;
+
+export interface RulesImport {
+  rules: CategorisationRule[];
+  /** Ledger accounts named in the file that the tenant doesn't have, as "code name" */
+  unmatchedLedgerAccounts: string[];
+}
+
+export interface RuleTestResult<T extends RuleSubject = RuleSubject> {
+  transaction: T;
+  rule: CategorisationRule | undefined;
+}
+
+const generateRuleId = () => `rule_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+
+export function createRule(tenantId: string): CategorisationRule {
+  return {
+    id: generateRuleId(),
+    tenantId,
+    name: '',
+    enabled: true,
+    conditions: {},
+    actions: {},
+  };
+}
+
+function compileRegex(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+}
+
+function hasConditions(rule: CategorisationRule): boolean {
+  const c = rule.conditions;
+  return Boolean(
+    c.descriptionContains?.trim() ||
+    c.descriptionRegex?.trim() ||
+    c.minAmount !== undefined ||
+    c.maxAmount !== undefined ||
+    c.type ||
+    c.referencePrefix?.trim()
+  );
+}
+
+function hasActions(rule: CategorisationRule): boolean {
+  const a = rule.actions;
+  return Boolean(
+    a.category?.trim() ||
+    a.ledgerAccount?.id ||
+    Object.values(a.dimensionSelections || {}).some(Boolean)
+  );
+}
+
+/**
+ * Problems that stop a rule being saved; empty when it's valid
+ */
+export function validateRule(rule: CategorisationRule): string[] {
+  const errors: string[] = [];
+  const { minAmount, maxAmount, descriptionRegex } = rule.conditions;
+
+  if (!rule.name.trim()) errors.push('Give the rule a name');
+  if (!hasConditions(rule)) errors.push('Add at least one condition');
+  if (!hasActions(rule)) errors.push('Set a category, ledger account or dimension tag');
+  if (descriptionRegex?.trim() && !compileRegex(descriptionRegex)) {
+    errors.push('Description pattern is not a valid regular expression');
+  }
+  if ((minAmount !== undefined && minAmount < 0) || (maxAmount !== undefined && maxAmount < 0)) {
+    errors.push('Amounts are positive; use the type to tell payments from receipts');
+  }
+  if (minAmount !== undefined && maxAmount !== undefined && minAmount > maxAmount) {
+    errors.push('Minimum amount is more than the maximum');
+  }
+
+  return errors;
+}
+
+/**
+ * Whether every condition the rule sets matches the row.
+ * A rule with an invalid regex never matches.
+ */
+export function matchesRule(rule: CategorisationRule, tx: RuleSubject): boolean {
+  const c = rule.conditions;
+  const description = (tx.description || '').toLowerCase();
+
+  if (!hasConditions(rule)) return false;
+  if (c.descriptionContains?.trim() && !description.includes(c.descriptionContains.trim().toLowerCase())) {
+    return false;
+  }
+  if (c.descriptionRegex?.trim()) {
+    const regex = compileRegex(c.descriptionRegex.trim());
+    if (!regex || !regex.test(tx.description || '')) return false;
+  }
+  if (c.minAmount !== undefined && tx.amount < c.minAmount) return false;
+  if (c.maxAmount !== undefined && tx.amount > c.maxAmount) return false;
+  if (c.type && tx.type !== c.type) return false;
+  if (
+    c.referencePrefix?.trim() &&
+    !(tx.reference || '').toLowerCase().startsWith(c.referencePrefix.trim().toLowerCase())
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * The first enabled rule, in order, that matches the row
+ */
+export function findMatchingRule(
+  rules: CategorisationRule[],
+  tx: RuleSubject
+): CategorisationRule | undefined {
+  return rules.find(rule => rule.enabled && matchesRule(rule, tx));
+}
+
+function fillFromRule<T extends RuleTarget>(line: T, actions: CategorisationRule['actions']): T {
+  const { category, ledgerAccount, dimensionSelections = {} } = actions;
+  const filledSelections = { ...line.dimensionSelections };
+  for (const [code, tagCode] of Object.entries(dimensionSelections)) {
+    if (tagCode && !filledSelections[code] && !line.dimensionAllocations?.[code]) {
+      filledSelections[code] = tagCode;
+    }
+  }
+
+  return {
+    ...line,
+    category: isUncategorized(line.category) ? category?.trim() || line.category : line.category,
+    ledgerAccountId: ledgerAccount?.id || line.ledgerAccountId,
+    dimensionSelections: filledSelections,
+  };
+}
+
+/**
+ * Fills in each row, and each of its split lines, from its matching rule and
+ * records which rule it was. The rule's ledger account wins over the category
+ * mapping; its category and dimension tags only fill values the row or line
+ * doesn't already have, with 'Uncategorized' counting as no category.
+ */
+export function applyCategorisationRules(
+  transactions: ParsedCsvTransaction[],
+  rules: CategorisationRule[]
+): ParsedCsvTransaction[] {
+  if (rules.length === 0) return transactions;
+
+  return transactions.map(tx => {
+    const rule = findMatchingRule(rules, tx);
+    if (!rule) return tx;
+
+    return {
+      ...fillFromRule(tx, rule.actions),
+      ...(tx.splits ? { splits: tx.splits.map(split => fillFromRule(split, rule.actions)) } : {}),
+      categorisationRuleId: rule.id,
+    };
+  });
+}
+
+/**
+ * Which rule each sample row would pick up, to try rules out before an import
+ */
+export function testRules<T extends RuleSubject>(
+  rules: CategorisationRule[],
+  sample: T[]
+): RuleTestResult<T>[] {
+  return sample.map(transaction => ({ transaction, rule: findMatchingRule(rules, transaction) }));
+}
+
+/**
+ * A tenant's rules as JSON, without tenant or ledger account IDs so they can
+ * be imported anywhere
+ */
+export function exportRules(rules: CategorisationRule[]): string {
+  return JSON.stringify(
+    {
+      version: RULES_EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      rules: rules.map(({ tenantId, ...rule }) => ({
+        ...rule,
+        actions: {
+          ...rule.actions,
+          ...(rule.actions.ledgerAccount
+            ? { ledgerAccount: { code: rule.actions.ledgerAccount.code, name: rule.actions.ledgerAccount.name } }
+            : {}),
+        },
+      })),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * The tenant's ledger account for an exported one: same code, or failing
+ * that same name, ignoring case
+ */
+function resolveLedgerAccount(
+  exported: { code?: unknown; name?: unknown },
+  ledgerAccounts: Pick<SageLedgerAccount, 'Id' | 'Code' | 'Name'>[]
+): CategorisationRule['actions']['ledgerAccount'] {
+  const code = typeof exported.code === 'string' ? exported.code.trim().toLowerCase() : '';
+  const name = typeof exported.name === 'string' ? exported.name.trim().toLowerCase() : '';
+  const account =
+    (code && ledgerAccounts.find(a => a.Code.trim().toLowerCase() === code)) ||
+    (name && ledgerAccounts.find(a => a.Name.trim().toLowerCase() === name)) ||
+    undefined;
+  return account ? { id: account.Id, code: account.Code, name: account.Name } : undefined;
+}
+
+/**
+ * Reads rules exported by exportRules for a tenant, giving each a new ID and
+ * matching its ledger account to one of the tenant's. A rule whose ledger
+ * account the tenant doesn't have is imported disabled, without it.
+ */
+export function importRules(
+  json: string,
+  tenantId: string,
+  ledgerAccounts: Pick<SageLedgerAccount, 'Id' | 'Code' | 'Name'>[]
+): RulesImport {
+  let parsed: { version?: unknown; rules?: unknown };
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  if (parsed?.version !== RULES_EXPORT_VERSION || !Array.isArray(parsed.rules)) {
+    throw new Error('File is not a categorisation rules export');
+  }
+
+  const unmatched = new Set<string>();
+  const rules = (parsed.rules as Partial<CategorisationRule>[]).map((rule, index) => {
+    if (!rule || typeof rule.name !== 'string' || typeof rule.conditions !== 'object' || typeof rule.actions !== 'object') {
+      throw new Error(`Rule ${index + 1} is missing its name, conditions or actions`);
+    }
+
+    const { ledgerAccount: exported, ...actions } = rule.actions || {};
+    const ledgerAccount = exported ? resolveLedgerAccount(exported, ledgerAccounts) : undefined;
+    if (exported && !ledgerAccount) {
+      unmatched.add(`${exported.code || ''} ${exported.name || ''}`.trim());
+    }
+
+    return {
+      ...rule,
+      id: generateRuleId(),
+      tenantId,
+      name: rule.name,
+      enabled: rule.enabled !== false && !(exported && !ledgerAccount),
+      conditions: rule.conditions || {},
+      actions: ledgerAccount ? { ...actions, ledgerAccount } : actions,
+    };
+  });
+
+  return { rules, unmatchedLedgerAccounts: [...unmatched] };
+}
@@ -6,12 +6,19 @@
  * 2. localStorage (for runtime overrides via Admin Settings)
  * 
  * File config takes precedence unless explicitly overridden in Admin UI.
+ * 
+ * Also owns the API routing switch between the Sage sandbox and the local emulator.
  */
 
 import { Credentials } from '@/types/sage';
+import type { VatRounding } from './vat';
 
 const CONFIG_STORAGE_KEY = 'sage-demo-config';
 const CONFIG_FILE_PATH = '/app-config.local.json';
+const EMULATOR_STORAGE_KEY = 'sage-demo-emulator';
+const UPLOAD_CONCURRENCY_STORAGE_KEY = 'sage-demo-upload-concurrency';
+const DEFAULT_UPLOAD_CONCURRENCY = 4;
+const VAT_ROUNDING_STORAGE_KEY = 'sage-demo-vat-rounding';
 
 interface ConfigState {
   credentials: Credentials | null;
@@ -144,6 +151,67 @@ const PROXY_API_BASE_URL = '/api/sage-core';
 const PROXY_SUBSCRIPTION_API_URL = '/api/sage-subscriptions';
 const PROXY_TOKEN_URL = '/api/oauth/token';
 
+// Local emulator origin - requests to it are answered in-browser by sageFetch
+export const EMULATOR_ORIGIN = 'https://sage-emulator.local';
+const EMULATOR_API_BASE_URL = EMULATOR_ORIGIN;
+const EMULATOR_SUBSCRIPTION_API_URL = `${EMULATOR_ORIGIN}/slcsadapter/v2`;
+const EMULATOR_TOKEN_URL = `${EMULATOR_ORIGIN}/oauth/token`;
+
+/**
+ * Checks if API calls should be routed to the local emulator
+ */
+export function isEmulatorEnabled(): boolean {
+  try {
+    return localStorage.getItem(EMULATOR_STORAGE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Switches API routing between the Sage sandbox and the local emulator
+ */
+export function setEmulatorEnabled(enabled: boolean): void {
+  localStorage.setItem(EMULATOR_STORAGE_KEY, enabled ? 'true' : 'false');
+}
+
+/**
+ * Number of transactions posted in parallel during an upload
+ */
+export function getUploadConcurrency(): number {
+  try {
+    const saved = parseInt(localStorage.getItem(UPLOAD_CONCURRENCY_STORAGE_KEY) ?? '', 10);
+    return isNaN(saved) ? DEFAULT_UPLOAD_CONCURRENCY : saved;
+  } catch {
+    return DEFAULT_UPLOAD_CONCURRENCY;
+  }
+}
+
+/**
+ * Saves the upload concurrency preference
+ */
+export function setUploadConcurrency(value: number): void {
+  localStorage.setItem(UPLOAD_CONCURRENCY_STORAGE_KEY, String(value));
+}
+
+/**
+ * How VAT on each journal item is rounded to the penny
+ */
+export function getVatRounding(): VatRounding {
+  try {
+    return localStorage.getItem(VAT_ROUNDING_STORAGE_KEY) === 'down' ? 'down' : 'nearest';
+  } catch {
+    return 'nearest';
+  }
+}
+
+/**
+ * Saves the VAT rounding preference
+ */
+export function setVatRounding(value: VatRounding): void {
+  localStorage.setItem(VAT_ROUNDING_STORAGE_KEY, value);
+}
+
 /**
  * Checks if we're running in development mode with proxy available
  */
@@ -156,6 +224,7 @@ function useProxy(): boolean {
  * Uses local proxy in development to avoid CORS
  */
 export function getApiBaseUrl(): string {
+  if (isEmulatorEnabled()) return EMULATOR_API_BASE_URL;
   return useProxy() ? PROXY_API_BASE_URL : SAGE_API_BASE_URL;
 }
 
@@ -164,6 +233,7 @@ export function getApiBaseUrl(): string {
  * Uses local proxy in development to avoid CORS
  */
 export function getSubscriptionApiUrl(): string {
+  if (isEmulatorEnabled()) return EMULATOR_SUBSCRIPTION_API_URL;
   return useProxy() ? PROXY_SUBSCRIPTION_API_URL : SAGE_SUBSCRIPTION_API_URL;
 }
 
@@ -172,6 +242,7 @@ export function getSubscriptionApiUrl(): string {
  * Uses local proxy in development to avoid CORS
  */
 export function getTokenUrl(): string {
+  if (isEmulatorEnabled()) return EMULATOR_TOKEN_URL;
   return useProxy() ? PROXY_TOKEN_URL : SAGE_TOKEN_URL;
 }
 
@@ -179,15 +250,15 @@ export function getTokenUrl(): string {
  * Gets the original (non-proxied) API URLs for logging/display purposes
  */
 export function getOriginalApiBaseUrl(): string {
-  return SAGE_API_BASE_URL;
+  return isEmulatorEnabled() ? EMULATOR_API_BASE_URL : SAGE_API_BASE_URL;
 }
 
 export function getOriginalSubscriptionApiUrl(): string {
-  return SAGE_SUBSCRIPTION_API_URL;
+  return isEmulatorEnabled() ? EMULATOR_SUBSCRIPTION_API_URL : SAGE_SUBSCRIPTION_API_URL;
 }
 
 export function getOriginalTokenUrl(): string {
-  return SAGE_TOKEN_URL;
+  return isEmulatorEnabled() ? EMULATOR_TOKEN_URL : SAGE_TOKEN_URL;
 }
 
 // Export as object for convenient imports
@@ -197,6 +268,12 @@ export const configManager = {
   saveConfig,
   clearConfig,
   hasValidCredentials,
+  isEmulatorEnabled,
+  setEmulatorEnabled,
+  getUploadConcurrency,
+  setUploadConcurrency,
+  getVatRounding,
+  setVatRounding,
   getApiBaseUrl,
   getSubscriptionApiUrl,
   getTokenUrl,
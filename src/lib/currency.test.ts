@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { ParsedCsvTransaction } from '@/types/sage';
+import { applyExchangeRate } from './currency';
+
+const row = (overrides: Partial<ParsedCsvTransaction> = {}): ParsedCsvTransaction => ({
+  rowIndex: 1,
+  type: 'payment',
+  date: '2024-03-01',
+  description: 'Supplies',
+  reference: 'INV-1',
+  amount: 1,
+  dimensionSelections: {},
+  ...overrides,
+});
+
+describe('applyExchangeRate', () => {
+  it('converts a single-line row to GBP', () => {
+    const [tx] = applyExchangeRate([row({ amount: 117 })], 'eur', 1.17);
+
+    expect(tx).toMatchObject({ currency: 'EUR', exchangeRate: 1.17, baseAmount: 100 });
+  });
+
+  it('puts the rounding difference on the last split line', () => {
+    const splits = [0.5, 0.5, 0.5].map(amount => ({ amount, dimensionSelections: {} }));
+    const [tx] = applyExchangeRate([row({ amount: 1.5, splits })], 'EUR', 3);
+
+    // 0.50 / 3 rounds to 0.17 per line, 0.51 in all, but the row is 1.50 / 3 = 0.50
+    expect(tx.baseAmount).toBe(0.5);
+    expect(tx.splits!.map(s => s.baseAmount)).toEqual([0.17, 0.17, 0.16]);
+  });
+
+  it('leaves GBP rows alone', () => {
+    const rows = [row()];
+
+    expect(applyExchangeRate(rows, 'GBP', 1)).toBe(rows);
+  });
+
+  it('leaves base amounts unset until a rate is entered', () => {
+    const [tx] = applyExchangeRate([row({ splits: [{ amount: 1, dimensionSelections: {} }] })], 'USD', undefined);
+
+    expect(tx.baseAmount).toBeUndefined();
+    expect(tx.splits![0].baseAmount).toBeUndefined();
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Currency
+ *
+ * Formatting and exchange rates for bank accounts held in a currency other
+ * than the tenant's base currency (GBP).
+ * Features:
+ * - Amounts formatted with the right symbol for any ISO currency code
+ * - A local exchange rate table, persisted to localStorage
+ * - Rates quoted as currency units per 1 GBP, the way Sage shows them
+ * - Base amounts worked out in pence from the currency amount and rate, with
+ *   split lines adding up to their row's base amount
+ */
+
+import { ParsedCsvTransaction, TransactionSplit } from '@/types/sage';
+
+const EXCHANGE_RATES_STORAGE_KEY = 'sage-demo-exchange-rates';
+
+export const BASE_CURRENCY = 'GBP';
+
+export interface ExchangeRate {
+  /** ISO code of the foreign currency */
+  currency: string;
+  /** Units of the currency per 1 GBP */
+  rate: number;
+  updatedAt: string;
+}
+
+/**
+ * Formats an amount in a currency, e.g. £1,234.50 or €99.00.
+ * Negative amounts get a leading minus; `signed` also adds a plus to positives.
+ */
+export function formatCurrency(
+  amount: number,
+  currency: string = BASE_CURRENCY,
+  options: { signed?: boolean } = {}
+): string {
+  let formatted: string;
+  try {
+    formatted = new Intl.NumberFormat('en-GB', {
+      style: 'currency',
+      currencyDisplay: 'narrowSymbol',
+      currency: currency || BASE_CURRENCY,
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(Math.abs(amount));
+  } catch {
+    // Unknown codes fall back to the code itself
+    formatted = `${currency} ${Math.abs(amount).toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  }
+
+  if (amount < 0) return `-${formatted}`;
+  return options.signed && amount > 0 ? `+${formatted}` : formatted;
+}
+
+export function isBaseCurrency(currency: string | undefined): boolean {
+  return !currency || currency.toUpperCase() === BASE_CURRENCY;
+}
+
+/**
+ * Converts a currency amount to GBP at a rate of currency units per 1 GBP
+ */
+export function toBaseAmount(amount: number, rate: number): number {
+  if (!(rate > 0)) return amount;
+  return Math.round((amount / rate) * 100) / 100;
+}
+
+export function getExchangeRates(): ExchangeRate[] {
+  try {
+    const saved = localStorage.getItem(EXCHANGE_RATES_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveExchangeRates(rates: ExchangeRate[]): void {
+  localStorage.setItem(EXCHANGE_RATES_STORAGE_KEY, JSON.stringify(rates));
+}
+
+/**
+ * The saved rate for a currency; always 1 for GBP
+ */
+export function getExchangeRate(currency: string | undefined): number | undefined {
+  if (isBaseCurrency(currency)) return 1;
+  return getExchangeRates().find(r => r.currency === currency!.toUpperCase())?.rate;
+}
+
+export function setExchangeRate(currency: string, rate: number): ExchangeRate[] {
+  const code = currency.toUpperCase();
+  const rates = [
+    ...getExchangeRates().filter(r => r.currency !== code),
+    { currency: code, rate, updatedAt: new Date().toISOString() },
+  ].sort((a, b) => a.currency.localeCompare(b.currency));
+  saveExchangeRates(rates);
+  return rates;
+}
+
+export function removeExchangeRate(currency: string): ExchangeRate[] {
+  const rates = getExchangeRates().filter(r => r.currency !== currency.toUpperCase());
+  saveExchangeRates(rates);
+  return rates;
+}
+
+/**
+ * Base amounts for each split line. Lines are converted one by one and the
+ * last line takes the rounding difference, so they add up to the row's base
+ * amount to the penny.
+ */
+function splitBaseAmounts(splits: TransactionSplit[], baseTotal: number, rate: number): number[] {
+  const amounts = splits.map(s => toBaseAmount(s.amount, rate));
+  const difference = Math.round(baseTotal * 100) - amounts.reduce((sum, a) => sum + Math.round(a * 100), 0);
+  amounts[amounts.length - 1] = Math.round(amounts[amounts.length - 1] * 100 + difference) / 100;
+  return amounts;
+}
+
+/**
+ * Sets the currency and exchange rate on each row, and the base amount on each
+ * line. Rows in GBP are left without a currency so they post as before.
+ */
+export function applyExchangeRate(
+  transactions: ParsedCsvTransaction[],
+  currency: string,
+  rate: number | undefined
+): ParsedCsvTransaction[] {
+  if (isBaseCurrency(currency)) return transactions;
+
+  return transactions.map(tx => {
+    const baseAmount = rate ? toBaseAmount(tx.amount, rate) : undefined;
+    const splitBases = rate && baseAmount !== undefined && tx.splits?.length
+      ? splitBaseAmounts(tx.splits, baseAmount, rate)
+      : undefined;
+
+    return {
+      ...tx,
+      baseAmount,
+      currency: currency.toUpperCase(),
+      exchangeRate: rate,
+      ...(tx.splits ? { splits: tx.splits.map((s, i) => ({ ...s, baseAmount: splitBases?.[i] })) } : {}),
+    };
+  });
+}
@@ -0,0 +1,171 @@
+/**
+ * Dimension Allocations
+ *
+ * Lets any dimension be shared across several tags by percentage
+ * (e.g. 60% Project A / 40% Project B) instead of a single tag.
+ * Features:
+ * - Allocation checks: positive shares, no repeated tag, total of exactly 100%
+ * - CSV cell syntax `PRJ-A:60;PRJ-B:40` (`|` and `=` also accepted, `%` optional)
+ * - `dimension:<CODE>` CSV columns holding a tag code or an allocation
+ * - Columns headed with a required dimension's code or name read the same way
+ */
+
+import { DimensionAllocation, RequiredDimension, TransactionSplit } from '@/types/sage';
+
+export const DIMENSION_COLUMN_PREFIX = 'dimension:';
+
+function toHundredths(value: number): number {
+  return Math.round(value * 100);
+}
+
+export function getAllocationTotal(allocations: DimensionAllocation[]): number {
+  return allocations.reduce((sum, a) => sum + toHundredths(a.percentage || 0), 0) / 100;
+}
+
+/**
+ * Problems that stop an allocation being posted, empty when it's valid
+ */
+export function validateAllocation(allocations: DimensionAllocation[]): string[] {
+  const errors: string[] = [];
+
+  if (allocations.some(a => !a.tagCode)) errors.push('Every share needs a tag.');
+  if (allocations.some(a => !(a.percentage > 0))) errors.push('Every share must be more than 0%.');
+
+  const tags = allocations.map(a => a.tagCode).filter(Boolean);
+  if (new Set(tags).size !== tags.length) errors.push('Each tag can only appear once.');
+
+  const total = getAllocationTotal(allocations);
+  if (toHundredths(total) !== 10000) errors.push(`Shares add up to ${total}%, not 100%.`);
+
+  return errors;
+}
+
+/**
+ * Whether a line has a value for a dimension, either a tag or an allocation
+ */
+export function hasDimensionValue(
+  line: Pick<TransactionSplit, 'dimensionSelections' | 'dimensionAllocations'>,
+  dimensionCode: string
+): boolean {
+  return !!line.dimensionSelections[dimensionCode] || !!line.dimensionAllocations?.[dimensionCode]?.length;
+}
+
+/**
+ * Drops a dimension's allocation, e.g. when a single tag is picked for it
+ */
+export function withoutAllocation(
+  allocations: Record<string, DimensionAllocation[]> | undefined,
+  dimensionCode: string
+): Record<string, DimensionAllocation[]> | undefined {
+  if (!allocations?.[dimensionCode]) return allocations;
+  const rest = { ...allocations };
+  delete rest[dimensionCode];
+  return Object.keys(rest).length > 0 ? rest : undefined;
+}
+
+/**
+ * Reads a dimension cell: a single tag code, or tag:percentage pairs.
+ * A single tag at 100% is treated as a plain selection.
+ */
+export function parseAllocationCell(value: string):
+  | { tagCode: string }
+  | { allocations: DimensionAllocation[] }
+  | { error: string } {
+  const parts = value.split(/[;|]/).map(p => p.trim()).filter(Boolean);
+  if (parts.length === 0) return { error: 'No tag given' };
+
+  const shares = parts.map(part => {
+    const match = part.match(/^(.+?)\s*[:=]\s*(-?\d+(?:\.\d+)?)\s*%?$/);
+    return match ? { tagCode: match[1].trim(), percentage: Number(match[2]) } : { tagCode: part, percentage: NaN };
+  });
+
+  if (shares.length === 1 && (isNaN(shares[0].percentage) || shares[0].percentage === 100)) {
+    return { tagCode: shares[0].tagCode };
+  }
+  if (shares.some(s => isNaN(s.percentage))) {
+    return { error: `"${value}" needs a percentage for every tag, e.g. PRJ-A:60;PRJ-B:40` };
+  }
+
+  const errors = validateAllocation(shares);
+  return errors.length > 0 ? { error: `"${value}": ${errors.join(' ')}` } : { allocations: shares };
+}
+
+/**
+ * Formats an allocation back into the CSV cell syntax
+ */
+export function formatAllocation(allocations: DimensionAllocation[]): string {
+  return allocations.map(a => `${a.tagCode}:${a.percentage}`).join(';');
+}
+
+/**
+ * The columns holding dimension tags: every `dimension:<CODE>` column, plus any
+ * headed with a required dimension's code or name (ignoring case).
+ * Columns in skipColumns, e.g. ones mapped to other fields, are left out.
+ */
+export function findDimensionColumns(
+  headers: string[],
+  dimensions: RequiredDimension[] = [],
+  skipColumns: number[] = []
+): { index: number; code: string }[] {
+  const columns: { index: number; code: string }[] = [];
+
+  headers.forEach((header, index) => {
+    if (skipColumns.includes(index)) return;
+
+    const key = header.trim().toLowerCase();
+    const prefixed = key.startsWith(DIMENSION_COLUMN_PREFIX)
+      ? header.trim().slice(DIMENSION_COLUMN_PREFIX.length).trim()
+      : undefined;
+    const match = dimensions.find(d =>
+      prefixed !== undefined
+        ? d.code.toLowerCase() === prefixed.toLowerCase()
+        : d.code.toLowerCase() === key || d.name.trim().toLowerCase() === key
+    );
+    const code = match?.code || prefixed;
+    if (code && !columns.some(c => c.code === code)) columns.push({ index, code });
+  });
+
+  return columns;
+}
+
+/**
+ * Reads every dimension column of a row into selections and allocations
+ */
+export function readDimensionColumns(
+  headers: string[],
+  values: string[],
+  dimensions: RequiredDimension[] = [],
+  skipColumns: number[] = []
+): Pick<TransactionSplit, 'dimensionSelections' | 'dimensionAllocations'> & { errors: string[] } {
+  const dimensionSelections: Record<string, string> = {};
+  const dimensionAllocations: Record<string, DimensionAllocation[]> = {};
+  const errors: string[] = [];
+
+  findDimensionColumns(headers, dimensions, skipColumns).forEach(({ index, code }) => {
+    const cell = (values[index] ?? '').trim();
+    if (!cell) return;
+
+    const parsed = parseAllocationCell(cell);
+    if ('error' in parsed) errors.push(`${code}: ${parsed.error}`);
+    else if ('tagCode' in parsed) dimensionSelections[code] = parsed.tagCode;
+    else dimensionAllocations[code] = parsed.allocations;
+  });
+
+  return {
+    dimensionSelections,
+    ...(Object.keys(dimensionAllocations).length > 0 ? { dimensionAllocations } : {}),
+    errors,
+  };
+}
+
+/**
+ * Short label for a dimension's value on a line, e.g. "60% PRJ-A / 40% PRJ-B"
+ */
+export function describeDimensionValue(
+  line: Pick<TransactionSplit, 'dimensionSelections' | 'dimensionAllocations'>,
+  dimension: RequiredDimension
+): string {
+  const allocations = line.dimensionAllocations?.[dimension.code];
+  if (allocations?.length) return allocations.map(a => `${a.percentage}% ${a.tagCode}`).join(' / ');
+  return line.dimensionSelections[dimension.code] || '';
+}
@@ -0,0 +1,115 @@
+/**
+ * Dimension Tag Resolution
+ *
+ * Matches tag values read from a file to the tenant's dimension tags, so
+ * pre-tagged exports from another system don't need tagging by hand.
+ * Features:
+ * - Values matched by tag code first, then by tag name, ignoring case
+ * - Percentage allocations resolved share by share
+ * - Values that match no tag are kept on the line so the review table can flag them
+ * - Dimensions whose tags aren't loaded yet are left until they are
+ */
+
+import { DimensionAllocation, ParsedCsvTransaction, SageDimensionTag, TransactionSplit } from '@/types/sage';
+import { formatAllocation, parseAllocationCell } from './dimensionAllocations';
+import { getTransactionLines } from './splitTransactions';
+
+type DimensionValues = Pick<TransactionSplit, 'dimensionSelections' | 'dimensionAllocations' | 'unresolvedDimensions'>;
+
+function normalise(value: string | undefined): string {
+  return (value || '').trim().toLowerCase();
+}
+
+/**
+ * The tag a value refers to, by code or else by name
+ */
+export function findDimensionTag(tags: SageDimensionTag[], value: string): SageDimensionTag | undefined {
+  const key = normalise(value);
+  if (!key) return undefined;
+  return tags.find(t => normalise(t.Code) === key) || tags.find(t => normalise(t.Name) === key);
+}
+
+/**
+ * Drops a dimension's unmatched file value, e.g. once a tag is picked for it
+ */
+export function withoutUnresolved(
+  unresolved: Record<string, string> | undefined,
+  dimensionCode: string
+): Record<string, string> | undefined {
+  if (!unresolved?.[dimensionCode]) return unresolved;
+  const rest = { ...unresolved };
+  delete rest[dimensionCode];
+  return Object.keys(rest).length > 0 ? rest : undefined;
+}
+
+function resolveLine<T extends DimensionValues>(line: T, dimensionTags: Record<string, SageDimensionTag[]>): T {
+  const selections = { ...line.dimensionSelections };
+  const allocations: Record<string, DimensionAllocation[]> = { ...line.dimensionAllocations };
+  const unresolved: Record<string, string> = { ...line.unresolvedDimensions };
+  const codes = new Set([...Object.keys(selections), ...Object.keys(allocations), ...Object.keys(unresolved)]);
+
+  for (const code of codes) {
+    const tags = dimensionTags[code];
+    if (!tags) continue;
+
+    const original = unresolved[code] || (allocations[code] ? formatAllocation(allocations[code]) : selections[code]);
+    if (!original) continue;
+
+    // An earlier miss is tried again in case the tags have changed
+    const retry = unresolved[code] ? parseAllocationCell(unresolved[code]) : null;
+    const shares = retry
+      ? ('allocations' in retry ? retry.allocations : 'tagCode' in retry ? [{ tagCode: retry.tagCode, percentage: 100 }] : null)
+      : allocations[code] || [{ tagCode: selections[code], percentage: 100 }];
+    if (!shares) continue;
+
+    const matched = shares.map(share => ({ share, tag: findDimensionTag(tags, share.tagCode) }));
+    delete selections[code];
+    delete allocations[code];
+    delete unresolved[code];
+
+    if (matched.some(m => !m.tag)) {
+      unresolved[code] = original;
+    } else if (matched.length === 1) {
+      selections[code] = matched[0].tag!.Code;
+    } else {
+      allocations[code] = matched.map(m => ({ tagCode: m.tag!.Code, percentage: m.share.percentage }));
+    }
+  }
+
+  const { dimensionAllocations: _allocations, unresolvedDimensions: _unresolved, ...rest } = line;
+  return {
+    ...rest,
+    dimensionSelections: selections,
+    ...(Object.keys(allocations).length > 0 ? { dimensionAllocations: allocations } : {}),
+    ...(Object.keys(unresolved).length > 0 ? { unresolvedDimensions: unresolved } : {}),
+  } as T;
+}
+
+/**
+ * Swaps tag codes and names from the file for the tenant's tag codes on each
+ * row and split line, recording any value that matches no tag
+ */
+export function resolveDimensionTags(
+  transactions: ParsedCsvTransaction[],
+  dimensionTags: Record<string, SageDimensionTag[]>
+): ParsedCsvTransaction[] {
+  if (Object.keys(dimensionTags).length === 0) return transactions;
+
+  return transactions.map(tx => ({
+    ...resolveLine(tx, dimensionTags),
+    ...(tx.splits ? { splits: tx.splits.map(split => resolveLine(split, dimensionTags)) } : {}),
+  }));
+}
+
+/**
+ * How many file values across the lines each row posts match no tag
+ */
+export function countUnresolvedDimensions(transactions: ParsedCsvTransaction[]): number {
+  return transactions.reduce(
+    (count, tx) => getTransactionLines(tx).reduce(
+      (lineCount, line) => lineCount + Object.keys(line.unresolvedDimensions || {}).length,
+      count
+    ),
+    0
+  );
+}
@@ -0,0 +1,648 @@
+/**
+ * Sage API Emulator - Route Handlers
+ *
+ * One handler per Sage endpoint the services call. Handlers are synchronous and
+ * only deal with the emulated state; transport concerns (auth, 202 flows, rate
+ * limits, latency) are handled by the router in index.ts.
+ */
+
+import {
+  getEmulatorState,
+  saveEmulatorState,
+  newGuid,
+  seedTenantDimensions,
+  seedTenantLedgerAccounts,
+  seedTenantTaxRates,
+  EmulatedJournal,
+  EMULATOR_JOURNAL_TYPES,
+} from './state';
+import { buildProfitAndLossReport, buildProfitAndLossPdf } from './reports';
+
+export interface EmulatorRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: Record<string, string>;
+  body: Record<string, unknown> | null;
+}
+
+export interface EmulatorResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export interface EmulatorRoute {
+  method: string;
+  pattern: RegExp;
+  handler: (req: EmulatorRequest, params: string[]) => EmulatorResponse;
+  /** When set, the route answers 202 + retry-after until the operation completes */
+  asyncSeconds?: number;
+  /** Token endpoint and other routes that don't need a bearer token */
+  anonymous?: boolean;
+}
+
+interface ReportExecution {
+  id: string;
+  tenantId: string;
+  exportType: 'json' | 'pdf';
+  startDate: string;
+  endDate: string;
+  readyAt: number;
+}
+
+// Report executions are transient - a page reload discards them like an expired execution
+const reportExecutions = new Map<string, ReportExecution>();
+
+const REPORT_EXECUTION_SECONDS = 3;
+const TOKEN_EXPIRES_IN_SECONDS = 3600;
+
+function ok(body: unknown, status = 200): EmulatorResponse {
+  return { status, body };
+}
+
+function error(status: number, message: string): EmulatorResponse {
+  return {
+    status,
+    body: {
+      $severity: 'error',
+      $message: message,
+    },
+  };
+}
+
+function tenantExists(tenantId: string): boolean {
+  return getEmulatorState().tenants.some(t => t.id === tenantId);
+}
+
+/**
+ * Evaluates the small OData subset the services use:
+ * `a eq b` clauses joined with `and`, optionally parenthesised.
+ */
+function matchesFilter(journal: EmulatedJournal, filter: string | null): boolean {
+  if (!filter) return true;
+
+  const clauses = filter
+    .split(/\s+and\s+/i)
+    .map(c => c.replace(/[()]/g, '').trim())
+    .filter(Boolean);
+
+  return clauses.every(clause => {
+    const match = clause.match(/^([\w.]+)\s+eq\s+'?([^']*)'?$/i);
+    if (!match) return true;
+
+    const [, field, value] = match;
+    switch (field.toLowerCase()) {
+      case 'bankaccount.id':
+        return journal.BankAccount.Id === value;
+      case 'journaltype.id':
+        return journal.JournalType.Id === value;
+      case 'status':
+        return journal.Status.toLowerCase() === value.toLowerCase();
+      default:
+        return true;
+    }
+  });
+}
+
+// ── OAuth ──────────────────────────────────────────────────────
+
+function handleToken(req: EmulatorRequest): EmulatorResponse {
+  const clientId = req.body?.client_id;
+  const clientSecret = req.body?.client_secret;
+
+  if (!clientId || !clientSecret) {
+    return {
+      status: 401,
+      body: { error: 'access_denied', error_description: 'Unauthorized' },
+    };
+  }
+
+  return ok({
+    access_token: `emu_${newGuid().replace(/-/g, '')}`,
+    scope: 'emulator',
+    expires_in: TOKEN_EXPIRES_IN_SECONDS,
+    token_type: 'Bearer',
+  });
+}
+
+// ── Subscriptions ──────────────────────────────────────────────
+
+function handleGetSubscription(): EmulatorResponse {
+  const { tenants } = getEmulatorState();
+
+  return ok({
+    productCode: 'SAGE_ONE',
+    platform: 'UK',
+    businessTypeCodes: ['SOLE_TRADER', 'PARTNERSHIP', 'LIMITED_COMPANY'],
+    data: tenants.map(t => ({
+      id: t.id,
+      name: t.name,
+      businessName: t.businessName,
+      createdAt: t.createdAt,
+      status: t.status,
+    })),
+  });
+}
+
+function handleCreateTenant(req: EmulatorRequest): EmulatorResponse {
+  const body = req.body as {
+    ProductCode?: string;
+    ReferenceId?: string;
+    Business?: { Name?: string; BusinessTypeCode?: string };
+    Platform?: string;
+  } | null;
+
+  if (!body?.Business?.Name) {
+    return error(400, 'Business.Name is required');
+  }
+
+  const state = getEmulatorState();
+  const tenantId = newGuid();
+
+  state.tenants.push({
+    id: tenantId,
+    name: body.Business.Name,
+    businessName: body.Business.Name,
+    businessTypeCode: body.Business.BusinessTypeCode || 'SOLE_TRADER',
+    productCode: body.ProductCode || 'SAGE_ONE',
+    platform: body.Platform || 'UK',
+    referenceId: body.ReferenceId || '',
+    createdAt: new Date().toISOString(),
+    status: 'active',
+  });
+  state.dimensions.push(...seedTenantDimensions(tenantId));
+  state.ledgerAccounts.push(...seedTenantLedgerAccounts(tenantId));
+  state.taxRates.push(...seedTenantTaxRates(tenantId));
+  saveEmulatorState();
+
+  return ok({
+    AccountId: newGuid(),
+    ProductSubscriptionId: newGuid(),
+    ProductLicenceIds: [newGuid()],
+    BusinessId: newGuid(),
+    TenantId: tenantId,
+  }, 201);
+}
+
+// ── Bank accounts ──────────────────────────────────────────────
+
+function handleGetBankAccounts(_req: EmulatorRequest, [tenantId]: string[]): EmulatorResponse {
+  if (!tenantExists(tenantId)) return error(404, 'Tenant not found');
+
+  const { bankAccounts } = getEmulatorState();
+  return ok({ data: bankAccounts.filter(a => a.tenantId === tenantId) });
+}
+
+function handleCreateBankAccount(req: EmulatorRequest, [tenantId]: string[]): EmulatorResponse {
+  if (!tenantExists(tenantId)) return error(404, 'Tenant not found');
+
+  const body = req.body as Record<string, string> | null;
+  if (!body?.name) return error(400, 'name is required');
+
+  const state = getEmulatorState();
+  const id = newGuid();
+
+  state.bankAccounts.push({
+    id,
+    tenantId,
+    name: body.name,
+    accountNumber: body.accountNumber || '',
+    sortCode: body.sortCode || '',
+    currencyISO: body.currencyISO || 'GBP',
+    accountType: body.accountType || 'Checking',
+    balance: 0,
+    createdAt: new Date().toISOString(),
+  });
+  saveEmulatorState();
+
+  return ok({ Id: id }, 201);
+}
+
+// ── Journals ───────────────────────────────────────────────────
+
+function handleCreateJournal(req: EmulatorRequest, [tenantId, journalTypeId]: string[]): EmulatorResponse {
+  if (!tenantExists(tenantId)) return error(404, 'Tenant not found');
+
+  const body = req.body as {
+    Date?: string;
+    Reference?: string;
+    BankAccount?: { Id?: string };
+    Amount?: number;
+    TreatAs?: 'Debit' | 'Credit';
+    Draft?: boolean | string;
+    Currency?: { Code?: string; ExchangeRate?: number };
+    Items?: {
+      Amount?: number;
+      AmountType?: string;
+      TreatAs?: 'Debit' | 'Credit';
+      LedgerAccount?: { Id?: string };
+      TaxRate?: { Id?: string };
+      TaxAmount?: number;
+    }[];
+  } | null;
+
+  if (!body?.Date || isNaN(Date.parse(body.Date))) {
+    return error(400, 'Date is required and must be a valid date');
+  }
+
+  const state = getEmulatorState();
+  const account = state.bankAccounts.find(a => a.id === body.BankAccount?.Id && a.tenantId === tenantId);
+  if (!account) return error(404, 'Bank account not found');
+
+  const items = Array.isArray(body.Items) ? body.Items : null;
+  const total = items
+    ? items.reduce((sum, item) => sum + (Number(item.Amount) || 0), 0)
+    : Number(body.Amount) || 0;
+  const treatAs = items ? (items[0]?.TreatAs || 'Debit') : (body.TreatAs || 'Debit');
+
+  if (total <= 0) return error(400, 'Amount must be greater than zero');
+
+  const ledgerAccounts = getTenantLedgerAccounts(tenantId);
+  const unknownLedger = items?.find(item =>
+    item.LedgerAccount?.Id && !ledgerAccounts.some(a => a.Id === item.LedgerAccount!.Id)
+  );
+  if (unknownLedger) return error(400, `Ledger account ${unknownLedger.LedgerAccount!.Id} not found`);
+
+  const taxRates = getTenantTaxRates(tenantId);
+  const unknownTaxRate = items?.find(item =>
+    item.TaxRate?.Id && !taxRates.some(r => r.Id === item.TaxRate!.Id)
+  );
+  if (unknownTaxRate) return error(400, `Tax rate ${unknownTaxRate.TaxRate!.Id} not found`);
+
+  const badTax = items?.find(item =>
+    item.TaxAmount !== undefined && (item.TaxAmount < 0 || item.TaxAmount > (Number(item.Amount) || 0))
+  );
+  if (badTax) return error(400, 'TaxAmount must be between zero and the item Amount');
+
+  // Foreign-currency journals must be in the account's currency and carry a rate
+  const currencyCode = body.Currency?.Code || account.currencyISO;
+  if (currencyCode !== account.currencyISO) {
+    return error(400, `Currency ${currencyCode} does not match the bank account currency ${account.currencyISO}`);
+  }
+  const exchangeRate = body.Currency ? Number(body.Currency.ExchangeRate) : 1;
+  if (!(exchangeRate > 0)) return error(400, 'Currency.ExchangeRate must be greater than zero');
+  const baseTotal = Math.round((total / exchangeRate) * 100) / 100;
+
+  const code = EMULATOR_JOURNAL_TYPES[journalTypeId]
+    || (items ? (treatAs === 'Credit' ? 'BP' : 'BR') : 'BOB');
+  const isDraft = body.Draft === true || body.Draft === 'true';
+  const id = newGuid();
+
+  state.transactionCounter += 1;
+  state.journals.push({
+    Id: id,
+    TenantId: tenantId,
+    JournalType: { Id: journalTypeId, Code: code },
+    Date: body.Date,
+    Reference: body.Reference || null,
+    Status: isDraft ? 'Draft' : 'Completed',
+    TreatAs: treatAs,
+    TotalAmount: { Base: baseTotal, Currency: total },
+    BankAccount: { Id: account.id, Name: account.name },
+    Currency: { Code: currencyCode, ExchangeRate: exchangeRate },
+    TransactionNumber: String(state.transactionCounter),
+    Payload: body as Record<string, unknown>,
+  });
+
+  if (!isDraft) {
+    // Debits increase the bank balance (receipts, positive opening balances)
+    account.balance += treatAs === 'Debit' ? total : -total;
+  }
+  saveEmulatorState();
+
+  return ok({ Id: id }, 201);
+}
+
+function handleGetJournals(req: EmulatorRequest, [tenantId]: string[]): EmulatorResponse {
+  if (!tenantExists(tenantId)) return error(404, 'Tenant not found');
+
+  const startDate = req.query.get('start-date');
+  const endDate = req.query.get('end-date');
+  const filter = req.query.get('$filter');
+  const orderBy = (req.query.get('$orderby') || 'date asc').toLowerCase();
+
+  const journals = getEmulatorState().journals
+    .filter(j => j.TenantId === tenantId)
+    .filter(j => !startDate || j.Date >= startDate)
+    .filter(j => !endDate || j.Date <= endDate)
+    .filter(j => matchesFilter(j, filter))
+    .sort((a, b) => a.Date.localeCompare(b.Date) || Number(a.TransactionNumber) - Number(b.TransactionNumber));
+
+  if (orderBy.includes('desc')) journals.reverse();
+
+  const skip = Number(req.query.get('$skip')) || 0;
+  const top = Number(req.query.get('$top')) || journals.length;
+  const page = journals.slice(skip, skip + top);
+
+  // Strip emulator-only fields from the wire format
+  return ok(page.map(({ TenantId, Payload, ...journal }) => journal));
+}
+
+function findJournal(tenantId: string, journalId: string): EmulatedJournal | undefined {
+  return getEmulatorState().journals.find(j => j.Id === journalId && j.TenantId === tenantId);
+}
+
+/**
+ * Adds (or with sign -1 takes back) a completed journal's effect on its bank balance
+ */
+function applyToBalance(journal: EmulatedJournal, sign: 1 | -1): void {
+  if (journal.Status !== 'Completed') return;
+  const account = getEmulatorState().bankAccounts.find(a => a.id === journal.BankAccount.Id);
+  if (!account) return;
+  const amount = journal.TotalAmount.Currency;
+  account.balance += sign * (journal.TreatAs === 'Debit' ? amount : -amount);
+}
+
+function handleUpdateJournal(req: EmulatorRequest, [tenantId, journalId]: string[]): EmulatorResponse {
+  if (!tenantExists(tenantId)) return error(404, 'Tenant not found');
+
+  const journal = findJournal(tenantId, journalId);
+  if (!journal) return error(404, 'Journal not found');
+  if (journal.Status === 'Void') return error(409, 'Voided journals cannot be edited');
+
+  const body = (req.body || {}) as { Date?: string; Reference?: string; Amount?: number };
+  if (body.Date !== undefined && isNaN(Date.parse(body.Date))) {
+    return error(400, 'Date must be a valid date');
+  }
+
+  const items = Array.isArray(journal.Payload.Items)
+    ? journal.Payload.Items as { Date?: string; Amount?: number; TaxAmount?: number; BaseAmount?: number }[]
+    : [];
+  if (body.Amount !== undefined) {
+    if (!(Number(body.Amount) > 0)) return error(400, 'Amount must be greater than zero');
+    if (items.length > 1) return error(400, 'Amount can only be changed on a journal with one item');
+  }
+
+  applyToBalance(journal, -1);
+
+  if (body.Date !== undefined) {
+    journal.Date = body.Date;
+    items.forEach(item => { item.Date = body.Date; });
+  }
+  if (body.Reference !== undefined) {
+    journal.Reference = body.Reference || null;
+  }
+  if (body.Amount !== undefined) {
+    const amount = Number(body.Amount);
+    const baseAmount = Math.round((amount / journal.Currency.ExchangeRate) * 100) / 100;
+    const item = items[0];
+    if (item) {
+      // VAT included in the line keeps its share of the new amount
+      if (item.TaxAmount !== undefined && item.Amount) {
+        item.TaxAmount = Math.round((item.TaxAmount * amount / item.Amount) * 100) / 100;
+      }
+      item.Amount = amount;
+      if (item.BaseAmount !== undefined) item.BaseAmount = baseAmount;
+    }
+    journal.TotalAmount = { Base: baseAmount, Currency: amount };
+  }
+  journal.Payload = { ...journal.Payload, Date: journal.Date, Reference: journal.Reference, ...(items.length ? { Items: items } : {}) };
+
+  applyToBalance(journal, 1);
+  saveEmulatorState();
+
+  return ok({ Id: journal.Id });
+}
+
+function handleVoidJournal(_req: EmulatorRequest, [tenantId, journalId]: string[]): EmulatorResponse {
+  if (!tenantExists(tenantId)) return error(404, 'Tenant not found');
+
+  const journal = findJournal(tenantId, journalId);
+  if (!journal) return error(404, 'Journal not found');
+  if (journal.Status === 'Void') return error(409, 'Journal is already void');
+  if (journal.Status === 'Draft') return error(409, 'Draft journals are deleted, not voided');
+
+  applyToBalance(journal, -1);
+  journal.Status = 'Void';
+  saveEmulatorState();
+
+  return ok({ Id: journal.Id });
+}
+
+function handleFinaliseJournal(_req: EmulatorRequest, [tenantId, journalId]: string[]): EmulatorResponse {
+  if (!tenantExists(tenantId)) return error(404, 'Tenant not found');
+
+  const journal = findJournal(tenantId, journalId);
+  if (!journal) return error(404, 'Journal not found');
+  if (journal.Status !== 'Draft') return error(409, 'Only draft journals can be finalised');
+
+  journal.Status = 'Completed';
+  journal.Payload = { ...journal.Payload, Draft: false };
+  applyToBalance(journal, 1);
+  saveEmulatorState();
+
+  return ok({ Id: journal.Id });
+}
+
+function handleDeleteJournal(_req: EmulatorRequest, [tenantId, journalId]: string[]): EmulatorResponse {
+  if (!tenantExists(tenantId)) return error(404, 'Tenant not found');
+
+  const journal = findJournal(tenantId, journalId);
+  if (!journal) return error(404, 'Journal not found');
+
+  applyToBalance(journal, -1);
+  const state = getEmulatorState();
+  state.journals = state.journals.filter(j => j !== journal);
+  saveEmulatorState();
+
+  return { status: 204 };
+}
+
+// ── Ledger ─────────────────────────────────────────────────────
+
+/**
+ * Tenants created before ledger accounts were emulated get the default chart on first use
+ */
+function getTenantLedgerAccounts(tenantId: string) {
+  const state = getEmulatorState();
+  let accounts = state.ledgerAccounts.filter(a => a.TenantId === tenantId);
+  if (accounts.length === 0) {
+    accounts = seedTenantLedgerAccounts(tenantId);
+    state.ledgerAccounts.push(...accounts);
+    saveEmulatorState();
+  }
+  return accounts;
+}
+
+/**
+ * Tenants created before tax rates were emulated get the UK rates on first use
+ */
+function getTenantTaxRates(tenantId: string) {
+  const state = getEmulatorState();
+  let rates = state.taxRates.filter(r => r.TenantId === tenantId);
+  if (rates.length === 0) {
+    rates = seedTenantTaxRates(tenantId);
+    state.taxRates.push(...rates);
+    saveEmulatorState();
+  }
+  return rates;
+}
+
+function handleGetTaxRates(_req: EmulatorRequest, [tenantId]: string[]): EmulatorResponse {
+  if (!tenantExists(tenantId)) return error(404, 'Tenant not found');
+
+  return ok({ data: getTenantTaxRates(tenantId).map(({ TenantId, ...rate }) => rate) });
+}
+
+function handleGetLedgerAccounts(_req: EmulatorRequest, [tenantId]: string[]): EmulatorResponse {
+  if (!tenantExists(tenantId)) return error(404, 'Tenant not found');
+
+  return ok({ data: getTenantLedgerAccounts(tenantId).map(({ TenantId, ...account }) => account) });
+}
+
+function handleGetFinancialYears(_req: EmulatorRequest, [tenantId]: string[]): EmulatorResponse {
+  if (!tenantExists(tenantId)) return error(404, 'Tenant not found');
+
+  const { financialYears } = getEmulatorState();
+  return ok({ data: financialYears.filter(y => y.tenantId === tenantId) });
+}
+
+function handleCreateFinancialYear(req: EmulatorRequest, [tenantId]: string[]): EmulatorResponse {
+  if (!tenantExists(tenantId)) return error(404, 'Tenant not found');
+
+  const body = req.body as { startDate?: string; endDate?: string; periodType?: string } | null;
+  if (!body?.startDate || !body?.endDate) return error(400, 'startDate and endDate are required');
+  if (body.endDate <= body.startDate) return error(400, 'endDate must be after startDate');
+
+  const state = getEmulatorState();
+  const overlaps = state.financialYears.some(y =>
+    y.tenantId === tenantId && body.startDate! <= y.endDate && body.endDate! >= y.startDate
+  );
+  if (overlaps) return error(409, 'Financial year overlaps an existing financial year');
+
+  const year = {
+    id: newGuid(),
+    tenantId,
+    startDate: body.startDate,
+    endDate: body.endDate,
+    periodType: body.periodType || 'Monthly',
+    status: 'open' as const,
+  };
+  state.financialYears.push(year);
+  saveEmulatorState();
+
+  return ok({ id: year.id, startDate: year.startDate, endDate: year.endDate, status: year.status }, 201);
+}
+
+// ── Dimensions ─────────────────────────────────────────────────
+
+function handleGetDimensions(_req: EmulatorRequest, [tenantId]: string[]): EmulatorResponse {
+  if (!tenantExists(tenantId)) return error(404, 'Tenant not found');
+
+  return ok(getEmulatorState().dimensions
+    .filter(d => d.TenantId === tenantId)
+    .map(({ Id, Code, Name, IsActive }) => ({ Id, Code, Name, IsActive })));
+}
+
+function handleGetDimensionTags(_req: EmulatorRequest, [tenantId, dimensionId]: string[]): EmulatorResponse {
+  const dimension = getEmulatorState().dimensions
+    .find(d => d.TenantId === tenantId && d.Id === dimensionId);
+  if (!dimension) return error(404, 'Dimension not found');
+
+  return ok(dimension.Tags);
+}
+
+// ── Report engine ──────────────────────────────────────────────
+
+function handleRunProfitAndLoss(req: EmulatorRequest, [tenantId]: string[]): EmulatorResponse {
+  if (!tenantExists(tenantId)) return error(404, 'Tenant not found');
+
+  const range = (req.body as { Filters?: { CustomDateRange?: { StartDate?: string; EndDate?: string } } } | null)
+    ?.Filters?.CustomDateRange;
+  if (!range?.StartDate || !range?.EndDate) return error(400, 'Filters.CustomDateRange is required');
+
+  const id = newGuid();
+  reportExecutions.set(id, {
+    id,
+    tenantId,
+    exportType: req.query.get('ExportType')?.toLowerCase() === 'pdf' ? 'pdf' : 'json',
+    startDate: range.StartDate,
+    endDate: range.EndDate,
+    readyAt: Date.now() + REPORT_EXECUTION_SECONDS * 1000,
+  });
+
+  return ok({ Id: id }, 201);
+}
+
+function getReadyExecution(tenantId: string, executionId: string): ReportExecution | EmulatorResponse {
+  const execution = reportExecutions.get(executionId);
+  if (!execution || execution.tenantId !== tenantId) return error(404, 'Report execution not found');
+
+  if (Date.now() < execution.readyAt) {
+    return {
+      status: 202,
+      headers: { 'retry-after': String(Math.ceil((execution.readyAt - Date.now()) / 1000)) },
+    };
+  }
+
+  return execution;
+}
+
+function handleGetExecution(_req: EmulatorRequest, [tenantId, executionId]: string[]): EmulatorResponse {
+  const execution = getReadyExecution(tenantId, executionId);
+  if ('status' in execution) return execution;
+
+  const journals = getEmulatorState().journals.filter(j => j.TenantId === tenantId);
+  return ok(buildProfitAndLossReport(
+    execution.id,
+    journals,
+    execution.startDate,
+    execution.endDate,
+    getTenantLedgerAccounts(tenantId)
+  ));
+}
+
+function handleGetExport(_req: EmulatorRequest, [tenantId, executionId]: string[]): EmulatorResponse {
+  const execution = getReadyExecution(tenantId, executionId);
+  if ('status' in execution) return execution;
+  if (execution.exportType !== 'pdf') return error(400, 'Execution was not run as an export');
+
+  const state = getEmulatorState();
+  const tenant = state.tenants.find(t => t.id === tenantId);
+  const journals = state.journals.filter(j => j.TenantId === tenantId);
+  const report = buildProfitAndLossReport(
+    execution.id,
+    journals,
+    execution.startDate,
+    execution.endDate,
+    getTenantLedgerAccounts(tenantId)
+  );
+  const pdf = buildProfitAndLossPdf(report, tenant?.businessName || 'Emulated Business');
+
+  return ok({ URL: URL.createObjectURL(new Blob([pdf], { type: 'application/pdf' })) });
+}
+
+// ── Route table ────────────────────────────────────────────────
+
+const GUID = '([^/?]+)';
+
+export const emulatorRoutes: EmulatorRoute[] = [
+  { method: 'POST', pattern: /^\/oauth\/token$/, handler: handleToken, anonymous: true },
+
+  { method: 'GET', pattern: /^\/slcsadapter\/v2\/subscriptions$/, handler: handleGetSubscription },
+  { method: 'POST', pattern: /^\/slcsadapter\/v2\/subscriptions$/, handler: handleCreateTenant, asyncSeconds: 3 },
+
+  { method: 'GET', pattern: new RegExp(`^/bank/v2/tenant/${GUID}/bank-accounts$`), handler: handleGetBankAccounts },
+  { method: 'POST', pattern: new RegExp(`^/bank/v2/tenant/${GUID}/bank-accounts$`), handler: handleCreateBankAccount, asyncSeconds: 2 },
+
+  { method: 'GET', pattern: new RegExp(`^/transaction/v1/tenant/${GUID}/journals$`), handler: handleGetJournals },
+  { method: 'POST', pattern: new RegExp(`^/transaction/v2/tenant/${GUID}/journals/${GUID}$`), handler: handleCreateJournal, asyncSeconds: 1 },
+  { method: 'PUT', pattern: new RegExp(`^/transaction/v2/tenant/${GUID}/journals/${GUID}$`), handler: handleUpdateJournal },
+  { method: 'DELETE', pattern: new RegExp(`^/transaction/v2/tenant/${GUID}/journals/${GUID}$`), handler: handleDeleteJournal },
+  { method: 'POST', pattern: new RegExp(`^/transaction/v2/tenant/${GUID}/journals/${GUID}/void$`), handler: handleVoidJournal },
+  { method: 'POST', pattern: new RegExp(`^/transaction/v2/tenant/${GUID}/journals/${GUID}/finalise$`), handler: handleFinaliseJournal },
+
+  { method: 'GET', pattern: new RegExp(`^/ledger/v1/tenant/${GUID}/financial-years$`), handler: handleGetFinancialYears },
+  { method: 'POST', pattern: new RegExp(`^/ledger/v1/tenant/${GUID}/financial-years$`), handler: handleCreateFinancialYear },
+  { method: 'GET', pattern: new RegExp(`^/ledger/v1/tenant/${GUID}/ledger-accounts$`), handler: handleGetLedgerAccounts },
+
+  { method: 'GET', pattern: new RegExp(`^/tax/v1/tenant/${GUID}/tax-rates$`), handler: handleGetTaxRates },
+
+  { method: 'GET', pattern: new RegExp(`^/dimension/v1/tenant/${GUID}/dimensions$`), handler: handleGetDimensions },
+  { method: 'GET', pattern: new RegExp(`^/dimension/v1/tenant/${GUID}/dimensions/${GUID}/tags$`), handler: handleGetDimensionTags },
+
+  { method: 'POST', pattern: new RegExp(`^/reportengine/v1/tenant/${GUID}/reports/ProfitAndLoss/run$`), handler: handleRunProfitAndLoss },
+  { method: 'GET', pattern: new RegExp(`^/reportengine/v1/tenant/${GUID}/reports/executions/${GUID}$`), handler: handleGetExecution },
+  { method: 'GET', pattern: new RegExp(`^/reportengine/v1/tenant/${GUID}/reports/exports/${GUID}$`), handler: handleGetExport },
+];
@@ -0,0 +1,209 @@
+/**
+ * Sage API Emulator
+ *
+ * In-browser stand-in for the Sage sandbox used for offline development and demos.
+ * When enabled in Admin Settings, configManager points every base URL at
+ * EMULATOR_ORIGIN and `sageFetch` answers those requests locally instead of
+ * going over the network.
+ *
+ * Behaves like the real APIs where the app depends on it:
+ * - OAuth client-credentials tokens, with bearer checks on every other route
+ * - 202 Accepted + retry-after for async creates, completed by replaying the
+ *   same idempotency key (a different payload under the same key is a 409)
+ * - Report executions that poll 202 → 200
+ * - x-ratelimit-* headers and 429 responses when the per-minute budget runs out
+ */
+
+import { EMULATOR_ORIGIN } from '@/lib/configManager';
+import { emulatorRoutes, EmulatorRequest, EmulatorResponse } from './handlers';
+import { getEmulatorState, saveEmulatorState, resetEmulatorState } from './state';
+
+const RATE_LIMIT_PER_MINUTE = 120;
+const MIN_LATENCY_MS = 80;
+const MAX_LATENCY_MS = 300;
+
+const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  201: 'Created',
+  202: 'Accepted',
+  204: 'No Content',
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  404: 'Not Found',
+  405: 'Method Not Allowed',
+  409: 'Conflict',
+  429: 'Too Many Requests',
+};
+
+// Timestamps of recent requests for the sliding rate-limit window
+let recentRequests: number[] = [];
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function toResponse(result: EmulatorResponse, extraHeaders: Record<string, string>): Response {
+  const headers: Record<string, string> = {
+    'content-type': 'application/json',
+    'x-request-id': `emu-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`,
+    date: new Date().toUTCString(),
+    ...extraHeaders,
+    ...result.headers,
+  };
+  const body = result.status === 204 || result.body === undefined ? null : JSON.stringify(result.body);
+
+  return new Response(body, {
+    status: result.status,
+    statusText: STATUS_TEXT[result.status] || '',
+    headers,
+  });
+}
+
+function normaliseHeaders(headers: HeadersInit | undefined): Record<string, string> {
+  const result: Record<string, string> = {};
+  new Headers(headers).forEach((value, key) => {
+    result[key.toLowerCase()] = value;
+  });
+  return result;
+}
+
+/**
+ * Applies the sliding one-minute rate limit and returns the headers to attach
+ */
+function applyRateLimit(): { limited: boolean; headers: Record<string, string> } {
+  const now = Date.now();
+  recentRequests = recentRequests.filter(t => now - t < 60_000);
+
+  if (recentRequests.length >= RATE_LIMIT_PER_MINUTE) {
+    const retryAfter = Math.ceil((60_000 - (now - recentRequests[0])) / 1000);
+    return {
+      limited: true,
+      headers: {
+        'x-ratelimit-limit': String(RATE_LIMIT_PER_MINUTE),
+        'x-ratelimit-remaining': '0',
+        'retry-after': String(retryAfter),
+      },
+    };
+  }
+
+  recentRequests.push(now);
+  return {
+    limited: false,
+    headers: {
+      'x-ratelimit-limit': String(RATE_LIMIT_PER_MINUTE),
+      'x-ratelimit-remaining': String(RATE_LIMIT_PER_MINUTE - recentRequests.length),
+    },
+  };
+}
+
+/**
+ * Runs an async-create route: the first call performs the work and answers 202,
+ * replays with the same idempotency key answer 202 until ready, then the result.
+ */
+function handleAsync(
+  req: EmulatorRequest,
+  params: string[],
+  run: (req: EmulatorRequest, params: string[]) => EmulatorResponse,
+  asyncSeconds: number
+): EmulatorResponse {
+  const key = req.headers['x-idempotency-key'] || (req.body?.ReferenceId as string | undefined);
+  if (!key) return run(req, params);
+
+  const state = getEmulatorState();
+  const fingerprint = `${req.method} ${req.path} ${JSON.stringify(req.body)}`;
+  const existing = state.idempotency[key];
+
+  if (existing) {
+    if (existing.fingerprint !== fingerprint) {
+      return {
+        status: 409,
+        body: { $severity: 'error', $message: 'Idempotency key was already used with a different request' },
+      };
+    }
+
+    const remainingMs = existing.readyAt - Date.now();
+    if (remainingMs > 0) {
+      return { status: 202, headers: { 'retry-after': String(Math.ceil(remainingMs / 1000)) } };
+    }
+
+    return { status: existing.status, body: existing.body };
+  }
+
+  const result = run(req, params);
+  if (result.status >= 400) return result;
+
+  state.idempotency[key] = {
+    fingerprint,
+    readyAt: Date.now() + asyncSeconds * 1000,
+    status: result.status,
+    body: result.body,
+  };
+  saveEmulatorState();
+
+  return { status: 202, headers: { 'retry-after': String(asyncSeconds) } };
+}
+
+/**
+ * Answers a request addressed to EMULATOR_ORIGIN with a fetch-compatible Response
+ */
+export async function emulatorFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  await sleep(MIN_LATENCY_MS + Math.random() * (MAX_LATENCY_MS - MIN_LATENCY_MS));
+
+  const parsed = new URL(url);
+  const method = (init.method || 'GET').toUpperCase();
+  const headers = normaliseHeaders(init.headers);
+
+  let body: Record<string, unknown> | null = null;
+  if (typeof init.body === 'string' && init.body) {
+    try {
+      body = JSON.parse(init.body);
+    } catch {
+      return toResponse({ status: 400, body: { $severity: 'error', $message: 'Request body is not valid JSON' } }, {});
+    }
+  }
+
+  const req: EmulatorRequest = { method, path: parsed.pathname, query: parsed.searchParams, headers, body };
+
+  const pathMatches = emulatorRoutes.filter(r => r.pattern.test(req.path));
+  const route = pathMatches.find(r => r.method === method);
+  if (!route) {
+    return toResponse(pathMatches.length > 0
+      ? { status: 405, body: { $severity: 'error', $message: `${method} not allowed` } }
+      : { status: 404, body: { $severity: 'error', $message: `No emulated endpoint for ${req.path}` } }, {});
+  }
+
+  const rateLimit = applyRateLimit();
+  if (rateLimit.limited) {
+    return toResponse({ status: 429, body: { $severity: 'error', $message: 'Rate limit exceeded' } }, rateLimit.headers);
+  }
+
+  if (!route.anonymous && !headers['authorization']?.startsWith('Bearer emu_')) {
+    return toResponse({ status: 401, body: { $severity: 'error', $message: 'Missing or invalid bearer token' } }, rateLimit.headers);
+  }
+
+  const params = req.path.match(route.pattern)!.slice(1).map(decodeURIComponent);
+  const result = route.asyncSeconds
+    ? handleAsync(req, params, route.handler, route.asyncSeconds)
+    : route.handler(req, params);
+
+  return toResponse(result, rateLimit.headers);
+}
+
+/**
+ * fetch() replacement used by apiClient and tokenManager: requests addressed to
+ * the emulator are answered locally, everything else goes over the network
+ */
+export function sageFetch(url: string, init?: RequestInit): Promise<Response> {
+  if (url.startsWith(EMULATOR_ORIGIN)) {
+    return emulatorFetch(url, init);
+  }
+  return fetch(url, init);
+}
+
+/**
+ * Clears all emulated tenants, accounts, journals and pending operations
+ */
+export function resetEmulator(): void {
+  resetEmulatorState();
+  recentRequests = [];
+}
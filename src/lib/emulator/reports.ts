@@ -0,0 +1,204 @@
+/**
+ * Sage API Emulator - Report Engine
+ *
+ * Builds Profit & Loss reports in the Sage Report Engine shape (Header/Rows/Columns
+ * with formatting hints) from emulated journals, plus a minimal PDF rendition for
+ * the export endpoint.
+ */
+
+import { EmulatedJournal, EmulatedLedgerAccount } from './state';
+
+interface ReportCell {
+  Value: string;
+  Formatting: {
+    Variant?: 'Strong' | 'Default';
+    Color?: string;
+    Type?: 'String' | 'Currency' | 'Percentage' | 'Spacer';
+    Alignment?: 'Left' | 'Right' | 'Center';
+  };
+}
+
+interface ReportRow {
+  Columns: ReportCell[];
+  Children?: ReportRow[];
+  Formatting?: ReportCell['Formatting'];
+}
+
+export interface EmulatedReport {
+  Id: string;
+  Title: string;
+  Subtitle: string;
+  LastRunDate: string;
+  Header: { Columns: ReportCell[] };
+  Rows: ReportRow[];
+}
+
+// Default ledger lines used when a journal item has no ledger account
+const INCOME_LINE = 'Sales';
+const EXPENSE_LINE = 'General Expenses';
+
+function label(value: string, strong = false): ReportCell {
+  return { Value: value, Formatting: { Type: 'String', Alignment: 'Left', Variant: strong ? 'Strong' : 'Default' } };
+}
+
+function currency(value: number, strong = false): ReportCell {
+  return {
+    Value: value.toFixed(2),
+    Formatting: {
+      Type: 'Currency',
+      Alignment: 'Right',
+      Variant: strong ? 'Strong' : 'Default',
+      ...(value < 0 ? { Color: 'EnclosedError' } : {}),
+    },
+  };
+}
+
+function spacer(): ReportRow {
+  return {
+    Columns: [{ Value: '', Formatting: { Type: 'Spacer' } }, { Value: '', Formatting: { Type: 'Spacer' } }],
+    Formatting: { Type: 'Spacer' },
+  };
+}
+
+function section(title: string, lines: Map<string, number>): { row: ReportRow; total: number } {
+  const total = Array.from(lines.values()).reduce((sum, v) => sum + v, 0);
+  const children = Array.from(lines.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, amount]) => ({ Columns: [label(name), currency(amount)] }));
+
+  children.push({ Columns: [label(`Total ${title}`, true), currency(total, true)] });
+
+  return {
+    row: { Columns: [label(title, true), { Value: '', Formatting: { Type: 'String' } }], Children: children },
+    total,
+  };
+}
+
+/**
+ * Splits a journal into P&L lines, one per item, named after the item's ledger account.
+ * Items posted with tax included count at their net amount; the VAT isn't income or cost.
+ * Foreign-currency items are converted to GBP at the journal's exchange rate.
+ */
+function journalLines(
+  journal: EmulatedJournal,
+  defaultLine: string,
+  ledgerAccounts: EmulatedLedgerAccount[]
+): [string, number][] {
+  const items = journal.Payload?.Items as {
+    Amount?: number;
+    AmountType?: string;
+    TaxAmount?: number;
+    LedgerAccount?: { Id?: string };
+  }[] | undefined;
+  if (!Array.isArray(items) || items.length === 0) return [[defaultLine, journal.TotalAmount.Base]];
+
+  return items.map(item => {
+    const account = ledgerAccounts.find(a => a.Id === item.LedgerAccount?.Id);
+    const tax = item.AmountType === 'TaxesIncluded' ? Number(item.TaxAmount) || 0 : 0;
+    const rate = journal.Currency?.ExchangeRate > 0 ? journal.Currency.ExchangeRate : 1;
+    const net = ((Number(item.Amount) || 0) - tax) / rate;
+    return [account ? `${account.Code} ${account.Name}` : defaultLine, Math.round(net * 100) / 100];
+  });
+}
+
+/**
+ * Aggregates completed bank payments and receipts in the date range into a P&L
+ */
+export function buildProfitAndLossReport(
+  executionId: string,
+  journals: EmulatedJournal[],
+  startDate: string,
+  endDate: string,
+  ledgerAccounts: EmulatedLedgerAccount[] = []
+): EmulatedReport {
+  const income = new Map<string, number>();
+  const expenses = new Map<string, number>();
+
+  for (const journal of journals) {
+    if (journal.Status !== 'Completed') continue;
+    if (journal.Date < startDate || journal.Date > endDate) continue;
+
+    const code = journal.JournalType.Code;
+    if (code !== 'BR' && code !== 'BP') continue;
+
+    const lines = code === 'BR' ? income : expenses;
+    for (const [name, amount] of journalLines(journal, code === 'BR' ? INCOME_LINE : EXPENSE_LINE, ledgerAccounts)) {
+      lines.set(name, (lines.get(name) || 0) + amount);
+    }
+  }
+
+  const incomeSection = section('Income', income);
+  const expenseSection = section('Expenses', expenses);
+  const netProfit = incomeSection.total - expenseSection.total;
+
+  return {
+    Id: executionId,
+    Title: 'Profit and Loss',
+    Subtitle: `${startDate} to ${endDate}`,
+    LastRunDate: new Date().toISOString(),
+    Header: { Columns: [label('', true), { ...label('Amount', true), Formatting: { Variant: 'Strong', Alignment: 'Right' } }] },
+    Rows: [
+      incomeSection.row,
+      spacer(),
+      expenseSection.row,
+      spacer(),
+      { Columns: [label('Net Profit', true), currency(netProfit, true)] },
+    ],
+  };
+}
+
+function escapePdfText(text: string): string {
+  return text.replace(/[\\()]/g, c => `\\${c}`).replace(/[^\x20-\x7e]/g, '?');
+}
+
+function flattenRows(rows: ReportRow[], depth = 0): string[] {
+  const lines: string[] = [];
+  for (const row of rows) {
+    if (row.Formatting?.Type === 'Spacer') {
+      lines.push('');
+      continue;
+    }
+    const [name, value] = row.Columns;
+    const indent = '    '.repeat(depth);
+    lines.push(`${indent}${name?.Value || ''}${value?.Value ? `  ${value.Value}` : ''}`);
+    if (row.Children) lines.push(...flattenRows(row.Children, depth + 1));
+  }
+  return lines;
+}
+
+/**
+ * Renders the report as a single-page text PDF
+ */
+export function buildProfitAndLossPdf(report: EmulatedReport, businessName: string): string {
+  const lines = [businessName, `${report.Title} - ${report.Subtitle}`, '', ...flattenRows(report.Rows)];
+  const content = [
+    'BT',
+    '/F1 11 Tf',
+    '14 TL',
+    '50 790 Td',
+    ...lines.map(line => `(${escapePdfText(line)}) '`),
+    'ET',
+  ].join('\n');
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((obj, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${obj}\nendobj\n`;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+
+  return pdf;
+}
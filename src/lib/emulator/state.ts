@@ -0,0 +1,262 @@
+/**
+ * Sage API Emulator - State
+ *
+ * Holds the emulated Sage data (tenants, bank accounts, journals, financial years,
+ * dimensions, ledger accounts, idempotency records) and persists it to localStorage so demos
+ * survive a page reload.
+ */
+
+import { generateIdempotencyKey } from '@/lib/idempotency';
+import { SageDimension, SageDimensionTag, SageLedgerAccount, SageTaxRate } from '@/types/sage';
+
+const EMULATOR_STATE_KEY = 'sage-demo-emulator-state';
+
+// Journal type IDs the emulator recognises (mirrors the transactionService defaults)
+export const EMULATOR_JOURNAL_TYPES: Record<string, string> = {
+  '7078df86-3c36-f139-1b3a-390d1197b0f8': 'BP',
+  'd6be52be-4361-1dc6-21f4-f895bba7ed5a': 'BR',
+  '759b6bdc-7200-09bc-e93b-9284bd95a344': 'BOB',
+};
+
+export interface EmulatedTenant {
+  id: string;
+  name: string;
+  businessName: string;
+  businessTypeCode: string;
+  productCode: string;
+  platform: string;
+  referenceId: string;
+  createdAt: string;
+  status: 'active' | 'inactive';
+}
+
+export interface EmulatedBankAccount {
+  id: string;
+  tenantId: string;
+  name: string;
+  accountNumber: string;
+  sortCode: string;
+  currencyISO: string;
+  accountType: string;
+  balance: number;
+  createdAt: string;
+}
+
+export interface EmulatedJournal {
+  Id: string;
+  TenantId: string;
+  JournalType: {
+    Id: string;
+    Code: string;
+  };
+  Date: string;
+  Reference: string | null;
+  Status: string;
+  TreatAs: 'Debit' | 'Credit';
+  TotalAmount: {
+    Base: number;
+    Currency: number;
+  };
+  BankAccount: {
+    Id: string;
+    Name: string;
+  };
+  Currency: {
+    Code: string;
+    ExchangeRate: number;
+  };
+  TransactionNumber: string;
+  /** Request body as posted, kept so reports can drill into items */
+  Payload: Record<string, unknown>;
+}
+
+export interface EmulatedFinancialYear {
+  id: string;
+  tenantId: string;
+  startDate: string;
+  endDate: string;
+  periodType: string;
+  status: 'open' | 'closed';
+}
+
+export interface EmulatedDimension extends SageDimension {
+  TenantId: string;
+  Tags: SageDimensionTag[];
+}
+
+export interface EmulatedLedgerAccount extends SageLedgerAccount {
+  TenantId: string;
+}
+
+export interface EmulatedTaxRate extends SageTaxRate {
+  TenantId: string;
+}
+
+export interface EmulatedIdempotencyRecord {
+  /** Method + path + body, so a reused key with a different payload can be rejected */
+  fingerprint: string;
+  readyAt: number;
+  status: number;
+  body: unknown;
+}
+
+export interface EmulatorState {
+  tenants: EmulatedTenant[];
+  bankAccounts: EmulatedBankAccount[];
+  journals: EmulatedJournal[];
+  financialYears: EmulatedFinancialYear[];
+  dimensions: EmulatedDimension[];
+  ledgerAccounts: EmulatedLedgerAccount[];
+  taxRates: EmulatedTaxRate[];
+  idempotency: Record<string, EmulatedIdempotencyRecord>;
+  transactionCounter: number;
+}
+
+let state: EmulatorState | null = null;
+
+function emptyState(): EmulatorState {
+  return {
+    tenants: [],
+    bankAccounts: [],
+    journals: [],
+    financialYears: [],
+    dimensions: [],
+    ledgerAccounts: [],
+    taxRates: [],
+    idempotency: {},
+    transactionCounter: 0,
+  };
+}
+
+/**
+ * Gets the emulator state, loading it from localStorage on first use
+ */
+export function getEmulatorState(): EmulatorState {
+  if (state) return state;
+
+  try {
+    const saved = localStorage.getItem(EMULATOR_STATE_KEY);
+    state = saved ? { ...emptyState(), ...JSON.parse(saved) } : emptyState();
+  } catch {
+    state = emptyState();
+  }
+
+  return state!;
+}
+
+/**
+ * Persists the emulator state to localStorage
+ */
+export function saveEmulatorState(): void {
+  if (!state) return;
+  localStorage.setItem(EMULATOR_STATE_KEY, JSON.stringify(state));
+}
+
+/**
+ * Wipes all emulated data
+ */
+export function resetEmulatorState(): void {
+  state = emptyState();
+  localStorage.removeItem(EMULATOR_STATE_KEY);
+}
+
+/**
+ * Generates a Sage-style GUID
+ */
+export function newGuid(): string {
+  return generateIdempotencyKey();
+}
+
+/**
+ * Seeds the default dimensions and tags for a newly created tenant
+ */
+export function seedTenantDimensions(tenantId: string): EmulatedDimension[] {
+  const tag = (Code: string, Name: string): SageDimensionTag => ({
+    Id: newGuid(),
+    Code,
+    Name,
+    IsActive: true,
+  });
+
+  return [
+    {
+      Id: newGuid(),
+      TenantId: tenantId,
+      Code: 'DEPARTMENT',
+      Name: 'Department',
+      IsActive: true,
+      Tags: [tag('SALES', 'Sales'), tag('ADMIN', 'Administration'), tag('OPS', 'Operations')],
+    },
+    {
+      Id: newGuid(),
+      TenantId: tenantId,
+      Code: 'PROJECT',
+      Name: 'Project',
+      IsActive: true,
+      Tags: [tag('PRJ-A', 'Project A'), tag('PRJ-B', 'Project B'), tag('INTERNAL', 'Internal')],
+    },
+    {
+      Id: newGuid(),
+      TenantId: tenantId,
+      Code: 'ALLOWABILITY',
+      Name: 'Tax Allowability',
+      IsActive: true,
+      Tags: [tag('ALLOWABLE', 'Allowable'), tag('DISALLOWABLE', 'Disallowable')],
+    },
+    {
+      Id: newGuid(),
+      TenantId: tenantId,
+      Code: 'LEGACY',
+      Name: 'Legacy Cost Centre',
+      IsActive: false,
+      Tags: [tag('OLD', 'Old Cost Centre')],
+    },
+  ];
+}
+
+/**
+ * Seeds a small UK chart of accounts for a tenant
+ */
+export function seedTenantLedgerAccounts(tenantId: string): EmulatedLedgerAccount[] {
+  const account = (Code: string, Name: string, Type: string): EmulatedLedgerAccount => ({
+    Id: newGuid(),
+    TenantId: tenantId,
+    Code,
+    Name,
+    Type,
+    IsActive: true,
+  });
+
+  return [
+    account('1200', 'Bank Current Account', 'Asset'),
+    account('4000', 'Sales', 'Income'),
+    account('4900', 'Other Income', 'Income'),
+    account('5000', 'Cost of Sales', 'Expense'),
+    account('7100', 'Rent and Rates', 'Expense'),
+    account('7400', 'Travel and Subsistence', 'Expense'),
+    account('7500', 'Office Costs', 'Expense'),
+    account('7900', 'Bank Charges', 'Expense'),
+    account('8200', 'General Expenses', 'Expense'),
+  ];
+}
+
+/**
+ * Seeds the UK VAT rates for a tenant
+ */
+export function seedTenantTaxRates(tenantId: string): EmulatedTaxRate[] {
+  const rate = (Code: string, Name: string, Percentage: number): EmulatedTaxRate => ({
+    Id: newGuid(),
+    TenantId: tenantId,
+    Code,
+    Name,
+    Percentage,
+    IsActive: true,
+  });
+
+  return [
+    rate('STANDARD', 'Standard 20%', 20),
+    rate('REDUCED', 'Reduced 5%', 5),
+    rate('ZERO', 'Zero Rated 0%', 0),
+    rate('EXEMPT', 'Exempt', 0),
+  ];
+}
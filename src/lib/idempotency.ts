@@ -1,5 +1,5 @@
 /**
- * Generates a UUID v4 for use as idempotency keys in API requests.
+ * Generates a random UUID v4 for use as idempotency keys in API requests.
  * 
  * Usage:
  * - For subscription endpoints: Pass as `ReferenceId` in the request body
@@ -18,3 +18,47 @@ export function generateIdempotencyKey(): string {
     return v.toString(16);
   });
 }
+
+// Non-cryptographic 128-bit hash (cyrb128) for environments without SubtleCrypto
+function fallbackHash(input: string): Uint8Array {
+  let h1 = 1779033703, h2 = 3144134277, h3 = 1013904242, h4 = 2773480762;
+  for (let i = 0; i < input.length; i++) {
+    const k = input.charCodeAt(i);
+    h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+    h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+    h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+    h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+  }
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+
+  const view = new DataView(new ArrayBuffer(16));
+  [h1 ^ h2 ^ h3 ^ h4, h2 ^ h1, h3 ^ h1, h4 ^ h1].forEach((h, i) => view.setUint32(i * 4, h >>> 0));
+  return new Uint8Array(view.buffer);
+}
+
+/**
+ * Derives a UUID-formatted idempotency key from the given parts, so the same
+ * logical request always gets the same key (e.g. when re-submitting a file
+ * after a refresh). Uses SHA-256 where available.
+ */
+export async function deriveIdempotencyKey(...parts: string[]): Promise<string> {
+  const input = parts.join('\u001f');
+
+  let bytes: Uint8Array;
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+    bytes = new Uint8Array(digest).slice(0, 16);
+  } else {
+    bytes = fallbackHash(input);
+  }
+
+  // Version 8 (custom) and RFC 4122 variant bits so the key is a valid GUID
+  bytes[6] = (bytes[6] & 0x0f) | 0x80;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+
+  const hex = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
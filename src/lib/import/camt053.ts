@@ -0,0 +1,157 @@
+/**
+ * ISO 20022 camt.053 Import
+ *
+ * Reads BankToCustomerStatement XML (any camt.053.001.xx version; namespaces
+ * are ignored and elements matched by local name).
+ *
+ * - Each <Ntry> becomes one review row: CdtDbtInd → payment/receipt,
+ *   BookgDt → date, EndToEndId / AcctSvcrRef → reference, remittance
+ *   information or counterparty name → description
+ * - OPBD (or PRCD) and CLBD balances are returned as opening/closing
+ * - Entries that are not booked are kept but flagged so they can be removed
+ */
+
+import { ParsedCsvTransaction } from '@/types/sage';
+import { isValidIsoDate } from './csv';
+import type { StatementBalance, StatementImportResult } from './statement';
+
+/**
+ * Checks whether text looks like a camt.053 document
+ */
+export function isCamt053Document(text: string): boolean {
+  return /camt\.053/i.test(text) || /<(\w+:)?BkToCstmrStmt[\s>]/.test(text);
+}
+
+function children(el: Element | undefined, name: string): Element[] {
+  if (!el) return [];
+  return Array.from(el.children).filter(c => c.localName === name);
+}
+
+function child(el: Element | undefined, ...path: string[]): Element | undefined {
+  let current = el;
+  for (const name of path) {
+    current = children(current, name)[0];
+    if (!current) return undefined;
+  }
+  return current;
+}
+
+function text(el: Element | undefined, ...path: string[]): string | undefined {
+  const value = child(el, ...path)?.textContent?.trim();
+  return value || undefined;
+}
+
+function readDate(el: Element | undefined): string | undefined {
+  const value = (text(el, 'Dt') || text(el, 'DtTm'))?.slice(0, 10);
+  return value && isValidIsoDate(value) ? value : undefined;
+}
+
+function readSignedAmount(el: Element): number | null {
+  const amount = parseFloat(text(el, 'Amt') || '');
+  if (isNaN(amount)) return null;
+  return text(el, 'CdtDbtInd') === 'DBIT' ? -amount : amount;
+}
+
+function readBalance(statement: Element, codes: string[]): StatementBalance | undefined {
+  for (const code of codes) {
+    const balance = children(statement, 'Bal').find(b => text(b, 'Tp', 'CdOrPrtry', 'Cd') === code);
+    if (!balance) continue;
+
+    const amount = readSignedAmount(balance);
+    const date = readDate(child(balance, 'Dt'));
+    if (amount !== null && date) return { amount, date };
+  }
+  return undefined;
+}
+
+function readEntry(entry: Element, index: number): ParsedCsvTransaction {
+  const errors: string[] = [];
+  const details = child(entry, 'NtryDtls', 'TxDtls');
+
+  const amount = parseFloat(text(entry, 'Amt') || '');
+  if (isNaN(amount)) {
+    errors.push('Amt is missing or not a number');
+  } else if (amount <= 0) {
+    errors.push('Amount must be greater than zero');
+  }
+
+  const indicator = text(entry, 'CdtDbtInd');
+  if (indicator !== 'CRDT' && indicator !== 'DBIT') {
+    errors.push(indicator ? `Unknown CdtDbtInd "${indicator}"` : 'CdtDbtInd is missing');
+  }
+  const type = indicator === 'CRDT' ? 'receipt' : 'payment';
+
+  const date = readDate(child(entry, 'BookgDt')) || readDate(child(entry, 'ValDt'));
+  if (!date) errors.push('Booking date is missing or invalid');
+
+  // Sts is a plain code up to camt.053.001.07 and wraps a <Cd> from .08 on
+  const status = child(entry, 'Sts')?.textContent?.trim();
+  if (status && status !== 'BOOK') {
+    errors.push(`Entry status is ${status}, not booked`);
+  }
+
+  const endToEndId = text(details, 'Refs', 'EndToEndId');
+  const reference = (endToEndId && endToEndId !== 'NOTPROVIDED' ? endToEndId : undefined)
+    || text(entry, 'AcctSvcrRef')
+    || text(details, 'Refs', 'AcctSvcrRef')
+    || text(entry, 'NtryRef')
+    || '';
+
+  // The counterparty is the creditor on payments and the debtor on receipts
+  const parties = child(details, 'RltdPties');
+  const counterparty = type === 'payment'
+    ? text(parties, 'Cdtr', 'Nm') || text(parties, 'Cdtr', 'Pty', 'Nm')
+    : text(parties, 'Dbtr', 'Nm') || text(parties, 'Dbtr', 'Pty', 'Nm');
+  const remittance = children(child(details, 'RmtInf'), 'Ustrd')
+    .map(u => u.textContent?.trim())
+    .filter(Boolean)
+    .join(' ');
+  const description = [counterparty, remittance || text(entry, 'AddtlNtryInf')].filter(Boolean).join(' - ');
+
+  return {
+    rowIndex: index + 1,
+    type,
+    date: date || '',
+    description,
+    reference,
+    amount: isNaN(amount) ? 0 : amount,
+    category: 'Uncategorized',
+    dimensionSelections: {},
+    ...(errors.length > 0 ? { validationErrors: errors } : {}),
+  };
+}
+
+/**
+ * Parses a camt.053 statement into review rows and balances
+ */
+export function parseCamt053Statement(xml: string): StatementImportResult {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    return { transactions: [], fileErrors: ['The file is not valid XML.'] };
+  }
+
+  const statements = Array.from(doc.getElementsByTagNameNS('*', 'Stmt'));
+  if (statements.length === 0) {
+    return { transactions: [], fileErrors: ['The file is not a camt.053 statement.'] };
+  }
+
+  const entries = statements.flatMap(statement => children(statement, 'Ntry'));
+  if (entries.length === 0) {
+    return { transactions: [], fileErrors: ['The statement contains no entries.'] };
+  }
+
+  const first = statements[0];
+  const last = statements[statements.length - 1];
+  const account = child(first, 'Acct');
+
+  return {
+    transactions: entries.map(readEntry),
+    fileErrors: [],
+    balances: {
+      opening: readBalance(first, ['OPBD', 'PRCD']),
+      closing: readBalance(last, ['CLBD']),
+      currency: text(account, 'Ccy') || child(first, 'Bal', 'Amt')?.getAttribute('Ccy') || undefined,
+      accountIdentifier: text(account, 'Id', 'IBAN') || text(account, 'Id', 'Othr', 'Id'),
+    },
+  };
+}
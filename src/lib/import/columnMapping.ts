@@ -0,0 +1,418 @@
+/**
+ * CSV Column Mapping
+ *
+ * Maps arbitrary bank CSV layouts onto ParsedCsvTransaction fields:
+ * - Source column per target field, referenced by header text
+ * - Amount as a type + amount pair, a single signed column, or separate
+ *   money-out / money-in columns
+ * - Date formats DD/MM/YYYY, MM/DD/YYYY and YYYY-MM-DD
+ * - An optional split group column: rows sharing a value become one split transaction
+ * - An optional tax code column (VAT rate code per row)
+ * - `dimension:<CODE>` columns, or columns named after a required dimension, with a
+ *   tag code, tag name or percentage allocation per row
+ * - Named presets (one per bank layout) persisted to localStorage
+ */
+
+import { ParsedCsvTransaction, RequiredDimension } from '@/types/sage';
+import { parseCsvRecords, parseAmount, isValidIsoDate, CsvImportResult, REQUIRED_CSV_COLUMNS } from './csv';
+import { combineSplitRows } from '../splitTransactions';
+import { findDimensionColumns, readDimensionColumns } from '../dimensionAllocations';
+
+const PRESETS_STORAGE_KEY = 'sage-demo-csv-mappings';
+
+export type CsvDateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+
+/**
+ * - `type-column`: a payment/receipt column plus a positive amount column
+ * - `signed`: one amount column, negative = payment (or the reverse with invertSign)
+ * - `split`: separate debit (money out) and credit (money in) columns
+ */
+export type CsvAmountMode = 'type-column' | 'signed' | 'split';
+
+export interface CsvColumnMapping {
+  date: string;
+  description?: string;
+  reference?: string;
+  category?: string;
+  /** Rows with the same value here are items of one bank line */
+  splitGroup?: string;
+  taxCode?: string;
+  amountMode: CsvAmountMode;
+  amount?: string;
+  type?: string;
+  debit?: string;
+  credit?: string;
+  /** For `signed` mode: treat positive amounts as payments */
+  invertSign?: boolean;
+  dateFormat: CsvDateFormat;
+}
+
+export interface CsvMappingPreset {
+  id: string;
+  name: string;
+  mapping: CsvColumnMapping;
+  createdAt: string;
+}
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export const CSV_DATE_FORMATS: CsvDateFormat[] = ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY'];
+
+/** The app's own layout: date,type,description,reference,amount,category[,split][,tax_code] */
+export const STANDARD_CSV_MAPPING: CsvColumnMapping = {
+  date: 'date',
+  type: 'type',
+  description: 'description',
+  reference: 'reference',
+  amount: 'amount',
+  category: 'category',
+  splitGroup: 'split',
+  taxCode: 'tax_code',
+  amountMode: 'type-column',
+  dateFormat: 'YYYY-MM-DD',
+};
+
+// Header names commonly used by bank exports, checked in order
+const HEADER_HINTS: Record<'date' | 'description' | 'reference' | 'category' | 'splitGroup' | 'taxCode' | 'amount' | 'type' | 'debit' | 'credit', string[]> = {
+  date: ['date', 'transaction date', 'posting date', 'posted date', 'value date'],
+  description: ['description', 'details', 'narrative', 'memo', 'transaction description', 'payee', 'name'],
+  reference: ['reference', 'ref', 'transaction reference', 'cheque number', 'check number'],
+  category: ['category', 'type description'],
+  splitGroup: ['split', 'split group', 'split id'],
+  taxCode: ['tax_code', 'tax code', 'vat code', 'vat rate', 'tax rate', 'vat'],
+  amount: ['amount', 'value', 'transaction amount', 'amount (gbp)'],
+  type: ['type', 'transaction type', 'dr/cr'],
+  debit: ['debit', 'debit amount', 'paid out', 'money out', 'withdrawals', 'out'],
+  credit: ['credit', 'credit amount', 'paid in', 'money in', 'deposits', 'in'],
+};
+
+/**
+ * Parses CSV text into a header row and data rows. Throws when the file can't
+ * be split into rows (an unterminated quoted field).
+ */
+export function readCsvTable(text: string): CsvTable {
+  const records = parseCsvRecords(text);
+  if (records.length === 0) return { headers: [], rows: [] };
+
+  return {
+    headers: records[0].map(h => h.trim()),
+    rows: records.slice(1),
+  };
+}
+
+function findColumn(headers: string[], name: string | undefined): number {
+  if (!name) return -1;
+  const wanted = name.trim().toLowerCase();
+  return headers.findIndex(h => h.trim().toLowerCase() === wanted);
+}
+
+function findHint(headers: string[], hints: string[]): string | undefined {
+  for (const hint of hints) {
+    const index = findColumn(headers, hint);
+    if (index >= 0) return headers[index];
+  }
+  return undefined;
+}
+
+/**
+ * Guesses the date format from sample values: a first part above 12 means
+ * day-first, a second part above 12 means month-first. Defaults to DD/MM/YYYY.
+ */
+export function detectDateFormat(samples: string[]): CsvDateFormat {
+  const values = samples.map(s => s.trim()).filter(Boolean);
+  if (values.length > 0 && values.every(v => /^\d{4}[-/.]\d{1,2}[-/.]\d{1,2}/.test(v))) {
+    return 'YYYY-MM-DD';
+  }
+
+  for (const value of values) {
+    const parts = value.split(/[-/.]/).map(Number);
+    if (parts[0] > 12) return 'DD/MM/YYYY';
+    if (parts[1] > 12) return 'MM/DD/YYYY';
+  }
+  return 'DD/MM/YYYY';
+}
+
+/**
+ * Builds a best-guess mapping from the header names and first rows
+ */
+export function suggestMapping(table: CsvTable): CsvColumnMapping {
+  const { headers, rows } = table;
+  const date = findHint(headers, HEADER_HINTS.date) || headers[0] || '';
+  const amount = findHint(headers, HEADER_HINTS.amount);
+  const type = findHint(headers, HEADER_HINTS.type);
+  const debit = findHint(headers, HEADER_HINTS.debit);
+  const credit = findHint(headers, HEADER_HINTS.credit);
+
+  let amountMode: CsvAmountMode = 'signed';
+  if (debit && credit) amountMode = 'split';
+  else if (amount && type) amountMode = 'type-column';
+
+  const dateIndex = findColumn(headers, date);
+
+  return {
+    date,
+    description: findHint(headers, HEADER_HINTS.description),
+    reference: findHint(headers, HEADER_HINTS.reference),
+    category: findHint(headers, HEADER_HINTS.category),
+    splitGroup: findHint(headers, HEADER_HINTS.splitGroup),
+    taxCode: findHint(headers, HEADER_HINTS.taxCode),
+    amountMode,
+    amount: amountMode === 'split' ? undefined : amount,
+    type: amountMode === 'type-column' ? type : undefined,
+    debit: amountMode === 'split' ? debit : undefined,
+    credit: amountMode === 'split' ? credit : undefined,
+    dateFormat: detectDateFormat(rows.slice(0, 20).map(r => r[dateIndex] ?? '')),
+  };
+}
+
+/**
+ * Checks whether a table is already in the app's standard layout
+ */
+export function isStandardLayout(table: CsvTable): boolean {
+  return REQUIRED_CSV_COLUMNS.every(col => findColumn(table.headers, col) >= 0);
+}
+
+/**
+ * Lists mapping problems that would make every row fail (unset columns etc.)
+ */
+export function validateMapping(mapping: CsvColumnMapping, headers: string[]): string[] {
+  const errors: string[] = [];
+  const require = (column: string | undefined, label: string) => {
+    if (!column) errors.push(`Choose the ${label} column.`);
+    else if (findColumn(headers, column) < 0) errors.push(`Column "${column}" (${label}) is not in this file.`);
+  };
+
+  require(mapping.date, 'date');
+  if (mapping.amountMode === 'split') {
+    require(mapping.debit, 'money out');
+    require(mapping.credit, 'money in');
+  } else {
+    require(mapping.amount, 'amount');
+    if (mapping.amountMode === 'type-column') require(mapping.type, 'type');
+  }
+
+  return errors;
+}
+
+/**
+ * Converts a date in the given format to YYYY-MM-DD, or null if invalid
+ */
+export function parseDateWithFormat(value: string, format: CsvDateFormat): string | null {
+  const trimmed = value.trim();
+  const parts = trimmed.split(/[T\s]/)[0].split(/[-/.]/);
+  if (parts.length !== 3) return null;
+
+  let year: string, month: string, day: string;
+  if (format === 'YYYY-MM-DD') [year, month, day] = parts;
+  else if (format === 'DD/MM/YYYY') [day, month, year] = parts;
+  else [month, day, year] = parts;
+
+  if (year.length === 2) year = `20${year}`;
+  const iso = `${year.padStart(4, '0')}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+
+  return isValidIsoDate(iso) ? iso : null;
+}
+
+/**
+ * The dimension tag columns a mapping leaves, with the dimension each one is for
+ */
+export function getDimensionColumns(
+  headers: string[],
+  mapping: CsvColumnMapping,
+  dimensions: RequiredDimension[]
+): { index: number; code: string }[] {
+  const fields = [
+    mapping.date, mapping.description, mapping.reference, mapping.category, mapping.splitGroup,
+    mapping.taxCode, mapping.amount, mapping.type, mapping.debit, mapping.credit,
+  ];
+  const mapped = fields.map(name => findColumn(headers, name)).filter(i => i >= 0);
+  return findDimensionColumns(headers, dimensions, mapped);
+}
+
+/**
+ * Applies a mapping to every data row, collecting per-row validation errors.
+ * Rows in the same split group come back as one transaction. Columns named
+ * after one of the dimensions are read as its tags.
+ */
+export function applyColumnMapping(
+  table: CsvTable,
+  mapping: CsvColumnMapping,
+  dimensions: RequiredDimension[] = []
+): ParsedCsvTransaction[] {
+  const { headers } = table;
+  const col = (name: string | undefined) => findColumn(headers, name);
+  const columns = {
+    date: col(mapping.date),
+    description: col(mapping.description),
+    reference: col(mapping.reference),
+    category: col(mapping.category),
+    splitGroup: col(mapping.splitGroup),
+    taxCode: col(mapping.taxCode),
+    amount: col(mapping.amount),
+    type: col(mapping.type),
+    debit: col(mapping.debit),
+    credit: col(mapping.credit),
+  };
+
+  const mappedColumns = Object.values(columns).filter(i => i >= 0);
+
+  const rows = table.rows.map((values, index) => {
+    const get = (i: number) => (i >= 0 ? (values[i] ?? '').trim() : '');
+    const errors: string[] = [];
+
+    if (values.length !== headers.length) {
+      errors.push(`Expected ${headers.length} columns but found ${values.length}`);
+    }
+
+    const rawDate = get(columns.date);
+    const date = rawDate ? parseDateWithFormat(rawDate, mapping.dateFormat) : null;
+    if (!rawDate) {
+      errors.push('Date is missing');
+    } else if (!date) {
+      errors.push(`Invalid date "${rawDate}" (expected ${mapping.dateFormat})`);
+    }
+
+    let type: 'payment' | 'receipt' = 'payment';
+    let amount: number | null = null;
+
+    if (mapping.amountMode === 'type-column') {
+      const rawType = get(columns.type).toLowerCase();
+      if (rawType === 'payment' || rawType === 'receipt') {
+        type = rawType;
+      } else {
+        errors.push(rawType ? `Unknown type "${get(columns.type)}" (expected payment or receipt)` : 'Type is missing');
+      }
+
+      const rawAmount = get(columns.amount);
+      amount = parseAmount(rawAmount);
+      if (amount === null) {
+        errors.push(rawAmount ? `Amount "${rawAmount}" is not a number` : 'Amount is missing');
+      }
+    } else if (mapping.amountMode === 'signed') {
+      const rawAmount = get(columns.amount);
+      const signed = parseAmount(rawAmount);
+      if (signed === null) {
+        errors.push(rawAmount ? `Amount "${rawAmount}" is not a number` : 'Amount is missing');
+      } else {
+        const outgoing = mapping.invertSign ? signed > 0 : signed < 0;
+        type = outgoing ? 'payment' : 'receipt';
+        amount = Math.abs(signed);
+      }
+    } else {
+      const rawDebit = get(columns.debit);
+      const rawCredit = get(columns.credit);
+      const debit = rawDebit ? parseAmount(rawDebit) : 0;
+      const credit = rawCredit ? parseAmount(rawCredit) : 0;
+
+      if (debit === null) errors.push(`Money out "${rawDebit}" is not a number`);
+      if (credit === null) errors.push(`Money in "${rawCredit}" is not a number`);
+
+      if (debit !== null && credit !== null) {
+        if (debit && credit) {
+          errors.push('Row has both money out and money in');
+        } else if (!debit && !credit) {
+          errors.push('Amount is missing');
+        } else {
+          type = debit ? 'payment' : 'receipt';
+          amount = Math.abs(debit || credit!);
+        }
+      }
+    }
+
+    if (amount !== null && amount <= 0) {
+      errors.push('Amount must be greater than zero');
+    }
+
+    const { errors: dimensionErrors, ...dimensionValues } = readDimensionColumns(headers, values, dimensions, mappedColumns);
+    errors.push(...dimensionErrors);
+
+    const transaction: ParsedCsvTransaction = {
+      rowIndex: index + 1,
+      type,
+      date: date || rawDate,
+      description: get(columns.description),
+      reference: get(columns.reference),
+      amount: amount ?? 0,
+      category: get(columns.category) || 'Uncategorized',
+      ...dimensionValues,
+      ...(get(columns.splitGroup) ? { splitGroup: get(columns.splitGroup) } : {}),
+      ...(get(columns.taxCode) ? { taxCode: get(columns.taxCode) } : {}),
+      ...(errors.length > 0 ? { validationErrors: errors } : {}),
+    };
+    return transaction;
+  });
+
+  return combineSplitRows(rows);
+}
+
+/**
+ * Parses a transactions CSV (date,type,description,reference,amount,category)
+ * into review rows with per-row validation errors
+ */
+export function parseTransactionsCsv(text: string, dimensions: RequiredDimension[] = []): CsvImportResult {
+  let table: CsvTable;
+  try {
+    table = readCsvTable(text);
+  } catch (error) {
+    return { transactions: [], fileErrors: [error instanceof Error ? error.message : 'The file is not valid CSV.'] };
+  }
+
+  if (table.headers.length === 0) {
+    return { transactions: [], fileErrors: ['The file is empty.'] };
+  }
+
+  const missing = REQUIRED_CSV_COLUMNS.filter(col => findColumn(table.headers, col) < 0);
+  if (missing.length > 0) {
+    return {
+      transactions: [],
+      fileErrors: [`Missing required column(s): ${missing.join(', ')}.`],
+    };
+  }
+
+  const transactions = applyColumnMapping(table, STANDARD_CSV_MAPPING, dimensions);
+  return {
+    transactions,
+    fileErrors: transactions.length === 0 ? ['The file has a header row but no transactions.'] : [],
+  };
+}
+
+// ── Presets ────────────────────────────────────────────────────
+
+/**
+ * Loads saved mapping presets
+ */
+export function loadMappingPresets(): CsvMappingPreset[] {
+  try {
+    const saved = localStorage.getItem(PRESETS_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Saves a mapping under a name, replacing any preset with the same name
+ */
+export function saveMappingPreset(name: string, mapping: CsvColumnMapping): CsvMappingPreset {
+  const presets = loadMappingPresets().filter(p => p.name.toLowerCase() !== name.trim().toLowerCase());
+  const preset: CsvMappingPreset = {
+    id: `map_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+    name: name.trim(),
+    mapping,
+    createdAt: new Date().toISOString(),
+  };
+
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify([...presets, preset]));
+  return preset;
+}
+
+/**
+ * Deletes a saved preset
+ */
+export function deleteMappingPreset(id: string): void {
+  const presets = loadMappingPresets().filter(p => p.id !== id);
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+}
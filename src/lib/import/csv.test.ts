@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { parseAmount, parseCsvRecords } from './csv';
+import { parseTransactionsCsv } from './columnMapping';
+
+describe('parseCsvRecords', () => {
+  it('keeps delimiters, doubled quotes and line breaks inside quoted fields', () => {
+    expect(parseCsvRecords('a,"b, ""c""\nd"\r\ne,f')).toEqual([
+      ['a', 'b, "c"\nd'],
+      ['e', 'f'],
+    ]);
+  });
+
+  it('rejects a quoted field that is never closed', () => {
+    const text = 'date,type,amount\n2024-03-01,payment,10\n2024-03-02,"payment,20\n2024-03-03,receipt,30\n';
+
+    expect(() => parseCsvRecords(text)).toThrow('Unterminated quoted field starting on line 3.');
+  });
+
+  it('counts lines inside earlier quoted fields', () => {
+    const text = '"multi\r\nline",1\n"open,2\n';
+
+    expect(() => parseCsvRecords(text)).toThrow('starting on line 3');
+  });
+});
+
+describe('parseTransactionsCsv', () => {
+  it('reports an unterminated quoted field as a file error', () => {
+    const result = parseTransactionsCsv('date,type,amount\n2024-03-01,"payment,10\n2024-03-02,receipt,30\n');
+
+    expect(result.transactions).toEqual([]);
+    expect(result.fileErrors).toEqual(['Unterminated quoted field starting on line 2.']);
+  });
+});
+
+describe('parseAmount', () => {
+  it('reads thousands separators in groups of three', () => {
+    expect(parseAmount('1,234.56')).toBe(1234.56);
+    expect(parseAmount('£12,345,678')).toBe(12345678);
+    expect(parseAmount('(1,000.50)')).toBe(-1000.5);
+  });
+
+  it('rejects decimal commas and misplaced separators', () => {
+    for (const value of ['1.234,56', '12,5', '1,23', '1234,567', ',5', '1,,000']) {
+      expect(parseAmount(value)).toBeNull();
+    }
+  });
+
+  it('reads plain amounts', () => {
+    expect(parseAmount(' -12.50 ')).toBe(-12.5);
+    expect(parseAmount('€ 3')).toBe(3);
+    expect(parseAmount('abc')).toBeNull();
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * CSV Import
+ *
+ * RFC 4180 parser for bank transaction files:
+ * - Quoted fields containing delimiters, quotes ("") and line breaks
+ * - LF, CRLF and lone CR line endings
+ * - UTF-8 byte order mark
+ *
+ * Rows are never silently dropped: each parsed transaction carries the
+ * validation errors found in it so the review table can show them, and a
+ * quoted field left open to the end of the file fails the whole file.
+ * Turning records into transactions lives in ./columnMapping.
+ */
+
+import { ParsedCsvTransaction } from '@/types/sage';
+
+export const REQUIRED_CSV_COLUMNS = ['date', 'type', 'amount'] as const;
+
+export interface CsvImportResult {
+  transactions: ParsedCsvTransaction[];
+  /** Problems with the file as a whole (e.g. missing columns) */
+  fileErrors: string[];
+}
+
+/**
+ * Splits CSV text into records of raw field values. Throws when a quoted field
+ * is never closed, since every later line would end up inside it.
+ */
+export function parseCsvRecords(text: string, delimiter = ','): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let quoteLine = 0;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endField = () => {
+    record.push(field);
+    field = '';
+  };
+  const endRecord = () => {
+    endField();
+    records.push(record);
+    record = [];
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        field += char;
+        if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+      quoteLine = line;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\r' || char === '\n') {
+      endRecord();
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      line++;
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  if (inQuotes) {
+    throw new Error(`Unterminated quoted field starting on line ${quoteLine}.`);
+  }
+
+  // Final record without a trailing newline
+  if (field !== '' || record.length > 0) {
+    endRecord();
+  }
+
+  // Drop blank lines
+  return records.filter(r => r.some(value => value.trim() !== ''));
+}
+
+/**
+ * Checks a YYYY-MM-DD string is a real calendar date
+ */
+export function isValidIsoDate(value: string): boolean {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return false;
+
+  const [, y, m, d] = match.map(Number);
+  const date = new Date(Date.UTC(y, m - 1, d));
+  return date.getUTCFullYear() === y && date.getUTCMonth() === m - 1 && date.getUTCDate() === d;
+}
+
+/**
+ * Parses an amount, tolerating currency symbols, thousands separators and spaces.
+ * Returns null when the value is not a number. Commas only count as thousands
+ * separators in groups of three, so a decimal comma ("1.234,56") is rejected
+ * rather than read as a different amount.
+ */
+export function parseAmount(value: string): number | null {
+  let cleaned = value.trim().replace(/[£$€\s]/g, '');
+
+  // Accounting-style negatives: (123.45)
+  const parenthesised = cleaned.match(/^\((.*)\)$/);
+  if (parenthesised) cleaned = `-${parenthesised[1]}`;
+
+  if (cleaned.includes(',')) {
+    if (!/^[-+]?\d{1,3}(,\d{3})*(\.\d+)?$/.test(cleaned)) return null;
+    cleaned = cleaned.replace(/,/g, '');
+  }
+
+  if (!/^[-+]?(\d+(\.\d*)?|\.\d+)$/.test(cleaned)) return null;
+  return parseFloat(cleaned);
+}
@@ -0,0 +1,215 @@
+/**
+ * Duplicate Detection
+ *
+ * Flags parsed rows that look like transactions already posted, either
+ * recorded locally in AppContext or returned by Sage for the bank account.
+ *
+ * A row and an existing transaction must share type and amount (to the penny)
+ * and fall within a few days of each other. They are then scored on:
+ * - Same date
+ * - Same reference (a different non-empty reference rules the match out)
+ * - Similar description (token overlap, when both sides have one)
+ *
+ * Sage journals hold no description, so a journal only known from Sage is
+ * flagged at a lower score: same amount, type and date is enough.
+ *
+ * Each existing transaction is matched to at most one row, best score first,
+ * so genuinely repeated payments (two identical coffees) aren't all flagged.
+ */
+
+import { BankTransaction, ParsedCsvTransaction, TransactionDuplicateMatch } from '@/types/sage';
+import type { SageJournalEntry } from '@/services/bankService';
+
+export const DUPLICATE_DATE_TOLERANCE_DAYS = 3;
+const DUPLICATE_THRESHOLD = 0.6;
+const UNDESCRIBED_DUPLICATE_THRESHOLD = 0.4;
+
+export interface DuplicateCandidate {
+  source: 'local' | 'sage';
+  id: string;
+  type: 'payment' | 'receipt';
+  date: string;
+  amount: number;
+  reference: string;
+  description?: string;
+}
+
+/**
+ * Candidate from a transaction recorded in AppContext
+ */
+export function fromBankTransaction(tx: BankTransaction): DuplicateCandidate {
+  return {
+    source: 'local',
+    id: tx.id,
+    type: tx.type,
+    date: tx.date.slice(0, 10),
+    amount: tx.amount,
+    reference: tx.reference || '',
+    description: tx.description,
+  };
+}
+
+/**
+ * Candidate from a journal returned by bankService.getAccountTransactions.
+ * Receipts are posted as Debit and payments as Credit. Amounts are compared in
+ * the account's currency, as they appear on the statement.
+ */
+export function fromJournalEntry(entry: SageJournalEntry): DuplicateCandidate {
+  return {
+    source: 'sage',
+    id: entry.Id,
+    type: entry.TreatAs === 'Debit' ? 'receipt' : 'payment',
+    date: entry.Date.slice(0, 10),
+    amount: entry.TotalAmount.Currency ?? entry.TotalAmount.Base,
+    reference: entry.Reference || '',
+  };
+}
+
+function sameAmount(a: number, b: number): boolean {
+  return Math.round(a * 100) === Math.round(b * 100);
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.abs(Date.parse(a) - Date.parse(b)) / 86_400_000;
+}
+
+function tokens(value: string): Set<string> {
+  return new Set(value.toLowerCase().split(/[^a-z0-9]+/).filter(t => t.length > 1));
+}
+
+/**
+ * Similarity of two descriptions from 0 to 1 (Dice coefficient over words)
+ */
+export function descriptionSimilarity(a: string, b: string): number {
+  const left = tokens(a);
+  const right = tokens(b);
+  if (left.size === 0 || right.size === 0) return 0;
+
+  let shared = 0;
+  left.forEach(t => {
+    if (right.has(t)) shared++;
+  });
+  return (2 * shared) / (left.size + right.size);
+}
+
+/**
+ * Drops local transactions that are the same journal as one returned by Sage,
+ * so a single posting is never counted twice
+ */
+export function mergeCandidates(local: DuplicateCandidate[], sage: DuplicateCandidate[]): DuplicateCandidate[] {
+  const remaining = [...sage];
+  const merged = [...sage];
+
+  for (const candidate of local) {
+    const twin = remaining.findIndex(s =>
+      s.type === candidate.type &&
+      s.date === candidate.date &&
+      sameAmount(s.amount, candidate.amount) &&
+      s.reference.toLowerCase() === candidate.reference.toLowerCase()
+    );
+    if (twin >= 0) {
+      // Keep the local description for fuzzy matching
+      const index = merged.indexOf(remaining[twin]);
+      merged[index] = { ...merged[index], description: candidate.description };
+      remaining.splice(twin, 1);
+    } else {
+      merged.push(candidate);
+    }
+  }
+
+  return merged;
+}
+
+function thresholdFor(candidate: DuplicateCandidate): number {
+  return candidate.description ? DUPLICATE_THRESHOLD : UNDESCRIBED_DUPLICATE_THRESHOLD;
+}
+
+function scoreMatch(row: ParsedCsvTransaction, candidate: DuplicateCandidate): TransactionDuplicateMatch | null {
+  if (row.type !== candidate.type || !sameAmount(row.amount, candidate.amount)) return null;
+
+  const days = daysBetween(row.date, candidate.date);
+  if (isNaN(days) || days > DUPLICATE_DATE_TOLERANCE_DAYS) return null;
+
+  const reasons = ['Same amount and type'];
+  let score = 0;
+
+  if (days === 0) {
+    score += 0.4;
+    reasons.push('Same date');
+  } else {
+    score += 0.2;
+    reasons.push(`Date within ${Math.round(days)} day(s)`);
+  }
+
+  const rowRef = row.reference.trim().toLowerCase();
+  const candidateRef = candidate.reference.trim().toLowerCase();
+  if (rowRef && candidateRef) {
+    if (rowRef !== candidateRef) return null;
+    score += 0.4;
+    reasons.push('Same reference');
+  }
+
+  if (row.description && candidate.description) {
+    const similarity = descriptionSimilarity(row.description, candidate.description);
+    score += similarity * 0.3;
+    if (similarity >= 0.5) reasons.push(`Similar description (${Math.round(similarity * 100)}%)`);
+  }
+
+  return {
+    source: candidate.source,
+    id: candidate.id,
+    date: candidate.date,
+    amount: candidate.amount,
+    reference: candidate.reference,
+    description: candidate.description,
+    score: Math.min(1, Math.round(score * 100) / 100),
+    reasons,
+  };
+}
+
+/**
+ * Finds the likely duplicate for each row, keyed by rowIndex.
+ * Rows with validation errors are ignored.
+ */
+export function findDuplicates(
+  rows: ParsedCsvTransaction[],
+  candidates: DuplicateCandidate[]
+): Record<number, TransactionDuplicateMatch> {
+  const pairs: { rowIndex: number; candidate: number; match: TransactionDuplicateMatch }[] = [];
+
+  rows.forEach(row => {
+    if (row.validationErrors?.length) return;
+    candidates.forEach((candidate, index) => {
+      const match = scoreMatch(row, candidate);
+      if (match && match.score >= thresholdFor(candidate)) {
+        pairs.push({ rowIndex: row.rowIndex, candidate: index, match });
+      }
+    });
+  });
+
+  pairs.sort((a, b) => b.match.score - a.match.score);
+
+  const result: Record<number, TransactionDuplicateMatch> = {};
+  const usedCandidates = new Set<number>();
+  for (const pair of pairs) {
+    if (result[pair.rowIndex] || usedCandidates.has(pair.candidate)) continue;
+    result[pair.rowIndex] = pair.match;
+    usedCandidates.add(pair.candidate);
+  }
+
+  return result;
+}
+
+/**
+ * Date range to fetch from Sage so every row's tolerance window is covered
+ */
+export function getDuplicateSearchRange(rows: ParsedCsvTransaction[]): { startDate: string; endDate: string } | null {
+  const times = rows.map(r => Date.parse(r.date)).filter(t => !isNaN(t));
+  if (times.length === 0) return null;
+
+  const padding = DUPLICATE_DATE_TOLERANCE_DAYS * 86_400_000;
+  return {
+    startDate: new Date(Math.min(...times) - padding).toISOString().split('T')[0],
+    endDate: new Date(Math.max(...times) + padding).toISOString().split('T')[0],
+  };
+}
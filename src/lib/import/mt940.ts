@@ -0,0 +1,181 @@
+/**
+ * SWIFT MT940 Import
+ *
+ * Reads MT940 customer statements, with or without the SWIFT {1:}{2:}{4:
+ * block wrapper. A file may hold several consecutive statements.
+ *
+ * - :61: statement lines become review rows (D/RC → payment, C/RD → receipt)
+ * - The following :86: field supplies the description
+ * - :60F:/:60M: and :62F:/:62M: give the opening and closing balance
+ */
+
+import { ParsedCsvTransaction } from '@/types/sage';
+import { isValidIsoDate } from './csv';
+import type { StatementBalance, StatementImportResult } from './statement';
+
+// YYMMDD [MMDD] [R]D|C [funds code] amount transaction-type customer-ref [//bank-ref]
+const STATEMENT_LINE = /^(\d{6})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d*)([NSF][A-Z0-9]{3})?([^/\n]*)(?:\/\/([^\n]*))?/;
+// D|C YYMMDD currency amount
+const BALANCE = /^([CD])(\d{6})([A-Z]{3})(\d+,\d*)/;
+
+interface Mt940Field {
+  tag: string;
+  value: string;
+}
+
+/**
+ * Checks whether text looks like an MT940 statement
+ */
+export function isMt940Document(text: string): boolean {
+  return /^:20:/m.test(text) && /^:6[01][A-Z]?:/m.test(text);
+}
+
+/**
+ * Converts an MT940 YYMMDD date to YYYY-MM-DD
+ */
+export function parseMt940Date(value: string): string | null {
+  const yy = parseInt(value.slice(0, 2), 10);
+  const iso = `${yy < 80 ? 2000 + yy : 1900 + yy}-${value.slice(2, 4)}-${value.slice(4, 6)}`;
+  return isValidIsoDate(iso) ? iso : null;
+}
+
+function parseMt940Amount(value: string): number {
+  return parseFloat(value.replace(',', '.'));
+}
+
+/**
+ * Splits the message into tagged fields, joining continuation lines
+ */
+function readFields(text: string): Mt940Field[] {
+  const fields: Mt940Field[] = [];
+
+  for (const rawLine of text.split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/^\{4:/, '');
+    if (line.startsWith('{') || line === '-}' || line === '-') continue;
+
+    const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (match) {
+      fields.push({ tag: match[1], value: match[2] });
+    } else if (fields.length > 0 && line.trim() !== '') {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  }
+
+  return fields;
+}
+
+function readBalance(value: string): StatementBalance | undefined {
+  const match = value.match(BALANCE);
+  if (!match) return undefined;
+
+  const date = parseMt940Date(match[2]);
+  if (!date) return undefined;
+
+  const amount = parseMt940Amount(match[4]);
+  return { amount: match[1] === 'D' ? -amount : amount, date };
+}
+
+/**
+ * Turns an :86: field into a readable description. Structured (German-style)
+ * ?20–?29 purpose and ?32–?33 name subfields are used when present.
+ */
+function readInformation(value: string): string {
+  const flat = value.replace(/\n/g, '');
+  if (!/\?\d{2}/.test(flat)) {
+    return value.replace(/\s*\n\s*/g, ' ').trim();
+  }
+
+  const subfields: Record<string, string> = {};
+  for (const match of flat.matchAll(/\?(\d{2})([^?]*)/g)) {
+    subfields[match[1]] = (subfields[match[1]] || '') + match[2];
+  }
+
+  const name = [subfields['32'], subfields['33']].filter(Boolean).join('');
+  const purpose = Array.from({ length: 10 }, (_, i) => subfields[String(20 + i)])
+    .filter(Boolean)
+    .join('');
+
+  return [name, purpose].filter(Boolean).join(' - ').trim();
+}
+
+function readStatementLine(value: string, information: string | undefined, index: number): ParsedCsvTransaction {
+  const errors: string[] = [];
+  const [line, supplementary] = value.split('\n');
+  const match = line.match(STATEMENT_LINE);
+
+  if (!match) {
+    return {
+      rowIndex: index + 1,
+      type: 'payment',
+      date: '',
+      description: information ? readInformation(information) : line,
+      reference: '',
+      amount: 0,
+      category: 'Uncategorized',
+      dimensionSelections: {},
+      validationErrors: [`Could not read statement line "${line}"`],
+    };
+  }
+
+  const [, valueDate, , mark, , rawAmount, , customerRef, bankRef] = match;
+
+  const date = parseMt940Date(valueDate);
+  if (!date) errors.push(`Invalid value date "${valueDate}"`);
+
+  const amount = parseMt940Amount(rawAmount);
+  if (!(amount > 0)) errors.push('Amount must be greater than zero');
+
+  // RD reverses a debit (money back in), RC reverses a credit
+  const type = mark === 'C' || mark === 'RD' ? 'receipt' : 'payment';
+
+  const reference = customerRef && customerRef.trim() !== 'NONREF'
+    ? customerRef.trim()
+    : (bankRef || '').trim();
+
+  return {
+    rowIndex: index + 1,
+    type,
+    date: date || valueDate,
+    description: information ? readInformation(information) : (supplementary || '').trim(),
+    reference,
+    amount: isNaN(amount) ? 0 : amount,
+    category: 'Uncategorized',
+    dimensionSelections: {},
+    ...(errors.length > 0 ? { validationErrors: errors } : {}),
+  };
+}
+
+/**
+ * Parses an MT940 file into review rows and balances
+ */
+export function parseMt940Statement(text: string): StatementImportResult {
+  const fields = readFields(text);
+  if (!fields.some(f => f.tag === '20')) {
+    return { transactions: [], fileErrors: ['The file is not an MT940 statement.'] };
+  }
+
+  const transactions: ParsedCsvTransaction[] = [];
+  fields.forEach((field, i) => {
+    if (field.tag !== '61') return;
+    const next = fields[i + 1];
+    transactions.push(readStatementLine(field.value, next?.tag === '86' ? next.value : undefined, transactions.length));
+  });
+
+  if (transactions.length === 0) {
+    return { transactions: [], fileErrors: ['The statement contains no transactions.'] };
+  }
+
+  const openingField = fields.find(f => f.tag === '60F' || f.tag === '60M');
+  const closingField = [...fields].reverse().find(f => f.tag === '62F' || f.tag === '62M');
+
+  return {
+    transactions,
+    fileErrors: [],
+    balances: {
+      opening: openingField ? readBalance(openingField.value) : undefined,
+      closing: closingField ? readBalance(closingField.value) : undefined,
+      currency: openingField?.value.match(BALANCE)?.[3],
+      accountIdentifier: fields.find(f => f.tag === '25')?.value.trim(),
+    },
+  };
+}
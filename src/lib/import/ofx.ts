@@ -0,0 +1,156 @@
+/**
+ * OFX / QFX Import
+ *
+ * Reads bank statement downloads in OFX 1.x (SGML, leaf elements without
+ * closing tags) and OFX 2.x (XML). QFX is OFX with Quicken-specific extras,
+ * which are ignored.
+ *
+ * Each <STMTTRN> becomes a ParsedCsvTransaction:
+ * - TRNTYPE → payment/receipt (the sign of TRNAMT decides for XFER/OTHER)
+ * - DTPOSTED → date (YYYY-MM-DD)
+ * - FITID → reference
+ * - NAME and MEMO → description
+ *
+ * LEDGERBAL is returned as the closing balance; OFX has no opening balance.
+ */
+
+import { ParsedCsvTransaction } from '@/types/sage';
+import { isValidIsoDate } from './csv';
+import type { StatementImportResult } from './statement';
+
+const RECEIPT_TYPES = ['CREDIT', 'DEP', 'INT', 'DIV', 'DIRECTDEP'];
+const PAYMENT_TYPES = ['DEBIT', 'PAYMENT', 'CHECK', 'ATM', 'POS', 'FEE', 'SRVCHG', 'DIRECTDEBIT', 'REPEATPMT', 'CASH'];
+
+/**
+ * Checks whether text looks like an OFX document
+ */
+export function isOfxDocument(text: string): boolean {
+  return /<OFX>/i.test(text) || /^\s*OFXHEADER:/i.test(text);
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Reads a leaf element's value. Works for both SGML (<NAME>value) and
+ * XML (<NAME>value</NAME>) since the value always ends at the next tag.
+ */
+export function readOfxElement(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? decodeEntities(match[1].trim()) : undefined;
+}
+
+/**
+ * Returns the contents of every <tag>...</tag> aggregate
+ */
+export function readOfxAggregates(text: string, tag: string): string[] {
+  const blocks: string[] = [];
+  const pattern = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    blocks.push(match[1]);
+  }
+  return blocks;
+}
+
+/**
+ * Converts an OFX datetime (YYYYMMDD[HHMMSS[.XXX]][[-5:EST]]) to YYYY-MM-DD
+ */
+export function parseOfxDate(value: string | undefined): string | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+
+  const iso = `${match[1]}-${match[2]}-${match[3]}`;
+  return isValidIsoDate(iso) ? iso : null;
+}
+
+/**
+ * Parses an OFX amount. OFX allows either '.' or ',' as the decimal separator.
+ */
+export function parseOfxAmount(value: string | undefined): number | null {
+  if (!value) return null;
+  const normalised = value.trim().replace(/\s/g, '').replace(',', '.');
+  if (!/^[-+]?(\d+(\.\d*)?|\.\d+)$/.test(normalised)) return null;
+  return parseFloat(normalised);
+}
+
+/**
+ * Parses an OFX/QFX statement into review rows with per-row validation errors
+ */
+export function parseOfxStatement(text: string): StatementImportResult {
+  if (!isOfxDocument(text)) {
+    return { transactions: [], fileErrors: ['The file is not an OFX statement.'] };
+  }
+
+  const records = readOfxAggregates(text, 'STMTTRN');
+  if (records.length === 0) {
+    return { transactions: [], fileErrors: ['The statement contains no transactions.'] };
+  }
+
+  const transactions = records.map((block, index) => {
+    const errors: string[] = [];
+
+    const rawDate = readOfxElement(block, 'DTPOSTED');
+    const date = parseOfxDate(rawDate);
+    if (!rawDate) {
+      errors.push('DTPOSTED is missing');
+    } else if (!date) {
+      errors.push(`Invalid DTPOSTED "${rawDate}"`);
+    }
+
+    const rawAmount = readOfxElement(block, 'TRNAMT');
+    const signed = parseOfxAmount(rawAmount);
+    if (signed === null) {
+      errors.push(rawAmount ? `TRNAMT "${rawAmount}" is not a number` : 'TRNAMT is missing');
+    } else if (signed === 0) {
+      errors.push('Amount must be greater than zero');
+    }
+
+    const trnType = (readOfxElement(block, 'TRNTYPE') || '').toUpperCase();
+    let type: 'payment' | 'receipt';
+    if (RECEIPT_TYPES.includes(trnType)) type = 'receipt';
+    else if (PAYMENT_TYPES.includes(trnType)) type = 'payment';
+    else type = (signed ?? 0) < 0 ? 'payment' : 'receipt';
+
+    const fitId = readOfxElement(block, 'FITID');
+    if (!fitId) errors.push('FITID is missing');
+
+    const name = readOfxElement(block, 'NAME') || readOfxElement(block, 'PAYEE') || '';
+    const memo = readOfxElement(block, 'MEMO') || '';
+    const description = memo && memo !== name ? [name, memo].filter(Boolean).join(' - ') : name;
+
+    const transaction: ParsedCsvTransaction = {
+      rowIndex: index + 1,
+      type,
+      date: date || rawDate || '',
+      description,
+      reference: fitId || readOfxElement(block, 'REFNUM') || readOfxElement(block, 'CHECKNUM') || '',
+      amount: signed === null ? 0 : Math.abs(signed),
+      category: 'Uncategorized',
+      dimensionSelections: {},
+      ...(errors.length > 0 ? { validationErrors: errors } : {}),
+    };
+    return transaction;
+  });
+
+  const ledgerBalance = readOfxAggregates(text, 'LEDGERBAL')[0];
+  const closingAmount = ledgerBalance ? parseOfxAmount(readOfxElement(ledgerBalance, 'BALAMT')) : null;
+  const closingDate = ledgerBalance ? parseOfxDate(readOfxElement(ledgerBalance, 'DTASOF')) : null;
+
+  return {
+    transactions,
+    fileErrors: [],
+    balances: {
+      closing: closingAmount !== null && closingDate ? { amount: closingAmount, date: closingDate } : undefined,
+      currency: readOfxElement(text, 'CURDEF'),
+      accountIdentifier: readOfxElement(text, 'ACCTID'),
+    },
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Statement Import
+ *
+ * Detects the format of an uploaded statement file and parses it into review
+ * rows. Formats that carry balances (camt.053, MT940, OFX) also return the
+ * opening and closing balance so they can be checked against the account.
+ */
+
+import { RequiredDimension } from '@/types/sage';
+import { CsvImportResult } from './csv';
+import { parseTransactionsCsv } from './columnMapping';
+import { isOfxDocument, parseOfxStatement } from './ofx';
+import { isCamt053Document, parseCamt053Statement } from './camt053';
+import { isMt940Document, parseMt940Statement } from './mt940';
+
+export type StatementFormat = 'csv' | 'ofx' | 'camt053' | 'mt940';
+
+export const STATEMENT_FORMAT_LABELS: Record<StatementFormat, string> = {
+  csv: 'CSV',
+  ofx: 'OFX',
+  camt053: 'camt.053',
+  mt940: 'MT940',
+};
+
+export const STATEMENT_FILE_ACCEPT = '.csv,.ofx,.qfx,.xml,.sta,.mt940,.940,.txt';
+
+export interface StatementBalance {
+  /** Positive when the account is in credit (funds available) */
+  amount: number;
+  date: string;
+}
+
+export interface StatementBalances {
+  opening?: StatementBalance;
+  closing?: StatementBalance;
+  currency?: string;
+  /** IBAN or account number as printed on the statement */
+  accountIdentifier?: string;
+}
+
+export interface StatementImportResult extends CsvImportResult {
+  balances?: StatementBalances;
+}
+
+/**
+ * Works out the file format from its name and content
+ */
+export function detectStatementFormat(fileName: string, text: string): StatementFormat {
+  if (/\.(ofx|qfx)$/i.test(fileName) || isOfxDocument(text)) return 'ofx';
+  if (isCamt053Document(text)) return 'camt053';
+  if (/\.(sta|mt940|940)$/i.test(fileName) || isMt940Document(text)) return 'mt940';
+  return 'csv';
+}
+
+/**
+ * Parses a statement in the given format. Only CSV files carry dimension
+ * columns; the dimensions say which column headers to look for.
+ */
+export function parseStatement(
+  format: StatementFormat,
+  text: string,
+  dimensions: RequiredDimension[] = []
+): StatementImportResult {
+  switch (format) {
+    case 'ofx':
+      return parseOfxStatement(text);
+    case 'camt053':
+      return parseCamt053Statement(text);
+    case 'mt940':
+      return parseMt940Statement(text);
+    default:
+      return parseTransactionsCsv(text, dimensions);
+  }
+}
+
+/**
+ * Net movement of the rows on a statement (receipts minus payments)
+ */
+export function getNetMovement(transactions: { type: 'payment' | 'receipt'; amount: number }[]): number {
+  const net = transactions.reduce((sum, tx) => sum + (tx.type === 'receipt' ? tx.amount : -tx.amount), 0);
+  return Math.round(net * 100) / 100;
+}
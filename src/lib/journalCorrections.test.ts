@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { BankTransaction, ParsedCsvTransaction } from '@/types/sage';
+import { canEditJournalAmount, describePostedJournal, parseJournalAmount } from './journalCorrections';
+
+const parsed: ParsedCsvTransaction = {
+  rowIndex: 1,
+  type: 'payment',
+  date: '2024-03-01',
+  description: 'Office supplies',
+  reference: 'INV-1',
+  amount: 120,
+  category: 'Office',
+  dimensionSelections: {},
+};
+
+const posted = (overrides: Partial<BankTransaction> = {}): BankTransaction => ({
+  id: 'tx1',
+  tenantId: 't1',
+  bankAccountId: 'a1',
+  type: 'payment',
+  date: '2024-03-01',
+  description: 'Office supplies',
+  reference: 'INV-1',
+  amount: 120,
+  category: 'Office',
+  journalId: 'j1',
+  ...overrides,
+});
+
+describe('describePostedJournal', () => {
+  it('counts the items and notes VAT on any of them', () => {
+    expect(describePostedJournal(parsed)).toEqual({ journalItems: 1 });
+    expect(describePostedJournal({ ...parsed, taxRateId: 'vat20', taxAmount: 20 })).toEqual({ journalItems: 1, taxed: true });
+    expect(describePostedJournal({
+      ...parsed,
+      splits: [
+        { amount: 100, dimensionSelections: {} },
+        { amount: 20, dimensionSelections: {}, taxRateId: 'vat20', taxAmount: 3.33 },
+      ],
+    })).toEqual({ journalItems: 2, taxed: true });
+  });
+});
+
+describe('canEditJournalAmount', () => {
+  it('allows single-item journals without VAT only', () => {
+    expect(canEditJournalAmount(posted({ journalItems: 1 }))).toBe(true);
+    expect(canEditJournalAmount(posted({ journalItems: 2 }))).toBe(false);
+    expect(canEditJournalAmount(posted({ journalItems: 1, taxed: true }))).toBe(false);
+  });
+
+  it('refuses journals whose items the app never recorded', () => {
+    expect(canEditJournalAmount(posted())).toBe(false);
+    expect(canEditJournalAmount(undefined)).toBe(false);
+  });
+});
+
+describe('parseJournalAmount', () => {
+  it('reads plain amounts, including partial input', () => {
+    expect(parseJournalAmount('12.50')).toBe(12.5);
+    expect(parseJournalAmount(' 12. ')).toBe(12);
+    expect(parseJournalAmount('.5')).toBe(0.5);
+  });
+
+  it('rejects anything else', () => {
+    for (const text of ['12abc', '1e3', '-5', '1,000', '12.345', '', '.', '0x10']) {
+      expect(parseJournalAmount(text)).toBeNaN();
+    }
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Journal Corrections
+ *
+ * Works out what an edit to a posted journal changes, so Sage is only sent the
+ * fields it holds and the audit trail records each value before and after.
+ * Features:
+ * - Date, reference and amount are corrected in Sage; description and category
+ *   are kept in the app only
+ * - The amount only on journals the app posted as one item without VAT, since
+ *   Sage changes that item's amount and nothing else
+ * - The app's copy of the transaction is updated to match, including its GBP value
+ * - Voided journals can't be edited again
+ * - Keys of voided, deleted and rejected postings are retired, so a corrected
+ *   line can be posted again without Sage replaying the old journal
+ */
+
+import { BankTransaction, JournalAuditChange, JournalAuditEntry, ParsedCsvTransaction, SageJournalUpdateRequest } from '@/types/sage';
+import { toBaseAmount } from './currency';
+import { getTransactionLines } from './splitTransactions';
+
+export interface JournalEditValues {
+  date: string;
+  reference: string;
+  amount: number;
+  description?: string;
+  category?: string;
+}
+
+export const JOURNAL_FIELD_LABELS: Record<keyof JournalEditValues, string> = {
+  date: 'Date',
+  reference: 'Reference',
+  amount: 'Amount',
+  description: 'Description',
+  category: 'Category',
+};
+
+const FIELDS = Object.keys(JOURNAL_FIELD_LABELS) as (keyof JournalEditValues)[];
+
+function toText(value: string | number | undefined): string {
+  if (value === undefined) return '';
+  return typeof value === 'number' ? value.toFixed(2) : value.trim();
+}
+
+/**
+ * Whether a Sage journal status is Void; voided journals can't be changed again
+ */
+export function isJournalVoid(status: string | undefined): boolean {
+  return (status || '').toLowerCase() === 'void';
+}
+
+/**
+ * How a transaction was posted, kept on the app's copy so later edits know
+ * what the journal in Sage holds
+ */
+export function describePostedJournal(tx: ParsedCsvTransaction): Pick<BankTransaction, 'journalItems' | 'taxed'> {
+  const lines = getTransactionLines(tx);
+  return {
+    journalItems: lines.length,
+    ...(lines.some(line => line.taxRateId) ? { taxed: true } : {}),
+  };
+}
+
+/**
+ * Whether a journal's amount can be corrected. Sage changes the amount of a
+ * single item but leaves its TaxAmount alone, so split and VAT journals (and
+ * ones the app didn't post, whose items it doesn't know) keep their amount.
+ */
+export function canEditJournalAmount(tx: BankTransaction | undefined): boolean {
+  return tx?.journalItems === 1 && !tx.taxed;
+}
+
+/**
+ * An amount typed into the edit form, or NaN unless it is a plain number
+ * with at most two decimals (so "12abc" isn't read as 12)
+ */
+export function parseJournalAmount(text: string): number {
+  const value = text.trim();
+  return /^(\d+(\.\d{0,2})?|\.\d{1,2})$/.test(value) ? Number(value) : NaN;
+}
+
+/**
+ * Each field that differs between the journal as it was and as edited.
+ * Fields left undefined in the edit aren't compared.
+ */
+export function diffJournalEdit(before: JournalEditValues, after: JournalEditValues): JournalAuditChange[] {
+  return FIELDS
+    .filter(field => after[field] !== undefined && toText(before[field]) !== toText(after[field]))
+    .map(field => ({
+      field: JOURNAL_FIELD_LABELS[field],
+      from: toText(before[field]),
+      to: toText(after[field]),
+    }));
+}
+
+/**
+ * The Sage request for an edit: only the posted fields that changed
+ */
+export function toJournalUpdate(before: JournalEditValues, after: JournalEditValues): SageJournalUpdateRequest {
+  return {
+    ...(after.date !== before.date ? { Date: after.date } : {}),
+    ...(after.reference.trim() !== before.reference.trim() ? { Reference: after.reference.trim() } : {}),
+    ...(toText(after.amount) !== toText(before.amount) ? { Amount: Math.round(after.amount * 100) / 100 } : {}),
+  };
+}
+
+/**
+ * The app's copy of a transaction after an edit. A foreign-currency amount
+ * keeps the exchange rate it was posted at.
+ */
+export function applyJournalEdit(tx: BankTransaction, values: JournalEditValues): Partial<BankTransaction> {
+  const amount = Math.round(values.amount * 100) / 100;
+  const rate = tx.currency && tx.baseAmount ? tx.amount / tx.baseAmount : undefined;
+
+  return {
+    date: values.date,
+    reference: values.reference.trim(),
+    amount,
+    ...(values.description !== undefined ? { description: values.description.trim() } : {}),
+    ...(values.category !== undefined ? { category: values.category.trim() || tx.category } : {}),
+    ...(rate ? { baseAmount: toBaseAmount(amount, rate) } : {}),
+  };
+}
+
+/**
+ * Idempotency keys whose journal has been voided, deleted or rejected. Sage
+ * would answer a new post with one of these by replaying the old journal.
+ */
+export function getRetiredIdempotencyKeys(
+  transactions: BankTransaction[],
+  journalAudit: JournalAuditEntry[]
+): Set<string> {
+  return new Set([
+    ...transactions.filter(t => t.voidedAt && t.idempotencyKey).map(t => t.idempotencyKey!),
+    ...journalAudit
+      .filter(e => e.idempotencyKey && (e.action === 'void' || e.action === 'delete' || e.action === 'reject'))
+      .map(e => e.idempotencyKey!),
+  ]);
+}
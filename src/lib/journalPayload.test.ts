@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { SageTransactionRequest } from '@/types/sage';
+import { buildJournalPayload, buildJournalUpdatePayload } from './journalPayload';
+
+function request(overrides: Partial<SageTransactionRequest> = {}): SageTransactionRequest {
+  return {
+    Date: '2024-03-01',
+    Reference: 'INV-001',
+    BankAccount: { Id: 'bank-1' },
+    Items: [
+      {
+        Order: 1,
+        Date: '2024-03-01',
+        AmountType: 'Gross',
+        Amount: 12.5,
+        TreatAs: 'Credit',
+        Dimensions: [],
+      },
+    ],
+    ...overrides,
+  };
+}
+
+// What Sage receives: the payload as apiClient serialises it, read back
+const roundTrip = (value: unknown) => JSON.parse(JSON.stringify(value));
+
+describe('buildJournalPayload', () => {
+  it('keeps quotes, backslashes and control characters intact through JSON', () => {
+    const reference = 'He said "pay" \\ C:\\temp\\new\tline\nnext\r\u0000end';
+    const payload = buildJournalPayload(request({ Reference: reference }));
+
+    expect(payload.Reference).toBe(reference);
+    expect(roundTrip(payload).Reference).toBe(reference);
+  });
+
+  it('keeps unicode text, including emoji and right-to-left scripts', () => {
+    const reference = 'Café £5 — 日本語 😀 مرحبا \u2028';
+    const payload = buildJournalPayload(request({ Reference: reference }));
+
+    expect(roundTrip(payload).Reference).toBe(reference);
+  });
+
+  it('posts large amounts exactly', () => {
+    const amount = 12_345_678_901_234.56;
+    const payload = buildJournalPayload(request({
+      Items: [{ ...request().Items[0], Amount: amount, TaxAmount: 15_000_000_000_000.5 }],
+    }));
+
+    expect(roundTrip(payload).Items[0].Amount).toBe(amount);
+    expect(roundTrip(payload).Items[0].TaxAmount).toBe(15_000_000_000_000.5);
+  });
+
+  it('rejects amounts too large to keep exact pence', () => {
+    expect(() => buildJournalPayload(request({
+      Items: [{ ...request().Items[0], Amount: 1e15 }],
+    }))).toThrow('Items[0].Amount is too large to post exactly');
+  });
+
+  it('rejects amounts that are not finite numbers', () => {
+    for (const amount of [NaN, Infinity, 'abc' as unknown as number]) {
+      expect(() => buildJournalPayload(request({
+        Items: [{ ...request().Items[0], Amount: amount }],
+      }))).toThrow('Items[0].Amount must be a number');
+    }
+  });
+
+  it('accepts numeric strings as amounts', () => {
+    const payload = buildJournalPayload(request({
+      Items: [{ ...request().Items[0], Amount: '1234.56' as unknown as number }],
+    }));
+
+    expect(payload.Items[0].Amount).toBe(1234.56);
+  });
+
+  it('rejects an unknown TreatAs', () => {
+    expect(() => buildJournalPayload(request({
+      Items: [{ ...request().Items[0], TreatAs: 'Sideways' as 'Debit' }],
+    }))).toThrow('Items[0].TreatAs must be Debit or Credit');
+  });
+
+  it('turns objects with numeric keys into arrays', () => {
+    const item = {
+      ...request().Items[0],
+      Dimensions: { 0: { Dimension: { Id: 'DEPT' }, DimensionTags: { 0: { Id: 'SALES' } } } },
+    };
+    const payload = buildJournalPayload(request({
+      Items: { 0: item } as unknown as SageTransactionRequest['Items'],
+    }));
+
+    expect(Array.isArray(payload.Items)).toBe(true);
+    expect(Array.isArray(payload.Items[0].Dimensions)).toBe(true);
+    expect(payload.Items[0].Dimensions[0].DimensionTags).toEqual([{ Id: 'SALES' }]);
+  });
+
+  it('leaves out optional fields that are not set, and fields Sage does not accept', () => {
+    const payload = buildJournalPayload({
+      ...request(),
+      Unexpected: 'value',
+    } as SageTransactionRequest);
+
+    expect(roundTrip(payload)).toEqual({
+      Date: '2024-03-01',
+      Reference: 'INV-001',
+      BankAccount: { Id: 'bank-1' },
+      Draft: false,
+      Items: [
+        {
+          Order: 1,
+          Date: '2024-03-01',
+          AmountType: 'Gross',
+          Amount: 12.5,
+          TreatAs: 'Credit',
+          Dimensions: [],
+        },
+      ],
+    });
+  });
+
+  it('includes the currency and percentage allocations when given', () => {
+    const payload = buildJournalPayload(request({
+      Currency: { Code: 'EUR', ExchangeRate: 1.17 },
+      Items: [{
+        ...request().Items[0],
+        BaseAmount: 10.68,
+        Dimensions: [{
+          Dimension: { Id: 'DEPT', AllocationType: 'Percentage' },
+          DimensionTags: [{ Id: 'SALES', Percentage: 60 }, { Id: 'OPS', Percentage: 40 }],
+        }],
+      }],
+    }));
+
+    expect(payload.Currency).toEqual({ Code: 'EUR', ExchangeRate: 1.17 });
+    expect(payload.Items[0].BaseAmount).toBe(10.68);
+    expect(payload.Items[0].Dimensions[0].DimensionTags).toEqual([
+      { Id: 'SALES', Percentage: 60 },
+      { Id: 'OPS', Percentage: 40 },
+    ]);
+  });
+});
+
+describe('buildJournalUpdatePayload', () => {
+  it('holds only the fields being changed', () => {
+    expect(buildJournalUpdatePayload({ Reference: 'Ref "new" ✓' })).toEqual({ Reference: 'Ref "new" ✓' });
+  });
+
+  it('checks the amount', () => {
+    expect(() => buildJournalUpdatePayload({ Amount: NaN })).toThrow('Amount must be a number');
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Journal Payload Builder
+ *
+ * Turns a SageTransactionRequest into the exact body posted to the journals
+ * endpoint, so every field is serialised by JSON.stringify rather than by hand.
+ * Features:
+ * - Quotes, backslashes, control characters and unicode in text are escaped
+ * - Items, Dimensions and DimensionTags are always real arrays
+ * - Amounts and percentages must be finite numbers within safe precision
+ * - Optional fields are left out rather than sent as null
+ */
+
+import {
+  SageTransactionDimension,
+  SageTransactionDimensionTag,
+  SageJournalUpdateRequest,
+  SageTransactionItem,
+  SageTransactionRequest,
+} from '@/types/sage';
+
+// Largest amount that still has exact pence in a double
+const MAX_SAFE_AMOUNT = Number.MAX_SAFE_INTEGER / 100;
+
+function toText(value: unknown, field: string): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  throw new Error(`${field} must be text`);
+}
+
+function toNumber(value: unknown, field: string): number {
+  const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof n !== 'number' || !Number.isFinite(n)) {
+    throw new Error(`${field} must be a number`);
+  }
+  if (Math.abs(n) > MAX_SAFE_AMOUNT) {
+    throw new Error(`${field} is too large to post exactly`);
+  }
+  return n;
+}
+
+// Array-like values (including objects with numeric keys) become real arrays
+function toArray<T>(value: T[] | Record<number, T> | undefined | null): T[] {
+  if (!value) return [];
+  return Array.isArray(value) ? Array.from(value) : Object.values(value);
+}
+
+function buildDimensionTag(tag: SageTransactionDimensionTag, field: string): SageTransactionDimensionTag {
+  return {
+    Id: toText(tag.Id, `${field}.Id`),
+    ...(tag.Percentage !== undefined ? { Percentage: toNumber(tag.Percentage, `${field}.Percentage`) } : {}),
+  };
+}
+
+function buildDimension(dimension: SageTransactionDimension, field: string): SageTransactionDimension {
+  return {
+    Dimension: {
+      Id: toText(dimension.Dimension?.Id, `${field}.Dimension.Id`),
+      ...(dimension.Dimension?.AllocationType
+        ? { AllocationType: toText(dimension.Dimension.AllocationType, `${field}.Dimension.AllocationType`) }
+        : {}),
+    },
+    DimensionTags: toArray(dimension.DimensionTags).map((tag, i) =>
+      buildDimensionTag(tag, `${field}.DimensionTags[${i}]`)
+    ),
+  };
+}
+
+function buildItem(item: SageTransactionItem, field: string): SageTransactionItem {
+  if (item.TreatAs !== 'Debit' && item.TreatAs !== 'Credit') {
+    throw new Error(`${field}.TreatAs must be Debit or Credit`);
+  }
+
+  return {
+    Order: toNumber(item.Order, `${field}.Order`),
+    Date: toText(item.Date, `${field}.Date`),
+    AmountType: toText(item.AmountType, `${field}.AmountType`),
+    Amount: toNumber(item.Amount, `${field}.Amount`),
+    TreatAs: item.TreatAs,
+    ...(item.LedgerAccount?.Id ? { LedgerAccount: { Id: toText(item.LedgerAccount.Id, `${field}.LedgerAccount.Id`) } } : {}),
+    ...(item.TaxRate?.Id ? { TaxRate: { Id: toText(item.TaxRate.Id, `${field}.TaxRate.Id`) } } : {}),
+    ...(item.TaxAmount !== undefined ? { TaxAmount: toNumber(item.TaxAmount, `${field}.TaxAmount`) } : {}),
+    ...(item.BaseAmount !== undefined ? { BaseAmount: toNumber(item.BaseAmount, `${field}.BaseAmount`) } : {}),
+    Dimensions: toArray(item.Dimensions).map((d, i) => buildDimension(d, `${field}.Dimensions[${i}]`)),
+  };
+}
+
+/**
+ * A clean copy of the request holding only the fields Sage accepts, in a
+ * fixed order, with every collection as an array. Throws on values that
+ * can't be posted (non-numeric amounts, unknown TreatAs).
+ */
+export function buildJournalPayload(request: SageTransactionRequest): SageTransactionRequest {
+  return {
+    Date: toText(request.Date, 'Date'),
+    Reference: toText(request.Reference, 'Reference'),
+    BankAccount: { Id: toText(request.BankAccount?.Id, 'BankAccount.Id') },
+    Draft: !!request.Draft,
+    ...(request.Currency?.Code
+      ? {
+          Currency: {
+            Code: toText(request.Currency.Code, 'Currency.Code'),
+            ExchangeRate: toNumber(request.Currency.ExchangeRate, 'Currency.ExchangeRate'),
+          },
+        }
+      : {}),
+    Items: toArray(request.Items).map((item, i) => buildItem(item, `Items[${i}]`)),
+  };
+}
+
+/**
+ * The body for correcting a posted journal: only the fields being changed
+ */
+export function buildJournalUpdatePayload(changes: SageJournalUpdateRequest): SageJournalUpdateRequest {
+  return {
+    ...(changes.Date !== undefined ? { Date: toText(changes.Date, 'Date') } : {}),
+    ...(changes.Reference !== undefined ? { Reference: toText(changes.Reference, 'Reference') } : {}),
+    ...(changes.Amount !== undefined ? { Amount: toNumber(changes.Amount, 'Amount') } : {}),
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * Category → Ledger Account Mapping
+ *
+ * Resolves the CSV category on each row to the ledger account its journal item
+ * posts to, using the tenant's mapping table from Admin.
+ * Features:
+ * - Case- and whitespace-insensitive category matching
+ * - A '*' mapping catches any category without its own entry
+ * - Rows with no match post without a ledger account (the journal type default)
+ */
+
+import { BankTransaction, CategoryLedgerMapping, ParsedCsvTransaction } from '@/types/sage';
+
+export const FALLBACK_CATEGORY = '*';
+
+// What importers put on rows whose file has no category
+export const UNCATEGORIZED = 'Uncategorized';
+
+export function normaliseCategory(category: string | undefined): string {
+  return (category || '').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export function isUncategorized(category: string | undefined): boolean {
+  const key = normaliseCategory(category);
+  return !key || key === normaliseCategory(UNCATEGORIZED);
+}
+
+/**
+ * The mapping that applies to a category, falling back to the '*' entry
+ */
+export function findLedgerMapping(
+  mappings: CategoryLedgerMapping[],
+  category: string | undefined
+): CategoryLedgerMapping | undefined {
+  const key = normaliseCategory(category);
+  return (key ? mappings.find(m => normaliseCategory(m.category) === key) : undefined)
+    || mappings.find(m => m.category === FALLBACK_CATEGORY);
+}
+
+/**
+ * Sets ledgerAccountId on each row, and each split line, from its category.
+ * A row or line whose categorisation rule chose an account keeps it.
+ */
+export function applyLedgerMappings(
+  transactions: ParsedCsvTransaction[],
+  mappings: CategoryLedgerMapping[]
+): ParsedCsvTransaction[] {
+  return transactions.map(tx => ({
+    ...tx,
+    ledgerAccountId: (tx.categorisationRuleId && tx.ledgerAccountId)
+      || findLedgerMapping(mappings, tx.category)?.ledgerAccountId,
+    ...(tx.splits
+      ? {
+          splits: tx.splits.map(split => ({
+            ...split,
+            ledgerAccountId: (tx.categorisationRuleId && split.ledgerAccountId)
+              || findLedgerMapping(mappings, split.category)?.ledgerAccountId,
+          })),
+        }
+      : {}),
+  }));
+}
+
+/**
+ * Distinct categories seen on a tenant's transactions, for seeding the mapping table
+ */
+export function getKnownCategories(transactions: Pick<BankTransaction, 'category'>[]): string[] {
+  const seen = new Map<string, string>();
+  for (const tx of transactions) {
+    const key = normaliseCategory(tx.category);
+    if (!isUncategorized(tx.category) && !seen.has(key)) {
+      seen.set(key, tx.category.trim());
+    }
+  }
+  return Array.from(seen.values()).sort((a, b) => a.localeCompare(b));
+}
@@ -32,6 +32,8 @@ export interface ApiLogEntry {
   tenantId: string | null;
   featureArea: string;
   error?: string;
+  /** Attempt number when the call was part of a 202 async-completion sequence */
+  asyncAttempt?: number;
 }
 
 export interface LogFilter {
@@ -0,0 +1,216 @@
+/**
+ * Bank Reconciliation
+ *
+ * Matches the lines on a bank statement to the account's journals in Sage and
+ * works out what is left to explain between the statement and Sage balances.
+ * Features:
+ * - One-to-one matching on type and amount within a few days, best score first
+ *   (same date, same reference, similar description)
+ * - Manual matches and entries created from a line are kept when matching re-runs
+ * - The difference accounts for lines missing from Sage, journals missing from
+ *   the statement, and journals dated after the statement ends
+ */
+
+import { ParsedCsvTransaction } from '@/types/sage';
+import type { SageJournalEntry } from '@/services/bankService';
+import { DuplicateCandidate, descriptionSimilarity, fromJournalEntry } from './import/duplicates';
+import { StatementBalances, getNetMovement } from './import/statement';
+
+export const RECONCILE_DATE_TOLERANCE_DAYS = 5;
+
+export type ReconciliationMatchMethod = 'auto' | 'manual' | 'created';
+
+export interface ReconciliationMatch {
+  rowIndex: number;
+  journalId: string;
+  method: ReconciliationMatchMethod;
+  /** 0–1, for automatic matches */
+  score?: number;
+}
+
+export interface ReconciliationSummary {
+  statementStart: string;
+  statementEnd: string;
+  closingBalance: number;
+  /** Sage balance less unmatched journals dated after the statement ends */
+  sageBalance: number;
+  /** Net of statement lines with no journal in Sage */
+  unmatchedLinesTotal: number;
+  /** Net of journals in the statement period that aren't on the statement */
+  unmatchedJournalsTotal: number;
+  /** What the unmatched items don't explain; zero when reconciled */
+  difference: number;
+  matchedCount: number;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function sameAmount(a: number, b: number): boolean {
+  return Math.round(a * 100) === Math.round(b * 100);
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.abs(Date.parse(a) - Date.parse(b)) / 86_400_000;
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * 86_400_000).toISOString().split('T')[0];
+}
+
+/**
+ * Journals that can be matched to statement lines: completed ones only, and
+ * not the opening balance, which the statement's opening balance already covers
+ */
+export function toReconciliationCandidates(
+  journals: SageJournalEntry[],
+  openingBalanceJournalTypeId?: string
+): DuplicateCandidate[] {
+  return journals
+    .filter(j => j.Status === 'Completed')
+    .filter(j => !openingBalanceJournalTypeId || j.JournalType.Id !== openingBalanceJournalTypeId)
+    .map(fromJournalEntry);
+}
+
+/**
+ * How well a journal fits a statement line, or null when it can't be the same entry
+ */
+export function scoreReconciliationMatch(line: ParsedCsvTransaction, journal: DuplicateCandidate): number | null {
+  if (line.type !== journal.type || !sameAmount(line.amount, journal.amount)) return null;
+
+  const days = daysBetween(line.date, journal.date);
+  if (isNaN(days) || days > RECONCILE_DATE_TOLERANCE_DAYS) return null;
+
+  // Bank and ledger references often differ, so a mismatch only scores lower
+  let score = 0.5 - (days / RECONCILE_DATE_TOLERANCE_DAYS) * 0.2;
+  const lineRef = line.reference.trim().toLowerCase();
+  const journalRef = journal.reference.trim().toLowerCase();
+  if (lineRef && journalRef && lineRef === journalRef) score += 0.3;
+  if (line.description && journal.description) {
+    score += descriptionSimilarity(line.description, journal.description) * 0.2;
+  }
+
+  return Math.min(1, round(score));
+}
+
+/**
+ * Matches lines to journals, keeping manual and created matches and
+ * re-doing automatic ones
+ */
+export function autoMatch(
+  lines: ParsedCsvTransaction[],
+  journals: DuplicateCandidate[],
+  existing: ReconciliationMatch[] = []
+): ReconciliationMatch[] {
+  const kept = existing.filter(m => m.method !== 'auto');
+  const usedRows = new Set(kept.map(m => m.rowIndex));
+  const usedJournals = new Set(kept.map(m => m.journalId));
+
+  const pairs: ReconciliationMatch[] = [];
+  for (const line of lines) {
+    if (usedRows.has(line.rowIndex) || line.validationErrors?.length) continue;
+    for (const journal of journals) {
+      if (usedJournals.has(journal.id)) continue;
+      const score = scoreReconciliationMatch(line, journal);
+      if (score !== null) pairs.push({ rowIndex: line.rowIndex, journalId: journal.id, method: 'auto', score });
+    }
+  }
+
+  pairs.sort((a, b) => b.score! - a.score!);
+
+  const matches = [...kept];
+  for (const pair of pairs) {
+    if (usedRows.has(pair.rowIndex) || usedJournals.has(pair.journalId)) continue;
+    matches.push(pair);
+    usedRows.add(pair.rowIndex);
+    usedJournals.add(pair.journalId);
+  }
+
+  return matches;
+}
+
+/**
+ * Unmatched journals a line could be matched to by hand: same type, closest date first
+ */
+export function getManualMatchOptions(
+  line: ParsedCsvTransaction,
+  journals: DuplicateCandidate[],
+  matches: ReconciliationMatch[]
+): DuplicateCandidate[] {
+  const used = new Set(matches.map(m => m.journalId));
+  return journals
+    .filter(j => !used.has(j.id) && j.type === line.type)
+    .sort((a, b) => daysBetween(line.date, a.date) - daysBetween(line.date, b.date));
+}
+
+/**
+ * The statement period: its balance dates when it has them, otherwise the line dates
+ */
+export function getStatementPeriod(
+  lines: ParsedCsvTransaction[],
+  balances?: StatementBalances | null
+): { startDate: string; endDate: string } | null {
+  const dates = lines.map(l => l.date).filter(d => !isNaN(Date.parse(d))).sort();
+  const startDate = balances?.opening?.date || dates[0];
+  const endDate = balances?.closing?.date || dates[dates.length - 1];
+  return startDate && endDate ? { startDate, endDate } : null;
+}
+
+/**
+ * Dates to fetch journals for: from just before the statement starts, so early
+ * postings can match, through to today (or later), for the balance
+ */
+export function getReconciliationSearchRange(
+  period: { startDate: string; endDate: string },
+  today = new Date().toISOString().split('T')[0]
+): { startDate: string; endDate: string } {
+  const paddedEnd = addDays(period.endDate, RECONCILE_DATE_TOLERANCE_DAYS);
+  return {
+    startDate: addDays(period.startDate, -RECONCILE_DATE_TOLERANCE_DAYS),
+    endDate: paddedEnd > today ? paddedEnd : today,
+  };
+}
+
+const signed = (c: Pick<DuplicateCandidate, 'type' | 'amount'>) => (c.type === 'receipt' ? c.amount : -c.amount);
+
+/**
+ * Sets the statement's closing balance against Sage. `accountBalance` is the
+ * account's current balance in Sage, so `journals` should run from the start of
+ * the statement to today to take back everything posted since it ended.
+ */
+export function summariseReconciliation(
+  lines: ParsedCsvTransaction[],
+  journals: DuplicateCandidate[],
+  matches: ReconciliationMatch[],
+  period: { startDate: string; endDate: string },
+  closingBalance: number,
+  accountBalance: number
+): ReconciliationSummary {
+  const matchedRows = new Set(matches.map(m => m.rowIndex));
+  const matchedJournals = new Set(matches.map(m => m.journalId));
+
+  const unmatchedLinesTotal = getNetMovement(lines.filter(l => !matchedRows.has(l.rowIndex)));
+  const unmatchedJournalsTotal = round(
+    journals
+      .filter(j => !matchedJournals.has(j.id) && j.date >= period.startDate && j.date <= period.endDate)
+      .reduce((sum, j) => sum + signed(j), 0)
+  );
+  const afterEnd = round(
+    journals
+      .filter(j => !matchedJournals.has(j.id) && j.date > period.endDate)
+      .reduce((sum, j) => sum + signed(j), 0)
+  );
+  const sageBalance = round(accountBalance - afterEnd);
+
+  return {
+    statementStart: period.startDate,
+    statementEnd: period.endDate,
+    closingBalance: round(closingBalance),
+    sageBalance,
+    unmatchedLinesTotal,
+    unmatchedJournalsTotal,
+    difference: round(closingBalance - sageBalance - unmatchedLinesTotal + unmatchedJournalsTotal),
+    matchedCount: matches.length,
+  };
+}
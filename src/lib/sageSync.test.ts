@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { BankAccount, BankTransaction, FinancialYear, Tenant } from '@/types/sage';
+import type { SageJournalEntry } from '@/services/bankService';
+import { SyncRecords, diffSageSnapshot, mergeSyncChanges } from './sageSync';
+
+const tenant: Tenant = { id: 't1', name: 'Acme', businessName: 'Acme Ltd', createdAt: '2024-01-01', status: 'active' };
+
+const account: BankAccount = {
+  id: 'a1',
+  tenantId: 't1',
+  name: 'Current',
+  accountNumber: '12345678',
+  sortCode: '12-34-56',
+  currencyISO: 'GBP',
+  accountType: 'Current',
+  balance: 100,
+  createdAt: '2024-01-01',
+};
+
+const year: FinancialYear = { id: 'y1', tenantId: 't1', startDate: '2024-01-01', endDate: '2024-12-31', periodType: 'Monthly', status: 'open' };
+
+const transaction: BankTransaction = {
+  id: 'tx1',
+  tenantId: 't1',
+  bankAccountId: 'a1',
+  type: 'payment',
+  date: '2024-03-01',
+  description: 'Office rent',
+  reference: 'RENT',
+  amount: 50,
+  category: 'Rent',
+  journalId: 'j1',
+};
+
+function journal(id: string, overrides: Partial<SageJournalEntry> = {}): SageJournalEntry {
+  return {
+    Id: id,
+    JournalType: { Id: 'payment-type', Code: 'BP' },
+    Date: '2024-03-01T00:00:00',
+    Reference: 'RENT',
+    Status: 'Completed',
+    TreatAs: 'Credit',
+    TotalAmount: { Base: 50, Currency: 50 },
+    BankAccount: { Id: 'a1', Name: 'Current' },
+    Currency: { Code: 'GBP', ExchangeRate: 1 },
+    TransactionNumber: '1',
+    ...overrides,
+  };
+}
+
+const base: SyncRecords = { tenants: [tenant], bankAccounts: [account], financialYears: [year], transactions: [transaction] };
+
+const snapshot = (journals: SageJournalEntry[], bankAccounts: BankAccount[] = [account]) => ({
+  tenantId: 't1',
+  bankAccounts,
+  financialYears: [year],
+  journals: { a1: journals },
+  journalRange: { startDate: '2024-01-01', endDate: '2024-12-31' },
+});
+
+describe('diffSageSnapshot', () => {
+  it('leaves out opening balance journals when no journal code is configured', () => {
+    const openingBalance = journal('ob1', { JournalType: { Id: 'some-other-id', Code: 'BOB' }, Reference: 'BankOpeningBalance' });
+    const defaultType = journal('ob2', { JournalType: { Id: '759b6bdc-7200-09bc-e93b-9284bd95a344', Code: 'X' } });
+
+    const changes = diffSageSnapshot(base, snapshot([journal('j1'), openingBalance, defaultType]));
+
+    expect(changes).toEqual([]);
+  });
+
+  it('leaves out journals of the configured opening balance type', () => {
+    const openingBalance = journal('ob1', { JournalType: { Id: 'ob-type', Code: 'OB' } });
+
+    expect(diffSageSnapshot(base, snapshot([journal('j1'), openingBalance]), 'ob-type')).toEqual([]);
+  });
+});
+
+describe('mergeSyncChanges', () => {
+  it('keeps a transaction edited in the app while the sync ran', () => {
+    const changes = diffSageSnapshot(base, snapshot([journal('j1', { Reference: 'RENT-MAR' })]));
+    const voided = { ...transaction, voidedAt: '2024-03-02T10:00:00Z' };
+
+    const merged = mergeSyncChanges('transactions', [voided], changes, base.transactions);
+
+    expect(merged).toEqual([voided]);
+  });
+
+  it('applies changes to records untouched since the sync started', () => {
+    const changes = diffSageSnapshot(base, snapshot([journal('j1', { Reference: 'RENT-MAR' })]));
+
+    const merged = mergeSyncChanges('transactions', base.transactions, changes, base.transactions);
+
+    expect(merged[0].reference).toBe('RENT-MAR');
+    expect(merged[0].description).toBe('Office rent');
+  });
+
+  it("doesn't add a journal uploaded while the sync ran a second time", () => {
+    const changes = diffSageSnapshot(base, snapshot([journal('j1'), journal('j2', { Reference: 'NEW' })]));
+    const uploaded = { ...transaction, id: 'tx2', reference: 'NEW', journalId: 'j2' };
+
+    const merged = mergeSyncChanges('transactions', [transaction, uploaded], changes, base.transactions);
+
+    expect(merged.map(t => t.id)).toEqual(['tx1', 'tx2']);
+  });
+
+  it('adds journals posted outside the app', () => {
+    const changes = diffSageSnapshot(base, snapshot([journal('j1'), journal('j2', { Reference: 'NEW' })]));
+
+    const merged = mergeSyncChanges('transactions', base.transactions, changes, base.transactions);
+
+    expect(merged.map(t => t.journalId)).toEqual(['j1', 'j2']);
+  });
+
+  it("removes a bank account's transactions with it, including ones added since", () => {
+    const changes = diffSageSnapshot(base, snapshot([], []));
+    const removals = changes.filter(c => c.kind === 'removed');
+    const added = { ...transaction, id: 'tx2', journalId: 'j2' };
+
+    expect(removals.map(c => c.entity)).toEqual(['bankAccount']);
+    expect(mergeSyncChanges('bankAccounts', base.bankAccounts, removals)).toEqual([]);
+    expect(mergeSyncChanges('transactions', [transaction, added], removals)).toEqual([]);
+  });
+
+  it('leaves removals out when only the other changes are applied', () => {
+    const changes = diffSageSnapshot(base, snapshot([]));
+    const applied = changes.filter(c => c.kind !== 'removed');
+
+    expect(changes.map(c => c.kind)).toEqual(['removed']);
+    expect(mergeSyncChanges('transactions', base.transactions, applied, base.transactions)).toEqual([transaction]);
+  });
+});
@@ -0,0 +1,481 @@
+/**
+ * Sage Sync
+ *
+ * Brings the app's copy of tenants, bank accounts, financial years and posted
+ * transactions into line with what Sage holds, listing every record added,
+ * removed or changed along the way.
+ * Features:
+ * - Only what was fetched is synced; anything that failed to load is left alone
+ * - Changes are applied to the app's latest records, so anything uploaded,
+ *   edited, voided or approved while a sync runs is kept
+ * - Records Sage no longer has are only removed once the user confirms;
+ *   removing a tenant or bank account removes the records that belong to it
+ * - Transactions are matched by Sage journal Id; ones posted before Ids were
+ *   recorded can't be matched and are kept as they are
+ * - Journals posted outside this app are added with the reference as description
+ * - Opening balance journals are left out, even without a journal code configured
+ */
+
+import { BankAccount, BankTransaction, FinancialYear, JournalAuditChange, Tenant } from '@/types/sage';
+import type { SageJournalEntry } from '@/services/bankService';
+import { formatCurrency, isBaseCurrency } from './currency';
+
+// Sage's bank opening balance journal type, for when none is configured
+const DEFAULT_OPENING_BALANCE_JOURNAL_TYPE_ID = '759b6bdc-7200-09bc-e93b-9284bd95a344';
+const OPENING_BALANCE_JOURNAL_CODE = 'BOB';
+
+export type SyncEntity = 'tenant' | 'bankAccount' | 'financialYear' | 'transaction';
+
+export type SyncRecord = Tenant | BankAccount | FinancialYear | BankTransaction;
+
+export interface SyncChange {
+  entity: SyncEntity;
+  kind: 'added' | 'removed' | 'changed';
+  id: string;
+  tenantId: string;
+  label: string;
+  /** Each field that changed, for changed records */
+  fields: JournalAuditChange[];
+  /** The record as synced, for added and changed records */
+  record?: SyncRecord;
+}
+
+export interface SyncRecords {
+  tenants: Tenant[];
+  bankAccounts: BankAccount[];
+  financialYears: FinancialYear[];
+  transactions: BankTransaction[];
+}
+
+/**
+ * What was fetched from Sage. Parts left undefined weren't fetched (or failed)
+ * and aren't synced.
+ */
+export interface SageSnapshot {
+  tenants?: Tenant[];
+  /** The tenant the remaining parts belong to */
+  tenantId?: string;
+  bankAccounts?: BankAccount[];
+  financialYears?: FinancialYear[];
+  /** Journals per bank account Id, for the accounts that loaded */
+  journals?: Record<string, SageJournalEntry[]>;
+  /** Dates the journals were fetched for; local transactions outside it are kept */
+  journalRange?: { startDate: string; endDate: string };
+}
+
+export interface SyncReport {
+  syncedAt: string;
+  tenantId: string | null;
+  /** What was applied */
+  changes: SyncChange[];
+  /** Records Sage no longer has, kept until the user confirms removing them */
+  pendingRemovals: SyncChange[];
+  /** What couldn't be fetched, and so wasn't synced */
+  errors: string[];
+}
+
+export const SYNC_ENTITY_LABELS: Record<SyncEntity, string> = {
+  tenant: 'Tenant',
+  bankAccount: 'Bank account',
+  financialYear: 'Financial year',
+  transaction: 'Transaction',
+};
+
+const TENANT_FIELDS: Partial<Record<keyof Tenant, string>> = {
+  name: 'Name',
+  businessName: 'Business name',
+  status: 'Status',
+};
+
+const BANK_ACCOUNT_FIELDS: Partial<Record<keyof BankAccount, string>> = {
+  name: 'Name',
+  accountNumber: 'Account number',
+  sortCode: 'Sort code',
+  currencyISO: 'Currency',
+  accountType: 'Type',
+  balance: 'Balance',
+};
+
+const FINANCIAL_YEAR_FIELDS: Partial<Record<keyof FinancialYear, string>> = {
+  id: 'Id',
+  startDate: 'Start date',
+  endDate: 'End date',
+  periodType: 'Period type',
+  status: 'Status',
+};
+
+type TransactionFields = { date: string; reference: string; amount: number; status: string };
+
+const TRANSACTION_FIELDS: Record<keyof TransactionFields, string> = {
+  date: 'Date',
+  reference: 'Reference',
+  amount: 'Amount',
+  status: 'Status',
+};
+
+function toText(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'number' ? value.toFixed(2) : String(value).trim();
+}
+
+function diffFields<T>(before: T, after: T, fields: Partial<Record<keyof T, string>>): JournalAuditChange[] {
+  return (Object.keys(fields) as (keyof T)[])
+    .filter(field => toText(before[field]) !== toText(after[field]))
+    .map(field => ({ field: fields[field]!, from: toText(before[field]), to: toText(after[field]) }));
+}
+
+const yearLabel = (year: FinancialYear) => `${year.startDate} to ${year.endDate}`;
+
+const transactionLabel = (tx: Pick<BankTransaction, 'reference' | 'date' | 'amount' | 'currency'>) =>
+  `${tx.reference || 'No reference'}, ${tx.date}, ${formatCurrency(tx.amount, tx.currency)}`;
+
+function localStatus(tx: BankTransaction): string {
+  if (tx.voidedAt) return 'Void';
+  return tx.draft ? 'Draft' : 'Completed';
+}
+
+/**
+ * The app's copy of a journal, keeping what only the app knows (description,
+ * category, how it was posted) from the existing copy when there is one
+ */
+export function fromSageJournal(journal: SageJournalEntry, tenantId: string, existing?: BankTransaction, syncedAt = new Date().toISOString()): BankTransaction {
+  const foreign = journal.Currency?.Code && !isBaseCurrency(journal.Currency.Code);
+  const amount = journal.TotalAmount.Currency ?? journal.TotalAmount.Base;
+  const reference = journal.Reference || '';
+  const status = journal.Status.toLowerCase();
+
+  const tx: BankTransaction = {
+    id: existing?.id || journal.Id,
+    tenantId,
+    bankAccountId: journal.BankAccount.Id,
+    type: journal.TreatAs === 'Debit' ? 'receipt' : 'payment',
+    date: journal.Date.slice(0, 10),
+    description: existing?.description ?? reference,
+    reference,
+    amount,
+    category: existing?.category || 'Uncategorized',
+    journalId: journal.Id,
+    ...(existing?.idempotencyKey ? { idempotencyKey: existing.idempotencyKey } : {}),
+    ...(existing?.journalItems ? { journalItems: existing.journalItems } : {}),
+    ...(existing?.taxed ? { taxed: true } : {}),
+    ...(foreign ? { currency: journal.Currency.Code, baseAmount: journal.TotalAmount.Base } : {}),
+  };
+  if (status === 'void') tx.voidedAt = existing?.voidedAt || syncedAt;
+  if (status === 'draft') tx.draft = true;
+  return tx;
+}
+
+function syncTenants(records: SyncRecords, remote: Tenant[], changes: SyncChange[]): SyncRecords {
+  const remoteById = new Map(remote.map(t => [t.id, t]));
+  const localIds = new Set(records.tenants.map(t => t.id));
+
+  const removedIds = new Set(records.tenants.filter(t => !remoteById.has(t.id)).map(t => t.id));
+  const tenants: Tenant[] = [];
+
+  for (const local of records.tenants) {
+    const match = remoteById.get(local.id);
+    if (!match) {
+      changes.push({ entity: 'tenant', kind: 'removed', id: local.id, tenantId: local.id, label: local.businessName, fields: [] });
+      continue;
+    }
+    const synced: Tenant = {
+      ...local,
+      name: match.name || local.name,
+      businessName: match.businessName || local.businessName,
+      status: match.status || local.status,
+    };
+    const fields = diffFields(local, synced, TENANT_FIELDS);
+    if (fields.length > 0) {
+      changes.push({ entity: 'tenant', kind: 'changed', id: local.id, tenantId: local.id, label: synced.businessName, fields, record: synced });
+    }
+    tenants.push(synced);
+  }
+
+  for (const tenant of remote.filter(t => !localIds.has(t.id))) {
+    const added: Tenant = {
+      id: tenant.id,
+      name: tenant.name,
+      businessName: tenant.businessName,
+      createdAt: tenant.createdAt || new Date().toISOString(),
+      status: tenant.status || 'active',
+    };
+    changes.push({ entity: 'tenant', kind: 'added', id: tenant.id, tenantId: tenant.id, label: tenant.businessName, fields: [], record: added });
+    tenants.push(added);
+  }
+
+  // A tenant's records go with it
+  return {
+    tenants,
+    bankAccounts: records.bankAccounts.filter(a => !removedIds.has(a.tenantId)),
+    financialYears: records.financialYears.filter(y => !removedIds.has(y.tenantId)),
+    transactions: records.transactions.filter(t => !removedIds.has(t.tenantId)),
+  };
+}
+
+function syncBankAccounts(records: SyncRecords, tenantId: string, remote: BankAccount[], changes: SyncChange[]): SyncRecords {
+  const local = records.bankAccounts.filter(a => a.tenantId === tenantId);
+  const remoteById = new Map(remote.map(a => [a.id, a]));
+  const localIds = new Set(local.map(a => a.id));
+  const accounts: BankAccount[] = [];
+
+  for (const account of local) {
+    const match = remoteById.get(account.id);
+    if (!match) {
+      const count = records.transactions.filter(t => t.bankAccountId === account.id).length;
+      changes.push({
+        entity: 'bankAccount',
+        kind: 'removed',
+        id: account.id,
+        tenantId,
+        label: count > 0 ? `${account.name} (and ${count} transaction${count !== 1 ? 's' : ''})` : account.name,
+        fields: [],
+      });
+      continue;
+    }
+    const synced = { ...account, ...match, tenantId, createdAt: account.createdAt };
+    const fields = diffFields(account, synced, BANK_ACCOUNT_FIELDS);
+    if (fields.length > 0) {
+      changes.push({ entity: 'bankAccount', kind: 'changed', id: account.id, tenantId, label: synced.name, fields, record: synced });
+    }
+    accounts.push(synced);
+  }
+
+  for (const account of remote.filter(a => !localIds.has(a.id))) {
+    const added = { ...account, tenantId };
+    changes.push({ entity: 'bankAccount', kind: 'added', id: account.id, tenantId, label: account.name, fields: [], record: added });
+    accounts.push(added);
+  }
+
+  const accountIds = new Set(accounts.map(a => a.id));
+  return {
+    ...records,
+    bankAccounts: [...records.bankAccounts.filter(a => a.tenantId !== tenantId), ...accounts],
+    transactions: records.transactions.filter(t => t.tenantId !== tenantId || accountIds.has(t.bankAccountId)),
+  };
+}
+
+/**
+ * Years the app created keep a local Id, so they're matched on their dates
+ * when the Ids differ; the Sage Id is adopted from then on
+ */
+function syncFinancialYears(records: SyncRecords, tenantId: string, remote: FinancialYear[], changes: SyncChange[]): SyncRecords {
+  const local = records.financialYears.filter(y => y.tenantId === tenantId);
+  const unmatched = [...remote];
+  const years: FinancialYear[] = [];
+
+  const take = (year: FinancialYear) => {
+    const index = unmatched.findIndex(r => r.id === year.id);
+    const byDates = index >= 0 ? index : unmatched.findIndex(r => r.startDate === year.startDate && r.endDate === year.endDate);
+    return byDates >= 0 ? unmatched.splice(byDates, 1)[0] : undefined;
+  };
+
+  for (const year of local) {
+    const match = take(year);
+    if (!match) {
+      changes.push({ entity: 'financialYear', kind: 'removed', id: year.id, tenantId, label: yearLabel(year), fields: [] });
+      continue;
+    }
+    const synced: FinancialYear = {
+      id: match.id,
+      tenantId,
+      startDate: match.startDate,
+      endDate: match.endDate,
+      periodType: match.periodType || year.periodType,
+      status: match.status || year.status,
+    };
+    const fields = diffFields(year, synced, FINANCIAL_YEAR_FIELDS);
+    if (fields.length > 0) {
+      changes.push({ entity: 'financialYear', kind: 'changed', id: year.id, tenantId, label: yearLabel(synced), fields, record: synced });
+    }
+    years.push(synced);
+  }
+
+  for (const year of unmatched) {
+    const synced: FinancialYear = { ...year, tenantId, periodType: year.periodType || 'Monthly', status: year.status || 'open' };
+    changes.push({ entity: 'financialYear', kind: 'added', id: synced.id, tenantId, label: yearLabel(synced), fields: [], record: synced });
+    years.push(synced);
+  }
+
+  return {
+    ...records,
+    financialYears: [...records.financialYears.filter(y => y.tenantId !== tenantId), ...years],
+  };
+}
+
+function syncTransactions(
+  records: SyncRecords,
+  tenantId: string,
+  journals: Record<string, SageJournalEntry[]>,
+  range: { startDate: string; endDate: string },
+  openingBalanceJournalTypeId: string | undefined,
+  syncedAt: string,
+  changes: SyncChange[]
+): SyncRecords {
+  // Opening balances are held on the account, not as transactions
+  const openingBalanceTypeId = openingBalanceJournalTypeId || DEFAULT_OPENING_BALANCE_JOURNAL_TYPE_ID;
+  const remote = Object.values(journals)
+    .flat()
+    .filter(j => j.JournalType.Id !== openingBalanceTypeId && j.JournalType.Code !== OPENING_BALANCE_JOURNAL_CODE);
+  const remoteById = new Map(remote.map(j => [j.Id, j]));
+  const inScope = (tx: BankTransaction) =>
+    tx.tenantId === tenantId &&
+    !!tx.journalId &&
+    journals[tx.bankAccountId] !== undefined &&
+    tx.date >= range.startDate &&
+    tx.date <= range.endDate;
+
+  const seen = new Set<string>();
+  const transactions: BankTransaction[] = [];
+
+  for (const tx of records.transactions) {
+    if (!inScope(tx)) {
+      transactions.push(tx);
+      continue;
+    }
+    const journal = remoteById.get(tx.journalId!);
+    if (!journal) {
+      changes.push({ entity: 'transaction', kind: 'removed', id: tx.id, tenantId, label: transactionLabel(tx), fields: [] });
+      continue;
+    }
+    seen.add(journal.Id);
+    const synced = fromSageJournal(journal, tenantId, tx, syncedAt);
+    const fields = diffFields<TransactionFields>(
+      { date: tx.date, reference: tx.reference, amount: tx.amount, status: localStatus(tx) },
+      { date: synced.date, reference: synced.reference, amount: synced.amount, status: localStatus(synced) },
+      TRANSACTION_FIELDS
+    );
+    if (fields.length > 0) {
+      changes.push({ entity: 'transaction', kind: 'changed', id: tx.id, tenantId, label: transactionLabel(synced), fields, record: synced });
+    }
+    transactions.push(synced);
+  }
+
+  // A journal may already be held locally outside the fetched dates, if its date moved
+  const knownIds = new Set(records.transactions.map(t => t.journalId).filter(Boolean));
+  for (const journal of remote.filter(j => !seen.has(j.Id) && !knownIds.has(j.Id))) {
+    const tx = fromSageJournal(journal, tenantId, undefined, syncedAt);
+    changes.push({ entity: 'transaction', kind: 'added', id: tx.id, tenantId, label: transactionLabel(tx), fields: [], record: tx });
+    transactions.push(tx);
+  }
+
+  return { ...records, transactions };
+}
+
+/**
+ * What it takes to bring the app's records into line with a snapshot from
+ * Sage. Nothing is applied; see mergeSyncChanges.
+ */
+export function diffSageSnapshot(
+  local: SyncRecords,
+  snapshot: SageSnapshot,
+  openingBalanceJournalTypeId?: string,
+  syncedAt = new Date().toISOString()
+): SyncChange[] {
+  const changes: SyncChange[] = [];
+  let records = local;
+
+  if (snapshot.tenants) {
+    records = syncTenants(records, snapshot.tenants, changes);
+  }
+
+  const { tenantId } = snapshot;
+  // Nothing more to do for a tenant Sage no longer has
+  if (!tenantId || !records.tenants.some(t => t.id === tenantId)) {
+    return changes;
+  }
+
+  if (snapshot.bankAccounts) {
+    records = syncBankAccounts(records, tenantId, snapshot.bankAccounts, changes);
+  }
+  if (snapshot.financialYears) {
+    records = syncFinancialYears(records, tenantId, snapshot.financialYears, changes);
+  }
+  if (snapshot.journals && snapshot.journalRange) {
+    records = syncTransactions(
+      records,
+      tenantId,
+      snapshot.journals,
+      snapshot.journalRange,
+      openingBalanceJournalTypeId,
+      syncedAt,
+      changes
+    );
+  }
+
+  return changes;
+}
+
+const SLICE_ENTITIES: Record<keyof SyncRecords, SyncEntity> = {
+  tenants: 'tenant',
+  bankAccounts: 'bankAccount',
+  financialYears: 'financialYear',
+  transactions: 'transaction',
+};
+
+/**
+ * Applies a sync's changes to the app's latest copy of one kind of record.
+ * `base` is that kind of record as it was when the sync started: a record
+ * edited in the app since then keeps the app's version, and a journal
+ * recorded in the app since then isn't added a second time.
+ */
+export function mergeSyncChanges<K extends keyof SyncRecords>(
+  key: K,
+  latest: SyncRecords[K],
+  changes: SyncChange[],
+  base: SyncRecords[K] = [] as SyncRecords[K]
+): SyncRecords[K] {
+  const entity = SLICE_ENTITIES[key];
+  const removedIds = (kind: SyncEntity) =>
+    new Set(changes.filter(c => c.entity === kind && c.kind === 'removed').map(c => c.id));
+  const removedTenants = removedIds('tenant');
+  const removedAccounts = removedIds('bankAccount');
+  const removed = removedIds(entity);
+  const own = changes.filter(c => c.entity === entity && c.record);
+  const updates = new Map(own.filter(c => c.kind === 'changed').map(c => [c.id, c.record!]));
+  const baseById = new Map((base as SyncRecord[]).map(r => [r.id, r]));
+
+  // A tenant's or bank account's records go with it
+  const isRemoved = (record: SyncRecord) =>
+    removed.has(record.id) ||
+    ('tenantId' in record && removedTenants.has(record.tenantId)) ||
+    ('bankAccountId' in record && removedAccounts.has(record.bankAccountId));
+
+  const merged = (latest as SyncRecord[])
+    .filter(record => !isRemoved(record))
+    .map(record => {
+      const update = updates.get(record.id);
+      return update && record === baseById.get(record.id) ? update : record;
+    });
+
+  const ids = new Set(merged.map(r => r.id));
+  const journalIds = new Set(merged.map(r => ('journalId' in r ? r.journalId : undefined)).filter(Boolean));
+  for (const change of own.filter(c => c.kind === 'added')) {
+    const record = change.record!;
+    // e.g. a journal uploaded while the sync ran
+    if (ids.has(record.id) || ('journalId' in record && journalIds.has(record.journalId))) continue;
+    merged.push(record);
+  }
+
+  return merged as SyncRecords[K];
+}
+
+/**
+ * Dates covering every financial year, which is all Sage will hold journals for
+ */
+export function getJournalSyncRange(years: FinancialYear[]): { startDate: string; endDate: string } | null {
+  if (years.length === 0) return null;
+  return {
+    startDate: years.map(y => y.startDate).sort()[0],
+    endDate: years.map(y => y.endDate).sort()[years.length - 1],
+  };
+}
+
+/**
+ * e.g. "2 added, 1 changed"
+ */
+export function describeSyncChanges(changes: SyncChange[]): string {
+  const counts = (['added', 'removed', 'changed'] as const)
+    .map(kind => ({ kind, count: changes.filter(c => c.kind === kind).length }))
+    .filter(c => c.count > 0);
+  return counts.length > 0 ? counts.map(c => `${c.count} ${c.kind}`).join(', ') : 'No changes';
+}
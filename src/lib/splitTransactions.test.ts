@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { ParsedCsvTransaction } from '@/types/sage';
+import { combineSplitRows, startSplit } from './splitTransactions';
+import { countUnresolvedDimensions } from './dimensionTags';
+
+function row(rowIndex: number, overrides: Partial<ParsedCsvTransaction> = {}): ParsedCsvTransaction {
+  return {
+    rowIndex,
+    type: 'payment',
+    date: '2024-03-01',
+    description: 'Supplies',
+    reference: 'INV-1',
+    amount: 10,
+    category: 'Office',
+    dimensionSelections: {},
+    splitGroup: 'A',
+    ...overrides,
+  };
+}
+
+describe('combineSplitRows', () => {
+  it("keeps each row's file values that matched no tag on its split line", () => {
+    const [combined] = combineSplitRows([
+      row(1, { unresolvedDimensions: { DEPT: 'Marketting' } }),
+      row(2, { dimensionSelections: { DEPT: 'SALES' } }),
+    ]);
+
+    expect(combined.splits?.map(line => line.unresolvedDimensions)).toEqual([{ DEPT: 'Marketting' }, undefined]);
+    expect(countUnresolvedDimensions([combined])).toBe(1);
+  });
+
+  it('adds up the rows in a group', () => {
+    const [combined] = combineSplitRows([row(1), row(2, { amount: 5.5 })]);
+
+    expect(combined.amount).toBe(15.5);
+    expect(combined.splits).toHaveLength(2);
+  });
+});
+
+describe('startSplit', () => {
+  it("carries the row's unmatched values onto the first line", () => {
+    const [first] = startSplit(row(1, { splitGroup: undefined, unresolvedDimensions: { DEPT: 'Marketting' } }));
+
+    expect(first.unresolvedDimensions).toEqual({ DEPT: 'Marketting' });
+  });
+});
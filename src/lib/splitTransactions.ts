@@ -0,0 +1,128 @@
+/**
+ * Split Transactions
+ *
+ * One bank line posted as several journal items, each with its own amount,
+ * category (and so ledger account) and dimension tags.
+ * Features:
+ * - Rows sharing a split group in the file are combined into one transaction
+ * - Balance checks in pence, so items always add up to the bank line
+ * - Helpers for the split editor (start a split, share out the remainder)
+ */
+
+import { ParsedCsvTransaction, TransactionSplit } from '@/types/sage';
+
+function toPence(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+/**
+ * Sum of the split lines, rounded to the penny
+ */
+export function getSplitTotal(splits: TransactionSplit[]): number {
+  return splits.reduce((sum, s) => sum + toPence(s.amount || 0), 0) / 100;
+}
+
+/**
+ * Amount still to allocate (negative when the lines add up to too much)
+ */
+export function getSplitRemainder(total: number, splits: TransactionSplit[]): number {
+  return (toPence(total) - toPence(getSplitTotal(splits))) / 100;
+}
+
+export function isSplitBalanced(total: number, splits: TransactionSplit[]): boolean {
+  return toPence(total) === toPence(getSplitTotal(splits));
+}
+
+/**
+ * The lines a transaction posts as: its splits, or a single line for the whole amount
+ */
+export function getTransactionLines(tx: ParsedCsvTransaction): TransactionSplit[] {
+  if (tx.splits?.length) return tx.splits;
+  return [{
+    amount: tx.amount,
+    category: tx.category,
+    description: tx.description,
+    dimensionSelections: tx.dimensionSelections,
+    dimensionAllocations: tx.dimensionAllocations,
+    unresolvedDimensions: tx.unresolvedDimensions,
+    ledgerAccountId: tx.ledgerAccountId,
+    taxCode: tx.taxCode,
+    taxRateId: tx.taxRateId,
+    taxAmount: tx.taxAmount,
+    baseAmount: tx.baseAmount,
+  }];
+}
+
+/**
+ * Starting point for the split editor: the existing splits, or the row as its
+ * first line plus an empty second line
+ */
+export function startSplit(tx: ParsedCsvTransaction): TransactionSplit[] {
+  if (tx.splits?.length) return tx.splits.map(s => ({ ...s, dimensionSelections: { ...s.dimensionSelections } }));
+  return [
+    {
+      ...getTransactionLines(tx)[0],
+      dimensionSelections: { ...tx.dimensionSelections },
+      ...(tx.dimensionAllocations ? { dimensionAllocations: { ...tx.dimensionAllocations } } : {}),
+    },
+    { amount: 0, category: tx.category, dimensionSelections: {} },
+  ];
+}
+
+/**
+ * Combines rows that share a split group into one transaction whose amount is
+ * the sum of the rows. The first row supplies the date, type and reference;
+ * rows in a group that disagree on date or type make it invalid.
+ */
+export function combineSplitRows(rows: ParsedCsvTransaction[]): ParsedCsvTransaction[] {
+  const groups = new Map<string, ParsedCsvTransaction[]>();
+  const result: (ParsedCsvTransaction | string)[] = [];
+
+  for (const row of rows) {
+    const key = row.splitGroup?.trim();
+    if (!key) {
+      result.push(row);
+      continue;
+    }
+    if (!groups.has(key)) {
+      groups.set(key, []);
+      result.push(key);
+    }
+    groups.get(key)!.push(row);
+  }
+
+  return result.map(entry => {
+    if (typeof entry !== 'string') return entry;
+
+    const members = groups.get(entry)!;
+    if (members.length === 1) return members[0];
+
+    const [first] = members;
+    const errors = members.flatMap(m => (m.validationErrors || []).map(e => `Row ${m.rowIndex}: ${e}`));
+    if (members.some(m => m.date !== first.date)) {
+      errors.push(`Split "${entry}" has rows with different dates`);
+    }
+    if (members.some(m => m.type !== first.type)) {
+      errors.push(`Split "${entry}" mixes payments and receipts`);
+    }
+
+    const splits = members.map(m => ({
+      amount: m.amount,
+      category: m.category,
+      description: m.description,
+      dimensionSelections: { ...m.dimensionSelections },
+      dimensionAllocations: m.dimensionAllocations,
+      unresolvedDimensions: m.unresolvedDimensions,
+      taxCode: m.taxCode,
+    }));
+
+    return {
+      ...first,
+      description: first.description || members.find(m => m.description)?.description || '',
+      reference: first.reference || members.find(m => m.reference)?.reference || '',
+      amount: getSplitTotal(splits),
+      splits,
+      validationErrors: errors.length > 0 ? errors : undefined,
+    };
+  });
+}
@@ -15,6 +15,7 @@
 import { getTokenUrl, getOriginalTokenUrl } from './configManager';
 import { logApiCall } from './logger';
 import { maskStringSecrets } from './maskSecrets';
+import { sageFetch } from './emulator';
 
 export type TokenType = 'subscription' | 'tenant';
 
@@ -113,7 +114,7 @@ async function fetchToken(
   });
 
   try {
-    const response = await fetch(tokenUrl, {
+    const response = await sageFetch(tokenUrl, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
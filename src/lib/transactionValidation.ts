@@ -0,0 +1,258 @@
+/**
+ * Transaction Validation
+ *
+ * Dry-run checks for journal request bodies, so every problem in a file is
+ * reported before anything is posted.
+ * Features:
+ * - Dates must fall within an open financial year
+ * - Every item amount must be a positive figure in pence
+ * - Every required dimension needs a tag, or percentage shares totalling 100
+ * - Split lines must add up to the bank line
+ * - The journal types must be configured and the bank account must exist in Sage
+ * - Categories without a ledger account mapping are flagged once mapping is in use
+ * - Tax codes must match one of the tenant's tax rates, and VAT can't exceed the item
+ * - Foreign-currency rows need an exchange rate
+ *
+ * Errors block submission; warnings are shown but don't.
+ */
+
+import {
+  BankAccount,
+  FinancialYear,
+  ParsedCsvTransaction,
+  RequiredDimension,
+  SageTaxRate,
+  SageTransactionRequest,
+} from '@/types/sage';
+import { isValidIsoDate } from './import/csv';
+import { getSplitTotal, getTransactionLines, isSplitBalanced } from './splitTransactions';
+import { validateAllocation } from './dimensionAllocations';
+
+const GUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface TransactionValidationIssue {
+  /** CSV row the issue belongs to, or null for the whole upload */
+  rowIndex: number | null;
+  field: string;
+  message: string;
+  severity: ValidationSeverity;
+}
+
+export interface JournalTypeSetting {
+  id: string;
+  /** False when Admin has no value and the demo default is used */
+  configured: boolean;
+}
+
+export interface TransactionValidationContext {
+  bankAccountId: string;
+  requiredDimensions: RequiredDimension[];
+  journalTypes: Record<ParsedCsvTransaction['type'], JournalTypeSetting>;
+  /** Null when they couldn't be fetched from Sage */
+  financialYears: FinancialYear[] | null;
+  remoteBankAccounts: BankAccount[] | null;
+  /** The tenant has category → ledger account mappings set up */
+  categoryMappingsConfigured?: boolean;
+  /** Undefined when tax codes weren't checked, null when they couldn't be fetched */
+  taxRates?: SageTaxRate[] | null;
+}
+
+export interface TransactionRequestToValidate {
+  tx: ParsedCsvTransaction;
+  request: SageTransactionRequest;
+}
+
+export interface TransactionValidationReport {
+  checkedAt: string;
+  rowCount: number;
+  issues: TransactionValidationIssue[];
+  /** Rows with at least one error */
+  invalidRows: number[];
+}
+
+const JOURNAL_TYPE_LABELS: Record<ParsedCsvTransaction['type'], string> = {
+  payment: 'Bank payment',
+  receipt: 'Bank receipt',
+};
+
+/**
+ * The open financial year a date falls in, if any
+ */
+export function findOpenFinancialYear(date: string, years: FinancialYear[]): FinancialYear | undefined {
+  return years.find(y => y.status === 'open' && y.startDate <= date && date <= y.endDate);
+}
+
+function hasMoreThanTwoDecimals(amount: number): boolean {
+  return Math.abs(Math.round(amount * 100) - amount * 100) > 1e-6;
+}
+
+/**
+ * Checks that apply to the whole upload rather than a single row
+ */
+export function validateUploadContext(
+  context: TransactionValidationContext,
+  types: ParsedCsvTransaction['type'][]
+): TransactionValidationIssue[] {
+  const issues: TransactionValidationIssue[] = [];
+  const issue = (field: string, message: string, severity: ValidationSeverity = 'error') =>
+    issues.push({ rowIndex: null, field, message, severity });
+
+  if (!context.bankAccountId) {
+    issue('BankAccount', 'No bank account selected');
+  } else if (context.remoteBankAccounts === null) {
+    issue('BankAccount', "Couldn't load bank accounts from Sage to confirm the account exists", 'warning');
+  } else if (!context.remoteBankAccounts.some(a => a.id === context.bankAccountId)) {
+    issue('BankAccount', `Bank account ${context.bankAccountId} was not found in Sage for this tenant`);
+  }
+
+  for (const type of Array.from(new Set(types))) {
+    const journalType = context.journalTypes[type];
+    if (!journalType.id) {
+      issue('JournalType', `${JOURNAL_TYPE_LABELS[type]} journal type is not configured`);
+    } else if (!GUID_PATTERN.test(journalType.id)) {
+      issue('JournalType', `${JOURNAL_TYPE_LABELS[type]} journal type "${journalType.id}" is not a valid id`);
+    } else if (!journalType.configured) {
+      issue(
+        'JournalType',
+        `${JOURNAL_TYPE_LABELS[type]} journal type is not set in Admin Settings; the demo default will be used`,
+        'warning'
+      );
+    }
+  }
+
+  if (context.taxRates === null) {
+    issue('TaxRate', "Couldn't load tax rates from Sage to check tax codes", 'warning');
+  }
+
+  if (context.financialYears === null) {
+    issue('Date', "Couldn't load financial years from Sage to check posting dates", 'warning');
+  } else if (!context.financialYears.some(y => y.status === 'open')) {
+    issue('Date', 'This tenant has no open financial year, so no dates can be posted');
+  }
+
+  return issues;
+}
+
+/**
+ * Checks a single row's request body
+ */
+export function validateTransactionRequest(
+  { tx, request }: TransactionRequestToValidate,
+  context: TransactionValidationContext
+): TransactionValidationIssue[] {
+  const issues: TransactionValidationIssue[] = [];
+  const issue = (field: string, message: string, severity: ValidationSeverity = 'error') =>
+    issues.push({ rowIndex: tx.rowIndex, field, message, severity });
+
+  tx.validationErrors?.forEach(message => issue('Row', message));
+
+  if (!isValidIsoDate(request.Date)) {
+    issue('Date', `"${request.Date}" is not a valid date`);
+  } else if (context.financialYears?.some(y => y.status === 'open')) {
+    if (!findOpenFinancialYear(request.Date, context.financialYears)) {
+      const closed = context.financialYears.find(y => y.startDate <= request.Date && request.Date <= y.endDate);
+      issue(
+        'Date',
+        closed
+          ? `${request.Date} falls in the closed financial year ${closed.startDate} to ${closed.endDate}`
+          : `${request.Date} is not within an open financial year`
+      );
+    }
+  }
+
+  if (request.BankAccount.Id !== context.bankAccountId) {
+    issue('BankAccount', 'Request is not for the selected bank account');
+  }
+
+  if (tx.currency && !(tx.exchangeRate && tx.exchangeRate > 0)) {
+    issue('Currency', `No exchange rate is set for ${tx.currency}`);
+  }
+
+  if (context.categoryMappingsConfigured) {
+    const unmapped = getTransactionLines(tx).filter(line => line.category && !line.ledgerAccountId);
+    Array.from(new Set(unmapped.map(line => line.category))).forEach(category =>
+      issue('LedgerAccount', `No ledger account is mapped for category "${category}"`, 'warning')
+    );
+  }
+
+  if (context.taxRates) {
+    const unresolved = getTransactionLines(tx).filter(line => line.taxCode && !line.taxRateId);
+    Array.from(new Set(unresolved.map(line => line.taxCode))).forEach(code =>
+      issue('TaxRate', `Tax code "${code}" is not one of this tenant's tax rates`)
+    );
+  }
+
+  if (tx.splits?.length && !isSplitBalanced(tx.amount, tx.splits)) {
+    issue(
+      'Items',
+      `Split lines add up to ${getSplitTotal(tx.splits).toFixed(2)} but the bank line is ${tx.amount.toFixed(2)}`
+    );
+  }
+
+  if (request.Items.length === 0) {
+    issue('Items', 'Journal has no items');
+  }
+
+  request.Items.forEach((item, i) => {
+    const label = request.Items.length > 1 ? `Items[${i}]` : 'Amount';
+
+    if (!Number.isFinite(item.Amount) || item.Amount <= 0) {
+      issue(label, `Amount must be greater than zero (got ${item.Amount})`);
+    } else if (hasMoreThanTwoDecimals(item.Amount)) {
+      issue(label, `Amount ${item.Amount} has more than two decimal places`);
+    } else if (item.TaxAmount !== undefined && (item.TaxAmount < 0 || item.TaxAmount > item.Amount)) {
+      issue(label, `VAT of ${item.TaxAmount} is more than the amount ${item.Amount}`);
+    }
+
+    for (const dim of context.requiredDimensions) {
+      const dimension = item.Dimensions.find(d => d.Dimension.Id === dim.code);
+      if (!dimension || dimension.DimensionTags.length === 0) {
+        issue(dim.name, `${dim.name} tag not selected`);
+        continue;
+      }
+
+      if (dimension.DimensionTags.some(t => t.Percentage !== undefined)) {
+        validateAllocation(
+          dimension.DimensionTags.map(t => ({ tagCode: t.Id, percentage: t.Percentage ?? 0 }))
+        ).forEach(message => issue(dim.name, `${dim.name}: ${message}`));
+      }
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Validates every row plus the upload as a whole
+ */
+export function validateTransactionRequests(
+  entries: TransactionRequestToValidate[],
+  context: TransactionValidationContext
+): TransactionValidationReport {
+  const issues = [
+    ...validateUploadContext(context, entries.map(e => e.tx.type)),
+    ...entries.flatMap(entry => validateTransactionRequest(entry, context)),
+  ];
+
+  const invalidRows = Array.from(new Set(
+    issues
+      .filter(i => i.severity === 'error' && i.rowIndex !== null)
+      .map(i => i.rowIndex as number)
+  ));
+
+  return {
+    checkedAt: new Date().toISOString(),
+    rowCount: entries.length,
+    issues,
+    invalidRows,
+  };
+}
+
+/**
+ * Whether anything in the report should stop the upload
+ */
+export function hasBlockingIssues(report: TransactionValidationReport): boolean {
+  return report.issues.some(i => i.severity === 'error');
+}
@@ -0,0 +1,233 @@
+/**
+ * Upload Batch Store
+ *
+ * Persists transaction upload batches to IndexedDB so an upload survives a
+ * closed tab or refresh.
+ * Features:
+ * - One record per batch with every row, its status, Sage journal id,
+ *   idempotency key and last error
+ * - Rows are saved as they complete, so resuming only sends what's left
+ * - Failed rows can be retried; batches can be abandoned or removed
+ */
+
+import { CsvUploadResult, ParsedCsvTransaction, RequiredDimension } from '@/types/sage';
+import { generateIdempotencyKey } from './idempotency';
+import { describePostedJournal } from './journalCorrections';
+
+const DB_NAME = 'sage-demo-uploads';
+const STORE_NAME = 'batches';
+const DB_VERSION = 1;
+
+export type UploadRowStatus = 'pending' | 'success' | 'failed' | 'skipped';
+export type UploadBatchStatus = 'in-progress' | 'completed' | 'failed' | 'abandoned';
+
+export interface UploadBatchRow {
+  /** The row as submitted, including its idempotency key */
+  transaction: ParsedCsvTransaction;
+  status: UploadRowStatus;
+  journalId?: string;
+  httpStatus?: number;
+  lastError?: string;
+  attempts: number;
+  updatedAt?: string;
+}
+
+export interface UploadBatch {
+  id: string;
+  tenantId: string;
+  bankAccountId: string;
+  fileName: string;
+  createdAt: string;
+  updatedAt: string;
+  status: UploadBatchStatus;
+  idempotencySalt: string;
+  /** Dimensions at submit time, so resumed rows send the same payload */
+  requiredDimensions: RequiredDimension[];
+  /** Rows post as Sage drafts, to be finalised from the approval queue */
+  postAsDraft?: boolean;
+  rows: UploadBatchRow[];
+}
+
+export interface UploadBatchSummary {
+  total: number;
+  success: number;
+  failed: number;
+  pending: number;
+  skipped: number;
+}
+
+let db: IDBDatabase | null = null;
+
+/**
+ * Opens the IndexedDB database
+ */
+async function openDatabase(): Promise<IDBDatabase> {
+  if (db) return db;
+
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => {
+      reject(new Error('Failed to open IndexedDB'));
+    };
+
+    request.onsuccess = () => {
+      db = request.result;
+      resolve(db);
+    };
+
+    request.onupgradeneeded = (event) => {
+      const database = (event.target as IDBOpenDBRequest).result;
+
+      if (!database.objectStoreNames.contains(STORE_NAME)) {
+        const store = database.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('tenantId', 'tenantId', { unique: false });
+        store.createIndex('updatedAt', 'updatedAt', { unique: false });
+      }
+    };
+  });
+}
+
+/**
+ * Creates a new batch record (not yet saved). Skipped rows are kept for the record.
+ */
+export function createUploadBatch(
+  tenantId: string,
+  bankAccountId: string,
+  fileName: string,
+  transactions: ParsedCsvTransaction[],
+  requiredDimensions: RequiredDimension[],
+  idempotencySalt = '',
+  postAsDraft = false
+): UploadBatch {
+  const now = new Date().toISOString();
+
+  return {
+    id: generateIdempotencyKey(),
+    tenantId,
+    bankAccountId,
+    fileName,
+    createdAt: now,
+    updatedAt: now,
+    status: 'in-progress',
+    idempotencySalt,
+    requiredDimensions,
+    ...(postAsDraft ? { postAsDraft } : {}),
+    rows: transactions.map(transaction => ({
+      transaction,
+      status: transaction.duplicateAction === 'skip' ? 'skipped' : 'pending',
+      attempts: 0,
+    })),
+  };
+}
+
+/**
+ * Counts rows by status
+ */
+export function summariseUploadBatch(batch: UploadBatch): UploadBatchSummary {
+  const count = (status: UploadRowStatus) => batch.rows.filter(r => r.status === status).length;
+  return {
+    total: batch.rows.length,
+    success: count('success'),
+    failed: count('failed'),
+    pending: count('pending'),
+    skipped: count('skipped'),
+  };
+}
+
+/**
+ * Works out the batch status from its rows (abandoned batches stay abandoned)
+ */
+export function getUploadBatchStatus(batch: UploadBatch): UploadBatchStatus {
+  if (batch.status === 'abandoned') return 'abandoned';
+
+  const summary = summariseUploadBatch(batch);
+  if (summary.pending > 0) return 'in-progress';
+  return summary.failed > 0 ? 'failed' : 'completed';
+}
+
+/**
+ * Converts a finished row to the result shape shown after an upload
+ */
+export function toCsvUploadResult(row: UploadBatchRow, batch: UploadBatch): CsvUploadResult {
+  const tx = row.transaction;
+  return {
+    row: tx.rowIndex,
+    success: row.status === 'success',
+    status: row.httpStatus,
+    message: row.lastError,
+    idempotencyKey: tx.idempotencyKey,
+    ...(row.status === 'success'
+      ? {
+          data: {
+            id: row.journalId || '',
+            tenantId: batch.tenantId,
+            bankAccountId: batch.bankAccountId,
+            type: tx.type,
+            date: tx.date,
+            description: tx.description,
+            reference: tx.reference,
+            amount: tx.amount,
+            category: tx.category || 'Uncategorized',
+            journalId: row.journalId,
+            idempotencyKey: tx.idempotencyKey,
+            ...describePostedJournal(tx),
+            ...(batch.postAsDraft ? { draft: true } : {}),
+            ...(tx.currency ? { currency: tx.currency, baseAmount: tx.baseAmount } : {}),
+          },
+        }
+      : {}),
+  };
+}
+
+/**
+ * Saves (inserts or replaces) a batch
+ */
+export async function saveUploadBatch(batch: UploadBatch): Promise<void> {
+  const database = await openDatabase();
+  const transaction = database.transaction([STORE_NAME], 'readwrite');
+  transaction.objectStore(STORE_NAME).put({ ...batch, updatedAt: new Date().toISOString() });
+
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Gets a tenant's batches (latest first)
+ */
+export async function getUploadBatches(tenantId: string): Promise<UploadBatch[]> {
+  try {
+    const database = await openDatabase();
+    const transaction = database.transaction([STORE_NAME], 'readonly');
+    const index = transaction.objectStore(STORE_NAME).index('tenantId');
+
+    return new Promise((resolve, reject) => {
+      const request = index.getAll(tenantId);
+      request.onsuccess = () => {
+        const batches = request.result as UploadBatch[];
+        batches.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+        resolve(batches);
+      };
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.error('Failed to get upload batches:', error);
+    return [];
+  }
+}
+
+/**
+ * Deletes a batch record
+ */
+export async function deleteUploadBatch(id: string): Promise<void> {
+  const database = await openDatabase();
+  const transaction = database.transaction([STORE_NAME], 'readwrite');
+  transaction.objectStore(STORE_NAME).delete(id);
+
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
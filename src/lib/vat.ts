@@ -0,0 +1,126 @@
+/**
+ * VAT / Tax Codes
+ *
+ * Works out the VAT in each bank payment and receipt so journal items post
+ * with the right tax rate and Sage's VAT return picks them up.
+ * Features:
+ * - Tax code per row from the file, or the default set on the row's category
+ * - Codes matched to the tenant's tax rates ignoring case
+ * - Bank amounts are gross; VAT is the tax fraction of the gross, in pence
+ * - Rounding to the nearest penny or down, per HMRC's line-level rules
+ */
+
+import { CategoryLedgerMapping, ParsedCsvTransaction, SageTaxRate, TransactionSplit } from '@/types/sage';
+import { findLedgerMapping } from './ledgerMapping';
+
+export type VatRounding = 'nearest' | 'down';
+
+export const VAT_ROUNDING_OPTIONS: { value: VatRounding; label: string }[] = [
+  { value: 'nearest', label: 'Round to nearest penny' },
+  { value: 'down', label: 'Round down to the penny' },
+];
+
+export interface VatBreakdown {
+  gross: number;
+  net: number;
+  vat: number;
+}
+
+function toPence(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+// Float noise like 16.666...7 or 2.4999...9 is trimmed before rounding so it can't tip the penny
+function roundPence(exact: number, rounding: VatRounding): number {
+  const trimmed = Number(exact.toFixed(6));
+  return (rounding === 'down' ? Math.floor(trimmed) : Math.round(trimmed)) || 0;
+}
+
+function normaliseCode(code: string | undefined): string {
+  return (code || '').trim().toUpperCase();
+}
+
+/**
+ * The tenant's active tax rate for a code, if there is one
+ */
+export function findTaxRate(rates: SageTaxRate[], code: string | undefined): SageTaxRate | undefined {
+  const key = normaliseCode(code);
+  if (!key) return undefined;
+  return rates.find(r => r.IsActive !== false && normaliseCode(r.Code) === key);
+}
+
+/**
+ * Splits a gross amount into net and VAT at a percentage rate.
+ * The VAT is rounded and the net takes the rest, so they always add back to the gross.
+ */
+export function calculateVatFromGross(gross: number, percentage: number, rounding: VatRounding = 'nearest'): VatBreakdown {
+  const grossPence = toPence(gross);
+  const exactVat = (grossPence * percentage) / (100 + percentage);
+  const vatPence = roundPence(exactVat, rounding);
+
+  return {
+    gross: grossPence / 100,
+    net: (grossPence - vatPence) / 100,
+    vat: vatPence / 100,
+  };
+}
+
+/**
+ * The tax code a line uses: its own, or its category's default
+ */
+export function resolveTaxCode(
+  line: Pick<TransactionSplit, 'taxCode' | 'category'>,
+  mappings: CategoryLedgerMapping[]
+): string | undefined {
+  return line.taxCode?.trim() || findLedgerMapping(mappings, line.category)?.taxCode || undefined;
+}
+
+function applyToLine<T extends TransactionSplit>(
+  line: T,
+  mappings: CategoryLedgerMapping[],
+  rates: SageTaxRate[],
+  rounding: VatRounding
+): T {
+  const taxCode = resolveTaxCode(line, mappings);
+  const rate = findTaxRate(rates, taxCode);
+
+  return {
+    ...line,
+    taxCode,
+    taxRateId: rate?.Id,
+    taxAmount: rate ? calculateVatFromGross(line.amount, rate.Percentage, rounding).vat : undefined,
+  };
+}
+
+/**
+ * Sets the tax code, tax rate and VAT amount on each row, and each split line
+ */
+export function applyTaxRates(
+  transactions: ParsedCsvTransaction[],
+  mappings: CategoryLedgerMapping[],
+  rates: SageTaxRate[],
+  rounding: VatRounding
+): ParsedCsvTransaction[] {
+  return transactions.map(tx => ({
+    ...applyToLine(tx, mappings, rates, rounding),
+    ...(tx.splits ? { splits: tx.splits.map(split => applyToLine(split, mappings, rates, rounding)) } : {}),
+  }));
+}
+
+/**
+ * Tax codes used on the rows that don't match any of the tenant's tax rates
+ */
+export function getUnknownTaxCodes(
+  transactions: ParsedCsvTransaction[],
+  mappings: CategoryLedgerMapping[],
+  rates: SageTaxRate[]
+): string[] {
+  const unknown = new Set<string>();
+  for (const tx of transactions) {
+    for (const line of tx.splits?.length ? tx.splits : [tx]) {
+      const code = resolveTaxCode(line, mappings);
+      if (code && !findTaxRate(rates, code)) unknown.add(code);
+    }
+  }
+  return Array.from(unknown);
+}
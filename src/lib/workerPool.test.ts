@@ -0,0 +1,35 @@
+import { describe, expect, it, vi } from 'vitest';
+import { runWithConcurrency } from './workerPool';
+
+const rateLimit = vi.hoisted(() => ({ limit: null, remaining: null, pausedUntil: null as number | null }));
+
+vi.mock('./apiClient', () => ({
+  getRateLimitState: () => rateLimit,
+}));
+
+describe('runWithConcurrency', () => {
+  it('runs every item', async () => {
+    rateLimit.pausedUntil = null;
+    const seen: number[] = [];
+
+    await runWithConcurrency([1, 2, 3, 4], 2, async item => {
+      seen.push(item);
+    });
+
+    expect(seen.sort()).toEqual([1, 2, 3, 4]);
+  });
+
+  it('stops waiting out a rate-limit pause as soon as the signal aborts', async () => {
+    rateLimit.pausedUntil = Date.now() + 60_000;
+    const controller = new AbortController();
+    const task = vi.fn(async () => {});
+
+    const run = runWithConcurrency([1, 2], 2, task, controller.signal);
+    setTimeout(() => controller.abort(), 10);
+    const started = Date.now();
+    await run;
+
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(task).not.toHaveBeenCalled();
+  });
+});
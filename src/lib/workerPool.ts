@@ -0,0 +1,84 @@
+/**
+ * Worker Pool
+ *
+ * Runs async tasks with a fixed number of concurrent workers.
+ * Features:
+ * - Concurrency clamped to 1–8
+ * - Pauses every worker while a 429 retry-after is in force
+ * - Drops to a single worker when x-ratelimit-remaining runs low
+ * - Stops picking up new tasks once the signal aborts, including mid-wait
+ */
+
+import { getRateLimitState } from './apiClient';
+
+export const MIN_CONCURRENCY = 1;
+export const MAX_CONCURRENCY = 8;
+
+// How long extra workers back off while the remaining budget is low
+const LOW_BUDGET_BACKOFF_MS = 1000;
+
+export function clampConcurrency(value: number): number {
+  if (!Number.isFinite(value)) return MIN_CONCURRENCY;
+  return Math.min(MAX_CONCURRENCY, Math.max(MIN_CONCURRENCY, Math.round(value)));
+}
+
+// Resolves after `ms`, or as soon as the signal aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) return resolve();
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Waits until the rate limit allows this worker to send another request
+ */
+async function waitForCapacity(workerIndex: number, concurrency: number, signal?: AbortSignal): Promise<void> {
+  while (!signal?.aborted) {
+    const { pausedUntil, remaining } = getRateLimitState();
+
+    if (pausedUntil) {
+      await sleep(Math.max(0, pausedUntil - Date.now()), signal);
+    } else if (workerIndex > 0 && remaining !== null && remaining < concurrency) {
+      // Keep one worker going so the remaining count gets refreshed
+      await sleep(LOW_BUDGET_BACKOFF_MS, signal);
+    } else {
+      return;
+    }
+  }
+}
+
+/**
+ * Runs `task` for every item with at most `concurrency` in flight.
+ * Tasks should handle their own errors; a throwing task stops its worker.
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  task: (item: T) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  const workerCount = Math.min(clampConcurrency(concurrency), items.length);
+  let next = 0;
+
+  const worker = async (workerIndex: number) => {
+    while (next < items.length && !signal?.aborted) {
+      await waitForCapacity(workerIndex, workerCount, signal);
+      if (next >= items.length || signal?.aborted) return;
+
+      const item = items[next++];
+      await task(item);
+    }
+  };
+
+  await Promise.all(Array.from({ length: workerCount }, (_, i) => worker(i)));
+}
@@ -0,0 +1,130 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BankTransaction, CategoryLedgerMapping } from '@/types/sage';
+import { createEmptyWorkspace, loadWorkspace, parseWorkspaceExport, replaceWorkspace, saveWorkspaceSlice } from './workspaceStore';
+
+vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => {}, removeItem: () => {} });
+
+function transaction(id: string, overrides: Partial<BankTransaction> = {}): BankTransaction {
+  return {
+    id,
+    tenantId: 't1',
+    bankAccountId: 'a1',
+    type: 'payment',
+    date: '2024-03-01',
+    description: `Payment ${id}`,
+    reference: id.toUpperCase(),
+    amount: 50,
+    category: 'Rent',
+    ...overrides,
+  };
+}
+
+const mapping: CategoryLedgerMapping = {
+  tenantId: 't1',
+  category: 'Rent',
+  ledgerAccountId: 'la1',
+  ledgerAccountCode: '7100',
+  ledgerAccountName: 'Rent',
+};
+
+const exportFile = (workspace: Record<string, unknown>) =>
+  JSON.stringify({ format: 'sage-demo-workspace', schemaVersion: 1, workspace });
+
+describe('parseWorkspaceExport', () => {
+  it('reads a valid export', () => {
+    const workspace = parseWorkspaceExport(exportFile({ transactions: [transaction('tx1')], categoryMappings: [mapping] }));
+
+    expect(workspace.transactions).toEqual([transaction('tx1')]);
+    expect(workspace.categoryMappings).toEqual([mapping]);
+    expect(workspace.tenants).toEqual([]);
+  });
+
+  it('names a record missing its key', () => {
+    const { id: _id, ...withoutId } = transaction('tx2');
+
+    expect(() => parseWorkspaceExport(exportFile({ transactions: [transaction('tx1'), withoutId] })))
+      .toThrow('transactions record 2 is missing id');
+  });
+
+  it('names a record with a field of the wrong type', () => {
+    expect(() => parseWorkspaceExport(exportFile({ transactions: [transaction('tx1', { amount: '50' as unknown as number })] })))
+      .toThrow('transactions record 1 is missing amount');
+  });
+
+  it('checks every part of a compound key', () => {
+    expect(() => parseWorkspaceExport(exportFile({ categoryMappings: [{ ...mapping, tenantId: '' }] })))
+      .toThrow('categoryMappings record 1 is missing tenantId');
+  });
+
+  it('rejects two records with the same key', () => {
+    expect(() => parseWorkspaceExport(exportFile({ transactions: [transaction('tx1'), transaction('tx1')] })))
+      .toThrow('transactions record 2 has the same key as transactions record 1');
+  });
+
+  it('rejects an entity that is not a list', () => {
+    expect(() => parseWorkspaceExport(exportFile({ tenants: { id: 't1' } })))
+      .toThrow('tenants in the file is not a list');
+  });
+
+  it('checks old localStorage state too', () => {
+    expect(() => parseWorkspaceExport(JSON.stringify({ tenants: [null] })))
+      .toThrow('tenants record 1 is not an object');
+  });
+});
+
+describe('saveWorkspaceSlice', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('writes only the records that changed and deletes the removed ones', async () => {
+    const [first, second, third] = [transaction('tx1'), transaction('tx2'), transaction('tx3')];
+    await replaceWorkspace({ ...createEmptyWorkspace(), transactions: [first, second, third] });
+
+    const put = vi.spyOn(IDBObjectStore.prototype, 'put');
+    const remove = vi.spyOn(IDBObjectStore.prototype, 'delete');
+    const clear = vi.spyOn(IDBObjectStore.prototype, 'clear');
+    const edited = { ...second, reference: 'EDITED' };
+    await saveWorkspaceSlice('transactions', [first, edited]);
+
+    expect(put).toHaveBeenCalledTimes(1);
+    expect(put.mock.calls[0][0]).toMatchObject({ id: 'tx2', reference: 'EDITED' });
+    expect(remove).toHaveBeenCalledTimes(1);
+    expect(remove.mock.calls[0][0]).toBe('tx3');
+    expect(clear).not.toHaveBeenCalled();
+    expect((await loadWorkspace()).transactions).toEqual([first, edited]);
+  });
+
+  it('keeps the order when records are added and moved', async () => {
+    const [first, second] = [transaction('tx1'), transaction('tx2')];
+    await replaceWorkspace({ ...createEmptyWorkspace(), transactions: [first, second] });
+
+    const added = transaction('tx0');
+    await saveWorkspaceSlice('transactions', [added, second, first]);
+
+    expect((await loadWorkspace()).transactions.map(t => t.id)).toEqual(['tx0', 'tx2', 'tx1']);
+  });
+});
+
+describe('loadWorkspace', () => {
+  it('moves the old localStorage state across, leaving out records that could not be stored', async () => {
+    const legacy = {
+      tenants: [{ id: 't1', name: 'Acme', businessName: 'Acme Ltd' }],
+      transactions: [transaction('tx1'), { ...transaction('tx2'), id: undefined }, transaction('tx1'), transaction('tx3')],
+    };
+    const removeItem = vi.fn();
+    vi.stubGlobal('localStorage', { getItem: () => JSON.stringify(legacy), setItem: () => {}, removeItem });
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.resetModules();
+    const store = await import('./workspaceStore');
+
+    const workspace = await store.loadWorkspace();
+
+    expect(workspace.tenants.map(t => t.id)).toEqual(['t1']);
+    expect(workspace.transactions.map(t => t.id)).toEqual(['tx1', 'tx3']);
+    expect(removeItem).toHaveBeenCalledWith('sage-demo-state');
+  });
+});
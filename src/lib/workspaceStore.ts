@@ -0,0 +1,505 @@
+/**
+ * Workspace Store
+ *
+ * Persists the app's workspace to IndexedDB, one object store per entity, in
+ * place of the single 'sage-demo-state' localStorage key that every change
+ * rewrote in full.
+ * Features:
+ * - Schema versions upgrade one step at a time through MIGRATIONS
+ * - The old localStorage state is moved across on first open, then removed;
+ *   records in it that couldn't be stored are left out rather than failing the move
+ * - Each entity is saved on its own, and only the records that changed are
+ *   written or deleted
+ * - Export and import of the whole workspace as JSON, credentials optional;
+ *   files from older schema versions (or a copy of the old localStorage state)
+ *   are migrated on import, and every record is checked before anything is saved
+ */
+
+import {
+  BankAccount,
+  BankTransaction,
+  CategorisationRule,
+  CategoryLedgerMapping,
+  Credentials,
+  FinancialYear,
+  JournalAuditEntry,
+  RequiredDimension,
+  Tenant,
+} from '@/types/sage';
+
+const DB_NAME = 'sage-demo-workspace';
+const DB_VERSION = 1;
+const SETTINGS_STORE = 'settings';
+const LEGACY_STORAGE_KEY = 'sage-demo-state';
+const EXPORT_FORMAT = 'sage-demo-workspace';
+
+export interface Workspace {
+  credentials: Credentials | null;
+  activeTenantId: string | null;
+  tenants: Tenant[];
+  bankAccounts: BankAccount[];
+  financialYears: FinancialYear[];
+  transactions: BankTransaction[];
+  requiredDimensions: RequiredDimension[];
+  categoryMappings: CategoryLedgerMapping[];
+  categorisationRules: CategorisationRule[];
+  journalAudit: JournalAuditEntry[];
+}
+
+export interface WorkspaceExport {
+  format: typeof EXPORT_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  includesCredentials: boolean;
+  workspace: Workspace;
+}
+
+type SettingKey = 'credentials' | 'activeTenantId';
+type EntityKey = Exclude<keyof Workspace, SettingKey>;
+
+const SETTING_KEYS: SettingKey[] = ['credentials', 'activeTenantId'];
+
+// Records keep their order through a position field, since stores return them by key
+const ENTITY_STORES: Record<EntityKey, { keyPath: string | string[]; tenantIndex: boolean }> = {
+  tenants: { keyPath: 'id', tenantIndex: false },
+  bankAccounts: { keyPath: 'id', tenantIndex: true },
+  financialYears: { keyPath: 'id', tenantIndex: true },
+  transactions: { keyPath: 'id', tenantIndex: true },
+  requiredDimensions: { keyPath: 'id', tenantIndex: false },
+  categoryMappings: { keyPath: ['tenantId', 'category'], tenantIndex: true },
+  categorisationRules: { keyPath: 'id', tenantIndex: true },
+  journalAudit: { keyPath: 'id', tenantIndex: true },
+};
+
+const ENTITY_KEYS = Object.keys(ENTITY_STORES) as EntityKey[];
+
+type FieldType = 'string' | 'number' | 'object';
+
+// Fields an imported record must have: its store key, and what the app relies on
+const REQUIRED_FIELDS: Record<EntityKey, Record<string, FieldType>> = {
+  tenants: { id: 'string', name: 'string', businessName: 'string' },
+  bankAccounts: { id: 'string', tenantId: 'string', name: 'string', balance: 'number' },
+  financialYears: { id: 'string', tenantId: 'string', startDate: 'string', endDate: 'string' },
+  transactions: { id: 'string', tenantId: 'string', bankAccountId: 'string', type: 'string', date: 'string', amount: 'number' },
+  requiredDimensions: { id: 'string', code: 'string', name: 'string' },
+  categoryMappings: { tenantId: 'string', category: 'string', ledgerAccountId: 'string' },
+  categorisationRules: { id: 'string', tenantId: 'string', name: 'string', conditions: 'object', actions: 'object' },
+  journalAudit: { id: 'string', tenantId: 'string', journalId: 'string', action: 'string' },
+};
+
+interface SavedRecord {
+  record: object;
+  position: number;
+  storeKey: IDBValidKey;
+}
+
+// What each store holds, as last read or written, so saves only touch what changed
+const savedEntities = new Map<EntityKey, Map<string, SavedRecord>>();
+
+function getStoreKey(key: EntityKey, record: object): IDBValidKey {
+  const { keyPath } = ENTITY_STORES[key];
+  const fields = record as Record<string, IDBValidKey>;
+  return Array.isArray(keyPath) ? keyPath.map(path => fields[path]) : fields[keyPath];
+}
+
+const isSettingKey = (key: keyof Workspace): key is SettingKey => (SETTING_KEYS as string[]).includes(key);
+
+export function createEmptyWorkspace(): Workspace {
+  return {
+    credentials: null,
+    activeTenantId: null,
+    tenants: [],
+    bankAccounts: [],
+    financialYears: [],
+    transactions: [],
+    requiredDimensions: [],
+    categoryMappings: [],
+    categorisationRules: [],
+    journalAudit: [],
+  };
+}
+
+/**
+ * A complete workspace from partial data, e.g. state saved before an entity existed
+ */
+function normaliseWorkspace(data: Partial<Workspace>): Workspace {
+  const workspace = createEmptyWorkspace();
+  workspace.credentials = data.credentials || null;
+  workspace.activeTenantId = data.activeTenantId || null;
+  for (const key of ENTITY_KEYS) {
+    const records = data[key];
+    if (Array.isArray(records)) (workspace[key] as unknown[]) = records;
+  }
+  return workspace;
+}
+
+function readLegacyState(): Workspace | null {
+  try {
+    const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+    return saved ? normaliseWorkspace(JSON.parse(saved)) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeEntity(transaction: IDBTransaction, key: EntityKey, records: unknown[]): void {
+  const store = transaction.objectStore(key);
+  const saved = new Map<string, SavedRecord>();
+  store.clear();
+  records.forEach((record, position) => {
+    const storeKey = getStoreKey(key, record as object);
+    store.put({ ...(record as object), position });
+    saved.set(JSON.stringify(storeKey), { record: record as object, position, storeKey });
+  });
+  savedEntities.set(key, saved);
+}
+
+/**
+ * Puts the records that are new, changed (a different object) or out of
+ * order, and deletes the ones that are gone. Positions only need to rise
+ * through the list, so untouched records keep theirs.
+ */
+function updateEntity(transaction: IDBTransaction, key: EntityKey, records: unknown[]): void {
+  const saved = savedEntities.get(key);
+  if (!saved) {
+    writeEntity(transaction, key, records);
+    return;
+  }
+
+  const store = transaction.objectStore(key);
+  const next = new Map<string, SavedRecord>();
+  let last = -1;
+  for (const record of records as object[]) {
+    const storeKey = getStoreKey(key, record);
+    const id = JSON.stringify(storeKey);
+    const previous = saved.get(id);
+    if (previous && previous.record === record && previous.position > last) {
+      next.set(id, previous);
+      last = previous.position;
+      continue;
+    }
+    const position = previous && previous.position > last ? previous.position : last + 1;
+    store.put({ ...record, position });
+    next.set(id, { record, position, storeKey });
+    last = position;
+  }
+
+  saved.forEach((entry, id) => {
+    if (!next.has(id)) store.delete(entry.storeKey);
+  });
+  savedEntities.set(key, next);
+}
+
+function writeWorkspace(transaction: IDBTransaction, workspace: Workspace): void {
+  const settings = transaction.objectStore(SETTINGS_STORE);
+  SETTING_KEYS.forEach(key => settings.put(workspace[key], key));
+  ENTITY_KEYS.forEach(key => writeEntity(transaction, key, workspace[key]));
+}
+
+/**
+ * Upgrades to each schema version in turn. Each step runs in the upgrade
+ * transaction, so a failed step leaves the previous version in place.
+ */
+const MIGRATIONS: Record<number, (database: IDBDatabase, transaction: IDBTransaction) => void> = {
+  // Per-entity stores, filled from the old localStorage state
+  1: (database, transaction) => {
+    for (const key of ENTITY_KEYS) {
+      const store = database.createObjectStore(key, { keyPath: ENTITY_STORES[key].keyPath });
+      store.createIndex('position', 'position', { unique: false });
+      if (ENTITY_STORES[key].tenantIndex) {
+        store.createIndex('tenantId', 'tenantId', { unique: false });
+      }
+    }
+    database.createObjectStore(SETTINGS_STORE);
+
+    const legacy = readLegacyState();
+    if (legacy) writeWorkspace(transaction, dropInvalidRecords(legacy));
+  },
+};
+
+let db: IDBDatabase | null = null;
+
+/**
+ * Opens the IndexedDB database
+ */
+async function openDatabase(): Promise<IDBDatabase> {
+  if (db) return db;
+
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    let migratedLegacyState = false;
+
+    request.onerror = () => {
+      reject(new Error('Failed to open IndexedDB'));
+    };
+
+    request.onsuccess = () => {
+      db = request.result;
+      // Only once the move has committed
+      if (migratedLegacyState) localStorage.removeItem(LEGACY_STORAGE_KEY);
+      resolve(db);
+    };
+
+    request.onupgradeneeded = (event) => {
+      const database = (event.target as IDBOpenDBRequest).result;
+      for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+        MIGRATIONS[version]?.(database, request.transaction!);
+      }
+      migratedLegacyState = event.oldVersion === 0;
+    };
+  });
+}
+
+function readStore(transaction: IDBTransaction, key: EntityKey): Promise<object[]> {
+  return new Promise((resolve, reject) => {
+    const request = transaction.objectStore(key).index('position').getAll();
+    request.onsuccess = () => {
+      const saved = new Map<string, SavedRecord>();
+      const records = (request.result as { position: number }[]).map(({ position, ...record }) => {
+        const storeKey = getStoreKey(key, record);
+        saved.set(JSON.stringify(storeKey), { record, position, storeKey });
+        return record;
+      });
+      savedEntities.set(key, saved);
+      resolve(records);
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function readSetting<T>(transaction: IDBTransaction, key: SettingKey): Promise<T | null> {
+  return new Promise((resolve, reject) => {
+    const request = transaction.objectStore(SETTINGS_STORE).get(key);
+    request.onsuccess = () => resolve((request.result as T) ?? null);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function completion(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Loads the saved workspace. Without IndexedDB (e.g. some private windows) it
+ * falls back to any old localStorage state.
+ */
+export async function loadWorkspace(): Promise<Workspace> {
+  try {
+    const database = await openDatabase();
+    const transaction = database.transaction([SETTINGS_STORE, ...ENTITY_KEYS], 'readonly');
+
+    const [credentials, activeTenantId, ...entities] = await Promise.all([
+      readSetting<Credentials>(transaction, 'credentials'),
+      readSetting<string>(transaction, 'activeTenantId'),
+      ...ENTITY_KEYS.map(key => readStore(transaction, key)),
+    ]);
+
+    const workspace: Partial<Workspace> = { credentials, activeTenantId };
+    ENTITY_KEYS.forEach((key, index) => {
+      (workspace[key] as unknown[]) = entities[index];
+    });
+    return normaliseWorkspace(workspace);
+  } catch (error) {
+    console.error('Failed to load workspace:', error);
+    return readLegacyState() || createEmptyWorkspace();
+  }
+}
+
+/**
+ * Saves one part of the workspace, writing only the records that changed
+ */
+export async function saveWorkspaceSlice<K extends keyof Workspace>(key: K, value: Workspace[K]): Promise<void> {
+  try {
+    const database = await openDatabase();
+    const storeName = isSettingKey(key) ? SETTINGS_STORE : key;
+    const transaction = database.transaction([storeName], 'readwrite');
+
+    if (isSettingKey(key)) {
+      transaction.objectStore(SETTINGS_STORE).put(value, key);
+    } else {
+      updateEntity(transaction, key as EntityKey, value as unknown[]);
+    }
+
+    await completion(transaction);
+  } catch (error) {
+    console.error(`Failed to save ${key}:`, error);
+    // Not sure what the store holds now, so the next save rewrites it
+    if (!isSettingKey(key)) savedEntities.delete(key as EntityKey);
+  }
+}
+
+/**
+ * Replaces the whole saved workspace in one transaction
+ */
+export async function replaceWorkspace(workspace: Workspace): Promise<void> {
+  const database = await openDatabase();
+  const transaction = database.transaction([SETTINGS_STORE, ...ENTITY_KEYS], 'readwrite');
+  writeWorkspace(transaction, workspace);
+  try {
+    await completion(transaction);
+  } catch (error) {
+    savedEntities.clear();
+    throw error;
+  }
+}
+
+/**
+ * The workspace as an export file. Credentials include the client secrets, so
+ * they're left out unless asked for.
+ */
+export function createWorkspaceExport(workspace: Workspace, includeCredentials = false): WorkspaceExport {
+  return {
+    format: EXPORT_FORMAT,
+    schemaVersion: DB_VERSION,
+    exportedAt: new Date().toISOString(),
+    includesCredentials: includeCredentials && !!workspace.credentials,
+    workspace: { ...workspace, credentials: includeCredentials ? workspace.credentials : null },
+  };
+}
+
+/**
+ * Changes to the workspace shape between schema versions, applied to older
+ * export files on import. Version 0 is the old localStorage state.
+ */
+const EXPORT_MIGRATIONS: Record<number, (workspace: Record<string, unknown>) => Record<string, unknown>> = {
+  1: workspace => workspace,
+};
+
+/**
+ * What's wrong with a record, or null when it has its store key and the
+ * fields the app relies on
+ */
+function findRecordProblem(key: EntityKey, record: unknown): string | null {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    return 'is not an object';
+  }
+
+  const keyFields = ([] as string[]).concat(ENTITY_STORES[key].keyPath);
+  for (const [field, type] of Object.entries(REQUIRED_FIELDS[key])) {
+    const value = (record as Record<string, unknown>)[field];
+    // Key fields can't be blank either
+    const valid = type === 'object'
+      ? !!value && typeof value === 'object'
+      : typeof value === type && !(keyFields.includes(field) && value === '');
+    if (!valid) {
+      return `is missing ${field} (or it isn't a ${type})`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Checks every record has its store key and the fields the app relies on,
+ * and that no two share a key, naming the first bad record
+ */
+function validateWorkspace(workspace: Record<string, unknown>): void {
+  for (const key of ENTITY_KEYS) {
+    const records = workspace[key];
+    if (records === undefined) continue;
+    if (!Array.isArray(records)) {
+      throw new Error(`${key} in the file is not a list.`);
+    }
+
+    const keys = new Map<string, number>();
+    records.forEach((record, index) => {
+      const name = `${key} record ${index + 1}`;
+      const problem = findRecordProblem(key, record);
+      if (problem) {
+        throw new Error(`${name} ${problem}.`);
+      }
+
+      const storeKey = JSON.stringify(getStoreKey(key, record));
+      const earlier = keys.get(storeKey);
+      if (earlier !== undefined) {
+        throw new Error(`${name} has the same key as ${key} record ${earlier + 1}.`);
+      }
+      keys.set(storeKey, index);
+    });
+  }
+}
+
+/**
+ * The workspace without records that can't be stored (and without repeats of
+ * a key), so one bad record in the old state can't fail the move to IndexedDB
+ */
+function dropInvalidRecords(workspace: Workspace): Workspace {
+  const cleaned = { ...workspace };
+  for (const key of ENTITY_KEYS) {
+    const keys = new Set<string>();
+    const records = (workspace[key] as unknown[]).filter(record => {
+      if (findRecordProblem(key, record)) return false;
+      const storeKey = JSON.stringify(getStoreKey(key, record as object));
+      if (keys.has(storeKey)) return false;
+      keys.add(storeKey);
+      return true;
+    });
+
+    const dropped = workspace[key].length - records.length;
+    if (dropped > 0) {
+      console.warn(`Left ${dropped} of ${workspace[key].length} ${key} out of the saved workspace: they couldn't be stored.`);
+    }
+    (cleaned[key] as unknown[]) = records;
+  }
+  return cleaned;
+}
+
+/**
+ * Reads an export file (or a copy of the old localStorage state), migrating it
+ * to the current schema and checking its records
+ */
+export function parseWorkspaceExport(text: string): Workspace {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!data || typeof data !== 'object') {
+    throw new Error('The file is not a workspace export.');
+  }
+
+  let version: number;
+  let workspace: Record<string, unknown>;
+  if (data.format === EXPORT_FORMAT) {
+    version = Number(data.schemaVersion);
+    workspace = data.workspace as Record<string, unknown>;
+  } else if (Array.isArray(data.tenants)) {
+    version = 0;
+    workspace = data;
+  } else {
+    throw new Error('The file is not a workspace export.');
+  }
+
+  if (!Number.isInteger(version) || version < 0 || !workspace || typeof workspace !== 'object') {
+    throw new Error('The file is not a workspace export.');
+  }
+  if (version > DB_VERSION) {
+    throw new Error(`The file is from a newer version of the app (schema ${version}; this app reads up to ${DB_VERSION}).`);
+  }
+
+  for (let next = version + 1; next <= DB_VERSION; next++) {
+    workspace = EXPORT_MIGRATIONS[next]?.(workspace) ?? workspace;
+  }
+  validateWorkspace(workspace);
+  return normaliseWorkspace(workspace as Partial<Workspace>);
+}
+
+/**
+ * Exports the workspace to a downloadable JSON file
+ */
+export function exportWorkspaceToFile(data: WorkspaceExport, filename?: string): void {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename || `sage-demo-workspace-${data.exportedAt.split('T')[0]}.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
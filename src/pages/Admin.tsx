@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
 import { 
   Save, 
   Key, 
@@ -17,13 +18,20 @@ import {
   RefreshCw,
   Clock,
   Loader2,
-  Layers
+  Layers,
+  FlaskConical,
+  Trash2
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { getConfig, saveConfig } from '@/lib/configManager';
-import { getTokenMetadata, getToken, clearToken } from '@/lib/tokenManager';
+import { getConfig, saveConfig, isEmulatorEnabled, setEmulatorEnabled } from '@/lib/configManager';
+import { getTokenMetadata, getToken, clearToken, clearAllTokens } from '@/lib/tokenManager';
+import { resetEmulator } from '@/lib/emulator';
 import { dimensionService } from '@/services/dimensionService';
 import { SageDimension, RequiredDimension } from '@/types/sage';
+import { CategoryMappingSection } from '@/components/admin/CategoryMappingSection';
+import { ExchangeRatesSection } from '@/components/admin/ExchangeRatesSection';
+import { CategorisationRulesSection } from '@/components/admin/CategorisationRulesSection';
+import { WorkspaceDataSection } from '@/components/admin/WorkspaceDataSection';
 
 export default function Admin() {
   const { credentials, setCredentials, activeTenantId, requiredDimensions, setRequiredDimensions } = useApp();
@@ -31,6 +39,7 @@ export default function Admin() {
   const { toast } = useToast();
   const [isConfigLoaded, setIsConfigLoaded] = useState(false);
   const [isTesting, setIsTesting] = useState<'subscription' | 'tenant' | null>(null);
+  const [useEmulator, setUseEmulator] = useState(isEmulatorEnabled());
   const [tokenStatus, setTokenStatus] = useState<{
     subscription: { valid: boolean; expiresAt: number | null };
     tenant: { valid: boolean; expiresAt: number | null };
@@ -158,6 +167,43 @@ export default function Admin() {
     }
   };
 
+  const handleEmulatorToggle = (enabled: boolean) => {
+    setEmulatorEnabled(enabled);
+    setUseEmulator(enabled);
+    // Tokens from one backend are meaningless to the other
+    clearAllTokens();
+    updateTokenStatus();
+    
+    toast({
+      title: enabled ? "Emulator enabled" : "Emulator disabled",
+      description: enabled
+        ? "API calls are now answered by the local Sage emulator."
+        : "API calls are now sent to the Sage sandbox.",
+    });
+  };
+
+  const handleUseEmulatorCredentials = () => {
+    setFormData(prev => ({
+      ...prev,
+      clientId: prev.clientId || 'emulator-client',
+      clientSecret: prev.clientSecret || 'emulator-secret',
+      subscriptionClientId: prev.subscriptionClientId || 'emulator-subscription-client',
+      subscriptionClientSecret: prev.subscriptionClientSecret || 'emulator-subscription-secret',
+      productCode: prev.productCode || 'SAGE_ONE',
+      platform: prev.platform || 'UK',
+      businessTypeCode: prev.businessTypeCode || 'SOLE_TRADER',
+      bankOpeningBalanceJournalCode: prev.bankOpeningBalanceJournalCode || '759b6bdc-7200-09bc-e93b-9284bd95a344',
+    }));
+  };
+
+  const handleResetEmulator = () => {
+    resetEmulator();
+    toast({
+      title: "Emulator data cleared",
+      description: "All emulated tenants, bank accounts and journals have been removed.",
+    });
+  };
+
   const handleLoadDimensions = async () => {
     if (!activeTenantId || !credentials) {
       toast({
@@ -263,6 +309,45 @@ export default function Admin() {
           </p>
         </div>
 
+        {/* Local API Emulator */}
+        <div className="form-section mb-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+                <FlaskConical className="w-5 h-5 text-primary" />
+              </div>
+              <div>
+                <h2 className="section-title">Local API Emulator</h2>
+                <p className="section-description">Answer all Sage API calls in the browser, without network access</p>
+              </div>
+            </div>
+            <Switch
+              id="useEmulator"
+              checked={useEmulator}
+              onCheckedChange={handleEmulatorToggle}
+            />
+          </div>
+
+          {useEmulator && (
+            <div className="mt-4 space-y-3">
+              <p className="text-sm text-muted-foreground">
+                Any non-empty client ID and secret are accepted. Emulated data is kept in this browser
+                and includes async (202) processing, report polling and rate limiting.
+              </p>
+              <div className="flex gap-2">
+                <Button type="button" variant="outline" size="sm" onClick={handleUseEmulatorCredentials}>
+                  <Key className="w-4 h-4 mr-2" />
+                  Fill Demo Credentials
+                </Button>
+                <Button type="button" variant="outline" size="sm" onClick={handleResetEmulator}>
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Reset Emulator Data
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+
         <form onSubmit={handleSubmit} className="space-y-6">
           {/* OAuth Credentials (Tenant Services) */}
           <div className="form-section">
@@ -563,6 +648,15 @@ export default function Admin() {
           )}
         </div>
 
+        {/* Category → ledger account mapping */}
+        <CategoryMappingSection />
+
+        <CategorisationRulesSection />
+
+        <ExchangeRatesSection />
+
+        <WorkspaceDataSection />
+
         {/* Info Box */}
         <div className="mt-8 p-4 bg-muted rounded-lg space-y-3">
           <h3 className="font-medium text-foreground">Configuration Options</h3>
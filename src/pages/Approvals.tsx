@@ -0,0 +1,420 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { useApp } from '@/contexts/AppContext';
+import { useDeveloperMode } from '@/contexts/DeveloperModeContext';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  AlertCircle,
+  ArrowDownLeft,
+  ArrowUpRight,
+  CheckCircle2,
+  ClipboardCheck,
+  Loader2,
+  RefreshCw,
+  XCircle,
+} from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { ApiIntegrationPanel } from '@/components/developer/ApiIntegrationPanel';
+import { JournalAuditPanel } from '@/components/transactions/JournalAuditPanel';
+import { bankService, SageJournalEntry } from '@/services/bankService';
+import { transactionService } from '@/services/transactionService';
+import { configManager } from '@/lib/configManager';
+import { runWithConcurrency } from '@/lib/workerPool';
+import { BASE_CURRENCY, formatCurrency } from '@/lib/currency';
+
+export default function Approvals() {
+  const {
+    bankAccounts,
+    activeTenantId,
+    financialYears,
+    credentials,
+    transactions,
+    journalAudit,
+    getActiveTenant,
+    updateTransaction,
+    removeTransaction,
+    recordJournalAudit,
+  } = useApp();
+  const { isDeveloperMode } = useDeveloperMode();
+  const { toast } = useToast();
+  const [drafts, setDrafts] = useState<Record<string, SageJournalEntry[]>>({}); // bankAccountId -> drafts
+  const [loadErrors, setLoadErrors] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [rejectTargets, setRejectTargets] = useState<SageJournalEntry[] | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+
+  const activeTenant = getActiveTenant();
+  const tenantAccounts = useMemo(
+    () => bankAccounts.filter(a => a.tenantId === activeTenantId),
+    [bankAccounts, activeTenantId]
+  );
+  const activeFinancialYear = financialYears.find(fy => fy.tenantId === activeTenantId && fy.status === 'open');
+  const allDrafts = Object.values(drafts).flat();
+  const approvalAudit = journalAudit.filter(
+    e => e.tenantId === activeTenantId && (e.action === 'approve' || e.action === 'reject')
+  );
+
+  // The app's own record of each draft, for its description and to keep in step
+  const localByJournalId = useMemo(
+    () => new Map(
+      transactions
+        .filter(t => t.tenantId === activeTenantId && t.journalId)
+        .map(t => [t.journalId!, t])
+    ),
+    [transactions, activeTenantId]
+  );
+
+  const loadDrafts = useCallback(async () => {
+    if (!activeTenantId || !credentials || !activeFinancialYear) return;
+
+    setIsLoading(true);
+    const loaded: Record<string, SageJournalEntry[]> = {};
+    const errors: Record<string, string> = {};
+    for (const account of tenantAccounts) {
+      try {
+        loaded[account.id] = await bankService.getDraftJournals(
+          activeTenantId,
+          account.id,
+          activeFinancialYear.startDate,
+          activeFinancialYear.endDate,
+          credentials
+        );
+      } catch (error) {
+        errors[account.id] = error instanceof Error ? error.message : 'Failed to fetch drafts';
+      }
+    }
+    setDrafts(loaded);
+    setLoadErrors(errors);
+    setSelected(prev => new Set(Object.values(loaded).flat().map(d => d.Id).filter(id => prev.has(id))));
+    setIsLoading(false);
+  }, [activeTenantId, credentials, activeFinancialYear, tenantAccounts]);
+
+  // Selections from another tenant or year don't carry over
+  useEffect(() => {
+    setDrafts({});
+    setSelected(new Set());
+  }, [activeTenantId, activeFinancialYear?.id]);
+
+  useEffect(() => {
+    loadDrafts();
+  }, [loadDrafts]);
+
+  /**
+   * Runs an approval action over the drafts a few at a time, then reports how
+   * many went through and reloads the queue
+   */
+  const processDrafts = async (
+    entries: SageJournalEntry[],
+    action: (entry: SageJournalEntry) => Promise<void>,
+    verb: string
+  ) => {
+    if (!activeTenantId || !credentials || entries.length === 0) return;
+
+    setIsProcessing(true);
+    const failures: string[] = [];
+    await runWithConcurrency(entries, configManager.getUploadConcurrency(), async (entry) => {
+      try {
+        await action(entry);
+      } catch (error) {
+        failures.push(`${entry.Reference || entry.Id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    });
+
+    const succeeded = entries.length - failures.length;
+    toast({
+      title: failures.length > 0 ? `${succeeded} of ${entries.length} drafts ${verb}` : `${succeeded} draft${succeeded !== 1 ? 's' : ''} ${verb}`,
+      description: failures.length > 0 ? failures.slice(0, 3).join('; ') : undefined,
+      variant: failures.length > 0 ? 'destructive' : 'default',
+    });
+
+    setIsProcessing(false);
+    await loadDrafts();
+  };
+
+  const handleApprove = (entries: SageJournalEntry[]) => processDrafts(entries, async (entry) => {
+    await transactionService.finaliseJournal(activeTenantId!, entry.Id, credentials!);
+    const local = localByJournalId.get(entry.Id);
+    if (local) updateTransaction(local.id, { draft: false });
+    recordJournalAudit({
+      tenantId: activeTenantId!,
+      journalId: entry.Id,
+      action: 'approve',
+      reference: entry.Reference || '',
+      changes: [{ field: 'Status', from: 'Draft', to: 'Completed' }],
+    });
+  }, 'approved');
+
+  const handleReject = async () => {
+    const entries = rejectTargets || [];
+    const reason = rejectReason.trim();
+    setRejectTargets(null);
+    setRejectReason('');
+
+    // A rejected draft is deleted; the audit entry keeps what it was
+    await processDrafts(entries, async (entry) => {
+      await transactionService.deleteJournal(activeTenantId!, entry.Id, credentials!);
+      const local = localByJournalId.get(entry.Id);
+      if (local) removeTransaction(local.id);
+      recordJournalAudit({
+        tenantId: activeTenantId!,
+        journalId: entry.Id,
+        action: 'reject',
+        reference: entry.Reference || '',
+        changes: [
+          { field: 'Date', from: entry.Date.slice(0, 10), to: '' },
+          { field: 'Amount', from: entry.TotalAmount.Currency.toFixed(2), to: '' },
+        ],
+        reason,
+        ...(local?.idempotencyKey ? { idempotencyKey: local.idempotencyKey } : {}),
+      });
+    }, 'rejected');
+  };
+
+  const toggleSelected = (ids: string[], checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => (checked ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  };
+
+  const selectedDrafts = allDrafts.filter(d => selected.has(d.Id));
+
+  if (!activeTenantId) {
+    return (
+      <MainLayout>
+        <div className="animate-fade-in">
+          <div className="page-header">
+            <h1 className="page-title">Approval Queue</h1>
+          </div>
+
+          <div className="bg-warning/10 border border-warning/30 rounded-lg p-6 flex items-start gap-4">
+            <AlertCircle className="w-6 h-6 text-warning flex-shrink-0" />
+            <div>
+              <h3 className="font-medium text-foreground">No tenant selected</h3>
+              <p className="text-muted-foreground mt-1">
+                Please select or create a tenant first to review draft journals.
+              </p>
+            </div>
+          </div>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout>
+      <div className="animate-fade-in">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="page-header mb-0">
+            <h1 className="page-title">Approval Queue</h1>
+            <p className="page-description">
+              Review draft journals for {activeTenant?.businessName} before they post to the ledger
+            </p>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={loadDrafts} disabled={isLoading || isProcessing || !activeFinancialYear}>
+              <RefreshCw className={cn("w-4 h-4 mr-2", isLoading && "animate-spin")} />
+              Refresh
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setRejectTargets(selectedDrafts)}
+              disabled={isProcessing || selectedDrafts.length === 0}
+            >
+              <XCircle className="w-4 h-4 mr-2" />
+              Reject Selected{selectedDrafts.length > 0 ? ` (${selectedDrafts.length})` : ''}
+            </Button>
+            <Button onClick={() => handleApprove(selectedDrafts)} disabled={isProcessing || selectedDrafts.length === 0}>
+              {isProcessing ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <CheckCircle2 className="w-4 h-4 mr-2" />
+              )}
+              Approve Selected{selectedDrafts.length > 0 ? ` (${selectedDrafts.length})` : ''}
+            </Button>
+          </div>
+        </div>
+
+        {!activeFinancialYear ? (
+          <div className="bg-warning/10 border border-warning/30 rounded-lg p-6 flex items-start gap-4">
+            <AlertCircle className="w-6 h-6 text-warning flex-shrink-0" />
+            <div>
+              <h3 className="font-medium text-foreground">No active financial year</h3>
+              <p className="text-muted-foreground mt-1">
+                Please create a financial year first to review draft journals.
+              </p>
+            </div>
+          </div>
+        ) : tenantAccounts.length === 0 ? (
+          <div className="bg-card rounded-xl border border-border p-12 text-center">
+            <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mx-auto mb-4">
+              <ClipboardCheck className="w-8 h-8 text-muted-foreground" />
+            </div>
+            <h3 className="text-lg font-medium text-foreground mb-2">No bank accounts</h3>
+            <p className="text-muted-foreground">Create a bank account and post drafts to it from Transactions.</p>
+          </div>
+        ) : isLoading && allDrafts.length === 0 ? (
+          <div className="py-12 flex flex-col items-center gap-3 text-muted-foreground">
+            <Loader2 className="w-6 h-6 animate-spin" />
+            <p className="text-sm">Loading draft journals…</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {tenantAccounts.map(account => {
+              const accountDrafts = drafts[account.id] || [];
+              const ids = accountDrafts.map(d => d.Id);
+              const allSelected = ids.length > 0 && ids.every(id => selected.has(id));
+
+              return (
+                <div key={account.id} className="bg-card rounded-xl border border-border overflow-hidden">
+                  <div className="p-4 border-b border-border bg-muted/50 flex items-center justify-between">
+                    <h2 className="section-title">{account.name}</h2>
+                    <span className="text-sm text-muted-foreground">
+                      {accountDrafts.length} draft{accountDrafts.length !== 1 ? 's' : ''}
+                    </span>
+                  </div>
+
+                  {loadErrors[account.id] ? (
+                    <div className="p-4 flex items-start gap-3 text-sm">
+                      <AlertCircle className="w-5 h-5 text-destructive flex-shrink-0" />
+                      <p className="text-muted-foreground">{loadErrors[account.id]}</p>
+                    </div>
+                  ) : accountDrafts.length === 0 ? (
+                    <p className="p-4 text-sm text-muted-foreground">Nothing waiting for approval.</p>
+                  ) : (
+                    <table className="data-table">
+                      <thead>
+                        <tr className="bg-muted/30">
+                          <th className="w-10">
+                            <Checkbox
+                              checked={allSelected}
+                              onCheckedChange={(checked) => toggleSelected(ids, checked === true)}
+                              aria-label={`Select all drafts for ${account.name}`}
+                            />
+                          </th>
+                          <th>Date</th>
+                          <th>Type</th>
+                          <th>Reference</th>
+                          <th>Description</th>
+                          <th className="text-right">Amount</th>
+                          <th className="text-right">Actions</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {accountDrafts.map(entry => {
+                          const isCredit = entry.TreatAs === 'Credit';
+                          const local = localByJournalId.get(entry.Id);
+                          return (
+                            <tr key={entry.Id}>
+                              <td>
+                                <Checkbox
+                                  checked={selected.has(entry.Id)}
+                                  onCheckedChange={(checked) => toggleSelected([entry.Id], checked === true)}
+                                  aria-label={`Select ${entry.Reference || entry.Id}`}
+                                />
+                              </td>
+                              <td>{new Date(entry.Date).toLocaleDateString('en-GB')}</td>
+                              <td><span className="font-mono text-xs">{entry.JournalType.Code}</span></td>
+                              <td className="font-mono text-sm">{entry.Reference || '—'}</td>
+                              <td>{local?.description || <span className="text-muted-foreground">—</span>}</td>
+                              <td className={cn("text-right font-semibold", isCredit ? "text-destructive" : "text-success")}>
+                                <span className="inline-flex items-center gap-1">
+                                  {isCredit ? <ArrowUpRight className="w-3 h-3" /> : <ArrowDownLeft className="w-3 h-3" />}
+                                  {isCredit ? '-' : '+'}{formatCurrency(entry.TotalAmount.Currency, entry.Currency?.Code || BASE_CURRENCY)}
+                                </span>
+                              </td>
+                              <td>
+                                <div className="flex items-center justify-end gap-2">
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    onClick={() => setRejectTargets([entry])}
+                                    disabled={isProcessing}
+                                  >
+                                    <XCircle className="w-4 h-4 mr-2" />
+                                    Reject
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => handleApprove([entry])}
+                                    disabled={isProcessing}
+                                  >
+                                    <CheckCircle2 className="w-4 h-4 mr-2" />
+                                    Approve
+                                  </Button>
+                                </div>
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <JournalAuditPanel entries={approvalAudit} />
+
+        <Dialog open={!!rejectTargets} onOpenChange={(open) => !open && setRejectTargets(null)}>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>
+                Reject {rejectTargets?.length === 1 ? 'draft' : `${rejectTargets?.length} drafts`}?
+              </DialogTitle>
+              <DialogDescription>
+                Rejected drafts are deleted from Sage. The reason is kept in the audit trail.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="reject-reason">Reason</Label>
+              <Textarea
+                id="reject-reason"
+                value={rejectReason}
+                onChange={(e) => setRejectReason(e.target.value)}
+                placeholder="e.g. Wrong bank account"
+                rows={3}
+                autoFocus
+              />
+            </div>
+            <DialogFooter className="gap-2">
+              <Button variant="outline" onClick={() => setRejectTargets(null)}>
+                Cancel
+              </Button>
+              <Button variant="destructive" onClick={handleReject} disabled={!rejectReason.trim()}>
+                Reject
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {/* API Integration Panel - Only visible in Developer Mode */}
+        {isDeveloperMode && (
+          <div className="mt-8">
+            <ApiIntegrationPanel featureArea="transactions" />
+          </div>
+        )}
+      </div>
+    </MainLayout>
+  );
+}
@@ -32,6 +32,7 @@ import { ApiIntegrationPanel } from '@/components/developer/ApiIntegrationPanel'
 import { bankService } from '@/services/bankService';
 import { BankTransactionsDrawer } from '@/components/bank/BankTransactionsDrawer';
 import { BankAccount } from '@/types/sage';
+import { formatCurrency } from '@/lib/currency';
 
 export default function BankAccounts() {
   const { bankAccounts, activeTenantId, addBankAccount, addOpeningBalance, getActiveTenant, credentials } = useApp();
@@ -335,8 +336,7 @@ export default function BankAccounts() {
                     <td className="font-mono text-sm">{account.sortCode}</td>
                     <td>{account.currencyISO}</td>
                     <td className="text-right font-semibold">
-                      {account.currencyISO === 'GBP' ? '£' : account.currencyISO === 'EUR' ? '€' : '$'}
-                      {account.balance.toLocaleString('en-GB', { minimumFractionDigits: 2 })}
+                      {formatCurrency(account.balance, account.currencyISO)}
                     </td>
                     <td className="text-right space-x-2">
                       <Button
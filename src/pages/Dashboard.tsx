@@ -15,6 +15,7 @@ import {
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import { formatCurrency, getExchangeRate, toBaseAmount } from '@/lib/currency';
 
 const quickActions = [
   { 
@@ -56,6 +57,11 @@ export default function Dashboard() {
 
   const activeTenant = getActiveTenant();
   const tenantBankAccounts = bankAccounts.filter(a => a.tenantId === activeTenantId);
+  // Balances in other currencies count at their saved GBP rate
+  const unconvertedAccounts = tenantBankAccounts.filter(a => !getExchangeRate(a.currencyISO));
+  const totalBalance = tenantBankAccounts
+    .filter(a => getExchangeRate(a.currencyISO))
+    .reduce((sum, a) => sum + toBaseAmount(a.balance, getExchangeRate(a.currencyISO)!), 0);
   const tenantFinancialYears = financialYears.filter(y => y.tenantId === activeTenantId);
   const tenantTransactions = transactions.filter(t => t.tenantId === activeTenantId);
 
@@ -149,9 +155,12 @@ export default function Dashboard() {
               </div>
               <div className="stat-card">
                 <div className="stat-value">
-                  £{tenantBankAccounts.reduce((sum, a) => sum + a.balance, 0).toLocaleString()}
+                  {formatCurrency(totalBalance)}
+                </div>
+                <div className="stat-label">
+                  Total Balance
+                  {unconvertedAccounts.length > 0 && ` (excl. ${unconvertedAccounts.length} without an exchange rate)`}
                 </div>
-                <div className="stat-label">Total Balance</div>
               </div>
             </div>
           </div>
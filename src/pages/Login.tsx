@@ -4,10 +4,11 @@ import { useApp } from '@/contexts/AppContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Lock, AlertCircle } from 'lucide-react';
+import { Lock, AlertCircle, User } from 'lucide-react';
 
 export default function Login() {
   const [password, setPassword] = useState('');
+  const [userName, setUserName] = useState('');
   const [error, setError] = useState('');
   const { login } = useApp();
   const navigate = useNavigate();
@@ -16,7 +17,7 @@ export default function Login() {
     e.preventDefault();
     setError('');
     
-    if (login(password)) {
+    if (login(password, userName)) {
       navigate('/');
     } else {
       setError('Invalid password. Please try again.');
@@ -38,6 +39,21 @@ export default function Login() {
         {/* Login Form */}
         <div className="bg-card rounded-xl border border-border p-8 shadow-sm">
           <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="userName">Your Name</Label>
+              <div className="relative">
+                <User className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+                <Input
+                  id="userName"
+                  value={userName}
+                  onChange={(e) => setUserName(e.target.value)}
+                  placeholder="Shown in the journal audit trail"
+                  className="pl-10"
+                  autoFocus
+                />
+              </div>
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="password">Password</Label>
               <div className="relative">
@@ -49,7 +65,6 @@ export default function Login() {
                   onChange={(e) => setPassword(e.target.value)}
                   placeholder="Enter demo password"
                   className="pl-10"
-                  autoFocus
                 />
               </div>
             </div>
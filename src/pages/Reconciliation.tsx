@@ -0,0 +1,705 @@
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { useApp } from '@/contexts/AppContext';
+import { useDeveloperMode } from '@/contexts/DeveloperModeContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertCircle,
+  ArrowDownLeft,
+  ArrowUpRight,
+  Link2,
+  Loader2,
+  Plus,
+  RefreshCw,
+  Unlink,
+  Upload,
+} from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { ParsedCsvTransaction, SageDimensionTag, SageTaxRate } from '@/types/sage';
+import { ApiIntegrationPanel } from '@/components/developer/ApiIntegrationPanel';
+import { ColumnMappingStep } from '@/components/transactions/ColumnMappingStep';
+import { ReconciliationSummaryPanel } from '@/components/reconciliation/ReconciliationSummaryPanel';
+import { bankService } from '@/services/bankService';
+import { transactionService } from '@/services/transactionService';
+import { dimensionService } from '@/services/dimensionService';
+import { taxService } from '@/services/taxService';
+import { configManager } from '@/lib/configManager';
+import { BASE_CURRENCY, applyExchangeRate, formatCurrency, getExchangeRate, isBaseCurrency } from '@/lib/currency';
+import { applyTaxRates, getUnknownTaxCodes, resolveTaxCode } from '@/lib/vat';
+import { applyLedgerMappings } from '@/lib/ledgerMapping';
+import { applyCategorisationRules } from '@/lib/categorisationRules';
+import { getTransactionLines } from '@/lib/splitTransactions';
+import { hasDimensionValue } from '@/lib/dimensionAllocations';
+import { describePostedJournal, getRetiredIdempotencyKeys } from '@/lib/journalCorrections';
+import { resolveDimensionTags } from '@/lib/dimensionTags';
+import { CsvTable, readCsvTable, isStandardLayout } from '@/lib/import/columnMapping';
+import { DuplicateCandidate } from '@/lib/import/duplicates';
+import {
+  StatementBalances,
+  STATEMENT_FILE_ACCEPT,
+  STATEMENT_FORMAT_LABELS,
+  detectStatementFormat,
+  parseStatement,
+} from '@/lib/import/statement';
+import {
+  ReconciliationMatch,
+  autoMatch,
+  getManualMatchOptions,
+  getReconciliationSearchRange,
+  getStatementPeriod,
+  summariseReconciliation,
+  toReconciliationCandidates,
+} from '@/lib/reconciliation';
+
+const METHOD_LABELS: Record<ReconciliationMatch['method'], string> = {
+  auto: 'Auto',
+  manual: 'Manual',
+  created: 'Created',
+};
+
+export default function Reconciliation() {
+  const {
+    bankAccounts,
+    transactions,
+    activeTenantId,
+    getActiveTenant,
+    credentials,
+    requiredDimensions,
+    categoryMappings,
+    categorisationRules,
+    journalAudit,
+    addTransactions,
+  } = useApp();
+  const { isDeveloperMode } = useDeveloperMode();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [selectedAccountId, setSelectedAccountId] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [mappingFile, setMappingFile] = useState<{ name: string; table: CsvTable } | null>(null);
+  const [lines, setLines] = useState<ParsedCsvTransaction[]>([]);
+  const [balances, setBalances] = useState<StatementBalances | null>(null);
+  const [closingBalanceText, setClosingBalanceText] = useState('');
+  const [journals, setJournals] = useState<DuplicateCandidate[]>([]);
+  const [hasJournals, setHasJournals] = useState(false);
+  const [sageBalance, setSageBalance] = useState<number | null>(null);
+  const [balanceError, setBalanceError] = useState<string | null>(null);
+  const [matches, setMatches] = useState<ReconciliationMatch[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [creatingRow, setCreatingRow] = useState<number | null>(null);
+
+  const activeTenant = getActiveTenant();
+  const tenantAccounts = bankAccounts.filter(a => a.tenantId === activeTenantId);
+  const tenantCategoryMappings = categoryMappings.filter(m => m.tenantId === activeTenantId);
+  const tenantRules = categorisationRules.filter(r => r.tenantId === activeTenantId);
+  const selectedAccount = tenantAccounts.find(a => a.id === selectedAccountId);
+  const accountCurrency = selectedAccount?.currencyISO || BASE_CURRENCY;
+  const formatMoney = (amount: number) => formatCurrency(amount, accountCurrency);
+
+  const validLines = lines.filter(l => !l.validationErrors?.length);
+  const period = getStatementPeriod(validLines, balances);
+  const closingBalance = closingBalanceText.trim() === '' ? NaN : Number(closingBalanceText);
+
+  // Sage doesn't hold descriptions, so journals posted from this app borrow theirs
+  const localByJournalId = useMemo(
+    () => new Map(
+      transactions
+        .filter(t => t.tenantId === activeTenantId && t.journalId)
+        .map(t => [t.journalId!, t])
+    ),
+    [transactions, activeTenantId]
+  );
+
+  const journalById = useMemo(() => new Map(journals.map(j => [j.id, j])), [journals]);
+  const matchByRow = useMemo(() => new Map(matches.map(m => [m.rowIndex, m])), [matches]);
+  const matchedJournalIds = new Set(matches.map(m => m.journalId));
+  const unmatchedJournals = period
+    ? journals.filter(j => !matchedJournalIds.has(j.id) && j.date >= period.startDate && j.date <= period.endDate)
+    : [];
+
+  const summary = period && Number.isFinite(closingBalance) && sageBalance !== null
+    ? summariseReconciliation(validLines, journals, matches, period, closingBalance, sageBalance)
+    : null;
+
+  // A statement belongs to one account of one tenant
+  useEffect(() => {
+    clearStatement();
+  }, [activeTenantId, selectedAccountId]);
+
+  const clearStatement = () => {
+    setLines([]);
+    setBalances(null);
+    setClosingBalanceText('');
+    setJournals([]);
+    setHasJournals(false);
+    setSageBalance(null);
+    setBalanceError(null);
+    setMatches([]);
+    setMappingFile(null);
+    setFileName('');
+  };
+
+  /**
+   * The account's balance in Sage, or null with the error shown. Reconciling
+   * against the app's own copy of the balance could hide a difference.
+   */
+  const loadSageBalance = async (): Promise<number | null> => {
+    try {
+      const accounts = await bankService.getBankAccounts(activeTenantId!, credentials!);
+      const account = accounts.find(a => a.id === selectedAccountId);
+      if (!account) throw new Error('Sage did not return this bank account.');
+      setBalanceError(null);
+      return account.balance;
+    } catch (error) {
+      setBalanceError(error instanceof Error ? error.message : "Could not fetch the account's balance from Sage.");
+      return null;
+    }
+  };
+
+  /**
+   * Fetches the account's journals from just before the statement to today and
+   * its balance in Sage, then matches automatically, keeping earlier manual matches
+   */
+  const loadSageData = async (
+    statementLines: ParsedCsvTransaction[],
+    statementBalances: StatementBalances | null,
+    existing: ReconciliationMatch[]
+  ) => {
+    if (!activeTenantId || !credentials || !selectedAccountId) return;
+    const statementPeriod = getStatementPeriod(statementLines.filter(l => !l.validationErrors?.length), statementBalances);
+    if (!statementPeriod) return;
+
+    setIsLoading(true);
+    try {
+      const range = getReconciliationSearchRange(statementPeriod);
+      const [entries, balance] = await Promise.all([
+        bankService.getAccountTransactions(activeTenantId, selectedAccountId, range.startDate, range.endDate, credentials),
+        loadSageBalance(),
+      ]);
+
+      const candidates = toReconciliationCandidates(entries, credentials.bankOpeningBalanceJournalCode).map(c => ({
+        ...c,
+        description: localByJournalId.get(c.id)?.description,
+      }));
+
+      setJournals(candidates);
+      setHasJournals(true);
+      setSageBalance(balance);
+      // Matches to journals that have since gone are dropped
+      const ids = new Set(candidates.map(c => c.id));
+      setMatches(autoMatch(statementLines, candidates, existing.filter(m => ids.has(m.journalId))));
+    } catch (error) {
+      toast({
+        title: "Failed to load journals",
+        description: error instanceof Error ? error.message : "Could not fetch the account's journals from Sage.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadDimensionTags = async (): Promise<Record<string, SageDimensionTag[]>> => {
+    if (!activeTenantId || !credentials || requiredDimensions.length === 0) return {};
+    const tagMap: Record<string, SageDimensionTag[]> = {};
+    try {
+      await Promise.all(
+        requiredDimensions.map(async (dim) => {
+          const tags = await dimensionService.getDimensionTags(activeTenantId, dim.id, credentials);
+          tagMap[dim.code] = (Array.isArray(tags) ? tags : []).filter(t => t.IsActive);
+        })
+      );
+    } catch {
+      // Tag values stay unresolved; lines that need them can't be created here
+    }
+    return tagMap;
+  };
+
+  const showStatement = async (rows: ParsedCsvTransaction[], statementBalances: StatementBalances | null = null) => {
+    const parsed = resolveDimensionTags(applyCategorisationRules(rows, tenantRules), await loadDimensionTags());
+    const invalidCount = parsed.filter(tx => tx.validationErrors?.length).length;
+
+    setLines(parsed);
+    setBalances(statementBalances);
+    setClosingBalanceText(statementBalances?.closing ? statementBalances.closing.amount.toFixed(2) : '');
+    setMatches([]);
+
+    if (invalidCount > 0) {
+      toast({
+        title: "Some lines can't be read",
+        description: `${invalidCount} of ${parsed.length} line(s) have errors and are left out of the reconciliation.`,
+        variant: "destructive",
+      });
+    }
+
+    await loadSageData(parsed, statementBalances, []);
+  };
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file || !selectedAccountId || !activeTenantId) return;
+
+    setFileName(file.name);
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const text = e.target?.result as string;
+      const format = detectStatementFormat(file.name, text);
+
+      if (format === 'csv') {
+        let table: CsvTable;
+        try {
+          table = readCsvTable(text);
+        } catch (error) {
+          toast({
+            title: `Invalid ${STATEMENT_FORMAT_LABELS[format]} file`,
+            description: error instanceof Error ? error.message : 'The file could not be read.',
+            variant: "destructive",
+          });
+          return;
+        }
+
+        // Bank exports in other layouts go through the column mapping step first
+        if (table.headers.length > 0 && table.rows.length > 0 && !isStandardLayout(table)) {
+          setMappingFile({ name: file.name, table });
+          setLines([]);
+          return;
+        }
+      }
+
+      const { transactions: parsed, fileErrors, balances: statementBalances } = parseStatement(format, text, requiredDimensions);
+
+      if (fileErrors.length > 0) {
+        toast({
+          title: `Invalid ${STATEMENT_FORMAT_LABELS[format]} file`,
+          description: fileErrors.join(' '),
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (parsed.length === 0) {
+        toast({
+          title: "No valid transactions",
+          description: "The file doesn't contain any valid transaction rows.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      showStatement(parsed, statementBalances ?? null);
+    };
+    reader.readAsText(file);
+
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleMappingApplied = (parsed: ParsedCsvTransaction[]) => {
+    setMappingFile(null);
+    showStatement(parsed);
+  };
+
+  const handleManualMatch = (rowIndex: number, journalId: string) => {
+    setMatches(prev => [...prev.filter(m => m.rowIndex !== rowIndex && m.journalId !== journalId), { rowIndex, journalId, method: 'manual' }]);
+  };
+
+  const handleUnmatch = (rowIndex: number) => {
+    setMatches(prev => prev.filter(m => m.rowIndex !== rowIndex));
+  };
+
+  /**
+   * Posts a statement line missing from Sage the way an import would: rules and
+   * category mappings, tax codes and the account's exchange rate all apply
+   */
+  const handleCreateEntry = async (line: ParsedCsvTransaction) => {
+    if (!activeTenantId || !credentials || !selectedAccountId) return;
+
+    const untagged = requiredDimensions.filter(dim => !getTransactionLines(line).every(l => hasDimensionValue(l, dim.code)));
+    if (untagged.length > 0) {
+      toast({
+        title: "Dimension tags needed",
+        description: `This line has no ${untagged.map(d => d.name).join(', ')} tag. Post it from Transactions, where it can be tagged.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const rate = getExchangeRate(accountCurrency);
+    if (!isBaseCurrency(accountCurrency) && !rate) {
+      toast({
+        title: "Exchange rate needed",
+        description: `Set the ${accountCurrency} exchange rate on the Transactions page first.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setCreatingRow(line.rowIndex);
+    try {
+      let rates: SageTaxRate[] = [];
+      if (getTransactionLines(line).some(l => resolveTaxCode(l, tenantCategoryMappings))) {
+        rates = await taxService.getTaxRates(activeTenantId, credentials);
+        const unknown = getUnknownTaxCodes([line], tenantCategoryMappings, rates);
+        if (unknown.length > 0) {
+          throw new Error(`${unknown.join(', ')} ${unknown.length === 1 ? 'is' : 'are'} not set up in Sage for this tenant.`);
+        }
+      }
+
+      const [keyed] = await transactionService.assignIdempotencyKeys(
+        activeTenantId,
+        selectedAccountId,
+        [line],
+        '',
+        getRetiredIdempotencyKeys(transactions, journalAudit)
+      );
+      const [prepared] = applyExchangeRate(
+        applyTaxRates(
+          applyLedgerMappings([keyed], tenantCategoryMappings),
+          tenantCategoryMappings,
+          rates,
+          configManager.getVatRounding()
+        ),
+        accountCurrency,
+        rate
+      );
+
+      const response = await transactionService.createTransaction(
+        activeTenantId,
+        selectedAccountId,
+        prepared,
+        requiredDimensions,
+        credentials
+      );
+      const journalId = response.Id || response.id || '';
+
+      addTransactions([{
+        tenantId: activeTenantId,
+        bankAccountId: selectedAccountId,
+        type: prepared.type,
+        date: prepared.date,
+        description: prepared.description,
+        reference: prepared.reference,
+        amount: prepared.amount,
+        category: prepared.category || 'Uncategorized',
+        journalId,
+        idempotencyKey: prepared.idempotencyKey,
+        ...describePostedJournal(prepared),
+        ...(prepared.currency ? { currency: prepared.currency, baseAmount: prepared.baseAmount } : {}),
+      }]);
+
+      toast({
+        title: "Entry created",
+        description: `${prepared.reference || prepared.description} posted to Sage and matched to the statement line.`,
+      });
+
+      await loadSageData(lines, balances, [
+        ...matches.filter(m => m.rowIndex !== line.rowIndex),
+        { rowIndex: line.rowIndex, journalId, method: 'created' },
+      ]);
+    } catch (error) {
+      toast({
+        title: "Entry not created",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive",
+      });
+    } finally {
+      setCreatingRow(null);
+    }
+  };
+
+  if (!activeTenantId) {
+    return (
+      <MainLayout>
+        <div className="animate-fade-in">
+          <div className="page-header">
+            <h1 className="page-title">Reconciliation</h1>
+          </div>
+
+          <div className="bg-warning/10 border border-warning/30 rounded-lg p-6 flex items-start gap-4">
+            <AlertCircle className="w-6 h-6 text-warning flex-shrink-0" />
+            <div>
+              <h3 className="font-medium text-foreground">No tenant selected</h3>
+              <p className="text-muted-foreground mt-1">
+                Please select a tenant from the Tenants page to reconcile its bank accounts.
+              </p>
+            </div>
+          </div>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout>
+      <div className="animate-fade-in">
+        <div className="page-header">
+          <h1 className="page-title">Reconciliation</h1>
+          <p className="page-description">
+            Match a bank statement against the account's journals in {activeTenant?.name}
+          </p>
+        </div>
+
+        {/* Statement */}
+        <div className="bg-card rounded-xl border border-border p-6 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label>Bank Account</Label>
+              <Select value={selectedAccountId} onValueChange={setSelectedAccountId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select an account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {tenantAccounts.map(account => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.name} ({account.currencyISO})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="closing-balance">Statement Closing Balance</Label>
+              <Input
+                id="closing-balance"
+                inputMode="decimal"
+                value={closingBalanceText}
+                onChange={(e) => setClosingBalanceText(e.target.value)}
+                placeholder={balances?.closing ? undefined : 'From the statement'}
+                disabled={lines.length === 0}
+              />
+            </div>
+            <div className="flex gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={STATEMENT_FILE_ACCEPT}
+                onChange={handleFileUpload}
+                className="hidden"
+              />
+              <Button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={!selectedAccountId || isLoading}
+                className="flex-1"
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                Load Statement
+              </Button>
+              {lines.length > 0 && (
+                <Button
+                  variant="outline"
+                  onClick={() => loadSageData(lines, balances, matches)}
+                  disabled={isLoading}
+                  title="Fetch the journals again and re-run automatic matching"
+                >
+                  {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                </Button>
+              )}
+            </div>
+          </div>
+          {tenantAccounts.length === 0 && (
+            <p className="text-sm text-muted-foreground mt-3">
+              This tenant has no bank accounts yet. Create one from the Bank Accounts page.
+            </p>
+          )}
+          {fileName && lines.length > 0 && (
+            <p className="text-sm text-muted-foreground mt-3">
+              {fileName}: {validLines.length} line(s){period ? `, ${period.startDate} to ${period.endDate}` : ''}
+            </p>
+          )}
+        </div>
+
+        {mappingFile && (
+          <ColumnMappingStep
+            table={mappingFile.table}
+            fileName={mappingFile.name}
+            dimensions={requiredDimensions}
+            onApply={handleMappingApplied}
+            onCancel={() => setMappingFile(null)}
+          />
+        )}
+
+        {balanceError && lines.length > 0 && (
+          <p className="flex items-center gap-2 text-sm text-destructive mb-6">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            Couldn't load the account's balance from Sage: {balanceError} The difference is shown once it loads; refresh to try again.
+          </p>
+        )}
+        {summary && (
+          <ReconciliationSummaryPanel summary={summary} currency={accountCurrency} lineCount={validLines.length} />
+        )}
+        {lines.length > 0 && !Number.isFinite(closingBalance) && (
+          <p className="flex items-center gap-2 text-sm text-warning mb-6">
+            <AlertCircle className="w-4 h-4" />
+            Enter the statement's closing balance to see the reconciled difference.
+          </p>
+        )}
+
+        {/* Statement lines */}
+        {validLines.length > 0 && (
+          <div className="bg-card rounded-xl border border-border overflow-hidden mb-6">
+            <div className="p-4 border-b border-border bg-muted/50 flex items-center justify-between">
+              <h2 className="section-title">Statement Lines</h2>
+              <span className="text-sm text-muted-foreground">
+                {matches.length} of {validLines.length} matched
+              </span>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="data-table">
+                <thead>
+                  <tr className="bg-muted/30">
+                    <th>Date</th>
+                    <th>Description</th>
+                    <th>Reference</th>
+                    <th className="text-right">Amount</th>
+                    <th>Journal in Sage</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {validLines.map(line => {
+                    const match = matchByRow.get(line.rowIndex);
+                    const journal = match ? journalById.get(match.journalId) : undefined;
+                    const options = match ? [] : getManualMatchOptions(line, journals, matches);
+
+                    return (
+                      <tr key={line.rowIndex} className={cn(!match && "bg-warning/5")}>
+                        <td className="whitespace-nowrap">{line.date}</td>
+                        <td>{line.description}</td>
+                        <td className="font-mono text-sm">{line.reference || '—'}</td>
+                        <td className="text-right whitespace-nowrap">
+                          <span className={cn(
+                            "inline-flex items-center gap-1 font-medium",
+                            line.type === 'receipt' ? "text-success" : "text-destructive"
+                          )}>
+                            {line.type === 'receipt'
+                              ? <ArrowDownLeft className="w-3 h-3" />
+                              : <ArrowUpRight className="w-3 h-3" />}
+                            {formatMoney(line.amount)}
+                          </span>
+                        </td>
+                        <td>
+                          {match ? (
+                            <div className="flex items-center gap-2">
+                              <Link2 className="w-4 h-4 text-success flex-shrink-0" />
+                              <div className="text-sm">
+                                {journal ? `${journal.reference || 'No reference'}, ${journal.date}` : match.journalId.slice(0, 8)}
+                                {journal && journal.amount !== line.amount && (
+                                  <div className="text-xs text-warning">{formatMoney(journal.amount)} in Sage</div>
+                                )}
+                              </div>
+                              <Badge variant={match.method === 'auto' ? 'outline' : 'secondary'}>
+                                {METHOD_LABELS[match.method]}
+                              </Badge>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleUnmatch(line.rowIndex)}
+                                title="Unmatch"
+                              >
+                                <Unlink className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          ) : (
+                            <div className="flex items-center gap-2">
+                              <Select
+                                value=""
+                                onValueChange={(journalId) => handleManualMatch(line.rowIndex, journalId)}
+                                disabled={options.length === 0}
+                              >
+                                <SelectTrigger className="w-56 h-8 text-xs">
+                                  <SelectValue placeholder={options.length > 0 ? 'Match to a journal…' : 'No journals to match'} />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {options.map(option => (
+                                    <SelectItem key={option.id} value={option.id}>
+                                      {option.date} · {option.reference || 'No reference'} · {formatMoney(option.amount)}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleCreateEntry(line)}
+                                disabled={creatingRow !== null || isLoading}
+                              >
+                                {creatingRow === line.rowIndex
+                                  ? <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                                  : <Plus className="w-4 h-4 mr-1" />}
+                                Create in Sage
+                              </Button>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {/* Journals in the period that aren't on the statement */}
+        {period && hasJournals && (
+          <div className="bg-card rounded-xl border border-border overflow-hidden mb-6">
+            <div className="p-4 border-b border-border bg-muted/50 flex items-center justify-between">
+              <h2 className="section-title">Journals Not on the Statement</h2>
+              <span className="text-sm text-muted-foreground">{unmatchedJournals.length} journal(s)</span>
+            </div>
+            {unmatchedJournals.length === 0 ? (
+              <p className="p-4 text-sm text-muted-foreground">
+                Every journal dated within the statement period is matched to a line.
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="data-table">
+                  <thead>
+                    <tr className="bg-muted/30">
+                      <th>Date</th>
+                      <th>Reference</th>
+                      <th>Description</th>
+                      <th className="text-right">Amount</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {unmatchedJournals.map(journal => (
+                      <tr key={journal.id}>
+                        <td className="whitespace-nowrap">{journal.date}</td>
+                        <td className="font-mono text-sm">{journal.reference || '—'}</td>
+                        <td className="text-muted-foreground">{journal.description || '—'}</td>
+                        <td className={cn(
+                          "text-right font-medium whitespace-nowrap",
+                          journal.type === 'receipt' ? "text-success" : "text-destructive"
+                        )}>
+                          {journal.type === 'receipt' ? '+' : '−'}{formatMoney(journal.amount)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* API Integration Panel - Only visible in Developer Mode */}
+        {isDeveloperMode && (
+          <div className="mt-8">
+            <ApiIntegrationPanel featureArea="bank-accounts" />
+          </div>
+        )}
+      </div>
+    </MainLayout>
+  );
+}
@@ -25,6 +25,7 @@ import {
   TabsTrigger,
 } from '@/components/ui/tabs';
 import { cn } from '@/lib/utils';
+import { formatCurrency } from '@/lib/currency';
 import { ApiIntegrationPanel } from '@/components/developer/ApiIntegrationPanel';
 import { reportingService } from '@/services/reportingService';
 import { useToast } from '@/hooks/use-toast';
@@ -70,9 +71,9 @@ function formatCellValue(cell: ReportCell): string {
     const num = parseFloat(val);
     if (isNaN(num)) return val;
     if (cell.Formatting.Color === 'EnclosedError') {
-      return `(£${Math.abs(num).toLocaleString('en-GB', { minimumFractionDigits: 2 })})`;
+      return `(${formatCurrency(Math.abs(num))})`;
     }
-    return `£${num.toLocaleString('en-GB', { minimumFractionDigits: 2 })}`;
+    return formatCurrency(num);
   }
   if (cell.Formatting?.Type === 'Percentage') {
     return `${val}%`;
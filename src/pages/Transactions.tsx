@@ -1,8 +1,12 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { useApp } from '@/contexts/AppContext';
 import { useDeveloperMode } from '@/contexts/DeveloperModeContext';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import { 
   Upload, 
   FileText,
@@ -13,7 +17,17 @@ import {
   ArrowDownLeft,
   ArrowUpRight,
   Loader2,
-  Send
+  Send,
+  Trash2,
+  Copy,
+  SearchCheck,
+  ShieldCheck,
+  Split,
+  Percent,
+  Wand2,
+  ClipboardPaste,
+  Pencil,
+  Ban
 } from 'lucide-react';
 import {
   Select,
@@ -24,10 +38,60 @@ import {
 } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
-import { BankTransaction, CsvUploadResult, ParsedCsvTransaction, SageDimensionTag } from '@/types/sage';
+import { CsvUploadResult, DimensionAllocation, ParsedCsvTransaction, SageDimensionTag, SageTaxRate, TransactionSplit } from '@/types/sage';
 import { ApiIntegrationPanel } from '@/components/developer/ApiIntegrationPanel';
 import { transactionService } from '@/services/transactionService';
+import { UploadBatchesPanel } from '@/components/transactions/UploadBatchesPanel';
+import { UploadProgress } from '@/components/transactions/UploadProgress';
+import { configManager } from '@/lib/configManager';
+import { MAX_CONCURRENCY, MIN_CONCURRENCY } from '@/lib/workerPool';
+import {
+  UploadBatch,
+  createUploadBatch,
+  deleteUploadBatch,
+  getUploadBatches,
+  saveUploadBatch,
+  summariseUploadBatch,
+  toCsvUploadResult,
+} from '@/lib/uploadBatches';
 import { dimensionService } from '@/services/dimensionService';
+import { bankService } from '@/services/bankService';
+import { financialService } from '@/services/financialService';
+import { taxService } from '@/services/taxService';
+import { BASE_CURRENCY, applyExchangeRate, formatCurrency, getExchangeRate, isBaseCurrency, setExchangeRate, toBaseAmount } from '@/lib/currency';
+import { applyTaxRates, calculateVatFromGross, findTaxRate, getUnknownTaxCodes, resolveTaxCode } from '@/lib/vat';
+import { ValidationReportPanel } from '@/components/transactions/ValidationReportPanel';
+import { TransactionValidationReport } from '@/lib/transactionValidation';
+import { applyLedgerMappings, findLedgerMapping } from '@/lib/ledgerMapping';
+import { applyCategorisationRules } from '@/lib/categorisationRules';
+import { getTransactionLines } from '@/lib/splitTransactions';
+import { SplitEditorDialog } from '@/components/transactions/SplitEditorDialog';
+import { DimensionAllocationDialog } from '@/components/transactions/DimensionAllocationDialog';
+import { describeDimensionValue, hasDimensionValue, withoutAllocation } from '@/lib/dimensionAllocations';
+import { applyTagToRows, copyFromPreviousRow, fillDown, setDimensionTag } from '@/lib/bulkDimensionTags';
+import { countUnresolvedDimensions, resolveDimensionTags, withoutUnresolved } from '@/lib/dimensionTags';
+import { BulkTagToolbar } from '@/components/transactions/BulkTagToolbar';
+import { JournalActionDialog, JournalAction, JournalActionRequest } from '@/components/transactions/JournalActionDialog';
+import { JournalAuditPanel } from '@/components/transactions/JournalAuditPanel';
+import { getRetiredIdempotencyKeys, isJournalVoid } from '@/lib/journalCorrections';
+import { ColumnMappingStep } from '@/components/transactions/ColumnMappingStep';
+import { CsvTable, readCsvTable, isStandardLayout } from '@/lib/import/columnMapping';
+import { StatementBalancePanel } from '@/components/transactions/StatementBalancePanel';
+import {
+  StatementBalances,
+  STATEMENT_FILE_ACCEPT,
+  STATEMENT_FORMAT_LABELS,
+  detectStatementFormat,
+  parseStatement,
+} from '@/lib/import/statement';
+import {
+  DuplicateCandidate,
+  findDuplicates,
+  fromBankTransaction,
+  fromJournalEntry,
+  getDuplicateSearchRange,
+  mergeCandidates,
+} from '@/lib/import/duplicates';
 
 const SAMPLE_CSV = `date,type,description,reference,amount,category
 2024-01-15,receipt,Client Payment - ABC Corp,INV-001,5000.00,Sales
@@ -46,6 +110,9 @@ export default function Transactions() {
     getActiveTenant,
     credentials,
     requiredDimensions,
+    categoryMappings,
+    categorisationRules,
+    journalAudit,
   } = useApp();
   const { isDeveloperMode } = useDeveloperMode();
   const { toast } = useToast();
@@ -58,10 +125,47 @@ export default function Transactions() {
   const [parsedTransactions, setParsedTransactions] = useState<ParsedCsvTransaction[]>([]);
   const [dimensionTags, setDimensionTags] = useState<Record<string, SageDimensionTag[]>>({}); // dimensionId -> tags
   const [isLoadingTags, setIsLoadingTags] = useState(false);
+  const [mappingFile, setMappingFile] = useState<{ name: string; table: CsvTable } | null>(null);
+  const [statementBalances, setStatementBalances] = useState<StatementBalances | null>(null);
+  const [isCheckingDuplicates, setIsCheckingDuplicates] = useState(false);
+  const [idempotencySalt, setIdempotencySalt] = useState('');
+  const [sourceFileName, setSourceFileName] = useState('');
+  const [uploadBatches, setUploadBatches] = useState<UploadBatch[]>([]);
+  const [activeBatchId, setActiveBatchId] = useState<string | null>(null);
+  const [concurrency, setConcurrency] = useState(configManager.getUploadConcurrency());
+  const [postAsDraft, setPostAsDraft] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<{
+    total: number;
+    completed: number;
+    failed: number;
+    startedAt: number;
+  } | null>(null);
+  const [isPausing, setIsPausing] = useState(false);
+  const [validationReport, setValidationReport] = useState<TransactionValidationReport | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+  const [splitRowIndex, setSplitRowIndex] = useState<number | null>(null);
+  const [taxRates, setTaxRates] = useState<SageTaxRate[] | null>(null);
+  const [exchangeRateText, setExchangeRateText] = useState('');
+  const [allocationTarget, setAllocationTarget] = useState<{ rowIndex: number; dimensionCode: string } | null>(null);
+  const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set());
+  const [journalAction, setJournalAction] = useState<JournalActionRequest | null>(null);
+  const uploadAbortRef = useRef<AbortController | null>(null);
+  const tagTableRef = useRef<HTMLTableElement>(null);
+  const lastToggledRowRef = useRef<number | null>(null);
 
   const activeTenant = getActiveTenant();
   const tenantAccounts = bankAccounts.filter(a => a.tenantId === activeTenantId);
   const tenantTransactions = transactions.filter(t => t.tenantId === activeTenantId);
+  const tenantCategoryMappings = categoryMappings.filter(m => m.tenantId === activeTenantId);
+  const tenantRules = categorisationRules.filter(r => r.tenantId === activeTenantId);
+  const tenantJournalAudit = journalAudit.filter(e => e.tenantId === activeTenantId);
+  const selectedAccount = tenantAccounts.find(a => a.id === selectedAccountId);
+  const accountCurrency = selectedAccount?.currencyISO || BASE_CURRENCY;
+  const isForeignCurrency = !isBaseCurrency(accountCurrency);
+  const exchangeRate = Number(exchangeRateText) > 0 ? Number(exchangeRateText) : undefined;
+  const formatMoney = (amount: number, options?: { signed?: boolean }) => formatCurrency(amount, accountCurrency, options);
+  const usesTaxCodes = (rows: ParsedCsvTransaction[]) =>
+    rows.some(tx => getTransactionLines(tx).some(line => resolveTaxCode(line, tenantCategoryMappings)));
 
   // Load dimension tags when required dimensions change or tenant changes
   useEffect(() => {
@@ -70,6 +174,30 @@ export default function Transactions() {
     }
   }, [requiredDimensions, activeTenantId]);
 
+  // Load persisted upload batches for the tenant
+  useEffect(() => {
+    if (!activeTenantId) {
+      setUploadBatches([]);
+      return;
+    }
+    getUploadBatches(activeTenantId).then(setUploadBatches);
+  }, [activeTenantId]);
+
+  // Start from the saved rate whenever the account's currency changes
+  useEffect(() => {
+    setExchangeRateText(isBaseCurrency(accountCurrency) ? '' : String(getExchangeRate(accountCurrency) ?? ''));
+  }, [accountCurrency]);
+
+  // Tax rates belong to a tenant
+  useEffect(() => {
+    setTaxRates(null);
+  }, [activeTenantId]);
+
+  // A validation report is only good for the rows and account it checked
+  useEffect(() => {
+    setValidationReport(null);
+  }, [parsedTransactions, selectedAccountId]);
+
   const loadDimensionTags = async () => {
     if (!activeTenantId || !credentials) return;
     setIsLoadingTags(true);
@@ -82,6 +210,8 @@ export default function Transactions() {
         })
       );
       setDimensionTags(tagMap);
+      // Tag values from a file read before the tags arrived can be matched now
+      setParsedTransactions(prev => resolveDimensionTags(prev, tagMap));
     } catch (error: any) {
       toast({
         title: "Failed to load dimension tags",
@@ -93,54 +223,248 @@ export default function Transactions() {
     }
   };
 
+  const showParsedTransactions = (rows: ParsedCsvTransaction[], balances: StatementBalances | null = null) => {
+    const parsed = resolveDimensionTags(applyCategorisationRules(rows, tenantRules), dimensionTags);
+    const invalidCount = parsed.filter(tx => tx.validationErrors?.length).length;
+    const ruleCount = parsed.filter(tx => tx.categorisationRuleId).length;
+
+    setParsedTransactions(parsed);
+    setSelectedRows(new Set());
+    setStatementBalances(balances);
+    setUploadResults([]);
+    toast({
+      title: "File parsed",
+      description: invalidCount > 0
+        ? `${parsed.length} row(s) read, ${invalidCount} with errors. Fix or remove them before submitting.`
+        : `${parsed.length} transaction(s) ready${ruleCount > 0 ? `, ${ruleCount} filled in by rules` : ''}. Please select dimension tags before submitting.`,
+      variant: invalidCount > 0 ? "destructive" : "default",
+    });
+
+    checkForDuplicates(parsed);
+    if (usesTaxCodes(parsed)) loadTaxRates();
+  };
+
+  /**
+   * Fetches the tenant's tax rates; null when they couldn't be loaded
+   */
+  const loadTaxRates = async (): Promise<SageTaxRate[] | null> => {
+    if (!activeTenantId || !credentials) return null;
+    try {
+      const rates = await taxService.getTaxRates(activeTenantId, credentials);
+      setTaxRates(rates);
+      return rates;
+    } catch {
+      setTaxRates(null);
+      return null;
+    }
+  };
+
+  const checkForDuplicates = async (rows: ParsedCsvTransaction[]) => {
+    if (!activeTenantId || !selectedAccountId) return;
+
+    setIsCheckingDuplicates(true);
+    try {
+      const local = tenantTransactions
+        // Voided journals no longer count, so a corrected line can be posted again
+        .filter(t => t.bankAccountId === selectedAccountId && !t.voidedAt)
+        .map(fromBankTransaction);
+
+      let remote: DuplicateCandidate[] = [];
+      const range = getDuplicateSearchRange(rows);
+      if (range && credentials?.clientId && credentials?.clientSecret) {
+        try {
+          const entries = await bankService.getAccountTransactions(
+            activeTenantId,
+            selectedAccountId,
+            range.startDate,
+            range.endDate,
+            credentials
+          );
+          remote = entries.filter(e => !isJournalVoid(e.Status)).map(fromJournalEntry);
+        } catch (error) {
+          toast({
+            title: "Could not check Sage for duplicates",
+            description: `${error instanceof Error ? error.message : 'Request failed.'} Only transactions recorded in this app were checked.`,
+            variant: "destructive",
+          });
+        }
+      }
+
+      const matches = findDuplicates(rows, mergeCandidates(local, remote));
+      setParsedTransactions(prev =>
+        prev.map(tx =>
+          matches[tx.rowIndex]
+            ? { ...tx, duplicate: matches[tx.rowIndex], duplicateAction: tx.duplicateAction ?? 'skip' }
+            : { ...tx, duplicate: undefined, duplicateAction: undefined }
+        )
+      );
+    } finally {
+      setIsCheckingDuplicates(false);
+    }
+  };
+
+  /**
+   * Validate only: builds every request body and checks it against Sage
+   * without posting anything
+   */
+  const handleValidateOnly = async () => {
+    if (!activeTenantId || !credentials || !selectedAccountId) return;
+    if (!hasApiCredentials()) return;
+
+    setIsValidating(true);
+    try {
+      const checkTax = usesTaxCodes(transactionsToSubmit);
+      const [years, accounts, rates] = await Promise.allSettled([
+        financialService.getFinancialYears(activeTenantId, credentials),
+        bankService.getBankAccounts(activeTenantId, credentials),
+        checkTax ? taxService.getTaxRates(activeTenantId, credentials) : Promise.resolve([]),
+      ]);
+      const fetchedRates = rates.status === 'fulfilled' ? rates.value : null;
+
+      const report = transactionService.validateTransactions(
+        selectedAccountId,
+        applyExchangeRate(
+          applyTaxRates(
+            applyLedgerMappings(transactionsToSubmit, tenantCategoryMappings),
+            tenantCategoryMappings,
+            fetchedRates || [],
+            configManager.getVatRounding()
+          ),
+          accountCurrency,
+          exchangeRate
+        ),
+        requiredDimensions,
+        credentials,
+        {
+          financialYears: years.status === 'fulfilled' ? years.value : null,
+          bankAccounts: accounts.status === 'fulfilled' ? accounts.value : null,
+          ...(checkTax ? { taxRates: fetchedRates } : {}),
+        },
+        tenantCategoryMappings.length > 0
+      );
+      setValidationReport(report);
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const renderLedgerAccount = (tx: ParsedCsvTransaction) =>
+    getTransactionLines(tx).map((line, i) => {
+      // A rule's account only applies to the row as a whole, not its split lines
+      const ruleAccount = !tx.splits?.length
+        ? tenantRules.find(r => r.id === tx.categorisationRuleId)?.actions.ledgerAccount
+        : undefined;
+      const mapping = findLedgerMapping(tenantCategoryMappings, line.category);
+      return (
+        <div key={i} className={cn(i > 0 && "mt-1")}>
+          {ruleAccount ? (
+            <span className="font-mono">{ruleAccount.code} {ruleAccount.name}</span>
+          ) : mapping ? (
+            <span className="font-mono">{mapping.ledgerAccountCode} {mapping.ledgerAccountName}</span>
+          ) : (
+            <span className="text-muted-foreground">Journal default</span>
+          )}
+          <div className="text-xs text-muted-foreground">{line.category || 'No category'}</div>
+        </div>
+      );
+    });
+
+  const renderVat = (tx: ParsedCsvTransaction) =>
+    getTransactionLines(tx).map((line, i) => {
+      const code = resolveTaxCode(line, tenantCategoryMappings);
+      const rate = taxRates ? findTaxRate(taxRates, code) : undefined;
+      return (
+        <div key={i} className={cn(i > 0 && "mt-1")}>
+          {!code ? (
+            <span className="text-muted-foreground">No VAT</span>
+          ) : rate ? (
+            <>
+              <span className="font-mono">{rate.Code}</span>
+              <div className="text-xs text-muted-foreground">
+                {formatMoney(calculateVatFromGross(line.amount, rate.Percentage, configManager.getVatRounding()).vat)} VAT
+              </div>
+            </>
+          ) : (
+            <>
+              <span className="font-mono">{code}</span>
+              <div className={cn("text-xs", taxRates ? "text-destructive" : "text-muted-foreground")}>
+                {taxRates ? 'Unknown tax code' : 'Tax rates not loaded'}
+              </div>
+            </>
+          )}
+        </div>
+      );
+    });
+
+  const handleDuplicateAction = (rowIndex: number | null, action: 'skip' | 'keep') => {
+    setParsedTransactions(prev =>
+      prev.map(tx =>
+        tx.duplicate && (rowIndex === null || tx.rowIndex === rowIndex)
+          ? { ...tx, duplicateAction: action }
+          : tx
+      )
+    );
+  };
+
+  const handleMappingApplied = (parsed: ParsedCsvTransaction[]) => {
+    setMappingFile(null);
+    showParsedTransactions(parsed);
+  };
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file || !selectedAccountId || !activeTenantId) return;
 
+    setSourceFileName(file.name);
     const reader = new FileReader();
     reader.onload = (e) => {
       const text = e.target?.result as string;
-      const lines = text.split('\n').filter(line => line.trim());
-      const headers = lines[0].split(',').map(h => h.trim().toLowerCase());
-      
-      const parsed: ParsedCsvTransaction[] = [];
-      
-      for (let i = 1; i < lines.length; i++) {
-        const values = lines[i].split(',').map(v => v.trim());
-        const row: Record<string, string> = {};
-        headers.forEach((header, index) => {
-          row[header] = values[index] || '';
-        });
-        
-        if (row.date && row.type && row.amount) {
-          parsed.push({
-            rowIndex: i,
-            type: row.type.toLowerCase() as 'payment' | 'receipt',
-            date: row.date,
-            description: row.description || '',
-            reference: row.reference || '',
-            amount: parseFloat(row.amount) || 0,
-            category: row.category || 'Uncategorized',
-            dimensionSelections: {},
+      const format = detectStatementFormat(file.name, text);
+
+      if (format === 'csv') {
+        let table: CsvTable;
+        try {
+          table = readCsvTable(text);
+        } catch (error) {
+          toast({
+            title: `Invalid ${STATEMENT_FORMAT_LABELS[format]} file`,
+            description: error instanceof Error ? error.message : 'The file could not be read.',
+            variant: "destructive",
           });
+          return;
         }
+
+        // Bank exports in other layouts go through the column mapping step first
+        if (table.headers.length > 0 && table.rows.length > 0 && !isStandardLayout(table)) {
+          setMappingFile({ name: file.name, table });
+          setParsedTransactions([]);
+          setStatementBalances(null);
+          setUploadResults([]);
+          return;
+        }
+      }
+
+      const { transactions: parsed, fileErrors, balances } = parseStatement(format, text, requiredDimensions);
+
+      if (fileErrors.length > 0) {
+        toast({
+          title: `Invalid ${STATEMENT_FORMAT_LABELS[format]} file`,
+          description: fileErrors.join(' '),
+          variant: "destructive",
+        });
+        return;
       }
 
       if (parsed.length === 0) {
         toast({
           title: "No valid transactions",
-          description: "The CSV file doesn't contain any valid transaction rows.",
+          description: "The file doesn't contain any valid transaction rows.",
           variant: "destructive",
         });
         return;
       }
 
-      setParsedTransactions(parsed);
-      setUploadResults([]);
-      toast({
-        title: "CSV parsed",
-        description: `${parsed.length} transaction(s) ready. Please select dimension tags before submitting.`,
-      });
+      showParsedTransactions(parsed, balances ?? null);
     };
     reader.readAsText(file);
     
@@ -151,77 +475,238 @@ export default function Transactions() {
 
   const handleDimensionChange = (rowIndex: number, dimensionCode: string, tagCode: string) => {
     setParsedTransactions(prev =>
-      prev.map(tx =>
-        tx.rowIndex === rowIndex
-          ? { ...tx, dimensionSelections: { ...tx.dimensionSelections, [dimensionCode]: tagCode } }
-          : tx
-      )
+      prev.map(tx => (tx.rowIndex === rowIndex ? setDimensionTag(tx, dimensionCode, tagCode) : tx))
+    );
+  };
+
+  // Shift-click selects every row between this one and the last one clicked
+  const handleToggleRow = (rowIndex: number, extend: boolean) => {
+    const positions = [lastToggledRowRef.current, rowIndex].map(i => parsedTransactions.findIndex(tx => tx.rowIndex === i));
+    setSelectedRows(prev => {
+      const next = new Set(prev);
+      if (extend && positions[0] >= 0) {
+        parsedTransactions
+          .slice(Math.min(...positions), Math.max(...positions) + 1)
+          .forEach(tx => next.add(tx.rowIndex));
+      } else if (next.has(rowIndex)) {
+        next.delete(rowIndex);
+      } else {
+        next.add(rowIndex);
+      }
+      return next;
+    });
+    lastToggledRowRef.current = rowIndex;
+  };
+
+  const handleToggleAllRows = () => {
+    setSelectedRows(selectedCount === parsedTransactions.length ? new Set() : new Set(parsedTransactions.map(tx => tx.rowIndex)));
+  };
+
+  const handleApplyTagToSelected = (dimensionCode: string, tagCode: string) => {
+    setParsedTransactions(prev => applyTagToRows(prev, selectedRows, dimensionCode, tagCode));
+  };
+
+  const handleFillDown = () => {
+    setParsedTransactions(prev => fillDown(prev, requiredDimensions.map(dim => dim.code), selectedRows));
+  };
+
+  const handleCopyPreviousRow = (rowIndex: number, dimensionCodes = requiredDimensions.map(dim => dim.code)) => {
+    setParsedTransactions(prev => copyFromPreviousRow(prev, rowIndex, dimensionCodes));
+  };
+
+  /**
+   * Moves focus to the nearest tag cell in a direction, skipping split rows.
+   * Returns the row position it landed on.
+   */
+  const focusTagCell = (position: number, dimensionPosition: number, rowStep: number): number | null => {
+    for (let row = position; row >= 0 && row < parsedTransactions.length; row += rowStep || 1) {
+      const cell = tagTableRef.current?.querySelector<HTMLElement>(`[data-tag-cell="${row}:${dimensionPosition}"]`);
+      if (cell) {
+        cell.focus();
+        return row;
+      }
+      if (!rowStep) break;
+    }
+    return null;
+  };
+
+  // Arrow keys move between tag cells; Enter and Space still open the tag list
+  const handleTagCellKeyDown = (event: React.KeyboardEvent, position: number, dimensionPosition: number) => {
+    const tx = parsedTransactions[position];
+
+    if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'd') {
+      event.preventDefault();
+      handleCopyPreviousRow(tx.rowIndex, [requiredDimensions[dimensionPosition].code]);
+      return;
+    }
+
+    if (event.key === 'Escape' && selectedRows.size > 0) {
+      setSelectedRows(new Set());
+      return;
+    }
+
+    const moves: Record<string, [number, number]> = {
+      ArrowUp: [-1, 0],
+      ArrowDown: [1, 0],
+      ArrowLeft: [0, -1],
+      ArrowRight: [0, 1],
+    };
+    const move = moves[event.key];
+    if (!move) return;
+    event.preventDefault();
+
+    const targetDimension = dimensionPosition + move[1];
+    if (targetDimension < 0 || targetDimension >= requiredDimensions.length) return;
+    const landed = focusTagCell(position + move[0], targetDimension, move[0]);
+
+    if (event.shiftKey && move[0] !== 0 && landed !== null) {
+      setSelectedRows(prev => new Set([...prev, tx.rowIndex, parsedTransactions[landed].rowIndex]));
+      lastToggledRowRef.current = parsedTransactions[landed].rowIndex;
+    }
+  };
+
+  const handleAllocationSave = (
+    rowIndex: number,
+    dimensionCode: string,
+    allocations: DimensionAllocation[] | undefined
+  ) => {
+    setParsedTransactions(prev =>
+      prev.map(tx => {
+        if (tx.rowIndex !== rowIndex) return tx;
+        if (!allocations) {
+          return { ...tx, dimensionAllocations: withoutAllocation(tx.dimensionAllocations, dimensionCode) };
+        }
+        const dimensionSelections = { ...tx.dimensionSelections };
+        delete dimensionSelections[dimensionCode];
+        return {
+          ...tx,
+          dimensionSelections,
+          dimensionAllocations: { ...tx.dimensionAllocations, [dimensionCode]: allocations },
+          unresolvedDimensions: withoutUnresolved(tx.unresolvedDimensions, dimensionCode),
+        };
+      })
+    );
+  };
+
+  const handleSplitSave = (rowIndex: number, splits: TransactionSplit[] | undefined) => {
+    setParsedTransactions(prev =>
+      prev.map(tx => (tx.rowIndex === rowIndex ? { ...tx, splits } : tx))
     );
   };
 
+  const invalidTransactions = parsedTransactions.filter(tx => tx.validationErrors?.length);
+  const duplicateTransactions = parsedTransactions.filter(tx => tx.duplicate);
+  const transactionsToSubmit = parsedTransactions.filter(tx => tx.duplicateAction !== 'skip');
+  const showVatColumn = usesTaxCodes(parsedTransactions);
+  const showLedgerColumn = tenantCategoryMappings.length > 0 || parsedTransactions.some(tx => tx.ledgerAccountId);
+  const selectedCount = parsedTransactions.filter(tx => selectedRows.has(tx.rowIndex)).length;
+  const unresolvedTagCount = countUnresolvedDimensions(parsedTransactions);
+
+  // Memoised so the allocation dialog keeps its draft between renders
+  const allocationDialogTarget = useMemo(() => {
+    if (!allocationTarget) return null;
+    const transaction = parsedTransactions.find(tx => tx.rowIndex === allocationTarget.rowIndex);
+    const dimension = requiredDimensions.find(dim => dim.code === allocationTarget.dimensionCode);
+    return transaction && dimension ? { transaction, dimension } : null;
+  }, [allocationTarget, parsedTransactions, requiredDimensions]);
+
+  const handleRemoveInvalid = () => {
+    setParsedTransactions(prev => prev.filter(tx => !tx.validationErrors?.length));
+  };
+
   const allDimensionsSelected = () => {
     if (requiredDimensions.length === 0) return true;
-    return parsedTransactions.every(tx =>
-      requiredDimensions.every(dim => tx.dimensionSelections[dim.code])
+    return transactionsToSubmit.every(tx =>
+      getTransactionLines(tx).every(line =>
+        requiredDimensions.every(dim => hasDimensionValue(line, dim.code))
+      )
     );
   };
 
-  const handleSubmitTransactions = async () => {
-    if (!activeTenantId || !credentials || !selectedAccountId) return;
+  const hasApiCredentials = () => {
+    if (credentials?.clientId && credentials?.clientSecret) return true;
 
-    if (!credentials.clientId || !credentials.clientSecret) {
-      toast({
-        title: "Configuration required",
-        description: "Please configure your API credentials in Admin Settings first.",
-        variant: "destructive",
-      });
-      return;
-    }
+    toast({
+      title: "Configuration required",
+      description: "Please configure your API credentials in Admin Settings first.",
+      variant: "destructive",
+    });
+    return false;
+  };
+
+  const loadBatches = async () => {
+    if (!activeTenantId) return;
+    setUploadBatches(await getUploadBatches(activeTenantId));
+  };
+
+  /**
+   * Sends a batch's pending rows, recording each result locally as it lands
+   */
+  const runBatch = async (batch: UploadBatch) => {
+    if (!credentials) return;
+
+    const abortController = new AbortController();
+    uploadAbortRef.current = abortController;
 
     setIsUploading(true);
     setUploadResults([]);
+    setActiveBatchId(batch.id);
+    setUploadProgress({
+      total: summariseUploadBatch(batch).pending,
+      completed: 0,
+      failed: 0,
+      startedAt: Date.now(),
+    });
 
+    const results: CsvUploadResult[] = [];
     try {
-      const results = await transactionService.uploadTransactions(
-        activeTenantId,
-        selectedAccountId,
-        parsedTransactions,
-        requiredDimensions,
-        credentials
-      );
+      const finished = await transactionService.runUploadBatch(batch, credentials, (row, current) => {
+        const result = toCsvUploadResult(row, current);
+        results.push(result);
+        setUploadResults([...results]);
+        setUploadBatches(prev => prev.map(b => (b.id === current.id ? current : b)));
+        setUploadProgress(prev => prev && {
+          ...prev,
+          completed: prev.completed + 1,
+          failed: prev.failed + (result.success ? 0 : 1),
+        });
 
-      setUploadResults(results);
-
-      const successfulTransactions = results
-        .filter(r => r.success && r.data)
-        .map(r => r.data as BankTransaction);
-      
-      if (successfulTransactions.length > 0) {
-        addTransactions(successfulTransactions.map(t => ({
-          tenantId: t.tenantId,
-          bankAccountId: t.bankAccountId,
-          type: t.type,
-          date: t.date,
-          description: t.description,
-          reference: t.reference,
-          amount: t.amount,
-          category: t.category,
-        })));
-      }
+        if (result.success && result.data) {
+          const t = result.data;
+          addTransactions([{
+            tenantId: t.tenantId,
+            bankAccountId: t.bankAccountId,
+            type: t.type,
+            date: t.date,
+            description: t.description,
+            reference: t.reference,
+            amount: t.amount,
+            category: t.category,
+            journalId: t.journalId,
+            idempotencyKey: t.idempotencyKey,
+            journalItems: t.journalItems,
+            ...(t.taxed ? { taxed: true } : {}),
+            ...(t.draft ? { draft: true } : {}),
+            ...(t.currency ? { currency: t.currency, baseAmount: t.baseAmount } : {}),
+          }]);
+        }
+      }, concurrency, abortController.signal);
 
       const successCount = results.filter(r => r.success).length;
       const failCount = results.filter(r => !r.success).length;
+      const pendingCount = summariseUploadBatch(finished).pending;
 
       toast({
-        title: "Upload complete",
-        description: `${successCount} transactions uploaded${failCount > 0 ? `, ${failCount} failed` : ''}.`,
+        title: pendingCount > 0 ? "Upload paused" : "Upload complete",
+        description: `${successCount} transactions uploaded${batch.postAsDraft ? ' as drafts' : ''}${
+          failCount > 0 ? `, ${failCount} failed` : ''
+        }${pendingCount > 0 ? `, ${pendingCount} left to resume` : ''}.${
+          batch.postAsDraft && successCount > 0 ? ' Approve them from the Approval Queue.' : ''
+        }`,
         variant: failCount > 0 ? "destructive" : "default",
       });
 
-      // Clear parsed transactions on full success
-      if (failCount === 0) {
-        setParsedTransactions([]);
-      }
+      return finished;
     } catch (error: any) {
       toast({
         title: "Upload failed",
@@ -229,10 +714,131 @@ export default function Transactions() {
         variant: "destructive",
       });
     } finally {
+      uploadAbortRef.current = null;
       setIsUploading(false);
+      setIsPausing(false);
+      setUploadProgress(null);
+      setActiveBatchId(null);
+      loadBatches();
+    }
+  };
+
+  /**
+   * Stops picking up new rows; requests already in flight are allowed to finish
+   */
+  const handlePauseUpload = () => {
+    setIsPausing(true);
+    uploadAbortRef.current?.abort();
+  };
+
+  const handleExchangeRateChange = (value: string) => {
+    setExchangeRateText(value);
+    if (Number(value) > 0) setExchangeRate(accountCurrency, Number(value));
+  };
+
+  const handleConcurrencyChange = (value: string) => {
+    const next = Number(value);
+    setConcurrency(next);
+    configManager.setUploadConcurrency(next);
+  };
+
+  const handleSubmitTransactions = async () => {
+    if (!activeTenantId || !credentials || !selectedAccountId) return;
+    if (!hasApiCredentials()) return;
+
+    if (isForeignCurrency && !exchangeRate) {
+      toast({
+        title: "Exchange rate needed",
+        description: `Enter the ${accountCurrency} exchange rate before submitting.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    let rates: SageTaxRate[] = [];
+    if (usesTaxCodes(transactionsToSubmit)) {
+      const loaded = await loadTaxRates();
+      if (!loaded) {
+        toast({
+          title: "Couldn't load tax rates",
+          description: "Rows with tax codes can't be posted until the tenant's tax rates load.",
+          variant: "destructive",
+        });
+        return;
+      }
+      const unknown = getUnknownTaxCodes(transactionsToSubmit, tenantCategoryMappings, loaded);
+      if (unknown.length > 0) {
+        toast({
+          title: "Unknown tax codes",
+          description: `${unknown.join(', ')} ${unknown.length === 1 ? 'is' : 'are'} not set up in Sage for this tenant.`,
+          variant: "destructive",
+        });
+        return;
+      }
+      rates = loaded;
+    }
+
+    // Keys are derived over the whole file so skipping rows doesn't change them
+    const keyed = applyExchangeRate(applyTaxRates(
+      applyLedgerMappings(
+        await transactionService.assignIdempotencyKeys(
+          activeTenantId,
+          selectedAccountId,
+          parsedTransactions,
+          idempotencySalt,
+          getRetiredIdempotencyKeys(tenantTransactions, tenantJournalAudit)
+        ),
+        tenantCategoryMappings
+      ),
+      tenantCategoryMappings,
+      rates,
+      configManager.getVatRounding()
+    ), accountCurrency, exchangeRate);
+    setParsedTransactions(keyed);
+
+    const batch = createUploadBatch(
+      activeTenantId,
+      selectedAccountId,
+      sourceFileName,
+      keyed,
+      requiredDimensions,
+      idempotencySalt,
+      postAsDraft
+    );
+    setUploadBatches(prev => [batch, ...prev]);
+
+    const finished = await runBatch(batch);
+
+    // Clear parsed transactions on full success
+    if (finished?.status === 'completed') {
+      setParsedTransactions([]);
+      setStatementBalances(null);
     }
   };
 
+  const handleResumeBatch = (batch: UploadBatch) => {
+    if (!hasApiCredentials()) return;
+    runBatch(batch);
+  };
+
+  const handleRetryFailed = (batch: UploadBatch) => {
+    if (!hasApiCredentials()) return;
+    runBatch({
+      ...batch,
+      rows: batch.rows.map(r => (r.status === 'failed' ? { ...r, status: 'pending' } : r)),
+    });
+  };
+
+  const handleAbandonBatch = async (batch: UploadBatch) => {
+    await saveUploadBatch({ ...batch, status: 'abandoned' });
+    loadBatches();
+  };
+
+  const handleDeleteBatch = async (batch: UploadBatch) => {
+    await deleteUploadBatch(batch.id);
+    loadBatches();
+  };
+
   const downloadSampleCSV = () => {
     const blob = new Blob([SAMPLE_CSV], { type: 'text/csv' });
     const url = URL.createObjectURL(blob);
@@ -293,18 +899,43 @@ export default function Transactions() {
                   <SelectContent>
                     {tenantAccounts.map((account) => (
                       <SelectItem key={account.id} value={account.id}>
-                        {account.name}
+                        {account.name}{!isBaseCurrency(account.currencyISO) && ` (${account.currencyISO})`}
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
               </div>
+
+              {isForeignCurrency && (
+                <div>
+                  <label className="text-sm font-medium text-foreground mb-2 block">
+                    Exchange Rate
+                  </label>
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="text-muted-foreground whitespace-nowrap">1 {BASE_CURRENCY} =</span>
+                    <Input
+                      type="number"
+                      step="0.0001"
+                      min="0"
+                      value={exchangeRateText}
+                      onChange={(e) => handleExchangeRateChange(e.target.value)}
+                      placeholder="e.g. 1.17"
+                      className="w-32"
+                      disabled={isUploading}
+                    />
+                    <span className="text-muted-foreground">{accountCurrency}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Amounts in this file are in {accountCurrency}. Journals post with this rate and their {BASE_CURRENCY} value.
+                  </p>
+                </div>
+              )}
               
               <div>
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept=".csv"
+                  accept={STATEMENT_FILE_ACCEPT}
                   onChange={handleFileUpload}
                   className="hidden"
                   id="csv-upload"
@@ -317,7 +948,7 @@ export default function Transactions() {
                   variant="outline"
                 >
                   <Upload className="w-4 h-4 mr-2" />
-                  Select CSV File
+                  Select Statement File
                 </Button>
               </div>
 
@@ -340,6 +971,10 @@ export default function Transactions() {
               <p className="text-xs text-muted-foreground mt-2">
                 <strong>type</strong>: "payment" or "receipt"
               </p>
+              <p className="text-xs text-muted-foreground mt-1">
+                Other bank layouts can be mapped column by column after upload.
+                OFX/QFX, camt.053 XML and MT940 statements are read directly.
+              </p>
               <Button 
                 variant="outline" 
                 size="sm" 
@@ -353,25 +988,179 @@ export default function Transactions() {
           </div>
         </div>
 
+        <SplitEditorDialog
+          transaction={parsedTransactions.find(tx => tx.rowIndex === splitRowIndex) || null}
+          requiredDimensions={requiredDimensions}
+          dimensionTags={dimensionTags}
+          currency={accountCurrency}
+          onSave={handleSplitSave}
+          onClose={() => setSplitRowIndex(null)}
+        />
+
+        <DimensionAllocationDialog
+          target={allocationDialogTarget}
+          tags={allocationDialogTarget ? dimensionTags[allocationDialogTarget.dimension.code] || [] : []}
+          onSave={handleAllocationSave}
+          onClose={() => setAllocationTarget(null)}
+        />
+
+        {/* Column mapping for non-standard layouts */}
+        {mappingFile && (
+          <ColumnMappingStep
+            table={mappingFile.table}
+            fileName={mappingFile.name}
+            dimensions={requiredDimensions}
+            onApply={handleMappingApplied}
+            onCancel={() => setMappingFile(null)}
+          />
+        )}
+
         {/* Step 2: Review & Set Dimensions */}
         {parsedTransactions.length > 0 && (
           <div className="bg-card rounded-xl border border-border overflow-hidden mb-8">
             <div className="p-4 border-b border-border bg-muted/50 flex items-center justify-between">
               <h2 className="section-title">Step 2: Review & Set Dimensions ({parsedTransactions.length} transactions)</h2>
-              <Button
-                onClick={handleSubmitTransactions}
-                disabled={isUploading || !allDimensionsSelected()}
-                size="sm"
-              >
-                {isUploading ? (
-                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                ) : (
-                  <Send className="w-4 h-4 mr-2" />
+              <div className="flex items-center gap-2">
+                {invalidTransactions.length > 0 && (
+                  <Button
+                    onClick={handleRemoveInvalid}
+                    disabled={isUploading}
+                    size="sm"
+                    variant="outline"
+                  >
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Remove {invalidTransactions.length} Invalid
+                  </Button>
                 )}
-                {isUploading ? 'Submitting...' : 'Submit All'}
-              </Button>
+                <Button
+                  onClick={handleValidateOnly}
+                  disabled={isUploading || isValidating || transactionsToSubmit.length === 0}
+                  size="sm"
+                  variant="outline"
+                >
+                  {isValidating ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <ShieldCheck className="w-4 h-4 mr-2" />
+                  )}
+                  Validate Only
+                </Button>
+                <Button
+                  onClick={() => checkForDuplicates(parsedTransactions)}
+                  disabled={isUploading || isCheckingDuplicates}
+                  size="sm"
+                  variant="outline"
+                >
+                  {isCheckingDuplicates ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <SearchCheck className="w-4 h-4 mr-2" />
+                  )}
+                  Check Duplicates
+                </Button>
+                <Select
+                  value={String(concurrency)}
+                  onValueChange={handleConcurrencyChange}
+                  disabled={isUploading}
+                >
+                  <SelectTrigger className="h-9 w-36" title="Requests sent to Sage at the same time">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: MAX_CONCURRENCY - MIN_CONCURRENCY + 1 }, (_, i) => MIN_CONCURRENCY + i).map(n => (
+                      <SelectItem key={n} value={String(n)}>
+                        {n} at a time
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex items-center gap-2" title="Drafts don't post to the ledger until approved in the Approval Queue">
+                  <Switch
+                    id="post-as-draft"
+                    checked={postAsDraft}
+                    onCheckedChange={setPostAsDraft}
+                    disabled={isUploading}
+                  />
+                  <Label htmlFor="post-as-draft" className="text-sm font-normal">Post as drafts</Label>
+                </div>
+                <Button
+                  onClick={handleSubmitTransactions}
+                  disabled={
+                    isUploading ||
+                    isCheckingDuplicates ||
+                    !allDimensionsSelected() ||
+                    invalidTransactions.length > 0 ||
+                    transactionsToSubmit.length === 0
+                  }
+                  size="sm"
+                >
+                  {isUploading ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Send className="w-4 h-4 mr-2" />
+                  )}
+                  {isUploading
+                    ? 'Submitting...'
+                    : transactionsToSubmit.length === parsedTransactions.length
+                      ? 'Submit All'
+                      : `Submit ${transactionsToSubmit.length}`}
+                </Button>
+              </div>
+            </div>
+
+            <div className="px-4 py-3 border-b border-border flex flex-col md:flex-row md:items-center justify-between gap-3 text-sm">
+              <p className="text-muted-foreground">
+                Each row gets a stable idempotency key, so submitting the same file again won't post it twice.
+                Enter a salt to deliberately post the same rows again.
+              </p>
+              <Input
+                value={idempotencySalt}
+                onChange={(e) => setIdempotencySalt(e.target.value)}
+                placeholder="Idempotency salt (optional)"
+                className="md:w-64"
+                disabled={isUploading}
+              />
             </div>
 
+            {statementBalances && (
+              <StatementBalancePanel
+                balances={statementBalances}
+                transactions={parsedTransactions}
+                account={selectedAccount}
+              />
+            )}
+
+            {validationReport && (
+              <ValidationReportPanel
+                report={validationReport}
+                onDismiss={() => setValidationReport(null)}
+              />
+            )}
+
+            {invalidTransactions.length > 0 && (
+              <div className="p-3 bg-destructive/10 border-b border-destructive/30 flex items-center gap-2 text-sm text-destructive">
+                <XCircle className="w-4 h-4" />
+                {invalidTransactions.length} row(s) could not be read. Correct the file and re-upload, or remove them to continue.
+              </div>
+            )}
+
+            {duplicateTransactions.length > 0 && (
+              <div className="p-3 bg-warning/10 border-b border-warning/30 flex items-center justify-between gap-2 text-sm text-warning">
+                <span className="flex items-center gap-2">
+                  <Copy className="w-4 h-4" />
+                  {duplicateTransactions.length} row(s) look like transactions already posted. Skipped rows won't be submitted.
+                </span>
+                <span className="flex items-center gap-2">
+                  <Button size="sm" variant="outline" onClick={() => handleDuplicateAction(null, 'skip')} disabled={isUploading}>
+                    Skip All
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => handleDuplicateAction(null, 'keep')} disabled={isUploading}>
+                    Keep All
+                  </Button>
+                </span>
+              </div>
+            )}
+
             {!allDimensionsSelected() && requiredDimensions.length > 0 && (
               <div className="p-3 bg-warning/10 border-b border-warning/30 flex items-center gap-2 text-sm text-warning">
                 <AlertCircle className="w-4 h-4" />
@@ -379,24 +1168,77 @@ export default function Transactions() {
               </div>
             )}
 
+            {unresolvedTagCount > 0 && (
+              <div className="p-3 bg-destructive/10 border-b border-destructive/30 flex items-center gap-2 text-sm text-destructive">
+                <AlertCircle className="w-4 h-4" />
+                {unresolvedTagCount} dimension value(s) from the file don't match any tag. Pick a tag in the highlighted cells.
+              </div>
+            )}
+
+            {requiredDimensions.length > 0 && (
+              <BulkTagToolbar
+                selectedCount={selectedCount}
+                requiredDimensions={requiredDimensions}
+                dimensionTags={dimensionTags}
+                disabled={isUploading}
+                onApplyTag={handleApplyTagToSelected}
+                onFillDown={handleFillDown}
+                onClearSelection={() => setSelectedRows(new Set())}
+              />
+            )}
+
             <div className="overflow-x-auto">
-              <table className="data-table">
+              <table ref={tagTableRef} className="data-table">
                 <thead>
                   <tr className="bg-muted/30">
+                    {requiredDimensions.length > 0 && (
+                      <th className="w-10">
+                        <Checkbox
+                          checked={
+                            selectedCount === 0 ? false
+                            : selectedCount === parsedTransactions.length ? true
+                            : 'indeterminate'
+                          }
+                          onCheckedChange={handleToggleAllRows}
+                          aria-label="Select all rows"
+                        />
+                      </th>
+                    )}
                     <th>Row</th>
                     <th>Date</th>
                     <th>Type</th>
                     <th>Reference</th>
                     <th>Description</th>
                     <th className="text-right">Amount</th>
+                    {showLedgerColumn && <th>Ledger Account</th>}
+                    {showVatColumn && <th>VAT</th>}
+                    {duplicateTransactions.length > 0 && <th>Duplicate</th>}
                     {requiredDimensions.map(dim => (
                       <th key={dim.id}>{dim.name}</th>
                     ))}
+                    <th></th>
                   </tr>
                 </thead>
                 <tbody>
-                  {parsedTransactions.map((tx) => (
-                    <tr key={tx.rowIndex}>
+                  {parsedTransactions.map((tx, position) => (
+                    <tr
+                      key={tx.rowIndex}
+                      className={cn(
+                        (tx.validationErrors?.length || validationReport?.invalidRows.includes(tx.rowIndex)) && "bg-destructive/5",
+                        tx.duplicate && "bg-warning/5",
+                        tx.duplicateAction === 'skip' && "opacity-50",
+                        selectedRows.has(tx.rowIndex) && "bg-primary/5"
+                      )}
+                    >
+                      {requiredDimensions.length > 0 && (
+                        <td>
+                          <Checkbox
+                            checked={selectedRows.has(tx.rowIndex)}
+                            onClick={(e) => handleToggleRow(tx.rowIndex, e.shiftKey)}
+                            aria-label={`Select row ${tx.rowIndex}`}
+                          />
+                        </td>
+                      )}
                       <td className="text-muted-foreground">{tx.rowIndex}</td>
                       <td>{tx.date}</td>
                       <td>
@@ -415,32 +1257,165 @@ export default function Transactions() {
                         </span>
                       </td>
                       <td className="font-mono text-sm">{tx.reference}</td>
-                      <td>{tx.description}</td>
+                      <td>
+                        {tx.description}
+                        {tx.validationErrors?.map((message, i) => (
+                          <div key={i} className="flex items-center gap-1 text-xs text-destructive mt-1">
+                            <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                            {message}
+                          </div>
+                        ))}
+                        {validationReport?.issues
+                          .filter(issue => issue.rowIndex === tx.rowIndex && issue.field !== 'Row')
+                          .map((issue, i) => (
+                            <div
+                              key={`validation-${i}`}
+                              className={cn(
+                                "flex items-center gap-1 text-xs mt-1",
+                                issue.severity === 'error' ? "text-destructive" : "text-warning"
+                              )}
+                            >
+                              <ShieldCheck className="w-3 h-3 flex-shrink-0" />
+                              {issue.message}
+                            </div>
+                          ))}
+                        {tx.categorisationRuleId && (
+                          <div className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+                            <Wand2 className="w-3 h-3 flex-shrink-0" />
+                            Rule: {tenantRules.find(r => r.id === tx.categorisationRuleId)?.name || 'Deleted rule'}
+                          </div>
+                        )}
+                        {tx.splits?.map((line, i) => (
+                          <div key={`split-${i}`} className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+                            <Split className="w-3 h-3 flex-shrink-0" />
+                            {formatMoney(line.amount)}
+                            {' · '}{line.category || 'No category'}
+                            {requiredDimensions.length > 0 && ` · ${
+                              requiredDimensions.map(dim =>
+                                line.unresolvedDimensions?.[dim.code]
+                                  ? `not found: ${line.unresolvedDimensions[dim.code]}`
+                                  : describeDimensionValue(line, dim) || '—'
+                              ).join(' / ')
+                            }`}
+                          </div>
+                        ))}
+                        {tx.duplicate && (
+                          <div className="flex items-start gap-1 text-xs text-warning mt-1">
+                            <Copy className="w-3 h-3 flex-shrink-0 mt-0.5" />
+                            <span>
+                              Possible duplicate of {tx.duplicate.reference || 'a transaction'} on {tx.duplicate.date}
+                              {tx.duplicate.source === 'sage' ? ' in Sage' : ' recorded in this app'}
+                              {' '}({tx.duplicate.reasons.join(', ').toLowerCase()})
+                            </span>
+                          </div>
+                        )}
+                      </td>
                       <td className={cn(
                         "text-right font-semibold",
                         tx.type === 'receipt' ? "text-success" : "text-destructive"
                       )}>
-                        {tx.type === 'receipt' ? '+' : '-'}£{tx.amount.toLocaleString('en-GB', { minimumFractionDigits: 2 })}
+                        {tx.type === 'receipt' ? '+' : '-'}{formatMoney(tx.amount)}
+                        {isForeignCurrency && exchangeRate && (
+                          <div className="text-xs font-normal text-muted-foreground">
+                            {formatCurrency(toBaseAmount(tx.amount, exchangeRate))}
+                          </div>
+                        )}
                       </td>
-                      {requiredDimensions.map(dim => (
+                      {showLedgerColumn && (
+                        <td className="text-sm">{renderLedgerAccount(tx)}</td>
+                      )}
+                      {showVatColumn && (
+                        <td className="text-sm">{renderVat(tx)}</td>
+                      )}
+                      {duplicateTransactions.length > 0 && (
+                        <td>
+                          {tx.duplicate && (
+                            <Select
+                              value={tx.duplicateAction || 'skip'}
+                              onValueChange={(value) => handleDuplicateAction(tx.rowIndex, value as 'skip' | 'keep')}
+                            >
+                              <SelectTrigger className="min-w-[100px]">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="skip">Skip</SelectItem>
+                                <SelectItem value="keep">Keep</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          )}
+                        </td>
+                      )}
+                      {tx.splits?.length ? (
+                        requiredDimensions.length > 0 && (
+                          <td colSpan={requiredDimensions.length} className="text-sm text-muted-foreground">
+                            Set per split line
+                          </td>
+                        )
+                      ) : requiredDimensions.map((dim, dimensionPosition) => (
                         <td key={dim.id}>
-                          <Select
-                            value={tx.dimensionSelections[dim.code] || ''}
-                            onValueChange={(value) => handleDimensionChange(tx.rowIndex, dim.code, value)}
-                          >
-                            <SelectTrigger className="min-w-[160px]">
-                              <SelectValue placeholder="Select..." />
-                            </SelectTrigger>
-                            <SelectContent>
-                              {(dimensionTags[dim.code] || []).map(tag => (
-                                <SelectItem key={tag.Id} value={tag.Code}>
-                                  {tag.Name}
-                                </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
+                          <div className="flex items-center gap-1">
+                            <Select
+                              value={tx.dimensionSelections[dim.code] || ''}
+                              onValueChange={(value) => handleDimensionChange(tx.rowIndex, dim.code, value)}
+                            >
+                              <SelectTrigger
+                                className={cn("min-w-[160px]", tx.unresolvedDimensions?.[dim.code] && "border-destructive")}
+                                data-tag-cell={`${position}:${dimensionPosition}`}
+                                onKeyDown={(e) => handleTagCellKeyDown(e, position, dimensionPosition)}
+                                title={tx.unresolvedDimensions?.[dim.code] && `"${tx.unresolvedDimensions[dim.code]}" in the file doesn't match any ${dim.name} tag`}
+                              >
+                                <SelectValue
+                                  placeholder={
+                                    tx.unresolvedDimensions?.[dim.code]
+                                      ? `Not found: ${tx.unresolvedDimensions[dim.code]}`
+                                      : describeDimensionValue(tx, dim) || 'Select...'
+                                  }
+                                />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {(dimensionTags[dim.code] || []).map(tag => (
+                                  <SelectItem key={tag.Id} value={tag.Code}>
+                                    {tag.Name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <Button
+                              size="sm"
+                              variant={tx.dimensionAllocations?.[dim.code]?.length ? 'secondary' : 'ghost'}
+                              onClick={() => setAllocationTarget({ rowIndex: tx.rowIndex, dimensionCode: dim.code })}
+                              disabled={isUploading}
+                              title={`Allocate ${dim.name} by percentage`}
+                            >
+                              <Percent className="w-4 h-4" />
+                            </Button>
+                          </div>
                         </td>
                       ))}
+                      <td>
+                        <div className="flex items-center gap-1">
+                          {requiredDimensions.length > 0 && !tx.splits?.length && position > 0 && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleCopyPreviousRow(tx.rowIndex)}
+                              disabled={isUploading}
+                              title="Copy dimension tags from the previous row"
+                            >
+                              <ClipboardPaste className="w-4 h-4" />
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setSplitRowIndex(tx.rowIndex)}
+                            disabled={isUploading}
+                          >
+                            <Split className="w-4 h-4 mr-2" />
+                            {tx.splits?.length ? `Edit Split (${tx.splits.length})` : 'Split'}
+                          </Button>
+                        </div>
+                      </td>
                     </tr>
                   ))}
                 </tbody>
@@ -449,6 +1424,26 @@ export default function Transactions() {
           </div>
         )}
 
+        {uploadProgress && (
+          <UploadProgress
+            {...uploadProgress}
+            concurrency={concurrency}
+            isPausing={isPausing}
+            onPause={handlePauseUpload}
+          />
+        )}
+
+        <UploadBatchesPanel
+          batches={uploadBatches}
+          bankAccounts={tenantAccounts}
+          activeBatchId={activeBatchId}
+          disabled={isUploading}
+          onResume={handleResumeBatch}
+          onRetryFailed={handleRetryFailed}
+          onAbandon={handleAbandonBatch}
+          onDelete={handleDeleteBatch}
+        />
+
         {/* Upload Results */}
         {uploadResults.length > 0 && (
           <div className="bg-card rounded-xl border border-border p-6 mb-8">
@@ -500,11 +1495,12 @@ export default function Transactions() {
                   <th>Reference</th>
                   <th>Category</th>
                   <th className="text-right">Amount</th>
+                  <th className="text-right">Actions</th>
                 </tr>
               </thead>
               <tbody>
                 {tenantTransactions.slice().reverse().map((transaction) => (
-                  <tr key={transaction.id}>
+                  <tr key={transaction.id} className={cn(transaction.voidedAt && "opacity-60")}>
                     <td>{new Date(transaction.date).toLocaleDateString('en-GB')}</td>
                     <td>
                       <span className={cn(
@@ -521,14 +1517,68 @@ export default function Transactions() {
                         {transaction.type === 'receipt' ? 'Receipt' : 'Payment'}
                       </span>
                     </td>
-                    <td>{transaction.description}</td>
+                    <td>
+                      {transaction.description}
+                      {(transaction.voidedAt || transaction.draft) && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-muted text-muted-foreground">
+                          {transaction.voidedAt ? 'Void' : 'Draft'}
+                        </span>
+                      )}
+                    </td>
                     <td className="font-mono text-sm">{transaction.reference}</td>
                     <td>{transaction.category}</td>
                     <td className={cn(
                       "text-right font-semibold",
-                      transaction.type === 'receipt' ? "text-success" : "text-destructive"
+                      transaction.type === 'receipt' ? "text-success" : "text-destructive",
+                      transaction.voidedAt && "line-through"
                     )}>
-                      {transaction.type === 'receipt' ? '+' : '-'}£{transaction.amount.toLocaleString('en-GB', { minimumFractionDigits: 2 })}
+                      {transaction.type === 'receipt' ? '+' : '-'}{formatCurrency(transaction.amount, transaction.currency)}
+                      {transaction.currency && transaction.baseAmount !== undefined && (
+                        <div className="text-xs font-normal text-muted-foreground">
+                          {formatCurrency(transaction.baseAmount)}
+                        </div>
+                      )}
+                    </td>
+                    <td>
+                      <div
+                        className="flex items-center justify-end gap-1"
+                        title={transaction.journalId ? undefined : 'Posted before journal Ids were recorded, so it can only be corrected in Sage'}
+                      >
+                        {(['edit', 'void', 'delete'] as JournalAction[]).map(action => {
+                          const Icon = action === 'edit' ? Pencil : action === 'void' ? Ban : Trash2;
+                          return (
+                            <Button
+                              key={action}
+                              size="sm"
+                              variant="ghost"
+                              className={cn("h-8 w-8 p-0", action !== 'edit' && "text-destructive hover:text-destructive")}
+                              title={action === 'edit' ? 'Edit' : action === 'void' ? 'Void' : 'Delete'}
+                              disabled={
+                                !transaction.journalId ||
+                                (action !== 'delete' && !!transaction.voidedAt) ||
+                                // Drafts are rejected from the Approval Queue rather than voided
+                                (action === 'void' && !!transaction.draft)
+                              }
+                              onClick={() => setJournalAction({
+                                action,
+                                journalId: transaction.journalId!,
+                                values: {
+                                  date: transaction.date,
+                                  reference: transaction.reference,
+                                  amount: transaction.amount,
+                                  description: transaction.description,
+                                  category: transaction.category,
+                                },
+                                status: transaction.voidedAt ? 'Void' : transaction.draft ? 'Draft' : undefined,
+                                currency: transaction.currency,
+                                transaction,
+                              })}
+                            >
+                              <Icon className="w-4 h-4" />
+                            </Button>
+                          );
+                        })}
+                      </div>
                     </td>
                   </tr>
                 ))}
@@ -537,6 +1587,10 @@ export default function Transactions() {
           </div>
         )}
 
+        <JournalAuditPanel entries={tenantJournalAudit} />
+
+        <JournalActionDialog request={journalAction} onClose={() => setJournalAction(null)} />
+
         {/* API Integration Panel - Only visible in Developer Mode */}
         {isDeveloperMode && (
           <div className="mt-8">
@@ -550,7 +1604,10 @@ export default function Transactions() {
             <h3 className="font-medium text-foreground mb-2">API Integration</h3>
             <p className="text-sm text-muted-foreground">
               Bank payments are created via <code className="bg-background px-1 rounded">POST /transaction/v2/tenant/&#123;id&#125;/journals/&#123;journalId&#125;</code> with 
-              dimension tags attached to each transaction item.
+              dimension tags attached to each transaction item. Posted journals are corrected with{' '}
+              <code className="bg-background px-1 rounded">PUT</code>, voided with{' '}
+              <code className="bg-background px-1 rounded">POST …/journals/&#123;journalId&#125;/void</code> and removed with{' '}
+              <code className="bg-background px-1 rounded">DELETE</code>.
             </p>
           </div>
         )}
@@ -0,0 +1,48 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Credentials } from '@/types/sage';
+import { apiRequest } from '@/lib/apiClient';
+import { JOURNAL_PAGE_SIZE, SageJournalEntry, bankService } from './bankService';
+
+vi.mock('@/lib/apiClient', () => ({
+  apiRequest: vi.fn(),
+}));
+
+const credentials = {} as Credentials;
+
+const journals = (from: number, count: number) =>
+  Array.from({ length: count }, (_, i) => ({ Id: `j${from + i}` }) as SageJournalEntry);
+
+const page = (data: SageJournalEntry[]) => ({ success: true, data });
+
+describe('getAccountTransactions', () => {
+  afterEach(() => {
+    vi.mocked(apiRequest).mockReset();
+  });
+
+  it('reads every page', async () => {
+    vi.mocked(apiRequest)
+      .mockResolvedValueOnce(page(journals(0, JOURNAL_PAGE_SIZE)) as never)
+      .mockResolvedValueOnce(page(journals(JOURNAL_PAGE_SIZE, 3)) as never);
+
+    const result = await bankService.getAccountTransactions('t1', 'a1', '2024-01-01', '2024-12-31', credentials);
+
+    expect(result).toHaveLength(JOURNAL_PAGE_SIZE + 3);
+    expect(vi.mocked(apiRequest).mock.calls[1][0].endpoint).toContain(`$top=${JOURNAL_PAGE_SIZE}&$skip=${JOURNAL_PAGE_SIZE}`);
+  });
+
+  it('fails rather than returning part of the list', async () => {
+    vi.mocked(apiRequest)
+      .mockResolvedValueOnce(page(journals(0, JOURNAL_PAGE_SIZE)) as never)
+      .mockResolvedValueOnce({ success: false, error: 'Server error' } as never);
+
+    await expect(bankService.getAccountTransactions('t1', 'a1', '2024-01-01', '2024-12-31', credentials))
+      .rejects.toThrow('Server error');
+  });
+
+  it('stops when a server ignores the page offset', async () => {
+    vi.mocked(apiRequest).mockResolvedValue(page(journals(0, JOURNAL_PAGE_SIZE)) as never);
+
+    await expect(bankService.getAccountTransactions('t1', 'a1', '2024-01-01', '2024-12-31', credentials))
+      .rejects.toThrow('Sage returned the same page twice');
+  });
+});
@@ -1,8 +1,8 @@
-import { apiRequest } from '@/lib/apiClient';
+import { apiRequest, FeatureArea, StatusCallback } from '@/lib/apiClient';
 import { BankAccount, SageBankAccountRequest, SageOpeningBalanceRequest, OpeningBalance, Credentials } from '@/types/sage';
 import { generateIdempotencyKey } from '@/lib/idempotency';
 
-export type StatusCallback = (status: string) => void;
+export type { StatusCallback };
 
 export interface CreateBankAccountResponse {
   Id: string;
@@ -37,14 +37,53 @@ export interface SageJournalEntry {
   TransactionNumber: string;
 }
 
-function sleep(seconds: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, seconds * 1000));
+// Journals are listed a page at a time; a short page is the last one
+export const JOURNAL_PAGE_SIZE = 200;
+
+/**
+ * Every journal matching the query, reading page after page. Throws rather
+ * than returning a partial list, since a missing journal reads as deleted.
+ */
+async function getAllJournals(
+  tenantId: string,
+  query: string,
+  featureArea: FeatureArea,
+  credentials: Credentials,
+  failureMessage: string
+): Promise<SageJournalEntry[]> {
+  const journals = new Map<string, SageJournalEntry>();
+
+  for (let skip = 0; ; skip += JOURNAL_PAGE_SIZE) {
+    const response = await apiRequest<SageJournalEntry[]>(
+      {
+        method: 'GET',
+        endpoint: `/transaction/v1/tenant/${tenantId}/journals?${query}&$top=${JOURNAL_PAGE_SIZE}&$skip=${skip}`,
+        tokenType: 'tenant',
+        featureArea,
+        tenantId,
+      },
+      credentials
+    );
+
+    if (!response.success) {
+      throw new Error(response.error || failureMessage);
+    }
+
+    const page = response.data || [];
+    const before = journals.size;
+    // A journal posted meanwhile can push one onto the next page as well
+    page.forEach(journal => journals.set(journal.Id, journal));
+    if (page.length < JOURNAL_PAGE_SIZE) return [...journals.values()];
+    if (journals.size === before) {
+      throw new Error(`${failureMessage}: Sage returned the same page twice`);
+    }
+  }
 }
 
 export const bankService = {
   /**
    * Create a new bank account for a tenant
-   * Handles 202 async responses with retry logic
+   * 202 async responses are polled to completion by apiClient
    * URL: /bank/v2/tenant/{TenantId}/bank-accounts
    */
   async createBankAccount(
@@ -67,42 +106,11 @@ export const bankService = {
         featureArea: 'bank-accounts',
         tenantId,
         idempotencyKey,
-        retries: 0, // We handle retries ourselves for 202
+        asyncCompletion: { onStatusChange },
       },
       credentials
     );
 
-    // Handle 202 Accepted - async processing
-    if (response.status === 202) {
-      const retryAfter = parseInt(response.headers['retry-after'] || '3', 10);
-
-      onStatusChange?.(`Processing... waiting ${retryAfter} seconds`);
-      await sleep(retryAfter);
-
-      onStatusChange?.('Checking status...');
-
-      const retryResponse = await apiRequest<CreateBankAccountResponse>(
-        {
-          method: 'POST',
-          endpoint,
-          body: data,
-          tokenType: 'tenant',
-          featureArea: 'bank-accounts',
-          tenantId,
-          idempotencyKey, // Same key to get the result
-          retries: 2,
-        },
-        credentials
-      );
-
-      if (!retryResponse.success || !retryResponse.data) {
-        throw new Error(retryResponse.error || 'Failed to get bank account creation result');
-      }
-
-      return retryResponse.data;
-    }
-
-    // Handle immediate 200/201 success
     if (response.success && response.data) {
       return response.data;
     }
@@ -158,41 +166,11 @@ export const bankService = {
         featureArea: 'bank-accounts',
         tenantId,
         idempotencyKey,
-        retries: 0,
+        asyncCompletion: { onStatusChange },
       },
       credentials
     );
 
-    // Handle 202 Accepted - async processing
-    if (response.status === 202) {
-      const retryAfter = parseInt(response.headers['retry-after'] || '3', 10);
-
-      onStatusChange?.(`Processing... waiting ${retryAfter} seconds`);
-      await sleep(retryAfter);
-
-      onStatusChange?.('Checking status...');
-
-      const retryResponse = await apiRequest<CreateOpeningBalanceResponse>(
-        {
-          method: 'POST',
-          endpoint,
-          body: data,
-          tokenType: 'tenant',
-          featureArea: 'bank-accounts',
-          tenantId,
-          idempotencyKey,
-          retries: 2,
-        },
-        credentials
-      );
-
-      if (!retryResponse.success || !retryResponse.data) {
-        throw new Error(retryResponse.error || 'Failed to get opening balance result');
-      }
-
-      return retryResponse.data;
-    }
-
     if (response.success && response.data) {
       return response.data;
     }
@@ -233,7 +211,24 @@ export const bankService = {
   },
 
   /**
-   * Get transactions for a specific bank account
+   * Get draft journals for a bank account, waiting to be approved (every page)
+   * URL: /transaction/v1/tenant/{TenantId}/journals?start-date=...&end-date=...&$filter=(status eq 'draft') and (bankaccount.id eq {bankAccountId})
+   */
+  async getDraftJournals(
+    tenantId: string,
+    bankAccountId: string,
+    startDate: string,
+    endDate: string,
+    credentials: Credentials
+  ): Promise<SageJournalEntry[]> {
+    const filter = `(status eq 'draft') and (bankaccount.id eq ${bankAccountId})`;
+    const query = `start-date=${startDate}&end-date=${endDate}&$filter=${encodeURIComponent(filter)}&$orderby=${encodeURIComponent('date asc')}`;
+
+    return getAllJournals(tenantId, query, 'transactions', credentials, 'Failed to fetch draft journals');
+  },
+
+  /**
+   * Get transactions for a specific bank account (every page)
    * URL: /transaction/v1/tenant/{TenantId}/journals?start-date=...&end-date=...&$filter=bankaccount.id eq {bankAccountId}&$orderby=date desc
    */
   async getAccountTransactions(
@@ -244,23 +239,8 @@ export const bankService = {
     credentials: Credentials
   ): Promise<SageJournalEntry[]> {
     const filter = `bankaccount.id eq ${bankAccountId}`;
-    const endpoint = `/transaction/v1/tenant/${tenantId}/journals?start-date=${startDate}&end-date=${endDate}&$filter=${encodeURIComponent(filter)}&$orderby=${encodeURIComponent('date desc')}`;
-
-    const response = await apiRequest<SageJournalEntry[]>(
-      {
-        method: 'GET',
-        endpoint,
-        tokenType: 'tenant',
-        featureArea: 'bank-accounts',
-        tenantId,
-      },
-      credentials
-    );
-
-    if (!response.success) {
-      throw new Error(response.error || 'Failed to fetch transactions');
-    }
+    const query = `start-date=${startDate}&end-date=${endDate}&$filter=${encodeURIComponent(filter)}&$orderby=${encodeURIComponent('date desc')}`;
 
-    return response.data || [];
+    return getAllJournals(tenantId, query, 'bank-accounts', credentials, 'Failed to fetch transactions');
   },
 };
@@ -27,7 +27,8 @@ export const financialService = {
         featureArea: 'financial-years', 
         tenantId, 
         credentials,
-        idempotencyKey: generateIdempotencyKey()
+        idempotencyKey: generateIdempotencyKey(),
+        asyncCompletion: {},
       }
     );
     return response;
@@ -0,0 +1,19 @@
+import { apiClient } from '@/lib/apiClient';
+import { Credentials, SageLedgerAccount } from '@/types/sage';
+
+export const ledgerService = {
+  /**
+   * Get the chart of accounts for a tenant
+   * URL: /ledger/v1/tenant/{TenantId}/ledger-accounts
+   */
+  async getLedgerAccounts(
+    tenantId: string,
+    credentials: Credentials
+  ): Promise<SageLedgerAccount[]> {
+    const response = await apiClient.get<{ data: SageLedgerAccount[] }>(
+      `/ledger/v1/tenant/${tenantId}/ledger-accounts`,
+      { tokenType: 'tenant', featureArea: 'ledger-accounts', tenantId, credentials }
+    );
+    return response.data || [];
+  },
+};
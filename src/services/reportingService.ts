@@ -14,7 +14,7 @@ import { generateIdempotencyKey } from '@/lib/idempotency';
  * 2. GET  .../exports/{executionId} → poll until 200 with { Url: downloadUrl }
  */
 
-const POLL_INTERVAL_MS = 2000;
+const POLL_INTERVAL_SECONDS = 2;
 const MAX_POLL_ATTEMPTS = 30; // 60 seconds max
 
 /**
@@ -24,26 +24,30 @@ async function pollUntilReady<T>(
   requestOpts: Omit<ApiRequestOptions, 'method'>,
   credentials: Credentials
 ): Promise<T> {
-  for (let attempt = 0; attempt < MAX_POLL_ATTEMPTS; attempt++) {
-    const response = await apiRequest<T>(
-      { ...requestOpts, method: 'GET', retries: 0 },
-      credentials
-    );
-
-    if (response.status === 200 && response.data) {
-      return response.data;
-    }
+  const response = await apiRequest<T>(
+    {
+      ...requestOpts,
+      method: 'GET',
+      retries: 0,
+      asyncCompletion: {
+        maxAttempts: MAX_POLL_ATTEMPTS,
+        defaultDelaySeconds: POLL_INTERVAL_SECONDS,
+        backoffMultiplier: 1,
+      },
+    },
+    credentials
+  );
 
-    if (response.status === 202) {
-      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
-      continue;
-    }
+  if (response.status === 200 && response.data) {
+    return response.data;
+  }
 
-    // Any other status is an error
-    throw new Error(response.error || `Unexpected status ${response.status}`);
+  if (response.status === 202) {
+    throw new Error('Report generation timed out after 60 seconds');
   }
 
-  throw new Error('Report generation timed out after 60 seconds');
+  // Any other status is an error
+  throw new Error(response.error || `Unexpected status ${response.status}`);
 }
 
 export const reportingService = {
@@ -1,9 +1,10 @@
-import { apiRequest } from '@/lib/apiClient';
+import { apiRequest, StatusCallback } from '@/lib/apiClient';
 import { Tenant, Credentials } from '@/types/sage';
 import { getConfig } from '@/lib/configManager';
 import { generateIdempotencyKey } from '@/lib/idempotency';
 
-const SUBSCRIPTIONS_BASE_URL = 'https://api.sandbox.sbc.sage.com/slcsadapter/v2/subscriptions';
+// Relative to the subscription API base URL (sandbox, dev proxy or local emulator)
+const SUBSCRIPTIONS_BASE_URL = '/subscriptions';
 
 export interface CreateTenantRequest {
   ProductCode: string;
@@ -40,19 +41,12 @@ export interface TenantCreationResult {
 /**
  * Callback for status updates during async operations
  */
-export type StatusCallback = (status: string) => void;
-
-/**
- * Sleep for a specified number of seconds
- */
-function sleep(seconds: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, seconds * 1000));
-}
+export type { StatusCallback };
 
 export const subscriptionService = {
   /**
    * Create a new tenant via the subscription API
-   * Handles 202 async responses with retry logic
+   * 202 async responses are polled to completion by apiClient
    */
   async createTenant(
     data: { name: string; businessName: string }, 
@@ -77,8 +71,8 @@ export const subscriptionService = {
     onStatusChange?.('Creating tenant...');
     console.log("creating tenant");
 
-    // Make initial request
-    const response = await apiRequest<CreateTenantResponse | AsyncResponse>(
+    // 202 responses are replayed with the same idempotency key until the tenant exists
+    const response = await apiRequest<CreateTenantResponse>(
       {
         method: 'POST',
         endpoint: SUBSCRIPTIONS_BASE_URL,
@@ -86,54 +80,13 @@ export const subscriptionService = {
         tokenType: 'subscription',
         featureArea: 'tenants',
         idempotencyKey,
-        retries: 0, // We'll handle retries ourselves for 202
+        asyncCompletion: { defaultDelaySeconds: 5, onStatusChange },
       },
       creds
     );
 
-    // Handle 202 Accepted - async processing
-    if (response.status === 202) {
-      const asyncHeader = response.headers as unknown as AsyncResponse;
-      console.log(asyncHeader);
-      const retryAfter = parseInt(asyncHeader['retry-after'] || '5', 10);
-      
-      onStatusChange?.(`Processing... waiting ${retryAfter} seconds`);
-      
-      await sleep(retryAfter);
-      
-      onStatusChange?.('Checking status...');
-      
-      // Retry with same idempotency key to get result
-      const retryResponse = await apiRequest<CreateTenantResponse>(
-        {
-          method: 'POST',
-          endpoint: SUBSCRIPTIONS_BASE_URL,
-          body: requestBody,
-          tokenType: 'subscription',
-          featureArea: 'tenants',
-          idempotencyKey, // Same key to get the result
-          retries: 2,
-        },
-        creds
-      );
-
-      if (!retryResponse.success || !retryResponse.data) {
-        throw new Error(retryResponse.error || 'Failed to get tenant creation result');
-      }
-
-      const tenantData = retryResponse.data;
-      return {
-        id: tenantData.TenantId,
-        name: data.name,
-        businessName: data.businessName,
-        status: 'active',
-        createdAt: new Date().toISOString(),
-      };
-    }
-
-    // Handle immediate 200/201 success
     if (response.success && response.data) {
-      const tenantData = response.data as CreateTenantResponse;
+      const tenantData = response.data;
       return {
         id: tenantData.TenantId,
         name: data.name,
@@ -0,0 +1,19 @@
+import { apiClient } from '@/lib/apiClient';
+import { Credentials, SageTaxRate } from '@/types/sage';
+
+export const taxService = {
+  /**
+   * Get the VAT / tax rates set up for a tenant
+   * URL: /tax/v1/tenant/{TenantId}/tax-rates
+   */
+  async getTaxRates(
+    tenantId: string,
+    credentials: Credentials
+  ): Promise<SageTaxRate[]> {
+    const response = await apiClient.get<{ data: SageTaxRate[] }>(
+      `/tax/v1/tenant/${tenantId}/tax-rates`,
+      { tokenType: 'tenant', featureArea: 'tax-rates', tenantId, credentials }
+    );
+    return response.data || [];
+  },
+};
@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Credentials, ParsedCsvTransaction } from '@/types/sage';
+import { ApiRequestError } from '@/lib/apiClient';
+import { UploadBatch, saveUploadBatch } from '@/lib/uploadBatches';
+import { transactionService } from './transactionService';
+
+vi.mock('@/lib/uploadBatches', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/uploadBatches')>()),
+  saveUploadBatch: vi.fn(async () => {}),
+}));
+
+const row: ParsedCsvTransaction = {
+  rowIndex: 1,
+  type: 'payment',
+  date: '2024-03-01',
+  description: 'Office rent',
+  reference: 'RENT-03',
+  amount: 1200,
+  dimensionSelections: {},
+};
+
+describe('assignIdempotencyKeys', () => {
+  it('gives the same row the same key', async () => {
+    const [first] = await transactionService.assignIdempotencyKeys('tenant', 'bank', [row]);
+    const [second] = await transactionService.assignIdempotencyKeys('tenant', 'bank', [{ ...row, rowIndex: 7 }]);
+
+    expect(first.idempotencyKey).toBe(second.idempotencyKey);
+  });
+
+  it('moves past keys retired by a void, delete or reject', async () => {
+    const [original] = await transactionService.assignIdempotencyKeys('tenant', 'bank', [row]);
+    const [reposted] = await transactionService.assignIdempotencyKeys(
+      'tenant', 'bank', [row], '', new Set([original.idempotencyKey!])
+    );
+    const [again] = await transactionService.assignIdempotencyKeys(
+      'tenant', 'bank', [row], '', new Set([original.idempotencyKey!, reposted.idempotencyKey!])
+    );
+
+    expect(reposted.idempotencyKey).not.toBe(original.idempotencyKey);
+    expect(again.idempotencyKey).not.toBe(original.idempotencyKey);
+    expect(again.idempotencyKey).not.toBe(reposted.idempotencyKey);
+  });
+});
+
+describe('runUploadBatch', () => {
+  const credentials = { bankPaymentJournalCode: 'BP', bankReceiptJournalCode: 'BR' } as Credentials;
+
+  const batch = (count: number): UploadBatch => ({
+    id: 'batch',
+    tenantId: 'tenant',
+    bankAccountId: 'bank',
+    fileName: 'rows.csv',
+    createdAt: '2024-03-01T00:00:00Z',
+    updatedAt: '2024-03-01T00:00:00Z',
+    status: 'in-progress',
+    idempotencySalt: '',
+    requiredDimensions: [],
+    rows: Array.from({ length: count }, (_, i) => ({
+      transaction: { ...row, rowIndex: i + 1 },
+      status: 'pending' as const,
+      attempts: 0,
+    })),
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(saveUploadBatch).mockReset().mockResolvedValue(undefined);
+  });
+
+  it("keeps the HTTP status of a failed row", async () => {
+    vi.spyOn(transactionService, 'createTransaction').mockRejectedValue(new ApiRequestError('Bad request', 400));
+
+    const finished = await transactionService.runUploadBatch(batch(1), credentials);
+
+    expect(finished.rows[0]).toMatchObject({ status: 'failed', httpStatus: 400, lastError: 'Bad request' });
+  });
+
+  it('stops every worker and marks the batch failed when progress cannot be saved', async () => {
+    const create = vi.spyOn(transactionService, 'createTransaction').mockResolvedValue({ Id: 'journal' });
+    vi.mocked(saveUploadBatch)
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('Quota exceeded'));
+
+    await expect(transactionService.runUploadBatch(batch(5), credentials, undefined, 1))
+      .rejects.toThrow("Upload stopped because progress couldn't be saved (Quota exceeded)");
+
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(saveUploadBatch).mock.lastCall?.[0].status).toBe('failed');
+  });
+});
@@ -1,14 +1,23 @@
-import { apiClient, apiRequest } from '@/lib/apiClient';
+import { ApiRequestError, apiClient, apiRequest } from '@/lib/apiClient';
 import { 
+  BankAccount,
   BankTransaction, 
-  CsvUploadResult, 
   Credentials, 
+  DimensionAllocation,
+  FinancialYear,
   ParsedCsvTransaction,
+  SageJournalUpdateRequest,
+  SageTaxRate,
   SageTransactionRequest,
   SageTransactionDimension,
   RequiredDimension
 } from '@/types/sage';
-import { generateIdempotencyKey } from '@/lib/idempotency';
+import { generateIdempotencyKey, deriveIdempotencyKey } from '@/lib/idempotency';
+import { UploadBatch, UploadBatchRow, saveUploadBatch, getUploadBatchStatus } from '@/lib/uploadBatches';
+import { runWithConcurrency } from '@/lib/workerPool';
+import { TransactionValidationReport, validateTransactionRequests } from '@/lib/transactionValidation';
+import { getTransactionLines } from '@/lib/splitTransactions';
+import { buildJournalPayload, buildJournalUpdatePayload } from '@/lib/journalPayload';
 
 // Default Journal IDs for payments and receipts (fallback if not configured in Admin)
 const DEFAULT_PAYMENT_JOURNAL_ID = '7078df86-3c36-f139-1b3a-390d1197b0f8';
@@ -22,15 +31,26 @@ export interface CreateTransactionResponse {
 export const transactionService = {
   /**
    * Build the Dimensions array for a transaction request.
+   * Allocated dimensions are sent as percentage shares across their tags.
    * Returns a plain Array to avoid any object-with-numeric-keys serialisation bug.
    */
   buildDimensions(
     dimensionSelections: Record<string, string>,
-    requiredDimensions: RequiredDimension[]
+    requiredDimensions: RequiredDimension[],
+    dimensionAllocations: Record<string, DimensionAllocation[]> = {}
   ): SageTransactionDimension[] {
     const dims: SageTransactionDimension[] = [];
 
     for (const dim of Array.from(requiredDimensions)) {
+      const allocations = dimensionAllocations[dim.code];
+      if (allocations?.length) {
+        dims.push({
+          Dimension: { Id: dim.code, AllocationType: 'Percentage' },
+          DimensionTags: allocations.map(a => ({ Id: a.tagCode, Percentage: a.percentage })),
+        });
+        continue;
+      }
+
       const tagCode = dimensionSelections[dim.code];
       if (!tagCode) continue;
 
@@ -55,128 +75,353 @@ export const transactionService = {
   },
 
   /**
-   * Create a single transaction (payment or receipt) with the correct Sage payload
+   * Stable content of a row for idempotency: what the bank line is,
+   * not where it sits in the file
+   */
+  getRowFingerprint(tx: ParsedCsvTransaction): string {
+    return [
+      tx.type,
+      tx.date,
+      tx.amount.toFixed(2),
+      tx.reference.trim(),
+      tx.description.trim().replace(/\s+/g, ' '),
+    ].join('|');
+  },
+
+  /**
+   * Give each row a deterministic idempotency key from tenant, bank account and
+   * row content, so re-submitting the same file can't post a journal twice.
+   * Identical rows within a file are told apart by their occurrence number;
+   * a salt lets the same rows be posted again deliberately. A row whose key
+   * is retired (its journal was voided, deleted or rejected) moves on to the
+   * next generation, so posting the corrected line isn't answered with the old journal.
+   */
+  async assignIdempotencyKeys(
+    tenantId: string,
+    bankAccountId: string,
+    transactions: ParsedCsvTransaction[],
+    salt = '',
+    retiredKeys: ReadonlySet<string> = new Set()
+  ): Promise<ParsedCsvTransaction[]> {
+    const occurrences = new Map<string, number>();
+    const parts = transactions.map(tx => {
+      const fingerprint = this.getRowFingerprint(tx);
+      const occurrence = (occurrences.get(fingerprint) || 0) + 1;
+      occurrences.set(fingerprint, occurrence);
+      return [tenantId, bankAccountId, fingerprint, String(occurrence), salt.trim()];
+    });
+
+    // Generation 0 adds nothing, so keys from before a void or delete are unchanged
+    const keys = await Promise.all(parts.map(async p => {
+      let key = await deriveIdempotencyKey(...p);
+      for (let generation = 1; retiredKeys.has(key); generation++) {
+        key = await deriveIdempotencyKey(...p, `generation:${generation}`);
+      }
+      return key;
+    }));
+    return transactions.map((tx, i) => ({ ...tx, idempotencyKey: keys[i] }));
+  },
+
+  /**
+   * Journal type a row is posted to, from Admin settings or the demo default
+   */
+  getJournalTypeId(type: ParsedCsvTransaction['type'], credentials: Credentials): string {
+    return type === 'payment'
+      ? (credentials.bankPaymentJournalCode || DEFAULT_PAYMENT_JOURNAL_ID)
+      : (credentials.bankReceiptJournalCode || DEFAULT_RECEIPT_JOURNAL_ID);
+  },
+
+  /**
+   * Build the journal request body for a row: one item per split line (or one
+   * for the full amount), receipts treated as Debit and payments as Credit,
+   * each posted to its mapped ledger account when it has one. Lines with a
+   * resolved tax rate post their gross amount with the VAT it includes.
+   * Foreign-currency rows carry the exchange rate and each item's GBP amount.
+   * Drafts don't touch the bank balance until they are finalised.
+   */
+  buildTransactionRequest(
+    bankAccountId: string,
+    tx: ParsedCsvTransaction,
+    requiredDimensions: RequiredDimension[],
+    draft = false
+  ): SageTransactionRequest {
+    const treatAs = tx.type === 'receipt' ? 'Debit' : 'Credit';
+
+    return {
+      Date: tx.date,
+      Reference: tx.reference,
+      BankAccount: { Id: bankAccountId },
+      Draft: draft,
+      ...(tx.currency && tx.exchangeRate ? { Currency: { Code: tx.currency, ExchangeRate: tx.exchangeRate } } : {}),
+      Items: getTransactionLines(tx).map((line, index) => ({
+        Order: index,
+        Date: tx.date,
+        AmountType: line.taxRateId ? 'TaxesIncluded' : 'TaxesExcluded',
+        Amount: line.amount,
+        TreatAs: treatAs,
+        ...(line.ledgerAccountId ? { LedgerAccount: { Id: line.ledgerAccountId } } : {}),
+        ...(line.taxRateId ? { TaxRate: { Id: line.taxRateId }, TaxAmount: line.taxAmount ?? 0 } : {}),
+        ...(tx.currency && line.baseAmount !== undefined ? { BaseAmount: line.baseAmount } : {}),
+        Dimensions: this.buildDimensions(line.dimensionSelections, requiredDimensions, line.dimensionAllocations),
+      })),
+    };
+  },
+
+  /**
+   * Create a single transaction (payment or receipt) with the correct Sage payload.
+   * Split transactions post as one journal with an item per line. The body goes
+   * through buildJournalPayload, so text from the file is always escaped.
    */
   async createTransaction(
     tenantId: string,
     bankAccountId: string,
     tx: ParsedCsvTransaction,
     requiredDimensions: RequiredDimension[],
-    credentials: Credentials
+    credentials: Credentials,
+    draft = false
   ): Promise<CreateTransactionResponse> {
-    const journalTypeId = tx.type === 'payment' 
-      ? (credentials.bankPaymentJournalCode || DEFAULT_PAYMENT_JOURNAL_ID)
-      : (credentials.bankReceiptJournalCode || DEFAULT_RECEIPT_JOURNAL_ID);
-    const treatAs = tx.type === 'receipt' ? 'Debit' : 'Credit';
-    
-    const dimensions = this.buildDimensions(tx.dimensionSelections, requiredDimensions);
-
-    // Build the JSON string manually to guarantee arrays stay as arrays
-    const dimensionsJsonStr = dimensions.map(d => {
-      const allocType = d.Dimension.AllocationType
-        ? `,"AllocationType":"${d.Dimension.AllocationType}"` : '';
-      const tagsStr = d.DimensionTags.map(t => {
-        const pct = t.Percentage !== undefined ? `,"Percentage":${t.Percentage}` : '';
-        return `{"Id":"${t.Id}"${pct}}`;
-      }).join(',');
-      return `{"Dimension":{"Id":"${d.Dimension.Id}"${allocType}},"DimensionTags":[${tagsStr}]}`;
-    }).join(',');
-
-    const bodyString = `{"Date":"${tx.date}","Reference":"${tx.reference}","BankAccount":{"Id":"${bankAccountId}"},"Draft":false,"Items":[{"Order":0,"Date":"${tx.date}","AmountType":"TaxesExcluded","Amount":${tx.amount},"TreatAs":"${treatAs}","Dimensions":[${dimensionsJsonStr}]}]}`;
-
-    const idempotencyKey = generateIdempotencyKey();
+    const journalTypeId = this.getJournalTypeId(tx.type, credentials);
+    const payload = buildJournalPayload(this.buildTransactionRequest(bankAccountId, tx, requiredDimensions, draft));
+
+    const idempotencyKey = tx.idempotencyKey || generateIdempotencyKey();
     const response = await apiRequest<CreateTransactionResponse>(
       {
         method: 'POST',
         endpoint: `/transaction/v2/tenant/${tenantId}/journals/${journalTypeId}`,
-        rawBody: bodyString,
+        body: payload,
         tokenType: 'tenant',
         featureArea: 'transactions',
         tenantId,
         idempotencyKey,
+        asyncCompletion: {},
       },
       credentials
     );
 
-    // Handle 202 async processing
-    if (response.status === 202) {
-      const retryAfter = parseInt(response.headers['retry-after'] || '2', 10);
-      await new Promise(resolve => setTimeout(resolve, retryAfter * 1000));
-
-      const followUp = await apiRequest<CreateTransactionResponse>(
-        {
-          method: 'POST',
-          endpoint: `/transaction/v2/tenant/${tenantId}/journals/${journalTypeId}`,
-          rawBody: bodyString,
-          tokenType: 'tenant',
-          featureArea: 'transactions',
-          tenantId,
-          idempotencyKey,
-        },
-        credentials
-      );
-
-      if (!followUp.success) {
-        throw new Error(followUp.error || `Follow-up failed: ${followUp.status}`);
-      }
-      return followUp.data!;
+    if (!response.success) {
+      throw new ApiRequestError(response.error || `Request failed: ${response.status}`, response.status);
     }
+    return response.data!;
+  },
+
+  /**
+   * Correct the date, reference or amount of a posted journal.
+   * Voided journals can't be edited; the amount only on single-item journals.
+   * URL: /transaction/v2/tenant/{TenantId}/journals/{JournalId}
+   */
+  async updateJournal(
+    tenantId: string,
+    journalId: string,
+    changes: SageJournalUpdateRequest,
+    credentials: Credentials
+  ): Promise<void> {
+    const response = await apiRequest<void>(
+      {
+        method: 'PUT',
+        endpoint: `/transaction/v2/tenant/${tenantId}/journals/${journalId}`,
+        body: buildJournalUpdatePayload(changes),
+        tokenType: 'tenant',
+        featureArea: 'transactions',
+        tenantId,
+        idempotencyKey: generateIdempotencyKey(),
+      },
+      credentials
+    );
 
     if (!response.success) {
-      throw new Error(response.error || `Request failed: ${response.status}`);
+      throw new Error(response.error || 'Failed to update journal');
     }
-    return response.data!;
   },
 
   /**
-   * Upload parsed CSV transactions with dimension selections
+   * Void a posted journal: it stays on record but no longer affects balances
+   * URL: /transaction/v2/tenant/{TenantId}/journals/{JournalId}/void
    */
-  async uploadTransactions(
+  async voidJournal(
     tenantId: string,
+    journalId: string,
+    reason: string,
+    credentials: Credentials
+  ): Promise<void> {
+    const response = await apiRequest<void>(
+      {
+        method: 'POST',
+        endpoint: `/transaction/v2/tenant/${tenantId}/journals/${journalId}/void`,
+        body: { Reason: reason },
+        tokenType: 'tenant',
+        featureArea: 'transactions',
+        tenantId,
+        idempotencyKey: generateIdempotencyKey(),
+      },
+      credentials
+    );
+
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to void journal');
+    }
+  },
+
+  /**
+   * Delete a journal outright, reversing its effect on the bank balance
+   * URL: /transaction/v2/tenant/{TenantId}/journals/{JournalId}
+   */
+  async deleteJournal(tenantId: string, journalId: string, credentials: Credentials): Promise<void> {
+    const response = await apiRequest<void>(
+      {
+        method: 'DELETE',
+        endpoint: `/transaction/v2/tenant/${tenantId}/journals/${journalId}`,
+        tokenType: 'tenant',
+        featureArea: 'transactions',
+        tenantId,
+      },
+      credentials
+    );
+
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to delete journal');
+    }
+  },
+
+  /**
+   * Finalise a draft journal to Completed, so it posts to the ledger and bank balance
+   * URL: /transaction/v2/tenant/{TenantId}/journals/{JournalId}/finalise
+   */
+  async finaliseJournal(tenantId: string, journalId: string, credentials: Credentials): Promise<void> {
+    const response = await apiRequest<void>(
+      {
+        method: 'POST',
+        endpoint: `/transaction/v2/tenant/${tenantId}/journals/${journalId}/finalise`,
+        tokenType: 'tenant',
+        featureArea: 'transactions',
+        tenantId,
+        idempotencyKey: generateIdempotencyKey(),
+      },
+      credentials
+    );
+
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to finalise journal');
+    }
+  },
+
+  /**
+   * Dry run: build every row's request body and check it without posting.
+   * Financial years, bank accounts and tax rates are passed in as fetched from
+   * Sage (null when the fetch failed, which is reported as a warning).
+   */
+  validateTransactions(
     bankAccountId: string,
     transactions: ParsedCsvTransaction[],
     requiredDimensions: RequiredDimension[],
-    credentials: Credentials
-  ): Promise<CsvUploadResult[]> {
-    const results: CsvUploadResult[] = [];
+    credentials: Credentials,
+    remote: {
+      financialYears: FinancialYear[] | null;
+      bankAccounts: BankAccount[] | null;
+      taxRates?: SageTaxRate[] | null;
+    },
+    categoryMappingsConfigured = false
+  ): TransactionValidationReport {
+    const entries = transactions.map(tx => ({
+      tx,
+      request: this.buildTransactionRequest(bankAccountId, tx, requiredDimensions),
+    }));
+
+    return validateTransactionRequests(entries, {
+      bankAccountId,
+      requiredDimensions,
+      journalTypes: {
+        payment: {
+          id: this.getJournalTypeId('payment', credentials),
+          configured: !!credentials.bankPaymentJournalCode,
+        },
+        receipt: {
+          id: this.getJournalTypeId('receipt', credentials),
+          configured: !!credentials.bankReceiptJournalCode,
+        },
+      },
+      financialYears: remote.financialYears,
+      remoteBankAccounts: remote.bankAccounts,
+      taxRates: remote.taxRates,
+      categoryMappingsConfigured,
+    });
+  },
+
+  /**
+   * Send a batch's pending rows through a worker pool, saving the batch after
+   * each one so an interrupted upload can be resumed. Rows that succeeded are
+   * never re-sent, and re-sent rows reuse their idempotency key. If progress
+   * can't be saved, every worker stops and the batch is marked failed.
+   */
+  async runUploadBatch(
+    batch: UploadBatch,
+    credentials: Credentials,
+    onRowComplete?: (row: UploadBatchRow, batch: UploadBatch) => void,
+    concurrency = 1,
+    signal?: AbortSignal
+  ): Promise<UploadBatch> {
+    const current: UploadBatch = { ...batch, status: 'in-progress', rows: batch.rows.map(r => ({ ...r })) };
+    await saveUploadBatch(current);
+
+    const pending = current.rows
+      .map((row, index) => (row.status === 'pending' ? index : -1))
+      .filter(index => index >= 0);
+
+    // Pause stops the workers, and so does a failed save
+    const stop = new AbortController();
+    if (signal?.aborted) stop.abort();
+    signal?.addEventListener('abort', () => stop.abort(), { once: true });
+    let saveError: unknown = null;
+
+    await runWithConcurrency(pending, concurrency, async (i) => {
+      const row = current.rows[i];
 
-    for (let i = 0; i < transactions.length; i++) {
-      const tx = transactions[i];
       try {
         const response = await this.createTransaction(
-          tenantId,
-          bankAccountId,
-          tx,
-          requiredDimensions,
-          credentials
+          current.tenantId,
+          current.bankAccountId,
+          row.transaction,
+          current.requiredDimensions,
+          credentials,
+          current.postAsDraft
         );
+        current.rows[i] = {
+          ...row,
+          status: 'success',
+          journalId: response.Id || response.id || '',
+          httpStatus: 201,
+          lastError: undefined,
+          attempts: row.attempts + 1,
+          updatedAt: new Date().toISOString(),
+        };
+      } catch (error) {
+        current.rows[i] = {
+          ...row,
+          status: 'failed',
+          httpStatus: error instanceof ApiRequestError && error.status ? error.status : undefined,
+          lastError: error instanceof Error ? error.message : 'Unknown error',
+          attempts: row.attempts + 1,
+          updatedAt: new Date().toISOString(),
+        };
+      }
 
-        results.push({
-          row: tx.rowIndex,
-          success: true,
-          status: 201,
-          data: {
-            id: response.Id || response.id || '',
-            tenantId,
-            bankAccountId,
-            type: tx.type,
-            date: tx.date,
-            description: tx.description,
-            reference: tx.reference,
-            amount: tx.amount,
-            category: tx.category || 'Uncategorized',
-          },
-        });
-      } catch (error: any) {
-        results.push({
-          row: tx.rowIndex,
-          success: false,
-          status: error.status || 500,
-          message: error.message || 'Unknown error',
-        });
+      current.status = getUploadBatchStatus(current);
+      const snapshot = { ...current, rows: [...current.rows] };
+      try {
+        await saveUploadBatch(snapshot);
+      } catch (error) {
+        saveError ??= error;
+        stop.abort();
       }
+      onRowComplete?.(snapshot.rows[i], snapshot);
+    }, stop.signal);
+
+    if (saveError) {
+      current.status = 'failed';
+      await saveUploadBatch({ ...current, rows: [...current.rows] }).catch(() => undefined);
+      const reason = saveError instanceof Error ? saveError.message : 'Unknown error';
+      throw new Error(`Upload stopped because progress couldn't be saved (${reason}). Rows already sent are kept in the app.`);
     }
 
-    return results;
+    return { ...current, rows: [...current.rows] };
   },
 };
@@ -50,6 +50,41 @@ export interface BankTransaction {
   reference: string;
   amount: number;
   category: string;
+  currency?: string; // Account currency when it isn't GBP
+  baseAmount?: number; // GBP equivalent of amount
+  journalId?: string; // Sage journal Id, so the posted journal can be edited, voided or deleted
+  voidedAt?: string; // Set once the journal is voided in Sage
+  draft?: boolean; // Posted as a Sage draft and waiting in the approval queue
+  idempotencyKey?: string; // Key the journal was posted with
+  journalItems?: number; // Items the app posted the journal with
+  taxed?: boolean; // Posted with a VAT rate on at least one item
+}
+
+// Changes sent when correcting a posted journal; omitted fields are left as they are
+export interface SageJournalUpdateRequest {
+  Date?: string;
+  Reference?: string;
+  Amount?: number; // Single-item journals only
+}
+
+export interface JournalAuditChange {
+  field: string;
+  from: string;
+  to: string;
+}
+
+// One change to a posted or draft journal, with who made it
+export interface JournalAuditEntry {
+  id: string;
+  tenantId: string;
+  journalId: string;
+  action: 'edit' | 'void' | 'delete' | 'approve' | 'reject';
+  reference: string; // Journal reference at the time, so deleted journals stay identifiable
+  changes: JournalAuditChange[];
+  reason?: string;
+  idempotencyKey?: string; // Posting key retired by a void, delete or reject, so the line can be posted again
+  changedBy: string;
+  changedAt: string;
 }
 
 export interface OpeningBalance {
@@ -189,6 +224,55 @@ export interface SageDimensionTag {
   IsActive: boolean;
 }
 
+// Ledger (nominal) account from the ledger API
+export interface SageLedgerAccount {
+  Id: string;
+  Code: string;
+  Name: string;
+  Type: string;
+  IsActive: boolean;
+}
+
+// Per-tenant mapping from a CSV category to the ledger account it posts to
+export interface CategoryLedgerMapping {
+  tenantId: string;
+  category: string; // '*' matches any category without its own mapping
+  ledgerAccountId: string;
+  ledgerAccountCode: string;
+  ledgerAccountName: string;
+  taxCode?: string; // Default tax code for rows in this category without their own
+}
+
+// Per-tenant rule that fills in a parsed row's category, ledger account and
+// dimension tags when every condition it sets matches
+export interface CategorisationRule {
+  id: string;
+  tenantId: string;
+  name: string;
+  enabled: boolean;
+  conditions: {
+    descriptionContains?: string; // Case-insensitive
+    descriptionRegex?: string; // Case-insensitive
+    minAmount?: number;
+    maxAmount?: number;
+    type?: 'payment' | 'receipt';
+    referencePrefix?: string; // Case-insensitive
+  };
+  actions: {
+    category?: string;
+    ledgerAccount?: { id: string; code: string; name: string };
+    dimensionSelections?: Record<string, string>; // dimensionCode -> tagCode
+  };
+}
+
+export interface SageTaxRate {
+  Id: string;
+  Code: string;
+  Name: string;
+  Percentage: number;
+  IsActive: boolean;
+}
+
 export interface RequiredDimension {
   id: string;
   code: string;
@@ -215,6 +299,14 @@ export interface SageTransactionItem {
   AmountType: string;
   Amount: number;
   TreatAs: 'Debit' | 'Credit';
+  LedgerAccount?: {
+    Id: string;
+  };
+  TaxRate?: {
+    Id: string;
+  };
+  TaxAmount?: number; // VAT included in Amount when AmountType is 'TaxesIncluded'
+  BaseAmount?: number; // GBP equivalent of Amount for foreign-currency journals
   Dimensions: SageTransactionDimension[];
 }
 
@@ -224,6 +316,11 @@ export interface SageTransactionRequest {
   BankAccount: {
     Id: string;
   };
+  Draft?: boolean;
+  Currency?: {
+    Code: string;
+    ExchangeRate: number; // Currency units per 1 GBP
+  };
   Items: SageTransactionItem[];
 }
 
@@ -237,6 +334,55 @@ export interface ParsedCsvTransaction {
   amount: number;
   category?: string;
   dimensionSelections: Record<string, string>; // dimensionCode -> tagCode
+  dimensionAllocations?: Record<string, DimensionAllocation[]>; // dimensionCode -> tags summing to 100%
+  unresolvedDimensions?: Record<string, string>; // dimensionCode -> value from the file that matched no tag
+  validationErrors?: string[]; // Problems found while parsing this row
+  duplicate?: TransactionDuplicateMatch; // Likely already posted
+  duplicateAction?: 'skip' | 'keep';
+  idempotencyKey?: string; // Derived from tenant, account and row content
+  ledgerAccountId?: string; // From a categorisation rule, or mapped from category at submit time
+  categorisationRuleId?: string; // Rule that filled in this row
+  taxCode?: string; // From the file, or the category's default
+  taxRateId?: string; // Resolved from taxCode at submit time
+  taxAmount?: number; // VAT included in amount, worked out at submit time
+  currency?: string; // Bank account currency when it isn't GBP, set at submit time
+  exchangeRate?: number; // Currency units per 1 GBP
+  baseAmount?: number; // GBP equivalent of amount
+  splitGroup?: string; // Rows sharing this value in the file are one bank line
+  splits?: TransactionSplit[]; // Journal items; amounts add up to amount
+}
+
+// One line of a split transaction, posted as its own journal item
+export interface TransactionSplit {
+  amount: number;
+  category?: string;
+  description?: string;
+  dimensionSelections: Record<string, string>; // dimensionCode -> tagCode
+  dimensionAllocations?: Record<string, DimensionAllocation[]>;
+  unresolvedDimensions?: Record<string, string>;
+  ledgerAccountId?: string;
+  taxCode?: string;
+  taxRateId?: string;
+  taxAmount?: number;
+  baseAmount?: number;
+}
+
+// Share of a dimension allocated to one tag
+export interface DimensionAllocation {
+  tagCode: string;
+  percentage: number;
+}
+
+// An existing transaction a parsed row appears to repeat
+export interface TransactionDuplicateMatch {
+  source: 'local' | 'sage';
+  id: string;
+  date: string;
+  amount: number;
+  reference: string;
+  description?: string;
+  score: number; // 0-1
+  reasons: string[];
 }
 
 // CSV upload types
@@ -246,4 +392,5 @@ export interface CsvUploadResult {
   status?: number;
   message?: string;
   data?: BankTransaction;
+  idempotencyKey?: string;
 }